@@ -1,65 +1,248 @@
 import React, { useState, useRef } from 'react';
-import { AnalysisState, AnalysisResult } from './types';
-import { analyzeImageEdits } from './services/geminiService';
-import { getExifDeviceData } from './services/metadataService';
+import { AnalysisState, AnalysisResult, CaseRecord, ChatMessage, EnsembleConfig, FixtureMode, ImageRegion, MetadataReport, PrivacyPolicy, ProviderConfig, SensitiveField, ToolCatalogEntry, UploadBudget, UploadPayloadInfo } from './types';
+import { getProviderDefinition, loadProviderConfig, saveProviderConfig } from './services/providerService';
+import { analyzeImage } from './services/analysisService';
+import { PHOTOSHOP_TOOL_ID, loadToolCatalog, saveToolCatalog } from './services/toolCatalogService';
+import { findCaseBySha256, saveCase, updateCaseResult } from './services/caseLibraryService';
+import { sha256OfBlob } from './services/hashService';
+import { collectMetadataEvidence, evidenceForTool } from './services/evidenceService';
+import { describeUploadPayload, loadUploadBudget, saveUploadBudget } from './services/uploadService';
+import { IMAGE_FILE_ACCEPT, displayableImage, isImageFile } from './services/rawPreviewService';
+import { FixtureSession, browserFixtureStore, loadFixtureMode, saveFixtureMode } from './services/fixtureService';
+import { loadEnsembleConfig, saveEnsembleConfig } from './services/ensembleService';
+import { loadPrivacyPolicy, savePrivacyPolicy } from './services/privacyService';
+import { askDetective } from './services/chatService';
 import AnalysisChart from './components/AnalysisChart';
+import MetadataTable from './components/MetadataTable';
+import TimelineCard from './components/TimelineCard';
+import XmpPanel from './components/XmpPanel';
+import ProvenancePanel from './components/ProvenancePanel';
+import GeneratorPanel from './components/GeneratorPanel';
+import CompressionCard from './components/CompressionCard';
+import ImagePreview from './components/ImagePreview';
+import AnalysisErrorPanel from './components/AnalysisErrorPanel';
+import PrivacyPrompt from './components/PrivacyPrompt';
+import SettingsPanel from './components/SettingsPanel';
+import VerdictCard from './components/VerdictCard';
+import BatchView from './components/BatchView';
+import CaseLibrary from './components/CaseLibrary';
+import CompareView from './components/CompareView';
+import CaseNotesPanel from './components/CaseNotesPanel';
+import ReportExportPanel from './components/ReportExportPanel';
+import ChatPanel from './components/ChatPanel';
+import SimilarImagesPanel from './components/SimilarImagesPanel';
 import { LoadingSpinner } from './components/LoadingSpinner';
 
+const TRUST_LIST_STORAGE_KEY = 'photo-detective:c2pa-trust-list';
+
 const App: React.FC = () => {
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  // What the preview shows: the file itself, or a RAW file's embedded JPEG
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
   const [analysisState, setAnalysisState] = useState<AnalysisState>(AnalysisState.IDLE);
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // Local file analysis, available even when the AI call is still running or failed
+  const [localMetadata, setLocalMetadata] = useState<MetadataReport | null>(null);
+  const [analysisError, setAnalysisError] = useState<unknown>(null);
+  const [trustList, setTrustList] = useState<string>(() => localStorage.getItem(TRUST_LIST_STORAGE_KEY) ?? '');
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const [toolCatalog, setToolCatalog] = useState<ToolCatalogEntry[]>(loadToolCatalog);
+  const [uploadBudget, setUploadBudget] = useState<UploadBudget>(loadUploadBudget);
+  // The payload of the analysis in progress; finished results carry theirs in run.payload
+  const [uploadInfo, setUploadInfo] = useState<UploadPayloadInfo | null>(null);
+  const [fixtureMode, setFixtureMode] = useState<FixtureMode>(loadFixtureMode);
+  const [ensemble, setEnsemble] = useState<EnsembleConfig>(loadEnsembleConfig);
+  const [privacyPolicy, setPrivacyPolicy] = useState<PrivacyPolicy>(loadPrivacyPolicy);
+  // Sensitive fields awaiting the analyst's decision under the "ask" privacy policy
+  const [privacyPrompt, setPrivacyPrompt] = useState<{ fields: SensitiveField[]; decide: (strip: boolean | null) => void } | null>(null);
+  const fixtures: FixtureSession | undefined = fixtureMode === 'off' ? undefined : { mode: fixtureMode, store: browserFixtureStore };
+  const [mode, setMode] = useState<'single' | 'batch' | 'compare' | 'library'>('single');
+  const [currentCase, setCurrentCase] = useState<CaseRecord | null>(null);
+  const [hoveredTool, setHoveredTool] = useState<number | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  // The place on the preview the next follow-up question points at
+  const [chatRegion, setChatRegion] = useState<ImageRegion | null>(null);
+  const [chatPicking, setChatPicking] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const showPreview = (file: File) => {
+    displayableImage(file)
+      .then((display) => (display === file ? file : new File([display], file.name, { type: display.type })))
+      .catch(() => file)
+      .then((display) => {
+        setPreviewFile(display);
+        setImagePreview(URL.createObjectURL(display));
+      });
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      if (file.type.startsWith('image/')) {
+      if (isImageFile(file)) {
         setImageFile(file);
-        const objectUrl = URL.createObjectURL(file);
-        setImagePreview(objectUrl);
+        showPreview(file);
         
         // Reset state
         setResult(null);
+        setLocalMetadata(null);
+        setCurrentCase(null);
         setAnalysisState(AnalysisState.IDLE);
-        setErrorMsg(null);
+        setAnalysisError(null);
+        setCachedAt(null);
+        setChatRegion(null);
+        setChatPicking(false);
       } else {
         alert("Please upload a valid image file.");
       }
     }
   };
 
-  const handleAnalyze = async () => {
+  const confirmSensitiveUpload = (fields: SensitiveField[]) =>
+    new Promise<boolean>((resolve, reject) => {
+      setPrivacyPrompt({
+        fields,
+        decide: (strip) => {
+          setPrivacyPrompt(null);
+          if (strip === null) reject(new DOMException('The upload was cancelled', 'AbortError'));
+          else resolve(strip);
+        },
+      });
+    });
+
+  const handleAnalyze = async (bypassCache = false) => {
     if (!imageFile) return;
 
     setAnalysisState(AnalysisState.ANALYZING);
-    setErrorMsg(null);
+    setAnalysisError(null);
+    setLocalMetadata(null);
+    setCachedAt(null);
+    setUploadInfo(null);
 
     try {
-      // Run Gemini analysis and Metadata extraction in parallel
-      const [aiData, metadataDevice] = await Promise.all([
-        analyzeImageEdits(imageFile),
-        getExifDeviceData(imageFile)
-      ]);
-
-      // Merge findings
-      const finalResult: AnalysisResult = {
-        ...aiData,
-        metadataDevice: metadataDevice
-      };
+      const finalResult = await analyzeImage(imageFile, {
+        providerConfig,
+        toolCatalog,
+        trustList,
+        onMetadata: setLocalMetadata,
+        bypassCache,
+        onCacheHit: setCachedAt,
+        uploadBudget,
+        onUpload: setUploadInfo,
+        fixtures,
+        ensemble,
+        privacyPolicy,
+        confirmSensitiveUpload
+      });
 
       setResult(finalResult);
       setAnalysisState(AnalysisState.SUCCESS);
+      saveAnalyzedCase(imageFile, finalResult, true);
     } catch (err: any) {
+      // Cancelled at the privacy prompt: nothing was sent, so go back to the ready state
+      if (err?.name === 'AbortError') {
+        setAnalysisState(AnalysisState.IDLE);
+        return;
+      }
       console.error(err);
       setAnalysisState(AnalysisState.ERROR);
-      setErrorMsg(err.message || "Failed to analyze image. Please try again.");
+      setAnalysisError(err);
     }
   };
 
+  const metadataEvidence = collectMetadataEvidence(result?.metadata, toolCatalog);
+  // Evidence naming a tool the AI did not score (e.g. Stable Diffusion) still needs to be shown
+  const unmatchedEvidence = metadataEvidence.filter(
+    (item) => !result?.detectedTools.some((tool) => evidenceForTool(tool, [item]).length > 0)
+  );
+
+  const handleTrustListChange = (pem: string) => {
+    setTrustList(pem);
+    localStorage.setItem(TRUST_LIST_STORAGE_KEY, pem);
+  };
+
+  // Every completed analysis is kept in the local case library
+  const saveAnalyzedCase = (file: File, analysis: AnalysisResult, makeCurrent: boolean) => {
+    saveCase(file, analysis)
+      .then((record) => makeCurrent && setCurrentCase(record))
+      .catch((err) => console.warn("Could not save case:", err));
+  };
+
+  const showResult = (file: File, analysis: AnalysisResult) => {
+    setImageFile(file);
+    showPreview(file);
+    setResult(analysis);
+    setLocalMetadata(analysis.metadata ?? null);
+    setAnalysisError(null);
+    setCachedAt(null);
+    setChatRegion(null);
+    setChatPicking(false);
+    setAnalysisState(AnalysisState.SUCCESS);
+    setMode('single');
+  };
+
+  const openBatchResult = (file: File, batchResult: AnalysisResult) => {
+    showResult(file, batchResult);
+    setCurrentCase(null);
+    sha256OfBlob(file).then(findCaseBySha256).then(setCurrentCase).catch(() => setCurrentCase(null));
+  };
+
+  const openCase = (record: CaseRecord) => {
+    // Cases of very large files only kept a thumbnail, which stands in for the preview
+    const blob = record.image ?? record.thumbnail ?? new Blob();
+    showResult(new File([blob], record.fileName, { type: blob.type || record.fileType, lastModified: record.lastModified }), record.result);
+    setCurrentCase(record);
+  };
+
+  const handleAsk = async (text: string, rescore: boolean) => {
+    if (!imageFile || !result) return;
+    const question: ChatMessage = { role: 'analyst', text, ...(chatRegion && { region: chatRegion }), sentAt: new Date().toISOString() };
+    const updated = await askDetective(imageFile, result, question, rescore, { providerConfig, toolCatalog, uploadBudget, privacyPolicy, fixtures });
+    // Another image may have been opened while the question was out
+    setResult((current) => (current === result ? updated : current));
+    setChatRegion(null);
+    setChatPicking(false);
+    // A case opened from a thumbnail has no matching file hash, so it is updated by id
+    if (currentCase) {
+      updateCaseResult(currentCase.id, updated)
+        .then((record) => record && setCurrentCase((current) => (current?.id === record.id ? record : current)))
+        .catch((err) => console.warn("Could not save case:", err));
+    } else {
+      saveAnalyzedCase(imageFile, updated, false);
+    }
+  };
+
+  const handleProviderConfigChange = (config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+  };
+
+  const handleToolCatalogChange = (catalog: ToolCatalogEntry[]) => {
+    setToolCatalog(catalog);
+    saveToolCatalog(catalog);
+  };
+
+  const handleUploadBudgetChange = (budget: UploadBudget) => {
+    setUploadBudget(budget);
+    saveUploadBudget(budget);
+  };
+
+  const handleFixtureModeChange = (mode: FixtureMode) => {
+    setFixtureMode(mode);
+    saveFixtureMode(mode);
+  };
+
+  const handleEnsembleChange = (config: EnsembleConfig) => {
+    setEnsemble(config);
+    saveEnsembleConfig(config);
+  };
+
+  const handlePrivacyPolicyChange = (policy: PrivacyPolicy) => {
+    setPrivacyPolicy(policy);
+    savePrivacyPolicy(policy);
+  };
+
   const triggerFileInput = () => {
     fileInputRef.current?.click();
   };
@@ -96,14 +279,64 @@ const App: React.FC = () => {
             Photo Detective
           </h1>
           <p className="text-slate-400 max-w-lg mx-auto">
-            Forensic analysis powered by Gemini 3 Pro. Detect and traces image manipulation.
+            Forensic analysis powered by {getProviderDefinition(providerConfig.providerId).label} ({providerConfig.model}). Detect and traces image manipulation.
           </p>
         </header>
 
+        <SettingsPanel
+          providerConfig={providerConfig}
+          onProviderConfigChange={handleProviderConfigChange}
+          toolCatalog={toolCatalog}
+          onToolCatalogChange={handleToolCatalogChange}
+          uploadBudget={uploadBudget}
+          onUploadBudgetChange={handleUploadBudgetChange}
+          fixtureMode={fixtureMode}
+          onFixtureModeChange={handleFixtureModeChange}
+          ensemble={ensemble}
+          onEnsembleChange={handleEnsembleChange}
+          privacyPolicy={privacyPolicy}
+          onPrivacyPolicyChange={handlePrivacyPolicyChange}
+        />
+
+        <div className="flex justify-center gap-2">
+          {(['single', 'batch', 'compare', 'library'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-4 py-1.5 rounded-full text-sm font-bold border transition-colors ${mode === m ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300' : 'border-slate-700 text-slate-400 hover:text-cyan-400'}`}
+            >
+              {m === 'single' ? 'Single image' : m === 'batch' ? 'Batch' : m === 'compare' ? 'Compare' : 'Case library'}
+            </button>
+          ))}
+        </div>
+
         {/* Main Content Area */}
         <main className="bg-slate-800/50 backdrop-blur-sm border border-slate-700/50 rounded-3xl p-6 md:p-8 shadow-2xl">
-          
-          <div className="flex flex-col gap-8">
+
+          {/* Batch mode stays mounted so its queue keeps running while a result is open */}
+          <div className={mode === 'batch' ? '' : 'hidden'}>
+            <BatchView
+              providerConfig={providerConfig}
+              toolCatalog={toolCatalog}
+              trustList={trustList}
+              uploadBudget={uploadBudget}
+              fixtures={fixtures}
+              ensemble={ensemble}
+              privacyPolicy={privacyPolicy}
+              onOpen={openBatchResult}
+              onAnalyzed={(file, analysis) => saveAnalyzedCase(file, analysis, false)}
+            />
+          </div>
+
+          {/* Kept mounted so switching tabs does not discard a finished comparison */}
+          <div className={mode === 'compare' ? '' : 'hidden'}>
+            <CompareView providerConfig={providerConfig} trustList={trustList} uploadBudget={uploadBudget} fixtures={fixtures} privacyPolicy={privacyPolicy} />
+          </div>
+
+          {/* Remounted on every visit so the list reflects newly saved cases */}
+          {mode === 'library' && <CaseLibrary onOpen={openCase} />}
+
+          <div className={`flex flex-col gap-8 ${mode === 'single' ? '' : 'hidden'}`}>
             
             {/* Top Section: Upload & Preview */}
             <div className="space-y-6 w-full">
@@ -118,23 +351,39 @@ const App: React.FC = () => {
                   type="file" 
                   ref={fileInputRef} 
                   onChange={handleFileChange} 
-                  accept="image/*" 
+                  accept={IMAGE_FILE_ACCEPT}
                   className="hidden" 
                 />
 
-                {imagePreview ? (
+                {imagePreview && imageFile ? (
                   <div className="relative w-full h-full flex items-center justify-center py-4">
-                    <img 
-                      src={imagePreview} 
-                      alt="Preview" 
-                      className="max-h-[500px] w-auto rounded-lg shadow-md object-contain"
+                    <ImagePreview
+                      key={imagePreview}
+                      file={previewFile ?? imageFile}
+                      src={imagePreview}
+                      clonePairs={result?.copyMove?.pairs ?? []}
+                      tools={result?.detectedTools ?? []}
+                      hoveredTool={hoveredTool}
+                      onHoverTool={setHoveredTool}
+                      picking={chatPicking && !!result}
+                      pickedRegion={chatRegion}
+                      onPickRegion={(region) => {
+                        setChatRegion(region);
+                        setChatPicking(false);
+                      }}
                     />
                     <button 
                       onClick={(e) => {
                         e.stopPropagation();
                         setImageFile(null);
                         setImagePreview(null);
+                        setPreviewFile(null);
                         setResult(null);
+                        setLocalMetadata(null);
+                        setCurrentCase(null);
+                        setCachedAt(null);
+                        setChatRegion(null);
+                        setChatPicking(false);
                         setAnalysisState(AnalysisState.IDLE);
                       }}
                       className="absolute top-4 right-4 bg-slate-900/80 hover:bg-red-500/80 text-white p-2 rounded-full backdrop-blur-md transition-colors"
@@ -162,7 +411,7 @@ const App: React.FC = () => {
 
               {imageFile && analysisState === AnalysisState.IDLE && (
                 <button
-                  onClick={handleAnalyze}
+                  onClick={() => handleAnalyze()}
                   className="w-full py-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-900/50 transform hover:scale-[1.02] active:scale-[0.98] transition-all duration-200"
                 >
                   Analyze Image
@@ -176,25 +425,43 @@ const App: React.FC = () => {
             {analysisState !== AnalysisState.IDLE && (
               <div className="flex flex-col w-full animate-fadeIn">
                 
-                {analysisState === AnalysisState.ANALYZING && (
-                  <div className="flex items-center justify-center border border-slate-700/30 rounded-2xl bg-slate-900/20 py-12">
+                {analysisState === AnalysisState.ANALYZING && privacyPrompt && (
+                  <PrivacyPrompt fields={privacyPrompt.fields} onDecide={privacyPrompt.decide} />
+                )}
+
+                {analysisState === AnalysisState.ANALYZING && !privacyPrompt && (
+                  <div className="flex flex-col items-center justify-center gap-4 border border-slate-700/30 rounded-2xl bg-slate-900/20 py-12">
                     <LoadingSpinner />
+                    {uploadInfo && <p className="text-xs text-slate-400">Sending {describeUploadPayload(uploadInfo)}</p>}
                   </div>
                 )}
 
                 {analysisState === AnalysisState.ERROR && (
-                  <div className="flex flex-col items-center justify-center p-6 border border-red-900/50 bg-red-900/10 rounded-2xl text-red-200">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-2 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                    <p className="text-center font-medium">Analysis Failed</p>
-                    <p className="text-sm text-red-400 mt-2 text-center">{errorMsg}</p>
-                  </div>
+                  <AnalysisErrorPanel error={analysisError} onRetry={() => handleAnalyze()} />
                 )}
 
                 {analysisState === AnalysisState.SUCCESS && result && (
                   <div className="space-y-6">
-                    
+
+                    {cachedAt && (
+                      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 rounded-xl border border-cyan-800/60 bg-cyan-900/20 text-xs text-cyan-200">
+                        <span>
+                          <span className="px-1.5 py-0.5 mr-2 rounded bg-cyan-900/60 border border-cyan-700/50 font-bold">CACHED</span>
+                          Same image and settings as an analysis from {new Date(cachedAt).toLocaleString()}; no new provider call was made.
+                        </span>
+                        <button onClick={() => handleAnalyze(true)} className="font-bold text-cyan-300 hover:text-cyan-100">
+                          Re-run analysis
+                        </button>
+                      </div>
+                    )}
+
+                    {result.run?.fixtureMode === 'replay' && (
+                      <div className="px-4 py-2 rounded-xl border border-amber-800/60 bg-amber-900/20 text-xs text-amber-200">
+                        <span className="px-1.5 py-0.5 mr-2 rounded bg-amber-900/60 border border-amber-700/50 font-bold">REPLAYED</span>
+                        The provider's answer was served from a recorded fixture, not a live call.
+                      </div>
+                    )}
+
                     {/* Stats Grid */}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                       {/* Visual Estimate */}
@@ -220,18 +487,72 @@ const App: React.FC = () => {
                         )}
                       </div>
 
+                      {result.metadata?.exif?.software && (
+                        <div className="col-span-1 md:col-span-2 bg-amber-900/10 rounded-xl p-4 border border-amber-700/50 flex flex-row items-center justify-between gap-4">
+                          <span className="text-amber-400 text-xs font-bold uppercase tracking-wider whitespace-nowrap">Software Tag</span>
+                          <span className="text-sm font-mono text-amber-200 truncate" title={result.metadata.exif.software}>{result.metadata.exif.software}</span>
+                        </div>
+                      )}
+
+                      {result.copyMove && (
+                        <div className={`col-span-1 md:col-span-2 rounded-xl p-4 border flex flex-row items-center justify-between gap-4 ${result.clonePairCount ? 'bg-red-900/10 border-red-700/50' : 'bg-slate-900/50 border-slate-700'}`}>
+                          <span className={`text-xs font-bold uppercase tracking-wider whitespace-nowrap ${result.clonePairCount ? 'text-red-400' : 'text-slate-400'}`}>Clone Pairs</span>
+                          <span className="text-sm text-slate-300 text-right">
+                            {result.clonePairCount
+                              ? `${result.clonePairCount} copy-moved region${result.clonePairCount === 1 ? '' : 's'} outlined on the preview`
+                              : `None found in ${result.copyMove.blocksCompared.toLocaleString()} textured blocks`}
+                          </span>
+                        </div>
+                      )}
+
+                      {result.run?.payload && (
+                        <div className="col-span-1 md:col-span-2 bg-slate-900/50 rounded-xl p-4 border border-slate-700">
+                          <div className="flex flex-row items-center justify-between gap-4">
+                            <span className="text-slate-400 text-xs font-bold uppercase tracking-wider whitespace-nowrap">Sent to Provider</span>
+                            <span className="text-sm font-mono text-slate-300 text-right">{describeUploadPayload(result.run.payload)}</span>
+                          </div>
+                          {result.run.payload.steps.length > 0 && (
+                            <ul className="mt-2 text-xs text-slate-500 list-disc list-inside">
+                              {result.run.payload.steps.map((step, idx) => <li key={idx}>{step}</li>)}
+                            </ul>
+                          )}
+                          {result.run.payload.privacy && !result.run.payload.privacy.stripped && result.run.payload.privacy.sensitiveFields.length > 0 && (
+                            <p className="mt-2 text-xs text-amber-300">
+                              Sent with sensitive metadata: {result.run.payload.privacy.sensitiveFields.map((field) => field.name).join(', ')}
+                            </p>
+                          )}
+                        </div>
+                      )}
+
                       <div className="col-span-1 md:col-span-2 bg-slate-900/50 rounded-xl p-4 border border-slate-700 flex flex-row items-center justify-between">
                         <span className="text-slate-400 text-xs font-bold uppercase tracking-wider">Est. Edit Layers</span>
                         <span className="text-2xl font-bold text-cyan-400">{result.estimatedEditLayerCount}</span>
                       </div>
                     </div>
 
+                    {result.fusion && <VerdictCard report={result.fusion} />}
+
+                    {imageFile && <SimilarImagesPanel file={imageFile} caseId={currentCase?.id} onOpenCase={openCase} />}
+
+                    {currentCase && <CaseNotesPanel record={currentCase} onChange={setCurrentCase} />}
+
+                    {imageFile && <ReportExportPanel file={imageFile} result={result} caseRecord={currentCase} />}
+
                     <div className="bg-slate-900 rounded-xl p-6 border border-slate-700 shadow-inner">
                       <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider mb-2">Overall Assessment</h3>
                       <p className="text-slate-300 leading-relaxed text-sm">
                         {result.overallAssessment}
                       </p>
                     </div>
+
+                    <ChatPanel
+                      messages={result.chat ?? []}
+                      region={chatRegion}
+                      picking={chatPicking}
+                      onTogglePicking={() => setChatPicking(!chatPicking)}
+                      onClearRegion={() => setChatRegion(null)}
+                      onAsk={handleAsk}
+                    />
                     
                     <div>
                       <h3 className="text-slate-200 font-semibold mb-2 flex items-center gap-2">
@@ -242,20 +563,105 @@ const App: React.FC = () => {
                         Tool Probability Score
                       </h3>
                       <div className="bg-slate-900 rounded-xl border border-slate-700 p-2">
-                        <AnalysisChart data={result.detectedTools} />
+                        <AnalysisChart data={result.detectedTools} fused={result.fusion?.tools} />
                       </div>
                     </div>
 
                     <div className="space-y-3">
                       <h3 className="text-slate-200 font-semibold mb-2 text-sm">Detailed Breakdown</h3>
+                      {result.ensemble && (
+                        <div className={`text-xs rounded-lg p-2 border ${result.ensemble.unstableTools.length > 0 ? 'text-amber-200 border-amber-900/50 bg-amber-900/10' : 'text-slate-400 border-slate-700 bg-slate-900/50'}`}>
+                          Scores are the mean of {result.ensemble.samples} samples
+                          {result.ensemble.failedSamples > 0 && ` (${result.ensemble.failedSamples} more failed)`}.{' '}
+                          {result.ensemble.unstableTools.length > 0
+                            ? `The samples disagreed on ${result.ensemble.unstableTools.join(', ')}; treat ${result.ensemble.unstableTools.length === 1 ? 'that score' : 'those scores'} with caution.`
+                            : 'The samples agreed on every tool.'}
+                          <span className="block mt-1 text-slate-500">{result.ensemble.sources.join(' · ')}</span>
+                        </div>
+                      )}
+                      {result.responseRepairs && result.responseRepairs.length > 0 && (
+                        <details className="text-xs text-amber-300 border border-amber-900/50 bg-amber-900/10 rounded-lg p-2">
+                          <summary className="cursor-pointer">The model's answer needed {result.responseRepairs.length} repair{result.responseRepairs.length === 1 ? '' : 's'}</summary>
+                          <ul className="mt-1 list-disc list-inside text-amber-200/80">
+                            {result.responseRepairs.map((repair, idx) => <li key={idx}>{repair}</li>)}
+                          </ul>
+                        </details>
+                      )}
                       {result.detectedTools.map((tool, idx) => (
-                        <div key={idx} className="flex flex-col sm:flex-row sm:items-start gap-2 text-sm border-b border-slate-700/50 pb-3 last:border-0 last:pb-0">
-                            <div className="min-w-[120px] font-medium text-slate-200">{tool.name}</div>
-                            <div className="flex-1 text-slate-400">{tool.reasoning}</div>
+                        <div
+                          key={tool.toolId ?? idx}
+                          onMouseEnter={() => setHoveredTool(idx)}
+                          onMouseLeave={() => setHoveredTool(null)}
+                          className={`flex flex-col sm:flex-row sm:items-start gap-2 text-sm border-b border-slate-700/50 pb-3 last:border-0 last:pb-0 rounded transition-colors ${hoveredTool === idx ? 'bg-slate-800/60' : ''}`}
+                        >
+                            <div className={`min-w-[120px] font-medium ${hoveredTool === idx ? 'text-cyan-300' : 'text-slate-200'}`}>{tool.name}</div>
+                            <div className="flex-1 text-slate-400">
+                              {tool.reasoning}
+                              {tool.ensemble && (
+                                <div className={`mt-1 flex items-start gap-2 text-xs ${tool.ensemble.unstable ? 'text-amber-300' : 'text-slate-400'}`}>
+                                  <span className={`shrink-0 px-1.5 py-0.5 rounded border font-bold ${tool.ensemble.unstable ? 'bg-amber-900/40 border-amber-700/50' : 'bg-slate-800 border-slate-600'}`}>
+                                    {tool.ensemble.unstable ? 'UNSTABLE' : 'SPREAD'}
+                                  </span>
+                                  <span>
+                                    {tool.ensemble.samples} samples scored {tool.ensemble.min}–{tool.ensemble.max} (95% interval {tool.ensemble.lower}–{tool.ensemble.upper}, {Math.round(tool.ensemble.agreement * 100)}% agreement)
+                                  </span>
+                                </div>
+                              )}
+                              {(tool.findings ?? []).map((finding, findingIdx) => (
+                                <div key={`finding-${findingIdx}`} className="mt-1 flex items-start gap-2 text-xs text-cyan-300">
+                                  <span className="shrink-0 px-1.5 py-0.5 rounded bg-cyan-900/40 border border-cyan-700/50 font-bold">REGION</span>
+                                  <span>{finding.label || 'Located cue'} · confidence {finding.confidence}/10</span>
+                                </div>
+                              ))}
+                              {evidenceForTool(tool, metadataEvidence).map((item, evidenceIdx) => (
+                                <div key={evidenceIdx} className="mt-1 flex items-start gap-2 text-xs text-green-300">
+                                  <span className="shrink-0 px-1.5 py-0.5 rounded bg-green-900/40 border border-green-700/50 font-bold">{item.source}</span>
+                                  <span className="font-mono break-all">{item.detail}</span>
+                                </div>
+                              ))}
+                              {tool.toolId === PHOTOSHOP_TOOL_ID && !!result.clonePairCount && (
+                                <div className="mt-1 flex items-start gap-2 text-xs text-red-300">
+                                  <span className="shrink-0 px-1.5 py-0.5 rounded bg-red-900/40 border border-red-700/50 font-bold">PIXELS</span>
+                                  <span className="font-mono break-all">{result.clonePairCount} copy-move clone pair{result.clonePairCount === 1 ? '' : 's'} detected locally</span>
+                                </div>
+                              )}
+                            </div>
                         </div>
                       ))}
+                      {unmatchedEvidence.length > 0 && (
+                        <div className="flex flex-col sm:flex-row sm:items-start gap-2 text-sm pt-1">
+                          <div className="min-w-[120px] font-medium text-slate-200">Other File Evidence</div>
+                          <div className="flex-1">
+                            {unmatchedEvidence.map((item, evidenceIdx) => (
+                              <div key={evidenceIdx} className="mb-1 flex items-start gap-2 text-xs text-green-300">
+                                <span className="shrink-0 px-1.5 py-0.5 rounded bg-green-900/40 border border-green-700/50 font-bold">{item.source}</span>
+                                <span className="font-mono break-all">{item.tool} — {item.detail}</span>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
 
+                    <ProvenancePanel
+                      report={result.metadata?.c2pa ?? null}
+                      trustList={trustList}
+                      onTrustListChange={handleTrustListChange}
+                    />
+
+                    {result.timeline?.events.some((event) => event.kind !== 'file') && <TimelineCard report={result.timeline} />}
+                    {result.metadata?.exif && <MetadataTable report={result.metadata.exif} />}
+                    {result.metadata?.xmp && <XmpPanel report={result.metadata.xmp} />}
+                    {(result.metadata?.generator || (result.metadata?.textChunks.length ?? 0) > 0) && (
+                      <GeneratorPanel generator={result.metadata?.generator ?? null} textChunks={result.metadata?.textChunks ?? []} />
+                    )}
+
+                  </div>
+                )}
+
+                {analysisState !== AnalysisState.IDLE && localMetadata?.compression && (
+                  <div className="mt-6">
+                    <CompressionCard report={localMetadata.compression} />
                   </div>
                 )}
 
@@ -0,0 +1,256 @@
+import { openAsBlob } from "node:fs";
+import { readFile, readdir, stat, writeFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { parseArgs } from "node:util";
+import { AnalysisResult, AnalysisState, PrivacyPolicy, ProviderConfig, ProviderId } from "../types";
+import { runAnalysisPipeline } from "../services/analysisPipeline";
+import { createBatchQueue } from "../services/batchService";
+import { sha256OfBytes } from "../services/hashService";
+import { imageSourceFromBlob } from "../services/imageSourceService";
+import { PROVIDERS, getProviderDefinition } from "../services/providerService";
+import { RAW_FILE_EXTENSIONS, prepareUploadFromBytes } from "../services/rawPreviewService";
+import { guardUpload } from "../services/privacyService";
+import { FixtureSession, createMemoryFixtureStore, fixturesToJson, parseFixturesJson } from "../services/fixtureService";
+import { MAX_ENSEMBLE_SAMPLES } from "../services/ensembleService";
+import { DEFAULT_TOOL_CATALOG, parseToolCatalogJson } from "../services/toolCatalogService";
+
+const USAGE = `Usage: photo-detective [options] <file or directory>...
+
+Analyzes images for signs of editing or generation with the same pipeline as the web app and
+prints one JSON record per image. Directories are searched recursively for image files.
+
+Options:
+  --metadata-only        Read only the files' own metadata; makes no network requests
+  --provider <id>        ${PROVIDERS.map((p) => p.id).join(" | ")} (default: gemini)
+  --model <name>         Model to ask (default: the provider's default)
+  --base-url <url>       Server URL for openai-compatible providers
+  --api-key <key>        API key (default: $GEMINI_API_KEY for Gemini, $OPENAI_API_KEY otherwise)
+  --concurrency <n>      Images analyzed at the same time (default: 2)
+  --format <format>      json (one array at the end) or ndjson (one line per image as it finishes); default: json
+  --threshold <score>    Exit with status 2 when any image's top score is above this (0-10)
+  --tool-catalog <file>  Tool catalog JSON, as exported from the web app's settings
+  --trust-list <file>    PEM bundle of trusted C2PA signing certificates
+  --samples <n>          Ask the provider n times per image and report mean scores with 95% intervals
+                         (default: 1, or one per provider with --ensemble-with)
+  --prompt-variants      Vary the prompt between samples
+  --ensemble-with <provider[:model]>
+                         Also sample this provider and model in turn; may be repeated
+  --privacy <policy>     strip (default) removes EXIF, XMP, IPTC, C2PA and comments from the copy
+                         sent to the provider; send leaves them in. Local analysis reads the original
+  --record <file>        Save every provider answer to this fixture file (added to what it holds)
+  --replay <file>        Answer from this fixture file instead of the provider; makes no network requests
+  -h, --help             Show this help
+
+Exit status: 0 when every image was analyzed and none exceeded the threshold, 1 on a usage
+error or when an image could not be analyzed, 2 when an image exceeded the threshold.
+`;
+
+const IMAGE_EXTENSIONS = new Set([".jpg", ".jpeg", ".png", ".webp", ".gif", ".heic", ".heif", ".avif", ".tif", ".tiff", ...RAW_FILE_EXTENSIONS]);
+
+// Same retry policy as batch mode in the web app
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+
+interface CliRecord {
+  file: string;
+  sha256: string | null;
+  status: "ok" | "error";
+  topScore: number | null;    // Highest fused score, or the highest AI score when nothing was fused
+  exceedsThreshold: boolean;
+  error?: string;
+  result?: AnalysisResult;
+}
+
+class UsageError extends Error {}
+
+const fail = (message: string): never => {
+  throw new UsageError(message);
+};
+
+const parseNumber = (value: string | undefined, option: string, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) fail(`--${option} must be a number from ${min} to ${max}.`);
+  return number;
+};
+
+/**
+ * Expands the arguments into image paths: files are taken as given, directories are walked
+ * for files with an image extension.
+ */
+const collectImagePaths = async (inputs: string[]): Promise<string[]> => {
+  const paths: string[] = [];
+  const walk = async (dir: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) await walk(path);
+      else if (entry.isFile() && IMAGE_EXTENSIONS.has(extname(entry.name).toLowerCase())) paths.push(path);
+    }
+  };
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => fail(`${input}: no such file or directory.`));
+    if (info.isDirectory()) await walk(input);
+    else paths.push(input);
+  }
+  return paths;
+};
+
+/**
+ * Provider settings from the command line; keys come from the environment unless given.
+ */
+const cliProviderConfig = (providerId: ProviderId, options: { model?: string; baseUrl?: string; apiKey?: string }): ProviderConfig => ({
+  ...getProviderDefinition(providerId).defaultConfig,
+  ...(options.model && { model: options.model }),
+  ...(options.baseUrl && { baseUrl: options.baseUrl }),
+  apiKey: options.apiKey ?? (providerId === "gemini" ? process.env.GEMINI_API_KEY ?? process.env.API_KEY : process.env.OPENAI_API_KEY) ?? "",
+});
+
+const topScore = (result: AnalysisResult): number | null => {
+  const scores = result.fusion?.tools.length
+    ? result.fusion.tools.map((tool) => tool.fusedScore)
+    : result.detectedTools.map((tool) => tool.likelihoodScore);
+  return scores.length > 0 ? Math.max(...scores) : null;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      "metadata-only": { type: "boolean", default: false },
+      provider: { type: "string", default: "gemini" },
+      model: { type: "string" },
+      "base-url": { type: "string" },
+      "api-key": { type: "string" },
+      concurrency: { type: "string", default: "2" },
+      format: { type: "string", default: "json" },
+      threshold: { type: "string" },
+      "tool-catalog": { type: "string" },
+      "trust-list": { type: "string" },
+      samples: { type: "string" },
+      "prompt-variants": { type: "boolean", default: false },
+      "ensemble-with": { type: "string", multiple: true, default: [] },
+      privacy: { type: "string", default: "strip" },
+      record: { type: "string" },
+      replay: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) fail("No files or directories given.");
+  if (!PROVIDERS.some((p) => p.id === values.provider)) fail(`Unknown provider "${values.provider}".`);
+  if (values.format !== "json" && values.format !== "ndjson") fail("--format must be json or ndjson.");
+  // There is nobody to ask in a pipeline, so "ask" is not offered here
+  if (values.privacy !== "strip" && values.privacy !== "send") fail("--privacy must be strip or send.");
+  const concurrency = parseNumber(values.concurrency, "concurrency", 1, 64)!;
+  const threshold = parseNumber(values.threshold, "threshold", 0, 10);
+  if (values.record && values.replay) fail("--record and --replay cannot be combined.");
+
+  const providerId = values.provider as ProviderId;
+  const providerConfig = cliProviderConfig(providerId, { model: values.model, baseUrl: values["base-url"], apiKey: values["api-key"] });
+  // Further ensemble members share the base URL when they use the same kind of provider
+  const ensembleProviders = values["ensemble-with"].map((spec) => {
+    const [id, ...model] = spec.split(":");
+    if (!PROVIDERS.some((p) => p.id === id)) fail(`Unknown provider "${id}" in --ensemble-with.`);
+    return cliProviderConfig(id as ProviderId, { model: model.join(":") || undefined, baseUrl: id === providerId ? values["base-url"] : undefined });
+  });
+  // Samples rotate through the providers, so each one needs at least one; without --samples, each is asked once
+  const providerCount = 1 + ensembleProviders.length;
+  if (providerCount > MAX_ENSEMBLE_SAMPLES) fail(`At most ${MAX_ENSEMBLE_SAMPLES - 1} --ensemble-with providers can be given.`);
+  const samples = parseNumber(values.samples, "samples", 1, MAX_ENSEMBLE_SAMPLES) ?? providerCount;
+  if (samples < providerCount) fail(`--samples ${samples} is too few for ${providerCount} providers; give at least ${providerCount}.`);
+  const toolCatalog = values["tool-catalog"]
+    ? parseToolCatalogJson(await readFile(values["tool-catalog"], "utf8"))
+    : DEFAULT_TOOL_CATALOG;
+  const trustList = values["trust-list"] ? await readFile(values["trust-list"], "utf8") : "";
+  const fixtureFile = values.record ?? values.replay;
+  let fixtures: FixtureSession | undefined;
+  if (fixtureFile) {
+    // A recording may start from scratch; a replay needs its file
+    const text = await readFile(fixtureFile, "utf8").catch((err) => (values.record && err?.code === "ENOENT" ? null : Promise.reject(err)));
+    fixtures = { mode: values.record ? "record" : "replay", store: createMemoryFixtureStore(text ? parseFixturesJson(text) : []) };
+  }
+
+  const paths = await collectImagePaths(positionals);
+  if (paths.length === 0) fail("No image files found.");
+
+  const records: CliRecord[] = new Array(paths.length);
+  const hashes: (string | null)[] = new Array(paths.length).fill(null);
+  let remaining = paths.length;
+  let resolveDone: () => void;
+  const done = new Promise<void>((resolve) => (resolveDone = resolve));
+
+  const finish = (index: number, record: CliRecord) => {
+    records[index] = record;
+    if (values.format === "ndjson") process.stdout.write(JSON.stringify(record) + "\n");
+    if (--remaining === 0) resolveDone();
+  };
+
+  // Files are opened lazily, so a large tree is never held in memory at once
+  const files = await Promise.all(
+    paths.map(async (path) => new File([await openAsBlob(path)], path, { lastModified: (await stat(path)).mtimeMs }))
+  );
+  const indexOf = new Map(files.map((file, index) => [file, index]));
+
+  const queue = createBatchQueue(
+    async (file, signal) => {
+      const image = await imageSourceFromBlob(file);
+      hashes[indexOf.get(file)!] = await sha256OfBytes(image.bytes);
+      return runAnalysisPipeline(image, {
+        providerConfig,
+        toolCatalog,
+        trustList,
+        signal,
+        metadataOnly: values["metadata-only"],
+        upload: values["metadata-only"] ? undefined : await guardUpload(prepareUploadFromBytes(image), values.privacy as PrivacyPolicy),
+        fixtures,
+        ensemble: { samples, promptVariants: values["prompt-variants"], providers: ensembleProviders },
+      });
+    },
+    {
+      getConcurrency: () => concurrency,
+      maxRetries: MAX_RETRIES,
+      baseDelayMs: BASE_RETRY_DELAY_MS,
+      onUpdate: (id, patch) => {
+        const index = Number(id);
+        // Retry notices arrive without a state change
+        if (patch.note && patch.state === undefined) process.stderr.write(`${paths[index]}: ${patch.note}\n`);
+        if (patch.state === AnalysisState.SUCCESS && patch.result) {
+          const score = topScore(patch.result);
+          finish(index, {
+            file: paths[index],
+            sha256: hashes[index],
+            status: "ok",
+            topScore: score,
+            exceedsThreshold: threshold !== undefined && score !== null && score > threshold,
+            result: patch.result,
+          });
+        } else if (patch.state === AnalysisState.ERROR) {
+          finish(index, { file: paths[index], sha256: hashes[index], status: "error", topScore: null, exceedsThreshold: false, error: patch.error ?? "Analysis failed" });
+        }
+      },
+    }
+  );
+  queue.add(files.map((file, index) => ({ id: String(index), file })));
+  await done;
+  if (fixtures?.mode === "record") await writeFile(fixtureFile!, fixturesToJson(await fixtures.store.list()) + "\n");
+
+  if (values.format === "json") process.stdout.write(JSON.stringify(records, null, 2) + "\n");
+  if (records.some((record) => record.exceedsThreshold)) return 2;
+  return records.some((record) => record.status === "error") ? 1 : 0;
+};
+
+main().then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    process.stderr.write(`photo-detective: ${err instanceof Error ? err.message : String(err)}\n`);
+    if (err instanceof UsageError || String(err?.code).startsWith("ERR_PARSE_ARGS")) process.stderr.write("Run photo-detective --help for usage.\n");
+    process.exitCode = 1;
+  }
+);
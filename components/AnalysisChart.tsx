@@ -7,17 +7,49 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  Cell
+  Cell,
+  Legend,
+  ErrorBar
 } from 'recharts';
-import { DetectedTool } from '../types';
+import { DetectedTool, FusedToolScore, ToolScoreSpread } from '../types';
 
 interface AnalysisChartProps {
   data: DetectedTool[];
+  fused?: FusedToolScore[];   // When given, fused scores are drawn next to the raw AI scores
 }
 
-const AnalysisChart: React.FC<AnalysisChartProps> = ({ data }) => {
+interface ChartRow {
+  name: string;
+  likelihoodScore: number;    // Raw AI score, 0 when only file evidence names the tool
+  fusedScore?: number;
+  reasoning?: string;
+  fusedTool?: FusedToolScore;
+  spread?: ToolScoreSpread;   // Ensemble results only
+  scoreError?: [number, number]; // Distance from the AI score down and up to its confidence bounds
+}
+
+const withSpread = (row: ChartRow, tool: DetectedTool | undefined): ChartRow =>
+  tool?.ensemble
+    ? { ...row, spread: tool.ensemble, scoreError: [row.likelihoodScore - tool.ensemble.lower, tool.ensemble.upper - row.likelihoodScore] }
+    : row;
+
+const AnalysisChart: React.FC<AnalysisChartProps> = ({ data, fused }) => {
+  const rows: ChartRow[] = fused
+    ? fused.map((tool) => {
+        const detected = data.find((d) => d.name === tool.name);
+        return withSpread({
+          name: tool.name,
+          likelihoodScore: tool.aiScore ?? 0,
+          fusedScore: tool.fusedScore,
+          reasoning: detected?.reasoning,
+          fusedTool: tool,
+        }, tool.aiScore === null ? undefined : detected);
+      })
+    : data.map((tool) => withSpread({ name: tool.name, likelihoodScore: tool.likelihoodScore, reasoning: tool.reasoning }, tool));
+  const hasSpread = rows.some((row) => row.scoreError);
+
   // Sort data by score descending for better visualization
-  const sortedData = [...data].sort((a, b) => b.likelihoodScore - a.likelihoodScore);
+  const sortedData = [...rows].sort((a, b) => (b.fusedScore ?? b.likelihoodScore) - (a.fusedScore ?? a.likelihoodScore));
 
   const getBarColor = (score: number) => {
     if (score >= 8) return '#ef4444'; // Red-500
@@ -25,14 +57,30 @@ const AnalysisChart: React.FC<AnalysisChartProps> = ({ data }) => {
     return '#3b82f6'; // Blue-500
   };
 
-  const CustomTooltip = ({ active, payload, label }: any) => {
+  const CustomTooltip = ({ active, payload }: any) => {
     if (active && payload && payload.length) {
-      const item = payload[0].payload as DetectedTool;
+      const item = payload[0].payload as ChartRow;
       return (
         <div className="bg-slate-800 border border-slate-700 p-3 rounded shadow-xl text-xs sm:text-sm">
           <p className="font-bold text-slate-100 mb-1">{item.name}</p>
-          <p className="text-slate-300">Score: <span className="font-mono text-cyan-400">{item.likelihoodScore}/10</span></p>
-          <p className="text-slate-400 mt-1 italic max-w-[200px]">{item.reasoning}</p>
+          <p className="text-slate-300">
+            AI score: <span className="font-mono text-cyan-400">{item.fusedTool && item.fusedTool.aiScore === null ? 'not scored' : `${item.likelihoodScore}/10`}</span>
+          </p>
+          {item.spread && (
+            <p className="text-slate-400">
+              95% interval {item.spread.lower}–{item.spread.upper} over {item.spread.samples} samples (range {item.spread.min}–{item.spread.max})
+            </p>
+          )}
+          {item.spread?.unstable && <p className="text-amber-400">Unstable: the samples disagreed</p>}
+          {item.fusedScore !== undefined && (
+            <p className="text-slate-300">Fused score: <span className="font-mono text-cyan-400">{item.fusedScore}/10</span></p>
+          )}
+          {item.fusedTool?.adjustments.map((adjustment, idx) => (
+            <p key={idx} className="text-slate-400 mt-1 max-w-[260px]">
+              <span className="font-mono text-green-300">{adjustment.delta > 0 ? '+' : ''}{adjustment.delta}</span> {adjustment.source}: {adjustment.detail}
+            </p>
+          ))}
+          {item.reasoning && <p className="text-slate-400 mt-1 italic max-w-[200px]">{item.reasoning}</p>}
         </div>
       );
     }
@@ -49,22 +97,31 @@ const AnalysisChart: React.FC<AnalysisChartProps> = ({ data }) => {
         >
           <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
           <XAxis type="number" domain={[0, 10]} hide />
-          <YAxis 
-            dataKey="name" 
-            type="category" 
-            width={100} 
-            tick={{ fill: '#94a3b8', fontSize: 12 }} 
+          <YAxis
+            dataKey="name"
+            type="category"
+            width={100}
+            tick={{ fill: '#94a3b8', fontSize: 12 }}
           />
           <Tooltip content={<CustomTooltip />} cursor={{fill: '#1e293b'}} />
-          <Bar dataKey="likelihoodScore" radius={[0, 4, 4, 0]} barSize={20}>
-            {sortedData.map((entry, index) => (
+          {fused && <Legend wrapperStyle={{ fontSize: 12, color: '#94a3b8' }} />}
+          <Bar dataKey="likelihoodScore" name="AI score" radius={[0, 4, 4, 0]} barSize={fused ? 10 : 20} fill="#64748b">
+            {!fused && sortedData.map((entry, index) => (
               <Cell key={`cell-${index}`} fill={getBarColor(entry.likelihoodScore)} />
             ))}
+            {hasSpread && <ErrorBar dataKey="scoreError" direction="x" width={6} strokeWidth={1.5} stroke="#e2e8f0" />}
           </Bar>
+          {fused && (
+            <Bar dataKey="fusedScore" name="Fused score" radius={[0, 4, 4, 0]} barSize={10} fill="#22d3ee">
+              {sortedData.map((entry, index) => (
+                <Cell key={`fused-${index}`} fill={getBarColor(entry.fusedScore ?? 0)} />
+              ))}
+            </Bar>
+          )}
         </BarChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export default AnalysisChart;
\ No newline at end of file
+export default AnalysisChart;
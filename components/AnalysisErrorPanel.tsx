@@ -0,0 +1,63 @@
+import React from 'react';
+import { AnalysisError, AnalysisErrorKind } from '../services/analysisErrors';
+import { isRecord } from '../services/typeGuards';
+
+interface AnalysisErrorPanelProps {
+  error: unknown;
+  onRetry: () => void;
+}
+
+const GUIDANCE: Record<AnalysisErrorKind, { title: string; advice: string }> = {
+  'api-key': {
+    title: 'API key problem',
+    advice: 'Open Settings and enter a valid API key for the selected provider, or switch to a self-hosted OpenAI-compatible server.',
+  },
+  'rate-limit': {
+    title: 'Quota or rate limit reached',
+    advice: 'Wait a minute before retrying, or choose another model or provider in Settings. In batch mode, lower the concurrency.',
+  },
+  'safety-block': {
+    title: 'Blocked by the provider',
+    advice: 'The provider refused this image under its content policy. A self-hosted model in Settings may still analyse it.',
+  },
+  'unsupported-image': {
+    title: 'Image not accepted',
+    advice: 'Convert the image to JPEG or PNG, or reduce its size, and try again.',
+  },
+  network: {
+    title: 'Provider unreachable',
+    advice: 'Check your connection. For a local server, make sure it is running and allows requests from this page (CORS).',
+  },
+  'invalid-response': {
+    title: 'Unreadable answer',
+    advice: 'The model did not return a usable result, even when asked again. Retrying often helps; larger models follow the response format more reliably.',
+  },
+  'replay-miss': {
+    title: 'No recorded answer',
+    advice: 'Replay mode only serves answers recorded earlier. Analyse this image once in record mode with a live provider, or import fixtures that include it (Settings → Record & Replay).',
+  },
+};
+
+const AnalysisErrorPanel: React.FC<AnalysisErrorPanelProps> = ({ error, onRetry }) => {
+  const guidance = error instanceof AnalysisError ? GUIDANCE[error.kind] : null;
+  const message = (isRecord(error) && typeof error.message === 'string' && error.message) || 'Failed to analyze image. Please try again.';
+
+  return (
+    <div className="flex flex-col items-center justify-center p-6 border border-red-900/50 bg-red-900/10 rounded-2xl text-red-200">
+      <svg xmlns="http://www.w3.org/2000/svg" className="h-12 w-12 mb-2 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+      </svg>
+      <p className="text-center font-medium">Analysis Failed{guidance && `: ${guidance.title}`}</p>
+      <p className="text-sm text-red-400 mt-2 text-center">{message}</p>
+      {guidance && <p className="text-sm text-slate-300 mt-2 text-center max-w-lg">{guidance.advice}</p>}
+      <button
+        onClick={onRetry}
+        className="mt-4 px-4 py-1.5 rounded-full border border-red-700 text-sm font-bold text-red-200 hover:bg-red-900/40 transition-colors"
+      >
+        Retry
+      </button>
+    </div>
+  );
+};
+
+export default AnalysisErrorPanel;
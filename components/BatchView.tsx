@@ -0,0 +1,273 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisResult, AnalysisState, BatchItem, EnsembleConfig, PrivacyPolicy, ProviderConfig, ToolCatalogEntry, UploadBudget } from '../types';
+import { BatchQueue, createBatchQueue } from '../services/batchService';
+import { analyzeImage } from '../services/analysisService';
+import { createThumbnail } from '../services/thumbnailService';
+import { IMAGE_FILE_ACCEPT, isImageFile } from '../services/rawPreviewService';
+import { FixtureSession } from '../services/fixtureService';
+
+interface BatchViewProps {
+  providerConfig: ProviderConfig;
+  toolCatalog: ToolCatalogEntry[];
+  trustList: string;
+  uploadBudget: UploadBudget;
+  fixtures?: FixtureSession;
+  ensemble: EnsembleConfig;
+  privacyPolicy: PrivacyPolicy; // Batches cannot stop to ask, so "ask" strips sensitive metadata
+  onOpen: (file: File, result: AnalysisResult) => void;
+  onAnalyzed?: (file: File, result: AnalysisResult) => void;
+}
+
+type SortKey = 'path' | 'state' | 'tool' | 'score' | 'device';
+
+const STATE_LABELS: Record<AnalysisState, string> = {
+  [AnalysisState.IDLE]: 'Queued',
+  [AnalysisState.ANALYZING]: 'Analyzing',
+  [AnalysisState.SUCCESS]: 'Done',
+  [AnalysisState.ERROR]: 'Failed',
+};
+
+const STATE_STYLES: Record<AnalysisState, string> = {
+  [AnalysisState.IDLE]: 'text-slate-400',
+  [AnalysisState.ANALYZING]: 'text-cyan-400 animate-pulse',
+  [AnalysisState.SUCCESS]: 'text-green-400',
+  [AnalysisState.ERROR]: 'text-red-400',
+};
+
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 4000;
+
+/**
+ * Highest-scoring tool, using fused scores when available.
+ */
+const topTool = (result: AnalysisResult | null): { name: string; score: number } | null => {
+  if (!result) return null;
+  const scores = result.fusion
+    ? result.fusion.tools.map((t) => ({ name: t.name, score: t.fusedScore }))
+    : result.detectedTools.map((t) => ({ name: t.name, score: t.likelihoodScore }));
+  return scores.sort((a, b) => b.score - a.score)[0] ?? null;
+};
+
+const BatchView: React.FC<BatchViewProps> = ({ providerConfig, toolCatalog, trustList, uploadBudget, fixtures, ensemble, privacyPolicy, onOpen, onAnalyzed }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'path', descending: false });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // The queue outlives renders; settings are read through refs when each job starts
+  const concurrencyRef = useRef(concurrency);
+  concurrencyRef.current = concurrency;
+  const settingsRef = useRef({ providerConfig, toolCatalog, trustList, uploadBudget, fixtures, ensemble, privacyPolicy });
+  settingsRef.current = { providerConfig, toolCatalog, trustList, uploadBudget, fixtures, ensemble, privacyPolicy };
+  const onAnalyzedRef = useRef(onAnalyzed);
+  onAnalyzedRef.current = onAnalyzed;
+  const queueRef = useRef<BatchQueue | null>(null);
+
+  const updateItem = (id: string, patch: Partial<BatchItem>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+
+  if (!queueRef.current) {
+    queueRef.current = createBatchQueue(
+      async (file, signal) => {
+        const result = await analyzeImage(file, { ...settingsRef.current, signal });
+        onAnalyzedRef.current?.(file, result);
+        return result;
+      },
+      {
+        getConcurrency: () => concurrencyRef.current,
+        maxRetries: MAX_RETRIES,
+        baseDelayMs: BASE_RETRY_DELAY_MS,
+        onUpdate: updateItem,
+      }
+    );
+  }
+
+  // Folder uploads need the non-standard webkitdirectory attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      queueRef.current?.cancelAll();
+    };
+  }, []);
+
+  const addFiles = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []).filter(isImageFile);
+    if (files.length === 0) return;
+
+    const newItems: BatchItem[] = files.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      path: file.webkitRelativePath || file.name,
+      thumbnailUrl: null,
+      state: AnalysisState.IDLE,
+      result: null,
+      error: null,
+      attempts: 0,
+      note: 'Queued',
+    }));
+    setItems((prev) => [...prev, ...newItems]);
+    queueRef.current!.add(newItems);
+
+    // Thumbnails are decoded one at a time so a large folder does not stall the page
+    for (const item of newItems) {
+      const thumbnail = await createThumbnail(item.file);
+      if (thumbnail) updateItem(item.id, { thumbnailUrl: URL.createObjectURL(thumbnail) });
+    }
+  };
+
+  const retry = (item: BatchItem) => queueRef.current!.add([item]);
+
+  const clearFinished = () => {
+    setItems((prev) => {
+      prev
+        .filter((item) => item.state === AnalysisState.SUCCESS || item.state === AnalysisState.ERROR)
+        .forEach((item) => item.thumbnailUrl && URL.revokeObjectURL(item.thumbnailUrl));
+      return prev.filter((item) => item.state === AnalysisState.IDLE || item.state === AnalysisState.ANALYZING);
+    });
+  };
+
+  const sortValue = (item: BatchItem): string | number => {
+    switch (sort.key) {
+      case 'state': return STATE_LABELS[item.state];
+      case 'tool': return topTool(item.result)?.name ?? '';
+      case 'score': return topTool(item.result)?.score ?? -1;
+      case 'device': return item.result?.metadataDevice ?? '';
+      default: return item.path;
+    }
+  };
+  const sortedItems = [...items].sort((a, b) => {
+    const va = sortValue(a);
+    const vb = sortValue(b);
+    const order = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return sort.descending ? -order : order;
+  });
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key === 'score' }));
+
+  const counts = {
+    done: items.filter((i) => i.state === AnalysisState.SUCCESS).length,
+    failed: items.filter((i) => i.state === AnalysisState.ERROR).length,
+    active: items.filter((i) => i.state === AnalysisState.IDLE || i.state === AnalysisState.ANALYZING).length,
+  };
+
+  const header = (key: SortKey, label: string) => (
+    <th className="py-2 px-2 text-left">
+      <button onClick={() => toggleSort(key)} className="font-bold uppercase tracking-wider hover:text-cyan-400 transition-colors">
+        {label}{sort.key === key ? (sort.descending ? ' ▼' : ' ▲') : ''}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <input type="file" ref={fileInputRef} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} accept={IMAGE_FILE_ACCEPT} multiple className="hidden" />
+        <input type="file" ref={folderInputRef} onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} multiple className="hidden" />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white text-sm font-bold rounded-lg transition-all"
+        >
+          Add images
+        </button>
+        <button
+          onClick={() => folderInputRef.current?.click()}
+          className="px-4 py-2 border border-slate-600 hover:border-cyan-500 text-slate-200 text-sm font-bold rounded-lg transition-colors"
+        >
+          Add folder
+        </button>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Concurrency
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={concurrency}
+            onChange={(e) => setConcurrency(Math.min(8, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-14 bg-slate-950 border border-slate-700 rounded px-2 py-1 text-slate-200"
+          />
+        </label>
+        <div className="flex-1" />
+        {counts.active > 0 && (
+          <button onClick={() => queueRef.current!.cancelAll()} className="text-xs text-red-400 hover:text-red-300">
+            Cancel all
+          </button>
+        )}
+        {counts.done + counts.failed > 0 && (
+          <button onClick={clearFinished} className="text-xs text-slate-400 hover:text-cyan-400">
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <div className="border-2 border-dashed border-slate-600 rounded-2xl p-10 text-center text-slate-400 text-sm">
+          Add several images or a whole folder to analyze them as a batch.
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">
+            {items.length} images · {counts.done} done · {counts.failed} failed · {counts.active} pending
+          </p>
+          <div className="overflow-x-auto bg-slate-900 rounded-xl border border-slate-700">
+            <table className="w-full text-xs text-slate-300">
+              <thead className="text-slate-400 border-b border-slate-700">
+                <tr>
+                  <th className="py-2 px-2" />
+                  {header('path', 'File')}
+                  {header('state', 'Status')}
+                  {header('tool', 'Top tool')}
+                  {header('score', 'Score')}
+                  {header('device', 'Metadata device')}
+                  <th className="py-2 px-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sortedItems.map((item) => {
+                  const top = topTool(item.result);
+                  const openable = item.state === AnalysisState.SUCCESS && item.result;
+                  return (
+                    <tr
+                      key={item.id}
+                      onClick={() => openable && onOpen(item.file, item.result!)}
+                      className={`border-b border-slate-800 last:border-0 ${openable ? 'cursor-pointer hover:bg-slate-800/60' : ''}`}
+                    >
+                      <td className="py-1 px-2 w-14">
+                        {item.thumbnailUrl
+                          ? <img src={item.thumbnailUrl} alt="" className="w-12 h-12 object-cover rounded" />
+                          : <div className="w-12 h-12 rounded bg-slate-800" />}
+                      </td>
+                      <td className="py-1 px-2 font-mono break-all">{item.path}</td>
+                      <td className="py-1 px-2 whitespace-nowrap">
+                        <span className={STATE_STYLES[item.state]}>{STATE_LABELS[item.state]}</span>
+                        {item.attempts > 1 && <span className="text-slate-500"> · try {item.attempts}</span>}
+                        {item.note && item.state !== AnalysisState.IDLE && <p className="text-amber-400">{item.note}</p>}
+                        {item.error && <p className="text-red-400 max-w-[220px] truncate" title={item.error}>{item.error}</p>}
+                      </td>
+                      <td className="py-1 px-2">{top?.name ?? '—'}</td>
+                      <td className="py-1 px-2 font-mono">{top ? `${top.score}/10` : '—'}</td>
+                      <td className="py-1 px-2">{item.result?.metadataDevice ?? '—'}</td>
+                      <td className="py-1 px-2 whitespace-nowrap text-right" onClick={(e) => e.stopPropagation()}>
+                        {(item.state === AnalysisState.IDLE || item.state === AnalysisState.ANALYZING) && (
+                          <button onClick={() => queueRef.current!.cancel(item.id)} className="text-red-400 hover:text-red-300">Cancel</button>
+                        )}
+                        {item.state === AnalysisState.ERROR && (
+                          <button onClick={() => retry(item)} className="text-cyan-400 hover:text-cyan-300">Retry</button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchView;
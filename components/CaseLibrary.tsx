@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CaseRecord } from '../types';
+import { CaseQuery, EMPTY_CASE_QUERY, collectCaseTools, deleteCase, filterCases, listCases } from '../services/caseLibraryService';
+
+interface CaseLibraryProps {
+  onOpen: (record: CaseRecord) => void;
+}
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-cyan-500';
+
+/**
+ * Thumbnail for a stored case; the object URL lives as long as the row.
+ */
+export const CaseThumbnail: React.FC<{ blob: Blob | null }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!blob) return;
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url
+    ? <img src={url} alt="" className="w-16 h-16 object-cover rounded" />
+    : <div className="w-16 h-16 rounded bg-slate-800" />;
+};
+
+const CaseLibrary: React.FC<CaseLibraryProps> = ({ onOpen }) => {
+  const [cases, setCases] = useState<CaseRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState<CaseQuery>(EMPTY_CASE_QUERY);
+
+  useEffect(() => {
+    listCases()
+      .then(setCases)
+      .catch((err) => setError(err?.message || 'Could not open the case library'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const tools = useMemo(() => collectCaseTools(cases), [cases]);
+  const tags = useMemo(() => Array.from(new Set(cases.flatMap((c) => c.tags))).sort(), [cases]);
+  const visible = filterCases(cases, query);
+
+  const update = (patch: Partial<CaseQuery>) => setQuery((prev) => ({ ...prev, ...patch }));
+
+  const handleDelete = async (record: CaseRecord) => {
+    if (!confirm(`Delete the case for "${record.fileName}"? This cannot be undone.`)) return;
+    await deleteCase(record.id);
+    setCases((prev) => prev.filter((c) => c.id !== record.id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-xs text-slate-400 flex-1 min-w-[160px]">
+          Search
+          <input value={query.text} onChange={(e) => update({ text: e.target.value })} placeholder="File name, notes, SHA-256…" className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Tool
+          <select value={query.tool} onChange={(e) => update({ tool: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {tools.map((tool) => <option key={tool} value={tool}>{tool}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Score
+          <span className="flex items-center gap-1">
+            <input type="number" min={0} max={10} value={query.minScore} onChange={(e) => update({ minScore: Number(e.target.value) })} className={`${inputClass} w-14`} />
+            –
+            <input type="number" min={0} max={10} value={query.maxScore} onChange={(e) => update({ maxScore: Number(e.target.value) })} className={`${inputClass} w-14`} />
+          </span>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Device
+          <input value={query.device} onChange={(e) => update({ device: e.target.value })} placeholder="e.g. Canon" className={`${inputClass} w-28`} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Tag
+          <select value={query.tag} onChange={(e) => update({ tag: e.target.value })} className={inputClass}>
+            <option value="">Any</option>
+            {tags.map((tag) => <option key={tag} value={tag}>{tag}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {loading && <p className="text-sm text-slate-400">Loading cases…</p>}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      {!loading && !error && cases.length === 0 && (
+        <div className="border-2 border-dashed border-slate-600 rounded-2xl p-10 text-center text-slate-400 text-sm">
+          Completed analyses are saved here automatically.
+        </div>
+      )}
+      {cases.length > 0 && (
+        <p className="text-xs text-slate-400">{visible.length} of {cases.length} cases</p>
+      )}
+
+      <div className="space-y-2">
+        {visible.map((record) => {
+          const verdict = record.result.fusion?.verdict.replace(/-/g, ' ');
+          return (
+            <div
+              key={record.id}
+              onClick={() => onOpen(record)}
+              className="flex items-center gap-3 bg-slate-900 rounded-xl border border-slate-700 p-2 cursor-pointer hover:border-cyan-600 transition-colors"
+            >
+              <CaseThumbnail blob={record.thumbnail} />
+              <div className="flex-1 min-w-0 text-xs space-y-0.5">
+                <p className="text-sm font-medium text-slate-200 truncate">{record.fileName}</p>
+                <p className="text-slate-400">
+                  {new Date(record.createdAt).toLocaleString()}
+                  {verdict && <span className="capitalize"> · {verdict}</span>}
+                  {record.result.metadataDevice && <span> · {record.result.metadataDevice}</span>}
+                </p>
+                <p className="font-mono text-slate-500 truncate">{record.sha256}</p>
+                {record.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-0.5">
+                    {record.tags.map((tag) => (
+                      <span key={tag} className="px-1.5 py-0.5 rounded bg-slate-800 border border-slate-600 text-slate-300">{tag}</span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={(e) => { e.stopPropagation(); handleDelete(record); }}
+                className="text-xs text-slate-500 hover:text-red-400 px-2"
+                title="Delete case"
+              >
+                Delete
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CaseLibrary;
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { CaseRecord } from '../types';
+import { updateCaseAnnotations } from '../services/caseLibraryService';
+
+interface CaseNotesPanelProps {
+  record: CaseRecord;
+  onChange: (record: CaseRecord) => void;
+}
+
+const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map((tag) => tag.trim()).filter(Boolean)));
+
+const CaseNotesPanel: React.FC<CaseNotesPanelProps> = ({ record, onChange }) => {
+  const [notes, setNotes] = useState(record.notes);
+  const [tags, setTags] = useState(record.tags.join(', '));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setNotes(record.notes);
+    setTags(record.tags.join(', '));
+  }, [record.id]);
+
+  const dirty = notes !== record.notes || parseTags(tags).join(',') !== record.tags.join(',');
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const updated = await updateCaseAnnotations(record.id, { notes, tags: parseTags(tags) });
+      if (updated) onChange(updated);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Case Notes</h3>
+        <span className="text-xs text-slate-500">Saved {new Date(record.updatedAt).toLocaleString()}</span>
+      </div>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Analyst notes…"
+        className="w-full h-24 bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-300 focus:outline-none focus:border-cyan-500"
+      />
+      <input
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, comma separated"
+        className="w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-300 focus:outline-none focus:border-cyan-500"
+      />
+      <div className="flex items-center justify-between">
+        <span className="font-mono text-xs text-slate-500 truncate">SHA-256 {record.sha256}</span>
+        <button
+          onClick={save}
+          disabled={!dirty || saving}
+          className="px-3 py-1 rounded text-xs font-bold bg-cyan-700 hover:bg-cyan-600 text-white disabled:bg-slate-700 disabled:text-slate-400 transition-colors"
+        >
+          {saving ? 'Saving…' : 'Save notes'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CaseNotesPanel;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ChatMessage, ImageRegion } from '../types';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  region: ImageRegion | null;
+  picking: boolean;
+  onTogglePicking: () => void;
+  onClearRegion: () => void;
+  // Resolves once the answer is in the transcript; rejects with the provider's error
+  onAsk: (text: string, rescore: boolean) => Promise<void>;
+}
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const describeRegion = (region: ImageRegion): string =>
+  region.width === 0 && region.height === 0
+    ? `Point at ${pct(region.x)}, ${pct(region.y)}`
+    : `Box at ${pct(region.x)}, ${pct(region.y)} · ${pct(region.width)} × ${pct(region.height)}`;
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, region, picking, onTogglePicking, onClearRegion, onAsk }) => {
+  const [question, setQuestion] = useState('');
+  const [rescore, setRescore] = useState(false);
+  const [asking, setAsking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ask = async () => {
+    if (!question.trim() || asking) return;
+    setAsking(true);
+    setError(null);
+    try {
+      await onAsk(question.trim(), rescore);
+      setQuestion('');
+      setRescore(false);
+    } catch (err: any) {
+      setError(err?.message || 'The question could not be answered.');
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Ask the Detective</h3>
+        <span className="text-xs text-slate-500">Follow-up questions about this image and its scores</span>
+      </div>
+
+      {messages.length > 0 && (
+        <div className="space-y-2 max-h-96 overflow-y-auto pr-1">
+          {messages.map((message, idx) => (
+            <div key={idx} className={`flex ${message.role === 'analyst' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[85%] rounded-lg px-3 py-2 text-xs whitespace-pre-wrap ${
+                  message.role === 'analyst' ? 'bg-cyan-900/40 border border-cyan-800/50 text-cyan-100' : 'bg-slate-800 border border-slate-700 text-slate-300'
+                }`}
+              >
+                {message.region && (
+                  <span className="block mb-1 text-[10px] font-bold uppercase text-amber-300">{describeRegion(message.region)}</span>
+                )}
+                {message.text}
+                {message.rescored && (
+                  <span className="block mt-1 text-[10px] font-bold uppercase text-amber-300">Scores updated</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <textarea
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) ask();
+        }}
+        placeholder="Why did you score the clone stamp so high? What about the shadow here?"
+        className="w-full h-20 bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-300 focus:outline-none focus:border-cyan-500"
+      />
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        <button
+          onClick={onTogglePicking}
+          className={`px-3 py-1 rounded-full border font-bold transition-colors ${picking ? 'bg-amber-900/40 border-amber-600 text-amber-300' : 'border-slate-600 text-slate-300 hover:border-amber-500 hover:text-amber-300'}`}
+          title="Click a point or drag a box on the preview to ask about that place"
+        >
+          {picking ? 'Picking on preview…' : 'Point at the image'}
+        </button>
+        {region && (
+          <span className="flex items-center gap-1 text-amber-300">
+            {describeRegion(region)}
+            <button onClick={onClearRegion} className="text-slate-500 hover:text-slate-300" title="Ask about the whole image">
+              ✕
+            </button>
+          </span>
+        )}
+        <label className="flex items-center gap-2" title="The detective answers and scores every tool again; the new scores replace the current ones">
+          <input type="checkbox" checked={rescore} onChange={(e) => setRescore(e.target.checked)} className="accent-cyan-500" />
+          Re-score after answering
+        </label>
+        <button
+          onClick={ask}
+          disabled={!question.trim() || asking}
+          className="ml-auto px-3 py-1 rounded text-xs font-bold bg-cyan-700 hover:bg-cyan-600 text-white disabled:bg-slate-700 disabled:text-slate-400 transition-colors"
+        >
+          {asking ? 'Asking…' : 'Ask'}
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ComparisonResult, ImageChangeKind, PrivacyPolicy, ProviderConfig, UploadBudget } from '../types';
+import { compareImages } from '../services/comparisonService';
+import { FixtureSession } from '../services/fixtureService';
+import CompareViewer, { CHANGE_COLORS } from './CompareViewer';
+import MetadataDiffTable from './MetadataDiffTable';
+import { LoadingSpinner } from './LoadingSpinner';
+
+interface CompareViewProps {
+  providerConfig: ProviderConfig;
+  trustList: string;
+  uploadBudget: UploadBudget;
+  fixtures?: FixtureSession;
+  privacyPolicy: PrivacyPolicy;
+}
+
+const KIND_LABELS: Record<ImageChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+  color: 'Colour',
+  geometry: 'Geometry',
+  text: 'Text',
+  other: 'Other',
+};
+
+/**
+ * File picker for one side of the comparison, with a thumbnail of the chosen image.
+ */
+const ImageSlot: React.FC<{ label: string; hint: string; file: File | null; onChange: (file: File) => void }> = ({ label, hint, file, onChange }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+
+  return (
+    <div
+      onClick={() => inputRef.current?.click()}
+      className="flex-1 min-w-[200px] border-2 border-dashed border-slate-600 hover:border-cyan-500 rounded-2xl p-3 cursor-pointer text-center transition-colors"
+    >
+      <input
+        type="file"
+        ref={inputRef}
+        accept="image/*"
+        className="hidden"
+        onChange={(e) => {
+          const chosen = e.target.files?.[0];
+          if (chosen?.type.startsWith('image/')) onChange(chosen);
+          e.target.value = '';
+        }}
+      />
+      <p className="text-xs font-bold uppercase tracking-wider text-cyan-400 mb-2">{label}</p>
+      {file && url ? (
+        <>
+          <img src={url} alt="" className="mx-auto max-h-40 rounded" />
+          <p className="mt-2 text-xs text-slate-400 truncate">{file.name}</p>
+        </>
+      ) : (
+        <p className="py-10 text-sm text-slate-400">{hint}</p>
+      )}
+    </div>
+  );
+};
+
+const CompareView: React.FC<CompareViewProps> = ({ providerConfig, trustList, uploadBudget, fixtures, privacyPolicy }) => {
+  const [reference, setReference] = useState<File | null>(null);
+  const [suspect, setSuspect] = useState<File | null>(null);
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hoveredChange, setHoveredChange] = useState<number | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Aligned bitmaps hold decoded pixels; release them as soon as a result is replaced
+  useEffect(() => {
+    return () => {
+      if (!result?.pixels) return;
+      result.pixels.reference.close();
+      result.pixels.suspect.close();
+      result.pixels.heatmap.close();
+    };
+  }, [result]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const pick = (setter: (file: File) => void) => (file: File) => {
+    controllerRef.current?.abort();
+    setter(file);
+    setResult(null);
+    setError(null);
+    setRunning(false);
+  };
+
+  const runComparison = async () => {
+    if (!reference || !suspect) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const comparison = await compareImages(reference, suspect, { providerConfig, trustList, uploadBudget, fixtures, privacyPolicy, signal: controller.signal });
+      setResult(comparison);
+    } catch (err: any) {
+      if (err?.name === 'AbortError') return;
+      console.error(err);
+      setError(err?.message || 'Comparison failed');
+    } finally {
+      if (controllerRef.current === controller) setRunning(false);
+    }
+  };
+
+  const alignment = result?.pixels?.alignment;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-4">
+        <ImageSlot label="Reference original" hint="Choose the original image" file={reference} onChange={pick(setReference)} />
+        <ImageSlot label="Suspected edit" hint="Choose the published or suspect version" file={suspect} onChange={pick(setSuspect)} />
+      </div>
+
+      {reference && suspect && !running && !result && (
+        <button
+          onClick={runComparison}
+          className="w-full py-4 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white font-bold rounded-xl shadow-lg shadow-cyan-900/50 transition-all duration-200"
+        >
+          Compare Images
+        </button>
+      )}
+
+      {running && (
+        <div className="flex items-center justify-center border border-slate-700/30 rounded-2xl bg-slate-900/20 py-12">
+          <LoadingSpinner />
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 border border-red-900/50 bg-red-900/10 rounded-2xl text-sm text-red-300 text-center">{error}</div>
+      )}
+
+      {result && (
+        <div className="space-y-6 animate-fadeIn">
+          {result.pixels ? (
+            <div className="space-y-2">
+              <CompareViewer
+                comparison={result.pixels}
+                changes={result.changes}
+                hoveredChange={hoveredChange}
+                onHoverChange={setHoveredChange}
+              />
+              {alignment && (
+                <p className={`text-xs text-center ${alignment.aligned ? 'text-slate-400' : 'text-amber-400'}`}>
+                  {alignment.aligned
+                    ? `Aligned: the suspect shows ${Math.round(alignment.referenceRegion.width * alignment.referenceRegion.height * 100)}% of the reference at ×${alignment.scale.toFixed(2)} scale (match ${alignment.score.toFixed(2)}) · ${(result.pixels.changedFraction * 100).toFixed(1)}% of pixels differ`
+                    : `Could not align the images (best match ${alignment.score.toFixed(2)}); they are only stretched to the same size, so the difference map is not meaningful.`}
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-amber-400 text-center">The images could not be decoded for a pixel comparison.</p>
+          )}
+
+          <div className="bg-slate-900 rounded-xl p-6 border border-slate-700 shadow-inner space-y-3">
+            <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Detected Changes</h3>
+            {result.aiError && (
+              <p className="text-sm text-red-400">Provider comparison failed: {result.aiError}</p>
+            )}
+            {result.summary && <p className="text-slate-300 leading-relaxed text-sm">{result.summary}</p>}
+            {result.changes.length === 0 ? (
+              <p className="text-sm text-slate-500 italic">No changes found.</p>
+            ) : (
+              <ol className="space-y-2">
+                {result.changes.map((change, idx) => (
+                  <li
+                    key={idx}
+                    onMouseEnter={() => setHoveredChange(idx)}
+                    onMouseLeave={() => setHoveredChange(null)}
+                    className={`flex items-start gap-3 text-sm rounded-lg p-2 border transition-colors ${hoveredChange === idx ? 'border-cyan-600 bg-slate-800/60' : 'border-transparent'}`}
+                  >
+                    <span className="shrink-0 w-5 text-right font-mono text-slate-500">{idx + 1}.</span>
+                    <span
+                      className="shrink-0 mt-1 w-3 h-3 rounded-sm border-2"
+                      style={{ borderColor: CHANGE_COLORS[change.source], borderStyle: change.source === 'pixels' ? 'dashed' : 'solid' }}
+                      title={change.source === 'pixels' ? 'Found by the local difference map' : 'Described by the provider'}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-slate-200">
+                        <span className="font-bold">{KIND_LABELS[change.kind]}</span> — {change.description}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {change.source === 'pixels' ? 'Pixel difference' : `Confidence ${change.confidence}/10`}
+                        {!change.region && ' · whole image'}
+                        {change.pixelSupport === true && <span className="text-green-400"> · confirmed by pixel difference</span>}
+                        {change.pixelSupport === false && <span className="text-amber-400"> · no pixel difference in this region</span>}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+            {result.run && (
+              <p className="text-xs text-slate-500">
+                {result.run.providerLabel} · {result.run.model} · prompt {result.run.promptVersion}
+              </p>
+            )}
+          </div>
+
+          <MetadataDiffTable entries={result.metadataDiff} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,147 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageChange, PixelComparison } from '../types';
+
+interface CompareViewerProps {
+  comparison: PixelComparison;
+  changes: ImageChange[];
+  hoveredChange: number | null;
+  onHoverChange: (index: number | null) => void;
+}
+
+type ViewMode = 'swipe' | 'blink' | 'difference';
+
+const BLINK_INTERVAL_MS = 700;
+
+export const CHANGE_COLORS = { ai: '#22d3ee', pixels: '#f59e0b' };
+
+/**
+ * Canvas that shows an ImageBitmap at its natural aspect ratio.
+ */
+const BitmapCanvas: React.FC<{ bitmap: ImageBitmap; className?: string; style?: React.CSSProperties }> = ({ bitmap, className, style }) => {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = ref.current;
+    if (!canvas) return;
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  }, [bitmap]);
+  return <canvas ref={ref} className={className} style={style} />;
+};
+
+const CompareViewer: React.FC<CompareViewerProps> = ({ comparison, changes, hoveredChange, onHoverChange }) => {
+  const [mode, setMode] = useState<ViewMode>('swipe');
+  const [swipe, setSwipe] = useState(50);
+  const [showReference, setShowReference] = useState(false);
+  const [heatmapOpacity, setHeatmapOpacity] = useState(80);
+  const [showRegions, setShowRegions] = useState(true);
+
+  useEffect(() => {
+    if (mode !== 'blink') return;
+    const timer = setInterval(() => setShowReference((prev) => !prev), BLINK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [mode]);
+
+  const regions = changes
+    .map((change, index) => ({ change, index }))
+    .filter(({ change }) => change.region);
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="relative inline-block max-w-full">
+        {/* The suspect defines the frame; everything else is drawn on top of it */}
+        <BitmapCanvas bitmap={comparison.suspect} className="block max-h-[500px] max-w-full w-auto rounded-lg" />
+
+        {mode === 'swipe' && (
+          <>
+            <BitmapCanvas
+              bitmap={comparison.reference}
+              className="absolute inset-0 w-full h-full rounded-lg"
+              style={{ clipPath: `inset(0 ${100 - swipe}% 0 0)` }}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-cyan-400 pointer-events-none" style={{ left: `${swipe}%` }} />
+          </>
+        )}
+        {mode === 'blink' && (
+          <BitmapCanvas bitmap={comparison.reference} className={`absolute inset-0 w-full h-full rounded-lg ${showReference ? '' : 'invisible'}`} />
+        )}
+        {mode === 'difference' && (
+          <BitmapCanvas
+            bitmap={comparison.heatmap}
+            className="absolute inset-0 w-full h-full rounded-lg pointer-events-none"
+            style={{ opacity: heatmapOpacity / 100 }}
+          />
+        )}
+
+        {showRegions && regions.length > 0 && (
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+            {regions.map(({ change, index }) => {
+              const region = change.region!;
+              const active = hoveredChange === index;
+              const color = CHANGE_COLORS[change.source];
+              return (
+                <rect
+                  key={index}
+                  x={region.x * 100}
+                  y={region.y * 100}
+                  width={region.width * 100}
+                  height={region.height * 100}
+                  fill={active ? `${color}33` : 'transparent'}
+                  stroke={color}
+                  strokeWidth={active ? 3 : 1.5}
+                  strokeDasharray={change.source === 'pixels' ? '4 3' : undefined}
+                  opacity={hoveredChange !== null && !active ? 0.3 : 1}
+                  vectorEffect="non-scaling-stroke"
+                  className="pointer-events-auto cursor-help"
+                  onMouseEnter={() => onHoverChange(index)}
+                  onMouseLeave={() => onHoverChange(null)}
+                >
+                  <title>{index + 1}. {change.description}</title>
+                </rect>
+              );
+            })}
+          </svg>
+        )}
+
+        {mode === 'blink' && (
+          <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-slate-900/80 text-xs font-bold text-slate-200">
+            {showReference ? 'Reference' : 'Suspect'}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        <div className="flex gap-1">
+          {(['swipe', 'blink', 'difference'] as const).map((m) => (
+            <button
+              key={m}
+              onClick={() => setMode(m)}
+              className={`px-3 py-1 rounded-full border font-bold capitalize transition-colors ${mode === m ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300' : 'border-slate-600 text-slate-300 hover:border-cyan-500 hover:text-cyan-400'}`}
+            >
+              {m}
+            </button>
+          ))}
+        </div>
+        {mode === 'swipe' && (
+          <label className="flex items-center gap-2">
+            Reference ◂ ▸ Suspect
+            <input type="range" min={0} max={100} value={swipe} onChange={(e) => setSwipe(Number(e.target.value))} className="w-32 accent-cyan-500" />
+          </label>
+        )}
+        {mode === 'difference' && (
+          <label className="flex items-center gap-2">
+            Opacity
+            <input type="range" min={0} max={100} value={heatmapOpacity} onChange={(e) => setHeatmapOpacity(Number(e.target.value))} className="w-24 accent-cyan-500" />
+          </label>
+        )}
+        {regions.length > 0 && (
+          <button onClick={() => setShowRegions(!showRegions)} className="hover:text-cyan-400">
+            {showRegions ? 'Hide' : 'Show'} regions
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareViewer;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { CompressionReport, QuantizationCategory } from '../types';
+
+interface CompressionCardProps {
+  report: CompressionReport;
+}
+
+const CATEGORY_STYLES: Record<QuantizationCategory, string> = {
+  camera: 'bg-green-900/40 border-green-700/50 text-green-300',
+  editor: 'bg-amber-900/40 border-amber-700/50 text-amber-300',
+  library: 'bg-slate-800 border-slate-600 text-slate-300',
+  social: 'bg-purple-900/40 border-purple-700/50 text-purple-300',
+};
+
+const likelihoodColor = (value: number): string =>
+  value >= 0.66 ? 'bg-red-500' : value >= 0.33 ? 'bg-amber-500' : 'bg-green-500';
+
+const CompressionCard: React.FC<CompressionCardProps> = ({ report }) => {
+  const [showTables, setShowTables] = useState(false);
+  const percent = Math.round(report.resaveLikelihood * 100);
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Compression History</h3>
+        <span className="text-xs text-slate-500">Local analysis</span>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between text-xs mb-1">
+          <span className="text-slate-400 font-bold uppercase tracking-wider">Re-save likelihood</span>
+          <span className="font-bold text-slate-200">{percent}%</span>
+        </div>
+        <div className="h-2 rounded bg-slate-800 overflow-hidden">
+          <div className={`h-full ${likelihoodColor(report.resaveLikelihood)}`} style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <tbody>
+          <tr className="border-b border-slate-800">
+            <td className="py-1 pr-4 text-slate-400 whitespace-nowrap">Estimated quality</td>
+            <td className="py-1 font-mono text-slate-300">
+              {report.estimatedQuality !== null ? `Q${report.estimatedQuality}` : 'Unknown'}
+              {report.isStandardIjg ? ' (exact IJG tables)' : ' (custom tables, nearest IJG match)'}
+            </td>
+          </tr>
+          <tr className="border-b border-slate-800">
+            <td className="py-1 pr-4 text-slate-400 whitespace-nowrap">Encoding</td>
+            <td className="py-1 font-mono text-slate-300">{report.frameType} · {report.width}×{report.height} · {report.subsampling}</td>
+          </tr>
+          <tr>
+            <td className="py-1 pr-4 text-slate-400 whitespace-nowrap">Markers</td>
+            <td className="py-1 font-mono text-slate-300">{report.markers.length ? report.markers.join(', ') : 'None'}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      {report.matches.length > 0 && (
+        <div>
+          <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Consistent with</h4>
+          <div className="space-y-1">
+            {report.matches.map((match) => (
+              <div key={match.signatureId} className="flex items-start gap-2 text-xs">
+                <span className={`shrink-0 px-1.5 py-0.5 rounded border font-bold ${CATEGORY_STYLES[match.category]}`}>{match.category}</span>
+                <span className="text-slate-300"><span className="font-medium">{match.label}</span> — <span className="text-slate-400">{match.description}</span></span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.indicators.length > 0 && (
+        <ul className="list-disc list-inside text-xs text-slate-300 space-y-0.5">
+          {report.indicators.map((indicator, idx) => <li key={idx}>{indicator}</li>)}
+        </ul>
+      )}
+
+      <p className="text-xs text-slate-500">
+        {report.doubleCompression
+          ? `Double-compression test: ${report.doubleCompression.blocksDecoded.toLocaleString()} luminance blocks, ${report.doubleCompression.frequenciesAnalyzed} DCT frequencies · periodicity ${Math.round(report.doubleCompression.periodicityScore * 100)}% · empty bins ${Math.round(report.doubleCompression.gapScore * 100)}%.`
+          : report.frameType === 'progressive'
+            ? 'Double-compression test skipped: progressive JPEGs are not decoded.'
+            : 'Double-compression test inconclusive: not enough non-zero DCT coefficients.'}
+      </p>
+
+      {report.tables.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowTables(!showTables)}
+            className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+          >
+            {showTables ? 'Hide' : 'Show'} {report.tables.length} quantization table{report.tables.length === 1 ? '' : 's'}
+          </button>
+          {showTables && (
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {report.tables.map((table) => (
+                <div key={table.id}>
+                  <p className="text-xs text-slate-400 mb-1">Table {table.id}{table.id === 0 ? ' (luminance)' : ''}</p>
+                  <div className="grid grid-cols-8 gap-px bg-slate-800 border border-slate-800 rounded overflow-hidden">
+                    {table.values.map((value, idx) => (
+                      <span key={idx} className="bg-slate-950 text-center font-mono text-[10px] text-slate-300 py-0.5">{value}</span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompressionCard;
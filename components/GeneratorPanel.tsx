@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { EmbeddedText, GeneratorReport } from '../types';
+
+interface GeneratorPanelProps {
+  generator: GeneratorReport | null;
+  textChunks: EmbeddedText[];
+}
+
+const GeneratorPanel: React.FC<GeneratorPanelProps> = ({ generator, textChunks }) => {
+  const [showChunks, setShowChunks] = useState(false);
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Embedded Generator Data</h3>
+        {generator && (
+          <span className="px-2 py-0.5 rounded text-xs font-bold bg-red-900/40 border border-red-700/50 text-red-300">
+            {generator.generator}
+          </span>
+        )}
+      </div>
+
+      {generator && (
+        <div className="space-y-3">
+          {generator.prompt && (
+            <div>
+              <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Prompt</h4>
+              <pre className="whitespace-pre-wrap break-words bg-slate-950 border border-slate-800 rounded p-2 font-mono text-xs text-slate-200">{generator.prompt}</pre>
+            </div>
+          )}
+          {generator.negativePrompt && (
+            <div>
+              <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Negative Prompt</h4>
+              <pre className="whitespace-pre-wrap break-words bg-slate-950 border border-slate-800 rounded p-2 font-mono text-xs text-slate-400">{generator.negativePrompt}</pre>
+            </div>
+          )}
+          {generator.settings.length > 0 && (
+            <table className="w-full text-xs">
+              <tbody>
+                {generator.settings.map((setting, idx) => (
+                  <tr key={idx} className="border-b border-slate-800 last:border-0">
+                    <td className="py-1 pr-4 align-top whitespace-nowrap text-slate-400">{setting.name}</td>
+                    <td className="py-1 font-mono text-slate-300 break-all">{setting.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs text-slate-500">
+            Read from the "{generator.sourceKeyword}" field{generator.hasWorkflow ? ' · full node workflow embedded' : ''}.
+          </p>
+        </div>
+      )}
+
+      {textChunks.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowChunks(!showChunks)}
+            className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+          >
+            {showChunks ? 'Hide' : 'Show'} {textChunks.length} raw text field{textChunks.length === 1 ? '' : 's'}
+          </button>
+          {showChunks && (
+            <div className="mt-2 space-y-2">
+              {textChunks.map((chunk, idx) => (
+                <div key={idx}>
+                  <p className="text-xs text-slate-400"><span className="font-mono text-slate-300">{chunk.keyword}</span> · {chunk.chunk}</p>
+                  <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words bg-slate-950 border border-slate-800 rounded p-2 font-mono text-xs text-slate-300">{chunk.text}</pre>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeneratorPanel;
@@ -0,0 +1,303 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ClonePair, DetectedTool, ElaResult, ImageRegion } from '../types';
+import { runErrorLevelAnalysis } from '../services/elaService';
+
+interface ImagePreviewProps {
+  file: File;
+  src: string;
+  clonePairs?: ClonePair[];
+  tools?: DetectedTool[];
+  hoveredTool?: number | null;
+  onHoverTool?: (index: number | null) => void;
+  // While picking, a click marks a point and a drag marks a box, reported as fractions of the image
+  picking?: boolean;
+  pickedRegion?: ImageRegion | null;
+  onPickRegion?: (region: ImageRegion) => void;
+}
+
+const ELA_QUALITIES = [75, 85, 90, 95];
+
+const CLONE_COLORS = ['#f43f5e', '#f59e0b', '#a855f7', '#22c55e', '#3b82f6', '#ec4899'];
+
+const FINDING_COLOR = '#22d3ee';
+
+const PICK_COLOR = '#fbbf24';
+
+// Drags shorter than this fraction of the image in both directions count as a click
+const MIN_PICK_SIZE = 0.01;
+
+const center = (region: ImageRegion) => ({ x: (region.x + region.width / 2) * 100, y: (region.y + region.height / 2) * 100 });
+
+const boxBetween = (a: { x: number; y: number }, b: { x: number; y: number }): ImageRegion => {
+  const width = Math.abs(a.x - b.x);
+  const height = Math.abs(a.y - b.y);
+  return width < MIN_PICK_SIZE && height < MIN_PICK_SIZE
+    ? { x: a.x, y: a.y, width: 0, height: 0 }
+    : { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width, height };
+};
+
+const ImagePreview: React.FC<ImagePreviewProps> = ({
+  file,
+  src,
+  clonePairs = [],
+  tools = [],
+  hoveredTool = null,
+  onHoverTool,
+  picking = false,
+  pickedRegion = null,
+  onPickRegion,
+}) => {
+  const [elaEnabled, setElaEnabled] = useState(false);
+  const [elaQuality, setElaQuality] = useState(90);
+  const [elaOpacity, setElaOpacity] = useState(70);
+  const [ela, setEla] = useState<ElaResult | null>(null);
+  const [elaRunning, setElaRunning] = useState(false);
+  const [elaError, setElaError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showClones, setShowClones] = useState(true);
+  const [hoveredPair, setHoveredPair] = useState<number | null>(null);
+  const [showFindings, setShowFindings] = useState(true);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRegion, setDragRegion] = useState<ImageRegion | null>(null);
+
+  const findings = tools.flatMap((tool, toolIndex) =>
+    (tool.findings ?? []).filter((finding) => finding?.region).map((finding) => ({ tool, toolIndex, finding })),
+  );
+
+  // ELA only runs once the overlay is switched on, and re-runs when the quality changes
+  useEffect(() => {
+    if (!elaEnabled || ela?.quality === elaQuality) return;
+
+    const controller = new AbortController();
+    setElaRunning(true);
+    setElaError(null);
+    runErrorLevelAnalysis(file, elaQuality, controller.signal)
+      .then((result) => {
+        setEla(result);
+        setElaRunning(false);
+      })
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        setElaError(err.message || 'Error level analysis failed');
+        setElaRunning(false);
+      });
+    return () => controller.abort();
+  }, [file, elaEnabled, elaQuality, ela?.quality]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !ela) return;
+    canvas.width = ela.width;
+    canvas.height = ela.height;
+    canvas.getContext('2d')?.drawImage(ela.heatmap, 0, 0);
+    return () => ela.heatmap.close();
+  }, [ela]);
+
+  const pointerPosition = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const shownPick = dragRegion ?? pickedRegion;
+
+  return (
+    <div className="w-full flex flex-col items-center gap-3">
+      <div className="relative inline-block">
+        <img
+          src={src}
+          alt="Preview"
+          className="block max-h-[500px] w-auto rounded-lg shadow-md object-contain"
+        />
+        <canvas
+          ref={canvasRef}
+          className={`absolute inset-0 w-full h-full rounded-lg pointer-events-none ${elaEnabled && ela ? '' : 'hidden'}`}
+          style={{ opacity: elaOpacity / 100 }}
+        />
+        {showClones && clonePairs.length > 0 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            {clonePairs.map((pair, idx) => {
+              const color = CLONE_COLORS[idx % CLONE_COLORS.length];
+              const active = hoveredPair === idx;
+              const dimmed = hoveredPair !== null && !active;
+              const from = center(pair.source);
+              const to = center(pair.target);
+              const rect = (region: ImageRegion, dashed: boolean) => (
+                <rect
+                  x={region.x * 100}
+                  y={region.y * 100}
+                  width={region.width * 100}
+                  height={region.height * 100}
+                  fill={active ? `${color}33` : 'transparent'}
+                  stroke={color}
+                  strokeWidth={active ? 3 : 2}
+                  strokeDasharray={dashed ? '6 4' : undefined}
+                  vectorEffect="non-scaling-stroke"
+                  className="pointer-events-auto cursor-help"
+                  onMouseEnter={() => setHoveredPair(idx)}
+                  onMouseLeave={() => setHoveredPair(null)}
+                >
+                  <title>Clone pair {idx + 1}: {pair.blockCount} matching blocks ({dashed ? 'source' : 'copy'})</title>
+                </rect>
+              );
+              return (
+                <g key={idx} opacity={dimmed ? 0.25 : 1}>
+                  <line
+                    x1={from.x}
+                    y1={from.y}
+                    x2={to.x}
+                    y2={to.y}
+                    stroke={color}
+                    strokeWidth={active ? 2 : 1}
+                    strokeDasharray="2 3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  {rect(pair.source, true)}
+                  {rect(pair.target, false)}
+                </g>
+              );
+            })}
+          </svg>
+        )}
+        {showFindings && findings.length > 0 && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            {findings.map(({ tool, toolIndex, finding }, idx) => {
+              const active = hoveredTool === toolIndex;
+              return (
+                <rect
+                  key={idx}
+                  x={finding.region.x * 100}
+                  y={finding.region.y * 100}
+                  width={finding.region.width * 100}
+                  height={finding.region.height * 100}
+                  fill={active ? `${FINDING_COLOR}33` : 'transparent'}
+                  stroke={FINDING_COLOR}
+                  strokeWidth={active ? 3 : 1.5}
+                  opacity={hoveredTool !== null && !active ? 0.25 : 1}
+                  vectorEffect="non-scaling-stroke"
+                  className="pointer-events-auto cursor-help"
+                  onMouseEnter={() => onHoverTool?.(toolIndex)}
+                  onMouseLeave={() => onHoverTool?.(null)}
+                >
+                  <title>{tool.name}: {finding.label || 'cue'} (confidence {finding.confidence}/10)</title>
+                </rect>
+              );
+            })}
+          </svg>
+        )}
+        {shownPick && (
+          <svg
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+          >
+            {shownPick.width === 0 && shownPick.height === 0 ? (
+              <g stroke={PICK_COLOR} strokeWidth={2}>
+                <line x1={shownPick.x * 100 - 2} y1={shownPick.y * 100} x2={shownPick.x * 100 + 2} y2={shownPick.y * 100} vectorEffect="non-scaling-stroke" />
+                <line x1={shownPick.x * 100} y1={shownPick.y * 100 - 2} x2={shownPick.x * 100} y2={shownPick.y * 100 + 2} vectorEffect="non-scaling-stroke" />
+              </g>
+            ) : (
+              <rect
+                x={shownPick.x * 100}
+                y={shownPick.y * 100}
+                width={shownPick.width * 100}
+                height={shownPick.height * 100}
+                fill={`${PICK_COLOR}22`}
+                stroke={PICK_COLOR}
+                strokeWidth={2}
+                strokeDasharray="4 3"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+          </svg>
+        )}
+        {picking && (
+          <div
+            className="absolute inset-0 cursor-crosshair touch-none"
+            title="Click a point or drag a box to ask about it"
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              const start = pointerPosition(e);
+              setDragStart(start);
+              setDragRegion(boxBetween(start, start));
+            }}
+            onPointerMove={(e) => dragStart && setDragRegion(boxBetween(dragStart, pointerPosition(e)))}
+            onPointerUp={(e) => {
+              if (!dragStart) return;
+              onPickRegion?.(boxBetween(dragStart, pointerPosition(e)));
+              setDragStart(null);
+              setDragRegion(null);
+            }}
+          />
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 text-xs text-slate-400" onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={() => setElaEnabled(!elaEnabled)}
+          className={`px-3 py-1 rounded-full border font-bold transition-colors ${elaEnabled ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300' : 'border-slate-600 text-slate-300 hover:border-cyan-500 hover:text-cyan-400'}`}
+          title="Error Level Analysis: re-encodes the image and highlights regions that recompress differently"
+        >
+          ELA heatmap {elaEnabled ? 'on' : 'off'}
+        </button>
+        <label className="flex items-center gap-2">
+          Quality
+          <select
+            value={elaQuality}
+            onChange={(e) => setElaQuality(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+          >
+            {ELA_QUALITIES.map((q) => <option key={q} value={q}>{q}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Opacity
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={elaOpacity}
+            onChange={(e) => setElaOpacity(Number(e.target.value))}
+            className="w-24 accent-cyan-500"
+          />
+        </label>
+        {elaEnabled && elaRunning && <span className="text-cyan-400 animate-pulse">Computing ELA…</span>}
+        {elaEnabled && !elaRunning && ela && (
+          <span>Mean error {ela.meanError.toFixed(1)} · max {ela.maxError} · ×{ela.scale.toFixed(1)}</span>
+        )}
+        {elaEnabled && elaError && <span className="text-red-400">{elaError}</span>}
+        {clonePairs.length > 0 && (
+          <button
+            onClick={() => setShowClones(!showClones)}
+            className={`px-3 py-1 rounded-full border font-bold transition-colors ${showClones ? 'bg-red-900/40 border-red-600 text-red-300' : 'border-slate-600 text-slate-300 hover:border-red-500 hover:text-red-400'}`}
+            title="Regions whose pixel blocks reappear elsewhere in the image; dashed = source, solid = copy"
+          >
+            {clonePairs.length} clone pair{clonePairs.length === 1 ? '' : 's'} {showClones ? 'shown' : 'hidden'}
+          </button>
+        )}
+        {findings.length > 0 && (
+          <button
+            onClick={() => setShowFindings(!showFindings)}
+            className={`px-3 py-1 rounded-full border font-bold transition-colors ${showFindings ? 'bg-cyan-900/40 border-cyan-600 text-cyan-300' : 'border-slate-600 text-slate-300 hover:border-cyan-500 hover:text-cyan-400'}`}
+            title="Regions where the analysis located cues for a tool; hover one to find its row in the breakdown"
+          >
+            {findings.length} finding{findings.length === 1 ? '' : 's'} {showFindings ? 'shown' : 'hidden'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImagePreview;
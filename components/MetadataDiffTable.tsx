@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { MetadataDiffEntry, MetadataDiffStatus } from '../types';
+
+interface MetadataDiffTableProps {
+  entries: MetadataDiffEntry[];
+}
+
+const STATUS_STYLES: Record<MetadataDiffStatus, string> = {
+  added: 'bg-green-900/40 border-green-700/50 text-green-300',
+  removed: 'bg-red-900/40 border-red-700/50 text-red-300',
+  changed: 'bg-amber-900/40 border-amber-700/50 text-amber-300',
+  unchanged: 'bg-slate-800 border-slate-600 text-slate-400',
+};
+
+const MetadataDiffTable: React.FC<MetadataDiffTableProps> = ({ entries }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const differences = entries.filter((e) => e.status !== 'unchanged');
+  const visible = showUnchanged ? entries : differences;
+  const count = (status: MetadataDiffStatus) => entries.filter((e) => e.status === status).length;
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Metadata Differences</h3>
+        <span className="text-xs text-slate-500">
+          {count('changed')} changed · {count('removed')} removed · {count('added')} added · {count('unchanged')} unchanged
+        </span>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">The metadata of both files is identical.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-slate-400 border-b border-slate-700">
+              <tr>
+                <th className="py-1 pr-2 text-left">Section</th>
+                <th className="py-1 pr-2 text-left">Field</th>
+                <th className="py-1 pr-2 text-left">Reference</th>
+                <th className="py-1 pr-2 text-left">Suspect</th>
+                <th className="py-1 text-left" />
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((entry, idx) => (
+                <tr key={idx} className="border-b border-slate-800 last:border-0 align-top">
+                  <td className="py-1 pr-2 text-slate-500 whitespace-nowrap">{entry.section}</td>
+                  <td className="py-1 pr-2 text-slate-300 font-medium break-all">{entry.field}</td>
+                  <td className="py-1 pr-2 font-mono text-slate-400 break-all">{entry.reference ?? '—'}</td>
+                  <td className="py-1 pr-2 font-mono text-slate-200 break-all">{entry.suspect ?? '—'}</td>
+                  <td className="py-1">
+                    <span className={`px-1.5 py-0.5 rounded border font-bold ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {entries.length > differences.length && (
+        <button onClick={() => setShowUnchanged(!showUnchanged)} className="text-xs text-slate-400 hover:text-cyan-400">
+          {showUnchanged ? 'Hide unchanged fields' : 'Show unchanged fields'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MetadataDiffTable;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ExifIfdName, ExifReport } from '../types';
+import { formatExifValue } from '../services/exifService';
+
+interface MetadataTableProps {
+  report: ExifReport;
+}
+
+const IFD_LABELS: Record<ExifIfdName, string> = {
+  IFD0: 'Image (IFD0)',
+  Exif: 'Exif SubIFD',
+  GPS: 'GPS',
+  Interop: 'Interoperability',
+  IFD1: 'Thumbnail (IFD1)',
+};
+
+const IFD_ORDER: ExifIfdName[] = ['IFD0', 'Exif', 'GPS', 'Interop', 'IFD1'];
+
+// Tags worth drawing the analyst's eye to, since they directly name editing software or alter capture facts
+const HIGHLIGHTED_TAGS = new Set(['Software', 'DateTime', 'DateTimeOriginal', 'Make', 'Model', 'LensModel', 'Artist']);
+
+const MetadataTable: React.FC<MetadataTableProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const groups = IFD_ORDER
+    .map((ifd) => ({ ifd, entries: report.entries.filter((e) => e.ifd === ifd) }))
+    .filter((group) => group.entries.length > 0);
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="text-slate-200 font-semibold text-sm flex items-center gap-2">
+          EXIF Metadata
+          <span className="text-xs font-normal text-slate-500">
+            {report.entries.length} tags{report.hasMakerNote ? ' · MakerNote present' : ''}{report.gps ? ' · GPS' : ''}
+          </span>
+        </span>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4">
+          {report.gps && report.gps.latitude !== undefined && report.gps.longitude !== undefined && (
+            <p className="text-xs text-slate-400">
+              GPS position: <span className="font-mono text-cyan-400">{report.gps.latitude.toFixed(6)}, {report.gps.longitude.toFixed(6)}</span>
+              {report.gps.altitude !== undefined && <> · {report.gps.altitude.toFixed(1)} m</>}
+            </p>
+          )}
+
+          {groups.map(({ ifd, entries }) => (
+            <div key={ifd}>
+              <h4 className="text-cyan-400 text-xs font-bold uppercase tracking-wider mb-1">{IFD_LABELS[ifd]}</h4>
+              <table className="w-full text-xs">
+                <tbody>
+                  {entries.map((entry) => (
+                    <tr key={`${entry.ifd}-${entry.tag}`} className="border-b border-slate-800 last:border-0">
+                      <td className={`py-1 pr-4 align-top whitespace-nowrap ${HIGHLIGHTED_TAGS.has(entry.name) ? 'text-amber-400 font-medium' : 'text-slate-400'}`}>
+                        {entry.name}
+                      </td>
+                      <td className="py-1 font-mono text-slate-300 break-all">{formatExifValue(entry)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetadataTable;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { SensitiveField, SensitiveFieldCategory } from '../types';
+
+interface PrivacyPromptProps {
+  fields: SensitiveField[];
+  // true strips the metadata, false sends it as-is, null cancels the analysis
+  onDecide: (strip: boolean | null) => void;
+}
+
+const CATEGORY_LABELS: Record<SensitiveFieldCategory, string> = {
+  location: 'Location',
+  identity: 'Identity',
+  device: 'Device',
+  content: 'Content',
+};
+
+const PrivacyPrompt: React.FC<PrivacyPromptProps> = ({ fields, onDecide }) => (
+  <div className="w-full bg-slate-900 rounded-xl border border-amber-700/50 p-4 space-y-3 text-sm">
+    <div>
+      <h3 className="text-amber-300 text-sm font-bold uppercase tracking-wider">Sensitive metadata in upload</h3>
+      <p className="text-xs text-slate-400 mt-1">
+        The copy about to be sent to the provider carries {fields.length} field{fields.length === 1 ? '' : 's'} that could identify a place,
+        a person or a camera. Stripping them does not change the pixels or the local metadata analysis.
+      </p>
+    </div>
+
+    <table className="w-full text-xs">
+      <tbody>
+        {fields.map((field, idx) => (
+          <tr key={idx} className="border-b border-slate-800 last:border-0">
+            <td className="py-1 pr-3 text-slate-500 whitespace-nowrap">{CATEGORY_LABELS[field.category]}</td>
+            <td className="py-1 pr-3 text-slate-300 whitespace-nowrap">
+              {field.name} <span className="text-[10px] px-1 rounded bg-slate-800 text-slate-400 font-bold">{field.source}</span>
+            </td>
+            <td className="py-1 font-mono text-slate-400 break-all">{field.value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+
+    <div className="flex flex-wrap justify-end gap-2">
+      <button onClick={() => onDecide(null)} className="px-3 py-1.5 rounded text-xs text-slate-400 hover:text-slate-200">
+        Cancel
+      </button>
+      <button onClick={() => onDecide(false)} className="px-3 py-1.5 rounded text-xs font-bold border border-slate-600 text-slate-300 hover:border-amber-500 hover:text-amber-300">
+        Send as-is
+      </button>
+      <button onClick={() => onDecide(true)} className="px-3 py-1.5 rounded text-xs font-bold bg-cyan-700 hover:bg-cyan-600 text-white">
+        Strip and send
+      </button>
+    </div>
+  </div>
+);
+
+export default PrivacyPrompt;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { C2paHashStatus, C2paReport, C2paSignatureStatus } from '../types';
+
+interface ProvenancePanelProps {
+  report: C2paReport | null;
+  trustList: string;
+  onTrustListChange: (pem: string) => void;
+}
+
+const HASH_LABELS: Record<C2paHashStatus, { text: string; className: string }> = {
+  match: { text: 'Hash binding matches file', className: 'text-green-400' },
+  mismatch: { text: 'Hash binding does NOT match file', className: 'text-red-400' },
+  unsupported: { text: 'Hash binding not verifiable', className: 'text-slate-400' },
+  missing: { text: 'No hash binding', className: 'text-amber-400' },
+};
+
+const SIGNATURE_LABELS: Record<C2paSignatureStatus, { text: string; className: string }> = {
+  trusted: { text: 'Signed by a trusted certificate', className: 'text-green-400' },
+  untrusted: { text: 'Valid signature, signer not in trust list', className: 'text-amber-400' },
+  invalid: { text: 'Signature invalid', className: 'text-red-400' },
+  unverified: { text: 'Signature not verifiable', className: 'text-slate-400' },
+};
+
+// Strip the IPTC vocabulary prefix so "…/digitalsourcetype/trainedAlgorithmicMedia" reads cleanly
+const shortSourceType = (uri: string) => uri.split('/').pop() ?? uri;
+
+const ProvenancePanel: React.FC<ProvenancePanelProps> = ({ report, trustList, onTrustListChange }) => {
+  const [showTrustList, setShowTrustList] = useState(false);
+  const manifest = report?.activeManifest;
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Provenance</h3>
+        {report ? (
+          <span className="px-2 py-0.5 rounded text-xs font-bold bg-green-900/40 border border-green-700/50 text-green-300">
+            Content Credentials present
+          </span>
+        ) : (
+          <span className="px-2 py-0.5 rounded text-xs font-bold bg-slate-800 border border-slate-700 text-slate-400">
+            No C2PA manifest
+          </span>
+        )}
+      </div>
+
+      {report && manifest && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+            <div>
+              <span className="text-slate-500">Claim generator: </span>
+              <span className="font-mono text-amber-200">{manifest.claimGenerator ?? 'unknown'}</span>
+            </div>
+            <div>
+              <span className="text-slate-500">Found in: </span>
+              <span className="text-slate-300">{report.source} · {report.manifests.length} manifest{report.manifests.length === 1 ? '' : 's'}</span>
+            </div>
+            <div className={HASH_LABELS[report.hashBinding].className}>{HASH_LABELS[report.hashBinding].text}</div>
+            <div className={SIGNATURE_LABELS[report.signatureStatus].className}>{SIGNATURE_LABELS[report.signatureStatus].text}</div>
+            {report.signer && (
+              <div className="sm:col-span-2 text-slate-400">
+                Signer: <span className="text-slate-300">{report.signer.subject}</span>
+                <span className="text-slate-500"> · issued by {report.signer.issuer}</span>
+              </div>
+            )}
+          </div>
+
+          {report.aiGenerated && (
+            <p className="text-xs font-bold text-red-300 bg-red-900/20 border border-red-800/50 rounded p-2">
+              The manifest declares this image was created by a generative AI model.
+            </p>
+          )}
+
+          {manifest.actions.length > 0 && (
+            <div>
+              <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Actions</h4>
+              <ul className="space-y-1 text-xs">
+                {manifest.actions.map((action, idx) => (
+                  <li key={idx} className="text-slate-300">
+                    <span className="font-mono text-slate-100">{action.action}</span>
+                    {action.softwareAgent && <> by <span className="text-amber-200">{action.softwareAgent}</span></>}
+                    {action.digitalSourceType && <span className="text-slate-500"> · {shortSourceType(action.digitalSourceType)}</span>}
+                    {action.when && <span className="text-slate-500"> · {action.when}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {manifest.ingredients.length > 0 && (
+            <div>
+              <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Ingredients</h4>
+              <ul className="space-y-1 text-xs">
+                {manifest.ingredients.map((ingredient, idx) => (
+                  <li key={idx} className="text-slate-300">
+                    {ingredient.title ?? 'Untitled'}
+                    <span className="text-slate-500"> · {[ingredient.format, ingredient.relationship].filter(Boolean).join(' · ')}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-xs text-slate-500">Assertions: {manifest.assertionLabels.join(', ') || 'none'}</p>
+        </div>
+      )}
+
+      <div>
+        <button
+          onClick={() => setShowTrustList(!showTrustList)}
+          className="text-xs text-slate-400 hover:text-cyan-400 transition-colors"
+        >
+          {showTrustList ? 'Hide' : 'Edit'} local trust list
+        </button>
+        {showTrustList && (
+          <div className="mt-2 space-y-1">
+            <textarea
+              value={trustList}
+              onChange={(e) => onTrustListChange(e.target.value)}
+              placeholder="-----BEGIN CERTIFICATE-----&#10;...&#10;-----END CERTIFICATE-----"
+              className="w-full h-32 bg-slate-950 border border-slate-700 rounded p-2 font-mono text-xs text-slate-300 focus:outline-none focus:border-cyan-500"
+            />
+            <p className="text-xs text-slate-500">PEM certificates trusted as signing anchors. Stored in this browser only; re-analyze to apply.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProvenancePanel;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { AnalysisResult, CaseRecord } from '../types';
+import { buildForensicReport, renderReportHtml, renderReportJson, reportFileName } from '../services/reportService';
+import { createThumbnail } from '../services/thumbnailService';
+
+interface ReportExportPanelProps {
+  file: File;
+  result: AnalysisResult;
+  caseRecord: CaseRecord | null;
+}
+
+type ExportFormat = 'html' | 'pdf' | 'json';
+
+const PREVIEW_SIZE = 480;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+
+const download = (content: string, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const ReportExportPanel: React.FC<ReportExportPanelProps> = ({ file, result, caseRecord }) => {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportReport = async (format: ExportFormat) => {
+    // The print window has to be opened during the click, before any await, or popup blockers stop it
+    const printWindow = format === 'pdf' ? window.open('', '_blank') : null;
+    if (format === 'pdf' && !printWindow) {
+      setError('The print window was blocked. Allow pop-ups for this page to save a PDF.');
+      return;
+    }
+    setBusy(format);
+    setError(null);
+    try {
+      const report = await buildForensicReport(file, result, caseRecord);
+      if (format === 'json') {
+        download(renderReportJson(report), 'application/json', reportFileName(report, 'json'));
+        return;
+      }
+      const thumbnail = await createThumbnail(file, PREVIEW_SIZE);
+      const html = renderReportHtml(report, { previewDataUrl: thumbnail ? await blobToDataUrl(thumbnail) : null });
+      if (printWindow) {
+        printWindow.document.open();
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+      } else {
+        download(html, 'text/html', reportFileName(report, 'html'));
+      }
+    } catch (err: any) {
+      printWindow?.close();
+      setError(err?.message || 'Could not create the report');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const button = (format: ExportFormat, label: string) => (
+    <button
+      onClick={() => exportReport(format)}
+      disabled={busy !== null}
+      className="px-3 py-1 rounded text-xs font-bold border border-slate-600 hover:border-cyan-500 text-slate-200 disabled:text-slate-500 disabled:border-slate-700 transition-colors"
+    >
+      {busy === format ? 'Preparing…' : label}
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Export Report</h3>
+        <div className="flex gap-2">
+          {button('html', 'HTML')}
+          {button('pdf', 'Print / PDF')}
+          {button('json', 'JSON')}
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        Includes SHA-256 and MD5 of the file, the provider, model and prompt version used, all metadata tables and the score chart.
+      </p>
+      {!result.run && (
+        <p className="text-xs text-amber-400">This result predates run recording, so the report cannot name the provider or model.</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ReportExportPanel;
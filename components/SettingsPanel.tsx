@@ -0,0 +1,364 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { EnsembleConfig, FixtureMode, PrivacyPolicy, ProviderConfig, ProviderId, ToolCatalogEntry, UploadBudget } from '../types';
+import { PROVIDERS, getProviderDefinition } from '../services/providerService';
+import { RESULT_CACHE_MAX_BYTES, RESULT_CACHE_TTL_MS, ResultCacheStats, clearResultCache, getResultCacheStats } from '../services/resultCacheService';
+import { DEFAULT_UPLOAD_BUDGET } from '../services/uploadService';
+import { browserFixtureStore, fixturesToJson, parseFixturesJson } from '../services/fixtureService';
+import { MAX_ENSEMBLE_SAMPLES } from '../services/ensembleService';
+import { PRIVACY_POLICY_LABELS } from '../services/privacyService';
+import ToolCatalogEditor from './ToolCatalogEditor';
+
+interface SettingsPanelProps {
+  providerConfig: ProviderConfig;
+  onProviderConfigChange: (config: ProviderConfig) => void;
+  toolCatalog: ToolCatalogEntry[];
+  onToolCatalogChange: (catalog: ToolCatalogEntry[]) => void;
+  uploadBudget: UploadBudget;
+  onUploadBudgetChange: (budget: UploadBudget) => void;
+  fixtureMode: FixtureMode;
+  onFixtureModeChange: (mode: FixtureMode) => void;
+  ensemble: EnsembleConfig;
+  onEnsembleChange: (config: EnsembleConfig) => void;
+  privacyPolicy: PrivacyPolicy;
+  onPrivacyPolicyChange: (policy: PrivacyPolicy) => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded p-2 font-mono text-xs text-slate-300 focus:outline-none focus:border-cyan-500';
+
+/**
+ * Size of the local result cache, with a control to empty it.
+ */
+const ResultCacheSettings: React.FC = () => {
+  const [stats, setStats] = useState<ResultCacheStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = () =>
+    getResultCacheStats()
+      .then(setStats)
+      .catch((err) => setError(err?.message || 'The result cache is unavailable'));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const clear = async () => {
+    if (!window.confirm('Remove every cached analysis result? The case library is not affected.')) return;
+    await clearResultCache().catch((err) => setError(err?.message || 'Could not clear the cache'));
+    refresh();
+  };
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Result Cache</h4>
+      <p className="text-xs text-slate-500">
+        Re-analysing an identical image with the same provider, model, prompt and tools returns the stored result instead of a new
+        provider call. Entries expire after {Math.round(RESULT_CACHE_TTL_MS / 86_400_000)} days; the cache is capped at {RESULT_CACHE_MAX_BYTES / 1024 / 1024} MB.
+      </p>
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+        <span className="text-slate-300">
+          {stats
+            ? `${stats.entries} result${stats.entries === 1 ? '' : 's'} · ${(stats.bytes / 1024 / 1024).toFixed(1)} MB${stats.oldest ? ` · oldest ${new Date(stats.oldest).toLocaleDateString()}` : ''}`
+            : !error && 'Loading…'}
+        </span>
+        <button onClick={clear} disabled={!stats || stats.entries === 0} className="text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400">
+          Clear cache
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+const FIXTURE_MODE_HELP: Record<FixtureMode, string> = {
+  off: 'Provider calls go to the network as usual.',
+  record: 'Every provider answer is also saved as a fixture, keyed by the image sent and the prompt version. The result cache is bypassed.',
+  replay: 'Answers come only from recorded fixtures; nothing is sent to the provider and no API key is needed. Unrecorded images fail.',
+};
+
+/**
+ * Record and replay of provider calls, for demos and automated tests without a live provider.
+ */
+const FixtureSettings: React.FC<{ mode: FixtureMode; onModeChange: (mode: FixtureMode) => void }> = ({ mode, onModeChange }) => {
+  const [count, setCount] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () =>
+    browserFixtureStore
+      .list()
+      .then((fixtures) => setCount(fixtures.length))
+      .catch((err) => setError(err?.message || 'The fixture store is unavailable'));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const importFixtures = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      for (const fixture of parseFixturesJson(await file.text())) await browserFixtureStore.put(fixture);
+      setError(null);
+    } catch (err: any) {
+      setError(`Import failed: ${err.message}`);
+    }
+    refresh();
+  };
+
+  const exportFixtures = async () => {
+    const url = URL.createObjectURL(new Blob([fixturesToJson(await browserFixtureStore.list())], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'provider-fixtures.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const clear = async () => {
+    if (!window.confirm('Remove every recorded provider answer?')) return;
+    await browserFixtureStore.clear().catch((err) => setError(err?.message || 'Could not clear the fixtures'));
+    refresh();
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Record &amp; Replay</h4>
+        <div className="flex gap-3 text-xs">
+          <input type="file" ref={importRef} accept="application/json,.json" className="hidden" onChange={(e) => { importFixtures(e.target.files?.[0]); e.target.value = ''; }} />
+          <button onClick={() => importRef.current?.click()} className="text-slate-400 hover:text-cyan-400">Import JSON</button>
+          <button onClick={exportFixtures} disabled={!count} className="text-slate-400 hover:text-cyan-400 disabled:opacity-40 disabled:hover:text-slate-400">Export JSON</button>
+          <button onClick={clear} disabled={!count} className="text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400">Clear</button>
+        </div>
+      </div>
+      <select value={mode} onChange={(e) => onModeChange(e.target.value as FixtureMode)} className={inputClass}>
+        <option value="off">Off</option>
+        <option value="record">Record provider answers</option>
+        <option value="replay">Replay recorded answers</option>
+      </select>
+      <p className="text-xs text-slate-500">
+        {FIXTURE_MODE_HELP[mode]} {count !== null && `${count} fixture${count === 1 ? '' : 's'} stored.`}
+      </p>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+/**
+ * Repeated sampling of the provider to measure how stable its scores are.
+ */
+const EnsembleSettings: React.FC<{ config: EnsembleConfig; onChange: (config: EnsembleConfig) => void }> = ({ config, onChange }) => (
+  <div className="space-y-2">
+    <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Ensemble</h4>
+    <p className="text-xs text-slate-500">
+      Ask the provider several times per image and report each tool's mean score with a 95% interval. Tools whose samples
+      disagree are flagged as unstable. Every sample is a billed provider call.
+    </p>
+    <div className="grid grid-cols-2 gap-2 items-end">
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Samples per image</span>
+        <input
+          type="number"
+          min={1}
+          max={MAX_ENSEMBLE_SAMPLES}
+          value={config.samples}
+          onChange={(e) => onChange({ ...config, samples: Math.min(MAX_ENSEMBLE_SAMPLES, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center gap-2 text-xs text-slate-400 pb-2">
+        <input
+          type="checkbox"
+          checked={config.promptVariants}
+          onChange={(e) => onChange({ ...config, promptVariants: e.target.checked })}
+          className="accent-cyan-500"
+        />
+        Vary the prompt between samples
+      </label>
+    </div>
+  </div>
+);
+
+const PRIVACY_POLICY_HELP: Record<PrivacyPolicy, string> = {
+  strip: 'EXIF, XMP, IPTC, C2PA and comment blocks are removed from every image before upload.',
+  ask: 'When an image carries GPS positions, serial numbers, owner names or similar, you choose whether to strip them before upload. Batch and compare runs strip them.',
+  send: 'Images are sent with all their metadata, exactly as prepared for upload.',
+};
+
+/**
+ * What happens to identifying metadata in the copy sent to the provider.
+ */
+const PrivacySettings: React.FC<{ policy: PrivacyPolicy; onChange: (policy: PrivacyPolicy) => void }> = ({ policy, onChange }) => (
+  <div className="space-y-2">
+    <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Privacy</h4>
+    <select value={policy} onChange={(e) => onChange(e.target.value as PrivacyPolicy)} className={inputClass}>
+      {(Object.keys(PRIVACY_POLICY_LABELS) as PrivacyPolicy[]).map((key) => <option key={key} value={key}>{PRIVACY_POLICY_LABELS[key]}</option>)}
+    </select>
+    <p className="text-xs text-slate-500">{PRIVACY_POLICY_HELP[policy]} Local analysis always reads the original file.</p>
+  </div>
+);
+
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Limits on the image sent to the provider. Metadata is always read from the original file.
+ */
+const UploadBudgetSettings: React.FC<{ budget: UploadBudget; onChange: (budget: UploadBudget) => void }> = ({ budget, onChange }) => (
+  <div className="space-y-2">
+    <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Upload Budget</h4>
+    <p className="text-xs text-slate-500">
+      Images above these limits, or in a format the provider does not accept, are rotated upright, downscaled and re-encoded as
+      JPEG before upload. RAW files are sent as their embedded JPEG preview. Local checks always use the untouched original.
+    </p>
+    <div className="grid grid-cols-2 gap-2">
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Longest edge (px)</span>
+        <input
+          type="number"
+          min={256}
+          step={256}
+          value={budget.maxDimension}
+          onChange={(e) => onChange({ ...budget, maxDimension: Math.max(256, Number(e.target.value) || DEFAULT_UPLOAD_BUDGET.maxDimension) })}
+          className={inputClass}
+        />
+      </label>
+      <label className="block space-y-1">
+        <span className="text-xs text-slate-400">Maximum size (MB)</span>
+        <input
+          type="number"
+          min={0.25}
+          step={0.25}
+          value={budget.maxBytes / MEGABYTE}
+          onChange={(e) => onChange({ ...budget, maxBytes: Math.round(Math.max(0.25, Number(e.target.value) || DEFAULT_UPLOAD_BUDGET.maxBytes / MEGABYTE) * MEGABYTE) })}
+          className={inputClass}
+        />
+      </label>
+    </div>
+  </div>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  providerConfig,
+  onProviderConfigChange,
+  toolCatalog,
+  onToolCatalogChange,
+  uploadBudget,
+  onUploadBudgetChange,
+  fixtureMode,
+  onFixtureModeChange,
+  ensemble,
+  onEnsembleChange,
+  privacyPolicy,
+  onPrivacyPolicyChange,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const provider = getProviderDefinition(providerConfig.providerId);
+
+  const update = (patch: Partial<ProviderConfig>) => onProviderConfigChange({ ...providerConfig, ...patch });
+
+  const capabilityBadges = [
+    { on: provider.capabilities.runsLocally, label: 'Self-hostable' },
+    { on: provider.capabilities.structuredOutput, label: 'Schema-enforced output' },
+    { on: provider.capabilities.requiresApiKey, label: 'Requires API key' },
+  ].filter((badge) => badge.on);
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="text-slate-200 font-semibold text-sm flex items-center gap-2">
+          Settings
+          <span className="text-xs font-normal text-slate-500">
+            {provider.label} · {providerConfig.model} · {toolCatalog.filter((t) => t.enabled).length} tools
+            {ensemble.samples > 1 && ` · ${ensemble.samples} samples`}
+            {privacyPolicy === 'send' && ' · metadata sent'}
+            {fixtureMode !== 'off' && ` · ${fixtureMode === 'record' ? 'recording' : 'replaying'} fixtures`}
+          </span>
+        </span>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 text-sm">
+          <div className="space-y-2">
+            <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Analysis Provider</h4>
+            <select
+              value={providerConfig.providerId}
+              onChange={(e) => onProviderConfigChange(getProviderDefinition(e.target.value as ProviderId).defaultConfig)}
+              className={inputClass}
+            >
+              {PROVIDERS.map((p) => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            <p className="text-xs text-slate-500">{provider.description}</p>
+            {capabilityBadges.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {capabilityBadges.map((badge) => (
+                  <span key={badge.label} className="px-2 py-0.5 rounded text-xs font-bold bg-slate-800 border border-slate-600 text-slate-300">{badge.label}</span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-xs text-slate-400">Model</span>
+            <input
+              value={providerConfig.model}
+              onChange={(e) => update({ model: e.target.value })}
+              placeholder={provider.defaultConfig.model}
+              className={inputClass}
+            />
+          </label>
+
+          {providerConfig.providerId === 'openai-compatible' && (
+            <label className="block space-y-1">
+              <span className="text-xs text-slate-400">Base URL</span>
+              <input
+                value={providerConfig.baseUrl ?? ''}
+                onChange={(e) => update({ baseUrl: e.target.value })}
+                placeholder={provider.defaultConfig.baseUrl}
+                className={inputClass}
+              />
+            </label>
+          )}
+
+          <label className="block space-y-1">
+            <span className="text-xs text-slate-400">
+              API key {provider.capabilities.requiresApiKey ? '(leave empty to use the key configured at build time)' : '(optional)'}
+            </span>
+            <input
+              type="password"
+              value={providerConfig.apiKey ?? ''}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              autoComplete="off"
+              className={inputClass}
+            />
+          </label>
+
+          <ToolCatalogEditor catalog={toolCatalog} onChange={onToolCatalogChange} />
+
+          <UploadBudgetSettings budget={uploadBudget} onChange={onUploadBudgetChange} />
+
+          <PrivacySettings policy={privacyPolicy} onChange={onPrivacyPolicyChange} />
+
+          <EnsembleSettings config={ensemble} onChange={onEnsembleChange} />
+
+          <FixtureSettings mode={fixtureMode} onModeChange={onFixtureModeChange} />
+
+          <ResultCacheSettings />
+
+          <p className="text-xs text-slate-500">Settings are stored in this browser only.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsPanel;
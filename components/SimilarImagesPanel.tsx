@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { CaseRecord, PerceptualHashes, SimilarCase, SimilarityKind } from '../types';
+import { findSimilarCases } from '../services/caseLibraryService';
+import { computeImageHashes, loadSimilarityThreshold, MAX_SIMILARITY_THRESHOLD, saveSimilarityThreshold } from '../services/perceptualHashService';
+import { sha256OfBlob } from '../services/hashService';
+import { CaseThumbnail } from './CaseLibrary';
+
+interface SimilarImagesPanelProps {
+  file: File;
+  // The open case, left out of its own results even when its file is only a thumbnail
+  caseId?: string;
+  onOpenCase: (record: CaseRecord) => void;
+}
+
+const KIND_LABELS: Record<SimilarityKind, { label: string; style: string }> = {
+  'identical': { label: 'Same picture', style: 'bg-red-900/40 border-red-700/50 text-red-300' },
+  'near-duplicate': { label: 'Near-duplicate', style: 'bg-amber-900/40 border-amber-700/50 text-amber-300' },
+  // This image is a crop of the earlier one, which is then the likely source
+  'crop-of-earlier': { label: 'Likely source', style: 'bg-cyan-900/40 border-cyan-700/50 text-cyan-300' },
+  'contains-earlier': { label: 'Crop of this image', style: 'bg-slate-800 border-slate-600 text-slate-300' },
+};
+
+// The tool the earlier analysis scored highest, fused score first
+const topTool = (record: CaseRecord): string | null => {
+  const scores = record.result.fusion?.tools.map((tool) => ({ name: tool.name, score: tool.fusedScore }))
+    ?? record.result.detectedTools.map((tool) => ({ name: tool.name, score: tool.likelihoodScore }));
+  if (scores.length === 0) return null;
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  return `${best.name} ${best.score}/10`;
+};
+
+const SimilarImagesPanel: React.FC<SimilarImagesPanelProps> = ({ file, caseId, onOpenCase }) => {
+  const [threshold, setThreshold] = useState(loadSimilarityThreshold);
+  const [hashes, setHashes] = useState<PerceptualHashes | null>(null);
+  const [matches, setMatches] = useState<SimilarCase[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setHashes(null);
+    setMatches(null);
+    setError(null);
+    Promise.all([computeImageHashes(file, controller.signal), sha256OfBlob(file)])
+      .then(async ([computed, sha256]) => {
+        setHashes(computed);
+        const found = await findSimilarCases(computed, MAX_SIMILARITY_THRESHOLD, sha256);
+        if (!controller.signal.aborted) setMatches(found);
+      })
+      .catch((err) => {
+        if (err?.name === 'AbortError') return;
+        setError(err?.message || 'The similar-images search failed');
+      });
+    return () => controller.abort();
+  }, [file]);
+
+  const handleThresholdChange = (value: number) => {
+    setThreshold(value);
+    saveSimilarityThreshold(value);
+  };
+
+  // Searched once at the widest threshold, so moving the slider needs no new search
+  const visible = matches?.filter((match) => match.distance <= threshold && match.record.id !== caseId) ?? [];
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Similar Images</h3>
+        <span className="text-xs text-slate-500">Local search of the case library</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-400">
+        <label className="flex items-center gap-2" title="Hamming distance between perceptual hashes, out of 64 bits. Re-encodes and resizes usually stay under 10.">
+          Within
+          <input
+            type="range"
+            min={0}
+            max={MAX_SIMILARITY_THRESHOLD}
+            value={threshold}
+            onChange={(e) => handleThresholdChange(Number(e.target.value))}
+            className="w-28 accent-cyan-500"
+          />
+          {threshold} bits
+        </label>
+        {hashes && <span className="font-mono text-slate-500">pHash {hashes.pHash} · dHash {hashes.dHash} · aHash {hashes.aHash}</span>}
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {!error && !matches && <p className="text-xs text-cyan-400 animate-pulse">Hashing and searching earlier images…</p>}
+      {matches && visible.length === 0 && (
+        <p className="text-xs text-slate-500">No earlier image within {threshold} bits of this one.</p>
+      )}
+
+      <div className="space-y-2">
+        {visible.map(({ record, kind, distance, distances }) => {
+          const verdict = record.result.fusion?.verdict.replace(/-/g, ' ');
+          const tool = topTool(record);
+          return (
+            <div
+              key={record.id}
+              onClick={() => onOpenCase(record)}
+              className="flex items-center gap-3 rounded-lg border border-slate-700 p-2 cursor-pointer hover:border-cyan-600 transition-colors"
+              title={`aHash ${distances.aHash} · dHash ${distances.dHash} · pHash ${distances.pHash} · best crop ${distances.crop} bits apart`}
+            >
+              <CaseThumbnail blob={record.thumbnail} />
+              <div className="flex-1 min-w-0 text-xs space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className={`shrink-0 px-1.5 py-0.5 rounded border font-bold ${KIND_LABELS[kind].style}`}>{KIND_LABELS[kind].label}</span>
+                  <span className="text-slate-500">{distance} bit{distance === 1 ? '' : 's'} apart</span>
+                </div>
+                <p className="text-sm font-medium text-slate-200 truncate">{record.fileName}</p>
+                <p className="text-slate-400">
+                  Analysed {new Date(record.createdAt).toLocaleString()}
+                  {verdict && <span className="capitalize"> · {verdict}</span>}
+                  {tool && <span> · {tool}</span>}
+                </p>
+                {record.notes && <p className="text-slate-500 truncate">{record.notes}</p>}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SimilarImagesPanel;
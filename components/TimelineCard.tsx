@@ -0,0 +1,74 @@
+import React from 'react';
+import { TimelineEvent, TimelineEventKind, TimestampAnomaly, TimestampReport } from '../types';
+import { formatUtcTime } from '../services/timestampService';
+
+interface TimelineCardProps {
+  report: TimestampReport;
+}
+
+const SEVERITY_STYLES: Record<TimestampAnomaly['severity'], string> = {
+  high: 'bg-red-900/40 border-red-700/50 text-red-300',
+  medium: 'bg-amber-900/40 border-amber-700/50 text-amber-300',
+  low: 'bg-slate-800 border-slate-600 text-slate-300',
+};
+
+const KIND_DOTS: Record<TimelineEventKind, string> = {
+  capture: 'bg-green-400',
+  digitized: 'bg-green-700',
+  gps: 'bg-cyan-400',
+  modified: 'bg-amber-400',
+  metadata: 'bg-amber-600',
+  history: 'bg-purple-400',
+  file: 'bg-slate-400',
+};
+
+const zoneNote = (event: TimelineEvent): string =>
+  event.zone === 'explicit'
+    ? `UTC${event.offset}`
+    : event.zone === 'inferred'
+      ? `UTC${event.offset}, inferred from the camera's other time tags or GPS clock`
+      : 'no time zone recorded; shown as if UTC';
+
+const TimelineCard: React.FC<TimelineCardProps> = ({ report }) => {
+  const flagged = new Set(report.anomalies.flatMap((anomaly) => anomaly.labels));
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700 p-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-cyan-400 text-sm font-bold uppercase tracking-wider">Timestamp Timeline</h3>
+        <span className="text-xs text-slate-500">Local analysis · times in UTC</span>
+      </div>
+
+      {report.anomalies.length > 0 ? (
+        <div className="space-y-1">
+          {report.anomalies.map((anomaly, idx) => (
+            <div key={idx} className="flex items-start gap-2 text-xs">
+              <span className={`shrink-0 px-1.5 py-0.5 rounded border font-bold uppercase ${SEVERITY_STYLES[anomaly.severity]}`}>{anomaly.severity}</span>
+              <span className="text-slate-300">{anomaly.description}</span>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-green-400">No inconsistencies between the timestamps.</p>
+      )}
+
+      <ol className="relative border-l border-slate-700 ml-1.5 space-y-2">
+        {report.events.map((event, idx) => (
+          <li key={idx} className="pl-4 relative">
+            <span className={`absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full ${KIND_DOTS[event.kind]}`} />
+            <div className="flex flex-wrap items-baseline gap-x-2 text-xs">
+              <span className="font-mono text-slate-200">{formatUtcTime(event.utc)}</span>
+              <span className={`font-medium ${flagged.has(event.label) ? 'text-amber-300' : 'text-slate-300'}`}>{event.label}</span>
+              <span className="text-[10px] px-1 rounded bg-slate-800 text-slate-400 font-bold">{event.source}</span>
+            </div>
+            <p className="text-xs text-slate-500 font-mono break-all" title={zoneNote(event)}>
+              {event.raw} <span className="font-sans">· {zoneNote(event)}</span>
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default TimelineCard;
@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { ToolCatalogEntry } from '../types';
+import { DEFAULT_TOOL_CATALOG, parseToolCatalogJson, toolCatalogToJson, toolIdFromName, validateToolCatalog } from '../services/toolCatalogService';
+
+interface ToolCatalogEditorProps {
+  catalog: ToolCatalogEntry[];
+  onChange: (catalog: ToolCatalogEntry[]) => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded p-2 text-xs text-slate-300 focus:outline-none focus:border-cyan-500';
+
+const ToolCatalogEditor: React.FC<ToolCatalogEditorProps> = ({ catalog, onChange }) => {
+  // The draft keeps text exactly as typed; only a validated, trimmed copy is handed upwards
+  const [draft, setDraft] = useState<ToolCatalogEntry[]>(catalog);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  // Edits are validated as a whole so a duplicate id or a broken pattern never reaches the prompt
+  const apply = (next: ToolCatalogEntry[]) => {
+    setDraft(next);
+    try {
+      onChange(validateToolCatalog(next));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const replace = (next: ToolCatalogEntry[]) => {
+    setDraft(next);
+    setExpanded(null);
+    setError(null);
+    onChange(next);
+  };
+
+  const update = (index: number, patch: Partial<ToolCatalogEntry>) =>
+    apply(draft.map((tool, i) => (i === index ? { ...tool, ...patch } : tool)));
+
+  const addTool = () => {
+    const taken = new Set(draft.map((tool) => tool.id));
+    let id = 'new-tool';
+    for (let n = 2; taken.has(id); n++) id = `new-tool-${n}`;
+    apply([...draft, { id, name: 'New tool', cues: '', metadataSignatures: [], enabled: true }]);
+    setExpanded(draft.length);
+  };
+
+  const importCatalog = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      replace(parseToolCatalogJson(await file.text()));
+    } catch (err: any) {
+      setError(`Import failed: ${err.message}`);
+    }
+  };
+
+  const exportCatalog = () => {
+    const url = URL.createObjectURL(new Blob([toolCatalogToJson(catalog)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tool-catalog.json';
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider">Tool Catalog</h4>
+        <div className="flex gap-3 text-xs">
+          <input type="file" ref={importRef} accept="application/json,.json" className="hidden" onChange={(e) => { importCatalog(e.target.files?.[0]); e.target.value = ''; }} />
+          <button onClick={() => importRef.current?.click()} className="text-slate-400 hover:text-cyan-400">Import JSON</button>
+          <button onClick={exportCatalog} className="text-slate-400 hover:text-cyan-400">Export JSON</button>
+          <button onClick={() => replace(DEFAULT_TOOL_CATALOG)} className="text-slate-400 hover:text-cyan-400">Reset</button>
+        </div>
+      </div>
+      <p className="text-xs text-slate-500">
+        The analysis prompt asks the model to score every enabled tool. Scores are stored under each tool's id, so keep ids stable when renaming.
+      </p>
+
+      <div className="space-y-1">
+        {draft.map((tool, index) => (
+          <div key={index} className="rounded border border-slate-700 bg-slate-950/50">
+            <div className="flex items-center gap-2 p-2">
+              <input
+                type="checkbox"
+                checked={tool.enabled}
+                onChange={(e) => update(index, { enabled: e.target.checked })}
+                className="accent-cyan-500"
+                title="Include in the analysis prompt"
+              />
+              <button onClick={() => setExpanded(expanded === index ? null : index)} className="flex-1 text-left text-xs">
+                <span className={tool.enabled ? 'text-slate-200' : 'text-slate-500'}>{tool.name}</span>
+                <span className="ml-2 font-mono text-slate-500">{tool.id}</span>
+              </button>
+              <button onClick={() => { apply(draft.filter((_, i) => i !== index)); setExpanded(null); }} className="text-xs text-slate-500 hover:text-red-400">
+                Remove
+              </button>
+            </div>
+            {expanded === index && (
+              <div className="px-2 pb-2 space-y-2">
+                <label className="block space-y-1">
+                  <span className="text-xs text-slate-400">Name</span>
+                  <input
+                    value={tool.name}
+                    onChange={(e) => update(index, { name: e.target.value })}
+                    onBlur={() => tool.id.startsWith('new-tool') && tool.name.trim() && update(index, { id: toolIdFromName(tool.name) })}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs text-slate-400">Telltale cues</span>
+                  <textarea value={tool.cues} onChange={(e) => update(index, { cues: e.target.value })} className={`${inputClass} h-16`} />
+                </label>
+                <label className="block space-y-1">
+                  <span className="text-xs text-slate-400">Metadata signatures (regular expressions, one per line)</span>
+                  <textarea
+                    value={tool.metadataSignatures.join('\n')}
+                    onChange={(e) => update(index, { metadataSignatures: e.target.value.split('\n') })}
+                    placeholder="e.g. firefly"
+                    className={`${inputClass} h-16 font-mono`}
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button onClick={addTool} className="text-xs text-cyan-400 hover:text-cyan-300">+ Add tool</button>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ToolCatalogEditor;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { EvidenceContradiction, FusionReport, FusionVerdict } from '../types';
+
+interface VerdictCardProps {
+  report: FusionReport;
+}
+
+const VERDICTS: Record<FusionVerdict, { label: string; style: string }> = {
+  'likely-authentic': { label: 'Likely Authentic', style: 'bg-green-900/20 border-green-700/50 text-green-300' },
+  'edited': { label: 'Edited', style: 'bg-amber-900/20 border-amber-700/50 text-amber-300' },
+  'heavily-manipulated': { label: 'Heavily Manipulated', style: 'bg-red-900/20 border-red-700/50 text-red-300' },
+  'ai-generated': { label: 'AI Generated', style: 'bg-purple-900/20 border-purple-700/50 text-purple-300' },
+  'inconclusive': { label: 'Inconclusive', style: 'bg-slate-800 border-slate-600 text-slate-300' },
+};
+
+const SEVERITY_STYLES: Record<EvidenceContradiction['severity'], string> = {
+  high: 'bg-red-900/40 border-red-700/50 text-red-300',
+  medium: 'bg-amber-900/40 border-amber-700/50 text-amber-300',
+  low: 'bg-slate-800 border-slate-600 text-slate-300',
+};
+
+const VerdictCard: React.FC<VerdictCardProps> = ({ report }) => {
+  const verdict = VERDICTS[report.verdict];
+
+  return (
+    <div className={`rounded-xl p-4 border space-y-3 text-sm ${verdict.style}`}>
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <span className="block text-xs font-bold uppercase tracking-wider opacity-80">Fused Verdict</span>
+          <span className="text-xl font-bold">{verdict.label}</span>
+        </div>
+        <div className="text-right">
+          <span className="block text-xs font-bold uppercase tracking-wider opacity-80">Confidence</span>
+          <span className="font-bold capitalize">{report.confidence}</span>
+          <span className="text-xs opacity-70"> ({Math.round(report.confidenceScore * 100)}%)</span>
+        </div>
+      </div>
+
+      <ul className="list-disc list-inside text-xs text-slate-300 space-y-0.5">
+        {report.rationale.map((reason, idx) => <li key={idx}>{reason}</li>)}
+      </ul>
+
+      {report.contradictions.length > 0 && (
+        <div>
+          <h4 className="text-slate-400 text-xs font-bold uppercase tracking-wider mb-1">Contradictions</h4>
+          <div className="space-y-1">
+            {report.contradictions.map((contradiction, idx) => (
+              <div key={idx} className="flex items-start gap-2 text-xs">
+                <span className={`shrink-0 px-1.5 py-0.5 rounded border font-bold uppercase ${SEVERITY_STYLES[contradiction.severity]}`}>{contradiction.severity}</span>
+                <span className="text-slate-300">
+                  {contradiction.description}
+                  <span className="text-slate-500"> · {contradiction.sources.join(' vs ')}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VerdictCard;
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { XmpReport } from '../types';
+
+interface XmpPanelProps {
+  report: XmpReport;
+}
+
+const XmpPanel: React.FC<XmpPanelProps> = ({ report }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-700">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between p-4 text-left"
+      >
+        <span className="text-slate-200 font-semibold text-sm flex items-center gap-2">
+          XMP Edit History
+          <span className="text-xs font-normal text-slate-500">
+            {report.history.length} events · {report.developSettings.length} develop settings{report.hasExtendedXmp ? ' · Extended XMP' : ''}
+          </span>
+        </span>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          className={`h-4 w-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+        >
+          <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 text-xs">
+          {report.softwareAgents.length > 0 && (
+            <div>
+              <h4 className="text-cyan-400 font-bold uppercase tracking-wider mb-1">Software Agents</h4>
+              <div className="flex flex-wrap gap-2">
+                {report.softwareAgents.map((agent) => (
+                  <span key={agent} className="px-2 py-1 rounded bg-amber-900/20 border border-amber-700/50 text-amber-200 font-mono">{agent}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {report.history.length > 0 && (
+            <div>
+              <h4 className="text-cyan-400 font-bold uppercase tracking-wider mb-1">History</h4>
+              <ol className="space-y-1 border-l border-slate-700 pl-3">
+                {report.history.map((event, idx) => (
+                  <li key={idx} className="text-slate-300">
+                    <span className="font-medium text-slate-100">{event.action}</span>
+                    {event.softwareAgent && <> by <span className="font-mono text-amber-200">{event.softwareAgent}</span></>}
+                    {event.when && <span className="text-slate-500"> · {event.when}</span>}
+                    {event.parameters && <span className="text-slate-500"> · {event.parameters}</span>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {[
+            { title: 'Develop Adjustments (Camera Raw)', rows: report.developSettings },
+            { title: 'Photoshop Fields', rows: report.photoshop },
+          ].filter(({ rows }) => rows.length > 0).map(({ title, rows }) => (
+            <div key={title}>
+              <h4 className="text-cyan-400 font-bold uppercase tracking-wider mb-1">{title}</h4>
+              <table className="w-full">
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.name} className="border-b border-slate-800 last:border-0">
+                      <td className="py-1 pr-4 align-top whitespace-nowrap text-slate-400">{row.name}</td>
+                      <td className="py-1 font-mono text-slate-300 break-all">{row.value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default XmpPanel;
@@ -0,0 +1,58 @@
+import { readFile } from "node:fs/promises";
+import { AnalysisResult, ProviderConfig, ProviderFixture } from "../types";
+import { analyzeImageEdits } from "../services/providerService";
+import { GEMINI_DEFAULT_MODEL } from "../services/geminiService";
+import { FixtureSession, createMemoryFixtureStore, parseFixturesJson } from "../services/fixtureService";
+import { ReplayMissError } from "../services/analysisErrors";
+import { DEFAULT_TOOL_CATALOG } from "../services/toolCatalogService";
+
+/**
+ * Replays the committed fixture for fixtures/sample.jpg through analyzeImageEdits, with no
+ * network and no API key, and checks that the recorded scores come back keyed by catalog id.
+ * Run from the repository root with `npm test`. A prompt or catalog change invalidates the
+ * fixture; delete the file and record it again with
+ * `photo-detective --record fixtures/sample-fixtures.json fixtures/sample.jpg`.
+ */
+
+const IMAGE_PATH = "fixtures/sample.jpg";
+const FIXTURES_PATH = "fixtures/sample-fixtures.json";
+
+const check = (condition: boolean, message: string) => {
+  if (!condition) throw new Error(message);
+};
+
+const main = async () => {
+  const image = { name: "sample.jpg", mimeType: "image/jpeg", bytes: new Uint8Array(await readFile(IMAGE_PATH)) };
+  const recorded = parseFixturesJson(await readFile(FIXTURES_PATH, "utf8"));
+  const store = createMemoryFixtureStore(recorded);
+  // Notes which fixture answered, so the result can be compared with it
+  const served: ProviderFixture[] = [];
+  const get = async (key: string) => {
+    const fixture = await store.get(key);
+    if (fixture) served.push(fixture);
+    return fixture;
+  };
+  const fixtures: FixtureSession = { mode: "replay", store: { ...store, get } };
+  const config: ProviderConfig = { providerId: "gemini", model: GEMINI_DEFAULT_MODEL };
+
+  const result = await analyzeImageEdits(image, config, DEFAULT_TOOL_CATALOG, fixtures);
+  check(served.length === 1, `Expected one recorded answer to be served, got ${served.length}.`);
+  const answer = served[0].response as AnalysisResult;
+  for (const tool of answer.detectedTools) {
+    const replayed = result.detectedTools.find((candidate) => candidate.toolId === tool.toolId);
+    check(!!tool.toolId && DEFAULT_TOOL_CATALOG.some((entry) => entry.id === tool.toolId), `The recorded answer scores "${tool.name}", which is not in the catalog.`);
+    check(replayed?.likelihoodScore === tool.likelihoodScore, `Expected ${tool.name} to replay with its recorded score of ${tool.likelihoodScore}, got ${replayed?.likelihoodScore}.`);
+  }
+
+  // A different tool list has no recording, and replay must refuse it rather than go to the network
+  const narrowed = DEFAULT_TOOL_CATALOG.map((tool) => (tool.id === "photoshop" ? { ...tool, enabled: false } : tool));
+  const miss = await analyzeImageEdits(image, config, narrowed, fixtures).then(() => null, (error: unknown) => error);
+  check(miss instanceof ReplayMissError, `Expected a ReplayMissError for an unrecorded tool list, got ${String(miss)}.`);
+
+  process.stdout.write(`Replayed the recorded answer for ${IMAGE_PATH}: ok\n`);
+};
+
+main().catch((error: unknown) => {
+  process.stderr.write(`replay-fixtures: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,87 @@
+import { isRecord } from "./typeGuards";
+
+export type AnalysisErrorKind = "api-key" | "rate-limit" | "safety-block" | "unsupported-image" | "network" | "invalid-response" | "replay-miss";
+
+/**
+ * A provider call that failed for a reason the user can act on. The kind selects the guidance
+ * shown next to the message; the original error is kept as the cause.
+ */
+export abstract class AnalysisError extends Error {
+  abstract readonly kind: AnalysisErrorKind;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/** No API key is configured, or the provider rejected it. */
+export class ApiKeyError extends AnalysisError {
+  readonly kind = "api-key";
+}
+
+/** The provider's quota or rate limit was reached. */
+export class RateLimitError extends AnalysisError {
+  readonly kind = "rate-limit";
+}
+
+/** The provider refused to process the image under its content policy. */
+export class SafetyBlockError extends AnalysisError {
+  readonly kind = "safety-block";
+}
+
+/** The provider cannot read this image format or size. */
+export class UnsupportedImageError extends AnalysisError {
+  readonly kind = "unsupported-image";
+}
+
+/** The provider could not be reached, or failed on its side. */
+export class NetworkError extends AnalysisError {
+  readonly kind = "network";
+}
+
+/** The model answered, but not with anything that could be read as a result. */
+export class InvalidResponseError extends AnalysisError {
+  readonly kind = "invalid-response";
+}
+
+/** Replay mode found no recorded answer for this request. */
+export class ReplayMissError extends AnalysisError {
+  readonly kind = "replay-miss";
+}
+
+const statusOf = (error: unknown): number | undefined =>
+  !isRecord(error) ? undefined : typeof error.status === "number" ? error.status : typeof error.code === "number" ? error.code : undefined;
+
+/**
+ * Maps an error thrown during a provider call onto the taxonomy above. Aborts and errors that
+ * are already classified pass through; anything unrecognised is returned unchanged.
+ */
+export const toAnalysisError = (error: unknown, provider: string): unknown => {
+  if (error instanceof AnalysisError) return error;
+  if (isRecord(error) && error.name === "AbortError") return error;
+
+  const status = statusOf(error);
+  const message = String((isRecord(error) ? error.message : undefined) ?? error ?? "");
+  const options = { cause: error };
+
+  if (status === 401 || status === 403 || /api[ _-]?key.*(invalid|not valid|missing|expired)|(invalid|incorrect) api[ _-]?key/i.test(message)) {
+    return new ApiKeyError(`${provider} rejected the API key.`, options);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate[ _-]?limit/i.test(message)) {
+    return new RateLimitError(`${provider} reports that its quota or rate limit was reached.`, options);
+  }
+  if ((status === 400 || status === 413 || status === 415) && /image|mime|media|too large|payload/i.test(message)) {
+    return new UnsupportedImageError(`${provider} could not accept this image: ${message.slice(0, 200)}`, options);
+  }
+  if ((status !== undefined && status >= 500) || (error instanceof TypeError && /fetch|network|load failed/i.test(message))) {
+    return new NetworkError(
+      status !== undefined ? `${provider} failed with HTTP ${status}.` : `Could not reach ${provider}: ${message}`,
+      options,
+    );
+  }
+  if (error instanceof SyntaxError) {
+    return new InvalidResponseError(`${provider} returned malformed JSON: ${message}`, options);
+  }
+  return error;
+};
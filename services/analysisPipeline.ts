@@ -0,0 +1,90 @@
+import { AnalysisResult, CopyMoveResult, EnsembleConfig, ImageSource, MetadataReport, PreparedUpload, ProviderConfig, ToolCatalogEntry } from "../types";
+import { analyzeImageEdits, createAnalysisRun } from "./providerService";
+import { extractMetadataFromBytes } from "./metadataService";
+import { formatExifDevice } from "./exifService";
+import { fuseEvidence } from "./fusionService";
+import { DEFAULT_TOOL_CATALOG, enabledTools } from "./toolCatalogService";
+import { prepareUploadFromBytes } from "./rawPreviewService";
+import { FixtureSession } from "./fixtureService";
+import { analyzeImageEnsemble } from "./ensembleService";
+import { analyzeTimestamps } from "./timestampService";
+
+export interface AnalysisPipelineOptions {
+  providerConfig: ProviderConfig;
+  toolCatalog?: ToolCatalogEntry[]; // Defaults to the built-in catalog
+  trustList?: string;
+  signal?: AbortSignal;
+  // Skip the provider call and report only what the file itself shows; nothing leaves the machine
+  metadataOnly?: boolean;
+  // Called as soon as the local metadata is ready, before the AI call finishes
+  onMetadata?: (metadata: MetadataReport) => void;
+  // Clone detection needs an image decoder, so it is supplied by environments that have one
+  detectCopyMoves?: (signal?: AbortSignal) => Promise<CopyMoveResult | null>;
+  // The preprocessed image to send to the provider; by default the original, or a RAW file's
+  // embedded preview. Metadata is always read from the original bytes.
+  upload?: PreparedUpload;
+  // Record the provider's answer, or replay a recorded one instead of calling it
+  fixtures?: FixtureSession;
+  // Sample the provider several times and report each tool's mean and spread
+  ensemble?: EnsembleConfig;
+}
+
+// Stands in for the provider's answer in metadata-only runs, so fusion sees the file evidence alone
+const NO_AI_ANALYSIS: AnalysisResult = {
+  overallAssessment: "",
+  estimatedEditLayerCount: 0,
+  originalDevice: "",
+  detectedTools: [],
+};
+
+/**
+ * The analysis pipeline on raw image bytes: AI analysis, metadata extraction and (where
+ * available) copy-move detection in parallel, then timestamp analysis and evidence fusion. Uses
+ * no browser APIs, so the web app and the command-line tool produce the same results.
+ */
+export const runAnalysisPipeline = async (image: ImageSource, options: AnalysisPipelineOptions): Promise<AnalysisResult> => {
+  const { providerConfig, toolCatalog = DEFAULT_TOOL_CATALOG, trustList = "", signal, metadataOnly, onMetadata, detectCopyMoves, fixtures, ensemble } = options;
+  const upload = metadataOnly ? null : options.upload ?? prepareUploadFromBytes(image);
+  const startedAt = new Date().toISOString();
+
+  // Run AI analysis and Metadata extraction in parallel
+  const metadataTask = extractMetadataFromBytes(image.bytes, trustList);
+  // The callback only feeds progress updates; a throw there must not surface as an unhandled rejection
+  if (onMetadata) metadataTask.then(onMetadata).catch((err) => console.warn("onMetadata callback failed:", err));
+  // Clone detection is a supporting signal; its failure must not fail the whole analysis
+  const copyMoveTask = detectCopyMoves
+    ? detectCopyMoves(signal).catch((err) => {
+        if (err?.name !== "AbortError") console.warn("Copy-move detection failed:", err);
+        return null;
+      })
+    : Promise.resolve(null);
+  const aiTask = !upload
+    ? NO_AI_ANALYSIS
+    : ensemble && ensemble.samples > 1
+      ? analyzeImageEnsemble(upload.image, providerConfig, toolCatalog, ensemble, fixtures, signal)
+      : analyzeImageEdits(upload.image, providerConfig, toolCatalog, fixtures, { signal });
+  const [aiData, metadata, copyMove] = await Promise.all([
+    aiTask,
+    metadataTask,
+    copyMoveTask
+  ]);
+  signal?.throwIfAborted();
+
+  // Merge findings
+  const result: AnalysisResult = {
+    ...aiData,
+    metadataDevice: formatExifDevice(metadata.exif),
+    metadata,
+    copyMove,
+    clonePairCount: copyMove?.pairs.length ?? 0,
+    timeline: analyzeTimestamps(metadata, image.lastModified),
+    ...(upload && {
+      run: {
+        ...createAnalysisRun(providerConfig, startedAt, enabledTools(toolCatalog).map((tool) => tool.id), upload.info),
+        ...(fixtures && { fixtureMode: fixtures.mode }),
+      },
+    })
+  };
+  result.fusion = fuseEvidence(result, toolCatalog);
+  return result;
+};
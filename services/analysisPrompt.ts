@@ -0,0 +1,324 @@
+import { AnalysisResult, ChatMessage, ChatReply, ComparisonAnalysis, DetectedTool, ImageChange, ImageChangeKind, ImageRegion, ToolCatalogEntry, ToolFinding } from "../types";
+import { InvalidResponseError } from "./analysisErrors";
+import { isRecord } from "./typeGuards";
+
+/**
+ * Prompt shared by every analysis provider. Bump PROMPT_VERSION whenever the wording or the
+ * expected response shape changes, so stored results can be traced to the prompt that made them.
+ */
+export const PROMPT_VERSION = "2025.5";
+
+/**
+ * Extra instructions that ensemble runs rotate through, so repeated samples approach the image
+ * from different angles. Index 0 is the standard prompt.
+ */
+export const PROMPT_VARIANTS = [
+  "",
+  "Before scoring, examine the image region by region: edges, textures, lighting, shadows and any text.",
+  "Before scoring, consider the most likely innocent explanation for each cue, such as lens effects, in-camera processing or ordinary compression.",
+];
+
+/**
+ * Builds the analysis prompt for the enabled tools of a catalog. Each tool is listed with its
+ * id, which the model must echo so scores can be keyed by catalog entry rather than by name.
+ */
+export const buildAnalysisPrompt = (tools: ToolCatalogEntry[], variant = 0): string => `
+      Analyze this image specifically for signs of digital editing, manipulation, or generation.
+      Act as a digital forensics expert.
+
+      I want you to estimate the likelihood (from 0 to 10) that specific tools were used to create or modify this image.
+
+      You must specifically evaluate the image for the following tools, and report each one with the id given in brackets:
+${tools.map((tool, i) => `      ${i + 1}. [${tool.id}] ${tool.name}${tool.cues ? ` (${tool.cues})` : ""}`).join("\n")}
+
+      For each tool, list the places in the image where you see its cues as findings: a short label, your
+      confidence from 0 to 10, and a bounding box with x, y, width and height as fractions (0 to 1) of the
+      image's width and height. Leave the list empty when the cues are spread over the whole image or absent.
+
+      Also, estimate the "Edit Count" - roughly how many distinct editing operations or layers seem to have been applied (e.g., 0 for raw, 1-3 for light touch-ups, 10+ for heavy manipulation).
+
+      Finally, analyze the visual characteristics (grain, noise pattern, depth of field, color science) to estimate the "Original Device" used to take the picture. Be as specific as possible (e.g., "High-end DSLR", "iPhone 14 Pro", "Mid-range Android", "Film Camera 35mm", or "AI Image Generator").
+
+      Return a JSON response listing these details.
+    ` + (PROMPT_VARIANTS[variant] ? `  ${PROMPT_VARIANTS[variant]}\n` : "");
+
+/**
+ * Spells out the response shape for providers that cannot enforce a schema server-side.
+ */
+export const buildResponseFormatInstructions = (tools: ToolCatalogEntry[]): string => `
+      Respond with a single JSON object and nothing else, using exactly this shape:
+      {
+        "overallAssessment": string,        // Summary paragraph on the authenticity and style of the image
+        "estimatedEditLayerCount": integer, // Distinct editing operations or layers detected
+        "originalDevice": string,           // Estimated capture device (e.g. iPhone, DSLR, AI Generator)
+        "detectedTools": [
+          {
+            "toolId": ${tools.map((tool) => `"${tool.id}"`).join(" | ")},
+            "name": string,
+            "likelihoodScore": number,    // 0-10
+            "reasoning": string,
+            "findings": [
+              { "label": string, "confidence": number /* 0-10 */, "region": { "x": number, "y": number, "width": number, "height": number } }
+            ]
+          }
+        ]
+      }
+    `;
+
+/**
+ * Appended to the prompt when an earlier answer could not be used, so the re-ask says why.
+ */
+export const buildCorrectionNote = (problem: string): string => `
+      Your previous answer could not be used. ${problem}
+      Answer again with one complete JSON object in the requested shape, with a score for every tool listed above.
+    `;
+
+/**
+ * Opens a follow-up conversation: the image comes with this text, which restates the earlier
+ * structured answer so the model can discuss and defend it.
+ */
+export const buildChatSeed = (tools: ToolCatalogEntry[], prior: AnalysisResult): string => `
+      You are a digital forensics expert. You analysed this image earlier for the following tools:
+${tools.map((tool) => `      [${tool.id}] ${tool.name}`).join("\n")}
+
+      Your answer was:
+      ${JSON.stringify({
+        overallAssessment: prior.overallAssessment,
+        estimatedEditLayerCount: prior.estimatedEditLayerCount,
+        originalDevice: prior.originalDevice,
+        detectedTools: prior.detectedTools.map(({ toolId, name, likelihoodScore, reasoning, findings }) => ({ toolId, name, likelihoodScore, reasoning, findings })),
+      })}
+
+      An analyst now has follow-up questions about the image and your answer. Answer in plain prose,
+      briefly and specifically, pointing at what is visible in the image. Places in the image are given
+      as fractions (0 to 1) of its width and height. Say so when the image does not settle a question.
+    `;
+
+const describeChatRegion = (region: ImageRegion): string => {
+  const pct = (value: number) => `${Math.round(value * 100)}%`;
+  return region.width === 0 && region.height === 0
+    ? `The question refers to the point at x ${pct(region.x)}, y ${pct(region.y)} of the image.`
+    : `The question refers to the box at x ${pct(region.x)}, y ${pct(region.y)}, ${pct(region.width)} wide and ${pct(region.height)} high.`;
+};
+
+/**
+ * Turns an analyst message into the text sent for it: the question and the place it points at.
+ */
+export const formatChatQuestion = (message: ChatMessage): string =>
+  message.region ? `${message.text}\n\n${describeChatRegion(message.region)}` : message.text;
+
+/**
+ * Appended to a question when the analyst asks for new scores in light of the conversation.
+ */
+export const buildRescoreInstructions = (tools: ToolCatalogEntry[]): string => `
+
+      After answering, score every tool listed at the start of this conversation again, taking the whole
+      conversation into account. Put your answer to the question in an "answer" string next to the
+      fields below.
+    ` + buildResponseFormatInstructions(tools).replace("{", `{\n        "answer": string,                   // Your answer to the question`);
+
+/**
+ * Builds the conversation as alternating user and assistant turns. The seed goes with the first
+ * question, and re-scoring instructions with the last when asked for.
+ */
+export const buildChatTurns = (
+  tools: ToolCatalogEntry[],
+  prior: AnalysisResult,
+  history: ChatMessage[],
+  question: ChatMessage,
+  rescore: boolean
+): { role: "user" | "assistant"; text: string }[] => {
+  const turns = [...history, question].map((message) => ({
+    role: message.role === "analyst" ? ("user" as const) : ("assistant" as const),
+    text: message.role === "analyst" ? formatChatQuestion(message) : message.text,
+  }));
+  turns[0] = { ...turns[0], text: buildChatSeed(tools, prior) + "\n" + turns[0].text };
+  if (rescore) turns[turns.length - 1].text += buildRescoreInstructions(tools);
+  return turns;
+};
+
+export const COMPARISON_PROMPT = `
+      You are given two images. The FIRST image is the reference original. The SECOND image is a version
+      that was published later and may have been edited, cropped, resized or re-encoded.
+      Act as a digital forensics expert and describe every edit that turns the first image into the second.
+
+      Ignore differences caused only by resizing, cropping or JPEG re-compression. Report content changes
+      (objects added, removed or replaced), retouching, colour and exposure changes, geometric changes
+      (rotation, perspective, liquify) and added or altered text.
+
+      For each change give its kind, a short description, your confidence from 0 to 10, and the region it
+      occupies in the SECOND image as a bounding box with x, y, width and height as fractions (0 to 1) of
+      that image's width and height. Use null for the region when the change affects the whole image.
+
+      Return a JSON response with a one-paragraph summary and the list of changes.
+    `;
+
+export const COMPARISON_FORMAT_INSTRUCTIONS = `
+      Respond with a single JSON object and nothing else, using exactly this shape:
+      {
+        "summary": string,
+        "changes": [
+          {
+            "kind": "added" | "removed" | "modified" | "color" | "geometry" | "text" | "other",
+            "description": string,
+            "confidence": number,         // 0-10
+            "region": { "x": number, "y": number, "width": number, "height": number } | null
+          }
+        ]
+      }
+    `;
+
+export const IMAGE_CHANGE_KINDS: ImageChangeKind[] = ["added", "removed", "modified", "color", "geometry", "text", "other"];
+
+/**
+ * Extracts the JSON object from a model answer, tolerating Markdown code fences and text around it.
+ */
+const extractJsonObject = (text: string): unknown => {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) {
+    throw new InvalidResponseError("The response did not contain a JSON object.");
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (e) {
+    throw new InvalidResponseError(`The JSON in the response is malformed or truncated (${e instanceof Error ? e.message : String(e)}).`, { cause: e });
+  }
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const parseRegion = (raw: unknown): ImageRegion | null => {
+  if (!isRecord(raw)) return null;
+  const values = [raw.x, raw.y, raw.width, raw.height].map(Number);
+  if (values.some((v) => !Number.isFinite(v))) return null;
+  const x = clamp01(values[0]);
+  const y = clamp01(values[1]);
+  const width = Math.min(clamp01(values[2]), 1 - x);
+  const height = Math.min(clamp01(values[3]), 1 - y);
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+const clampScore = (value: unknown) => Math.min(10, Math.max(0, Number(value) || 0));
+
+/**
+ * Normalises the findings a provider located for one tool. Boxes reaching outside the image are
+ * clipped to it; findings without a usable box are dropped.
+ */
+export const normalizeToolFindings = (raw: unknown): ToolFinding[] =>
+  (Array.isArray(raw) ? raw : []).flatMap((finding: unknown): ToolFinding[] => {
+    if (!isRecord(finding)) return [];
+    const region = parseRegion(finding.region);
+    if (!region) return [];
+    return [{ label: String(finding.label ?? "").trim(), region, confidence: clampScore(finding.confidence) }];
+  });
+
+const text = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+/**
+ * Checks a provider's analysis answer and repairs what can be repaired: scores are clamped to
+ * 0-10, tools reported twice keep their first entry, and missing fields get defaults. Every repair is listed in `responseRepairs`.
+ * Throws InvalidResponseError when no tool scores can be recovered at all.
+ */
+export const normalizeAnalysis = (raw: unknown): AnalysisResult => {
+  if (!isRecord(raw)) {
+    throw new InvalidResponseError("The response is not a JSON object.");
+  }
+  if (!Array.isArray(raw.detectedTools)) {
+    throw new InvalidResponseError("The \"detectedTools\" list is missing.");
+  }
+
+  const repairs: string[] = [];
+
+  const seen = new Set<string>();
+  const detectedTools: DetectedTool[] = [];
+  raw.detectedTools.forEach((entry: unknown, index: number) => {
+    const tool = isRecord(entry) ? entry : {};
+    const name = text(tool.name) || text(tool.toolId);
+    if (!name) {
+      repairs.push(`Dropped tool entry ${index + 1}, which had no name.`);
+      return;
+    }
+    const key = text(tool.toolId) || name.toLowerCase();
+    if (seen.has(key)) {
+      repairs.push(`Dropped a second score for ${name}.`);
+      return;
+    }
+    // Strings such as "7" or "7/10" are accepted; null or an empty string is not a score of 0
+    let score = typeof tool.likelihoodScore === "number" ? tool.likelihoodScore : parseFloat(String(tool.likelihoodScore));
+    if (!Number.isFinite(score)) {
+      repairs.push(`Dropped ${name}, which had no numeric score.`);
+      return;
+    }
+    seen.add(key);
+    if (score < 0 || score > 10) {
+      repairs.push(`Clamped the score for ${name} from ${score} to the 0-10 range.`);
+      score = Math.min(10, Math.max(0, score));
+    }
+    detectedTools.push({
+      ...(text(tool.toolId) && { toolId: text(tool.toolId) }),
+      name,
+      likelihoodScore: Math.round(score * 10) / 10,
+      reasoning: text(tool.reasoning),
+      findings: normalizeToolFindings(tool.findings),
+    });
+  });
+  if (detectedTools.length === 0) {
+    throw new InvalidResponseError("No tool in the response had a usable score.");
+  }
+
+  const overallAssessment = text(raw.overallAssessment);
+  if (!overallAssessment) repairs.push("The overall assessment was missing.");
+  const originalDevice = text(raw.originalDevice);
+  if (!originalDevice) repairs.push("The device estimate was missing.");
+  const layers = Number(raw.estimatedEditLayerCount);
+  if (!Number.isFinite(layers) || layers < 0) repairs.push("The edit layer count was missing or invalid and was set to 0.");
+
+  return {
+    overallAssessment,
+    estimatedEditLayerCount: Number.isFinite(layers) ? Math.max(0, Math.round(layers)) : 0,
+    originalDevice: originalDevice || "Unknown",
+    detectedTools,
+    ...(repairs.length > 0 && { responseRepairs: repairs }),
+  };
+};
+
+/**
+ * Parses and validates a model's JSON answer, tolerating Markdown code fences and text around the object.
+ */
+export const parseAnalysisJson = (text: string): AnalysisResult => normalizeAnalysis(extractJsonObject(text));
+
+/**
+ * Normalises a provider's comparison answer: unknown change kinds become "other", confidences
+ * are clamped to 0-10 and regions outside the image are clipped or dropped.
+ */
+export const normalizeComparison = (raw: unknown): ComparisonAnalysis => {
+  const answer = isRecord(raw) ? raw : {};
+  const changes = (Array.isArray(answer.changes) ? answer.changes : []).map((entry: unknown): ImageChange => {
+    const change = isRecord(entry) ? entry : {};
+    return {
+      kind: IMAGE_CHANGE_KINDS.find((kind) => kind === change.kind) ?? "other",
+      description: String(change.description ?? ""),
+      region: parseRegion(change.region),
+      confidence: clampScore(change.confidence),
+      source: "ai",
+    };
+  });
+  return { summary: String(answer.summary ?? ""), changes };
+};
+
+export const parseComparisonJson = (text: string): ComparisonAnalysis => normalizeComparison(extractJsonObject(text));
+
+/**
+ * Reads a follow-up answer. A plain question gets prose back; a re-scoring request gets a JSON
+ * object that is validated like a fresh analysis, with the prose in its "answer" field.
+ */
+export const parseChatReply = (reply: string, rescore: boolean): ChatReply => {
+  if (!rescore) {
+    if (!reply.trim()) throw new InvalidResponseError("The answer was empty.");
+    return { text: reply.trim() };
+  }
+  const raw = extractJsonObject(reply);
+  const result = normalizeAnalysis(raw);
+  return { text: (isRecord(raw) && text(raw.answer)) || result.overallAssessment, result };
+};
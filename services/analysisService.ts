@@ -0,0 +1,105 @@
+import { AnalysisResult, EnsembleConfig, MetadataReport, PrivacyPolicy, ProviderConfig, SensitiveField, ToolCatalogEntry, UploadBudget, UploadPayloadInfo } from "../types";
+import { runAnalysisPipeline } from "./analysisPipeline";
+import { runCopyMoveDetection } from "./copyMoveService";
+import { imageSourceFromBlob } from "./imageSourceService";
+import { DEFAULT_TOOL_CATALOG } from "./toolCatalogService";
+import { sha256OfBlob } from "./hashService";
+import { getCachedResult, putCachedResult, resultCacheKey } from "./resultCacheService";
+import { getProviderDefinition } from "./providerService";
+import { DEFAULT_UPLOAD_BUDGET, prepareUpload } from "./uploadService";
+import { FixtureSession } from "./fixtureService";
+import { analyzeTimestamps } from "./timestampService";
+import { DEFAULT_PRIVACY_POLICY, guardUpload } from "./privacyService";
+
+export interface AnalyzeImageOptions {
+  providerConfig: ProviderConfig;
+  toolCatalog?: ToolCatalogEntry[]; // Defaults to the built-in catalog
+  trustList?: string;
+  signal?: AbortSignal;
+  // Called as soon as the local metadata is ready, before the AI call finishes
+  onMetadata?: (metadata: MetadataReport) => void;
+  // Skip the cache lookup and call the provider again; the fresh result replaces the cached one
+  bypassCache?: boolean;
+  // Called when the result comes from the cache rather than a new provider call
+  onCacheHit?: (cachedAt: string) => void;
+  uploadBudget?: UploadBudget; // Defaults to DEFAULT_UPLOAD_BUDGET
+  // Called once the image to send is prepared, before the provider call
+  onUpload?: (info: UploadPayloadInfo) => void;
+  // Record or replay provider answers; the result cache is bypassed so every call reaches the fixtures
+  fixtures?: FixtureSession;
+  ensemble?: EnsembleConfig;  // Several samples per image, aggregated; off by default
+  privacyPolicy?: PrivacyPolicy; // Defaults to DEFAULT_PRIVACY_POLICY
+  // Asked under the "ask" policy when the upload carries sensitive metadata: resolve true to
+  // strip it, false to send it as-is, or reject to cancel. Without it, "ask" strips.
+  confirmSensitiveUpload?: (fields: SensitiveField[]) => Promise<boolean>;
+}
+
+/**
+ * Runs the full single-image pipeline in the browser, with copy-move detection in a Web Worker.
+ * Shared by the single view and batch mode. Identical inputs, including the privacy decision
+ * for the upload, are answered from the local result cache instead of a new, billed call.
+ */
+export const analyzeImage = async (file: File, options: AnalyzeImageOptions): Promise<AnalysisResult> => {
+  const {
+    providerConfig,
+    toolCatalog = DEFAULT_TOOL_CATALOG,
+    trustList = "",
+    signal,
+    onMetadata,
+    bypassCache,
+    onCacheHit,
+    uploadBudget = DEFAULT_UPLOAD_BUDGET,
+    onUpload,
+    fixtures,
+    ensemble,
+    privacyPolicy = DEFAULT_PRIVACY_POLICY,
+    confirmSensitiveUpload,
+  } = options;
+
+  const image = await imageSourceFromBlob(file);
+  const prepared = await prepareUpload(image, uploadBudget, getProviderDefinition(providerConfig.providerId).capabilities.acceptedMimeTypes, signal);
+  // Resolved before the cache lookup, so a result is only reused under the same privacy decision
+  const upload = await guardUpload(prepared, privacyPolicy, confirmSensitiveUpload);
+  signal?.throwIfAborted();
+
+  // The cache only saves time and money; when it is unavailable the analysis runs as usual
+  const cacheKey = fixtures ? null : await sha256OfBlob(file)
+    .then((sha256) => resultCacheKey(sha256, providerConfig, toolCatalog, trustList, uploadBudget, upload.info.privacy, ensemble))
+    .catch((err) => {
+      console.warn("Result cache unavailable:", err);
+      return null;
+    });
+  if (cacheKey && !bypassCache) {
+    const cached = await getCachedResult(cacheKey).catch((err) => {
+      console.warn("Result cache lookup failed:", err);
+      return null;
+    });
+    signal?.throwIfAborted();
+    if (cached) {
+      if (onMetadata && cached.result.metadata) onMetadata(cached.result.metadata);
+      onCacheHit?.(cached.cachedAt);
+      // The cache is keyed by content, so the same bytes may arrive with another modification time
+      return { ...cached.result, timeline: analyzeTimestamps(cached.result.metadata, file.lastModified) };
+    }
+  }
+
+  onUpload?.(upload.info);
+  // The browser cannot decode RAW files, so clones are searched for in their embedded preview
+  const copyMoveSource = upload.info.source === "raw-preview" ? new Blob([upload.image.bytes], { type: upload.image.mimeType }) : file;
+
+  const result = await runAnalysisPipeline(image, {
+    providerConfig,
+    toolCatalog,
+    trustList,
+    signal,
+    onMetadata,
+    upload,
+    fixtures,
+    ensemble,
+    detectCopyMoves: (copyMoveSignal) => runCopyMoveDetection(copyMoveSource, copyMoveSignal),
+  });
+  if (cacheKey) {
+    await putCachedResult(cacheKey, providerConfig, result).catch((err) => console.warn("Could not cache result:", err));
+  }
+  return result;
+};
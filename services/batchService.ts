@@ -0,0 +1,134 @@
+import { AnalysisResult, AnalysisState, BatchItem } from "../types";
+import { RateLimitError } from "./analysisErrors";
+
+export interface BatchQueueOptions {
+  getConcurrency: () => number;
+  maxRetries: number;
+  baseDelayMs: number;
+  onUpdate: (id: string, patch: Partial<BatchItem>) => void;
+}
+
+export interface BatchQueue {
+  add: (items: { id: string; file: File }[]) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+}
+
+interface QueueEntry {
+  id: string;
+  file: File;
+  controller: AbortController;
+}
+
+/**
+ * True for errors that mean "slow down" rather than "this image failed".
+ */
+export const isRateLimitError = (err: unknown): boolean => {
+  if (err instanceof RateLimitError) return true;
+  const message = err instanceof Error ? err.message : String(err);
+  return /\b429\b|rate.?limit|quota|resource.?exhausted|too many requests/i.test(message);
+};
+
+const isAbortError = (err: unknown): boolean => (err as { name?: string })?.name === "AbortError";
+
+const sleep = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("Cancelled", "AbortError"));
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Rejects as soon as the signal aborts, even if the wrapped call cannot itself be cancelled.
+ */
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => reject(new DOMException("Cancelled", "AbortError"));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+
+/**
+ * A job queue that analyzes files with bounded concurrency. Rate-limited calls are retried
+ * with exponential backoff and jitter; every state change is reported through `onUpdate`.
+ */
+export const createBatchQueue = (
+  task: (file: File, signal: AbortSignal) => Promise<AnalysisResult>,
+  options: BatchQueueOptions
+): BatchQueue => {
+  const pending: QueueEntry[] = [];
+  const running = new Map<string, QueueEntry>();
+
+  const process = async (entry: QueueEntry) => {
+    const { id, file, controller } = entry;
+    for (let attempt = 1; ; attempt++) {
+      options.onUpdate(id, { state: AnalysisState.ANALYZING, attempts: attempt, error: null, note: null });
+      try {
+        const result = await abortable(task(file, controller.signal), controller.signal);
+        options.onUpdate(id, { state: AnalysisState.SUCCESS, result, note: null });
+        return;
+      } catch (err) {
+        if (isAbortError(err)) {
+          options.onUpdate(id, { state: AnalysisState.ERROR, error: "Cancelled", note: null });
+          return;
+        }
+        if (isRateLimitError(err) && attempt <= options.maxRetries) {
+          const delay = options.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+          options.onUpdate(id, { note: `Rate limited, retrying in ${Math.ceil(delay / 1000)}s` });
+          try {
+            await sleep(delay, controller.signal);
+          } catch {
+            options.onUpdate(id, { state: AnalysisState.ERROR, error: "Cancelled", note: null });
+            return;
+          }
+          continue;
+        }
+        const message = err instanceof Error ? err.message : String(err);
+        options.onUpdate(id, { state: AnalysisState.ERROR, error: message || "Analysis failed", note: null });
+        return;
+      }
+    }
+  };
+
+  const pump = () => {
+    while (running.size < Math.max(1, options.getConcurrency()) && pending.length > 0) {
+      const entry = pending.shift()!;
+      running.set(entry.id, entry);
+      process(entry).finally(() => {
+        running.delete(entry.id);
+        pump();
+      });
+    }
+  };
+
+  return {
+    add: (items) => {
+      for (const item of items) {
+        pending.push({ ...item, controller: new AbortController() });
+        options.onUpdate(item.id, { state: AnalysisState.IDLE, error: null, note: "Queued" });
+      }
+      pump();
+    },
+    cancel: (id) => {
+      const index = pending.findIndex((entry) => entry.id === id);
+      if (index >= 0) {
+        pending.splice(index, 1);
+        options.onUpdate(id, { state: AnalysisState.ERROR, error: "Cancelled", note: null });
+      }
+      running.get(id)?.controller.abort();
+    },
+    cancelAll: () => {
+      for (const entry of pending.splice(0)) {
+        options.onUpdate(entry.id, { state: AnalysisState.ERROR, error: "Cancelled", note: null });
+      }
+      for (const entry of running.values()) entry.controller.abort();
+    },
+  };
+};
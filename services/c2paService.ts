@@ -0,0 +1,323 @@
+import { C2paAction, C2paCertificate, C2paHashStatus, C2paIngredient, C2paManifest, C2paReport, C2paSignatureStatus } from "../types";
+import { CborValue, decodeCbor, encodeCbor } from "./cborService";
+import { ParsedCertificate, parseCertificate, parsePemBundle, verifyIssuedBy, verifyWithCertificate } from "./certificateService";
+
+/**
+ * A JUMBF superbox ('jumb'): its description label, the raw content boxes it holds and any nested superboxes.
+ */
+interface JumbfNode {
+  label: string;
+  contents: { type: string; data: Uint8Array }[];
+  children: JumbfNode[];
+}
+
+type CborMap = { [key: string]: CborValue };
+
+// COSE algorithm identifiers allowed by C2PA and how to verify them
+const COSE_ALGORITHMS: Record<string, { scheme: "ecdsa" | "pss" | "eddsa"; hash: string }> = {
+  "-7": { scheme: "ecdsa", hash: "SHA-256" },
+  "-35": { scheme: "ecdsa", hash: "SHA-384" },
+  "-36": { scheme: "ecdsa", hash: "SHA-512" },
+  "-37": { scheme: "pss", hash: "SHA-256" },
+  "-38": { scheme: "pss", hash: "SHA-384" },
+  "-39": { scheme: "pss", hash: "SHA-512" },
+  "-8": { scheme: "eddsa", hash: "" },
+};
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: "SHA-256",
+  sha384: "SHA-384",
+  sha512: "SHA-512",
+};
+
+// COSE header label for the X.509 certificate chain
+const X5CHAIN = "33";
+
+// IPTC digital source types declaring the content was produced by a generative model
+const AI_SOURCE_TYPE = /(trainedAlgorithmicMedia|algorithmicMedia)$/;
+
+const isMap = (value: CborValue): value is CborMap =>
+  typeof value === "object" && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+const asString = (value: CborValue): string | undefined => (typeof value === "string" ? value : undefined);
+
+const ascii = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+/**
+ * Parses a sequence of ISO BMFF-style boxes (LBox, TBox, optional XLBox) into JUMBF superboxes.
+ */
+function parseJumbf(bytes: Uint8Array): JumbfNode[] {
+  const nodes: JumbfNode[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    let size = view.getUint32(offset, false);
+    const type = ascii(bytes.subarray(offset + 4, offset + 8));
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > bytes.length) break;
+      size = view.getUint32(offset + 8, false) * 0x100000000 + view.getUint32(offset + 12, false);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = bytes.length - offset; // Box extends to the end of the data
+    }
+    if (size < headerSize || offset + size > bytes.length) break;
+
+    if (type === "jumb") {
+      nodes.push(parseSuperbox(bytes.subarray(offset + headerSize, offset + size)));
+    }
+    offset += size;
+  }
+  return nodes;
+}
+
+function parseSuperbox(bytes: Uint8Array): JumbfNode {
+  const node: JumbfNode = { label: "", contents: [], children: [] };
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset, false);
+    const type = ascii(bytes.subarray(offset + 4, offset + 8));
+    if (size < 8 || offset + size > bytes.length) break;
+    const data = bytes.subarray(offset + 8, offset + size);
+
+    if (type === "jumd") {
+      // Description box: 16-byte content type UUID, toggles, then an optional null-terminated label
+      const toggles = data[16];
+      if (toggles & 0x02) {
+        const labelEnd = data.indexOf(0, 17);
+        node.label = new TextDecoder().decode(data.subarray(17, labelEnd < 0 ? data.length : labelEnd));
+      }
+    } else if (type === "jumb") {
+      node.children.push(parseSuperbox(data));
+    } else {
+      node.contents.push({ type, data });
+    }
+    offset += size;
+  }
+  return node;
+}
+
+const cborContent = (node: JumbfNode | undefined): { value: CborValue; bytes: Uint8Array } | null => {
+  const box = node?.contents.find((c) => c.type === "cbor");
+  if (!box) return null;
+  try {
+    return { value: decodeCbor(box.data), bytes: box.data };
+  } catch (e) {
+    console.warn(`Unreadable CBOR in JUMBF box "${node?.label}":`, e);
+    return null;
+  }
+};
+
+// Assertion labels may carry an instance suffix ("c2pa.ingredient__1") and a version ("c2pa.actions.v2")
+const baseLabel = (label: string) => label.replace(/__\d+$/, "").replace(/\.v\d+$/, "");
+
+const formatAgent = (agent: CborValue): string | undefined => {
+  if (typeof agent === "string") return agent;
+  if (isMap(agent)) {
+    return [asString(agent.name), asString(agent.version)].filter(Boolean).join(" ") || undefined;
+  }
+  return undefined;
+};
+
+function readManifest(node: JumbfNode): { manifest: C2paManifest; claimBytes: Uint8Array | null; claim: CborMap | null; signature: CborValue; assertions: JumbfNode[] } {
+  const assertions = node.children.find((c) => c.label === "c2pa.assertions")?.children ?? [];
+  const claimContent = cborContent(node.children.find((c) => baseLabel(c.label) === "c2pa.claim"));
+  const claim = claimContent && isMap(claimContent.value) ? claimContent.value : null;
+
+  const actions: C2paAction[] = [];
+  const ingredients: C2paIngredient[] = [];
+  for (const assertion of assertions) {
+    const label = baseLabel(assertion.label);
+    const value = cborContent(assertion)?.value;
+    if (!isMap(value)) continue;
+
+    if (label === "c2pa.actions" && Array.isArray(value.actions)) {
+      for (const action of value.actions) {
+        if (!isMap(action) || typeof action.action !== "string") continue;
+        actions.push({
+          action: action.action,
+          digitalSourceType: asString(action.digitalSourceType),
+          softwareAgent: formatAgent(action.softwareAgent),
+          when: asString(action.when),
+        });
+      }
+    } else if (label === "c2pa.ingredient") {
+      ingredients.push({
+        title: asString(value["dc:title"]) ?? asString(value.title),
+        format: asString(value["dc:format"]) ?? asString(value.format),
+        relationship: asString(value.relationship),
+        instanceId: asString(value.instanceID) ?? asString(value.instanceId),
+      });
+    }
+  }
+
+  const generatorInfo = claim?.claim_generator_info;
+  const claimGenerator = (claim && asString(claim.claim_generator))
+    ?? formatAgent(Array.isArray(generatorInfo) ? generatorInfo[0] : generatorInfo);
+
+  return {
+    manifest: {
+      label: node.label,
+      claimGenerator,
+      title: claim ? asString(claim["dc:title"]) : undefined,
+      format: claim ? asString(claim["dc:format"]) : undefined,
+      instanceId: claim ? asString(claim.instanceID) : undefined,
+      actions,
+      ingredients,
+      assertionLabels: assertions.map((a) => a.label),
+    },
+    claimBytes: claimContent?.bytes ?? null,
+    claim,
+    signature: cborContent(node.children.find((c) => c.label === "c2pa.signature"))?.value,
+    assertions,
+  };
+}
+
+/**
+ * Recomputes the c2pa.hash.data hard binding: a hash over the whole file minus the
+ * excluded byte ranges that hold the manifest store itself.
+ */
+async function checkHashBinding(assertions: JumbfNode[], claim: CborMap | null, fileBytes: Uint8Array): Promise<C2paHashStatus> {
+  const dataHash = assertions.find((a) => baseLabel(a.label) === "c2pa.hash.data");
+  if (!dataHash) {
+    const otherBinding = assertions.some((a) => /^c2pa\.hash\./.test(a.label));
+    return otherBinding ? "unsupported" : "missing";
+  }
+
+  const binding = cborContent(dataHash)?.value;
+  if (!isMap(binding) || !(binding.hash instanceof Uint8Array)) return "unsupported";
+
+  const algorithm = HASH_ALGORITHMS[asString(binding.alg) ?? (claim && asString(claim.alg)) ?? "sha256"];
+  if (!algorithm) return "unsupported";
+
+  const exclusions = (Array.isArray(binding.exclusions) ? binding.exclusions : [])
+    .filter(isMap)
+    .map((e) => ({ start: Number(e.start), length: Number(e.length) }))
+    .filter((e) => Number.isFinite(e.start) && Number.isFinite(e.length))
+    .sort((a, b) => a.start - b.start);
+
+  const kept: Uint8Array[] = [];
+  let position = 0;
+  for (const { start, length } of exclusions) {
+    if (start > position) kept.push(fileBytes.subarray(position, Math.min(start, fileBytes.length)));
+    position = Math.max(position, start + length);
+  }
+  if (position < fileBytes.length) kept.push(fileBytes.subarray(position));
+
+  const hashed = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  kept.forEach((part) => { hashed.set(part, offset); offset += part.length; });
+
+  const digest = new Uint8Array(await crypto.subtle.digest(algorithm, hashed));
+  const expected = binding.hash;
+  return digest.length === expected.length && digest.every((b, i) => b === expected[i]) ? "match" : "mismatch";
+}
+
+/**
+ * Verifies the COSE_Sign1 claim signature with the leaf certificate, checks each link of
+ * the embedded chain and looks for an anchor in the user's local trust list.
+ */
+async function checkSignature(
+  signature: CborValue,
+  claimBytes: Uint8Array | null,
+  trustAnchors: ParsedCertificate[]
+): Promise<{ status: C2paSignatureStatus; chain: ParsedCertificate[] }> {
+  if (!Array.isArray(signature) || signature.length < 4 || !claimBytes) {
+    return { status: "unverified", chain: [] };
+  }
+
+  const [protectedBytes, unprotected, , signatureBytes] = signature;
+  if (!(protectedBytes instanceof Uint8Array) || !(signatureBytes instanceof Uint8Array)) {
+    return { status: "unverified", chain: [] };
+  }
+
+  let protectedHeader: CborValue;
+  try {
+    protectedHeader = protectedBytes.length > 0 ? decodeCbor(protectedBytes) : {};
+  } catch {
+    return { status: "invalid", chain: [] };
+  }
+  if (!isMap(protectedHeader)) return { status: "invalid", chain: [] };
+
+  const rawChain = protectedHeader[X5CHAIN] ?? (isMap(unprotected) ? unprotected[X5CHAIN] ?? unprotected.x5chain : undefined);
+  const certificateBytes = (Array.isArray(rawChain) ? rawChain : [rawChain])
+    .filter((c): c is Uint8Array => c instanceof Uint8Array);
+
+  const chain: ParsedCertificate[] = [];
+  for (const der of certificateBytes) {
+    try {
+      chain.push(await parseCertificate(der));
+    } catch (e) {
+      console.warn("Unreadable certificate in C2PA signature:", e);
+      return { status: "invalid", chain };
+    }
+  }
+
+  const algorithm = COSE_ALGORITHMS[String(protectedHeader["1"])];
+  if (chain.length === 0 || !algorithm) return { status: "unverified", chain };
+
+  // Sig_structure for COSE_Sign1 with a detached payload (the claim)
+  const toBeSigned = encodeCbor(["Signature1", protectedBytes, new Uint8Array(0), claimBytes]);
+  const signatureValid = await verifyWithCertificate(chain[0], algorithm.scheme, algorithm.hash, signatureBytes, toBeSigned);
+  if (signatureValid === null) return { status: "unverified", chain };
+  if (!signatureValid) return { status: "invalid", chain };
+
+  for (let i = 0; i < chain.length - 1; i++) {
+    const linkValid = await verifyIssuedBy(chain[i], chain[i + 1]);
+    if (linkValid === false) return { status: "invalid", chain };
+    if (linkValid === null) return { status: "unverified", chain };
+  }
+
+  const fingerprints = new Set(chain.map((c) => c.info.fingerprint));
+  const last = chain[chain.length - 1];
+  for (const anchor of trustAnchors) {
+    if (fingerprints.has(anchor.info.fingerprint) || (await verifyIssuedBy(last, anchor)) === true) {
+      return { status: "trusted", chain };
+    }
+  }
+  return { status: "untrusted", chain };
+}
+
+/**
+ * Reads a C2PA manifest store from a reassembled JUMBF byte stream.
+ * `fileBytes` is the complete original file, needed to recompute the hard binding hash.
+ * `trustList` is a PEM bundle of certificates the analyst trusts as signing anchors.
+ */
+export const readC2paManifestStore = async (
+  jumbf: Uint8Array,
+  fileBytes: Uint8Array,
+  source: string,
+  trustList = ""
+): Promise<C2paReport | null> => {
+  try {
+    const store = parseJumbf(jumbf).find((node) => node.label === "c2pa");
+    if (!store || store.children.length === 0) return null;
+
+    const parsed = store.children.map(readManifest);
+    const active = parsed[parsed.length - 1];
+
+    const hashBinding = await checkHashBinding(active.assertions, active.claim, fileBytes);
+    const trustAnchors = trustList.trim() ? await parsePemBundle(trustList) : [];
+    const { status, chain } = await checkSignature(active.signature, active.claimBytes, trustAnchors);
+
+    const certificateChain: C2paCertificate[] = chain.map((c) => c.info);
+    return {
+      source,
+      manifests: parsed.map((p) => p.manifest),
+      activeManifest: active.manifest,
+      aiGenerated: active.manifest.actions.some(
+        (a) => a.action === "c2pa.created" && !!a.digitalSourceType && AI_SOURCE_TYPE.test(a.digitalSourceType)
+      ),
+      hashBinding,
+      signatureStatus: status,
+      signer: certificateChain[0] ?? null,
+      certificateChain,
+    };
+  } catch (e) {
+    console.warn("Failed to read C2PA manifest store:", e);
+    return null;
+  }
+};
@@ -0,0 +1,292 @@
+import { AnalysisResult, CaseRecord, PerceptualHashes, SimilarCase } from "../types";
+import { sha256OfBlob } from "./hashService";
+import { createThumbnail } from "./thumbnailService";
+import { computeImageHashes } from "./perceptualHashService";
+import { PERCEPTUAL_HASH_VERSION, compareHashes } from "./perceptualHash";
+import { isRecord } from "./typeGuards";
+
+const DB_NAME = "photo-detective";
+const DB_VERSION = 1;
+const CASE_STORE = "cases";
+
+/**
+ * Version of the CaseRecord layout written by this build. Records saved by older builds are
+ * upgraded on read by the MIGRATIONS below, so they keep opening as AnalysisResult evolves.
+ */
+export const CASE_SCHEMA_VERSION = 1;
+
+// Larger originals are stored as a thumbnail only
+const MAX_STORED_IMAGE_BYTES = 25 * 1024 * 1024;
+
+// A record as read from IndexedDB, possibly written by an older build; narrowed by migrateCase
+type StoredCase = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a record from schema version n to n + 1
+const MIGRATIONS: Record<number, (record: StoredCase) => StoredCase> = {
+  // Version 0: records written before schema versioning, without analyst annotations
+  0: (record) => ({
+    ...record,
+    notes: record.notes ?? "",
+    tags: record.tags ?? [],
+    updatedAt: record.updatedAt ?? record.createdAt,
+  }),
+};
+
+export interface CaseQuery {
+  text: string;               // Matches file name, notes, assessment and SHA-256 prefix
+  tool: string;               // Only cases where this tool scored within the range below
+  minScore: number;
+  maxScore: number;
+  device: string;             // Matches metadata device or visual estimate
+  tag: string;
+}
+
+export const EMPTY_CASE_QUERY: CaseQuery = { text: "", tool: "", minScore: 0, maxScore: 10, device: "", tag: "" };
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(CASE_STORE, { keyPath: "id" });
+        store.createIndex("sha256", "sha256", { unique: false });
+        store.createIndex("createdAt", "createdAt", { unique: false });
+        store.createIndex("tags", "tags", { unique: false, multiEntry: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs one request against the case store and resolves when its transaction completes.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(CASE_STORE, mode);
+      const request = run(transaction.objectStore(CASE_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error("Case library transaction aborted"));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const stringOr = (value: unknown, fallback = ""): string => (typeof value === "string" ? value : fallback);
+const numberOr = (value: unknown, fallback = 0): number => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+const blobOrNull = (value: unknown): Blob | null => (value instanceof Blob ? value : null);
+
+const isPerceptualHashes = (value: unknown): value is PerceptualHashes =>
+  isRecord(value) &&
+  typeof value.version === "number" &&
+  [value.aHash, value.dHash, value.pHash].every((hash) => typeof hash === "string") &&
+  Array.isArray(value.cropHashes) &&
+  value.cropHashes.every((hash) => typeof hash === "string");
+
+/**
+ * Brings a stored record up to the current schema and fills fields AnalysisResult gained later.
+ * Every top-level field is checked; the result's nested fields are trusted as this app wrote
+ * them. Hashes of an unknown shape are dropped so they are computed again.
+ */
+export const migrateCase = (raw: unknown): CaseRecord => {
+  if (!isRecord(raw) || typeof raw.id !== "string") throw new Error("A stored case is unreadable.");
+  let record = raw;
+  let version = numberOr(raw.schemaVersion);
+  while (version < CASE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) record = migrate(record);
+    version++;
+  }
+  const stored = isRecord(record.result) ? record.result : {};
+  const result = {
+    ...stored,
+    overallAssessment: stringOr(stored.overallAssessment),
+    estimatedEditLayerCount: numberOr(stored.estimatedEditLayerCount),
+    originalDevice: stringOr(stored.originalDevice),
+    detectedTools: Array.isArray(stored.detectedTools) ? stored.detectedTools : [],
+  } as AnalysisResult;
+  const storedHashes = record.perceptualHashes;
+  const hashes = storedHashes === null ? null : isPerceptualHashes(storedHashes) ? storedHashes : undefined;
+  return {
+    id: raw.id,
+    schemaVersion: Math.max(version, numberOr(record.schemaVersion)),
+    fileName: stringOr(record.fileName),
+    fileType: stringOr(record.fileType),
+    fileSize: numberOr(record.fileSize),
+    lastModified: numberOr(record.lastModified),
+    sha256: stringOr(record.sha256),
+    image: blobOrNull(record.image),
+    thumbnail: blobOrNull(record.thumbnail),
+    result,
+    createdAt: stringOr(record.createdAt),
+    updatedAt: stringOr(record.updatedAt, stringOr(record.createdAt)),
+    notes: stringOr(record.notes),
+    tags: Array.isArray(record.tags) ? record.tags.filter((tag): tag is string => typeof tag === "string") : [],
+    ...(hashes !== undefined && { perceptualHashes: hashes }),
+  };
+};
+
+// An image the browser cannot decode gets null, so it is not tried again
+const hashImage = (image: Blob): Promise<PerceptualHashes | null> =>
+  computeImageHashes(image).catch((err) => {
+    console.warn("Could not compute perceptual hashes:", err);
+    return null;
+  });
+
+const hasCurrentHashes = (record: CaseRecord): boolean =>
+  record.perceptualHashes === null || record.perceptualHashes?.version === PERCEPTUAL_HASH_VERSION;
+
+/**
+ * Saves an analysis as a case. Re-analyzing an image that is already in the library updates
+ * that case's result and keeps its notes and tags. The image's perceptual hashes are stored
+ * with it for the similar-images search.
+ */
+export const saveCase = async (file: File, result: AnalysisResult): Promise<CaseRecord> => {
+  const sha256 = await sha256OfBlob(file);
+  const existing = await findCaseBySha256(sha256);
+  const now = new Date().toISOString();
+
+  const record: CaseRecord = existing
+    ? { ...existing, result, updatedAt: now, ...(!hasCurrentHashes(existing) && { perceptualHashes: await hashImage(file) }) }
+    : {
+        id: crypto.randomUUID(),
+        schemaVersion: CASE_SCHEMA_VERSION,
+        fileName: file.name,
+        fileType: file.type,
+        fileSize: file.size,
+        lastModified: file.lastModified,
+        sha256,
+        image: file.size <= MAX_STORED_IMAGE_BYTES ? file : null,
+        thumbnail: await createThumbnail(file),
+        result,
+        createdAt: now,
+        updatedAt: now,
+        notes: "",
+        tags: [],
+        perceptualHashes: await hashImage(file),
+      };
+
+  await withStore("readwrite", (store) => store.put(record));
+  return record;
+};
+
+export const listCases = async (): Promise<CaseRecord[]> => {
+  const records = await withStore<unknown[]>("readonly", (store) => store.getAll());
+  return records.map(migrateCase).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getCase = async (id: string): Promise<CaseRecord | null> => {
+  const record = await withStore<unknown>("readonly", (store) => store.get(id));
+  return record ? migrateCase(record) : null;
+};
+
+export const findCaseBySha256 = async (sha256: string): Promise<CaseRecord | null> => {
+  const records = await withStore<unknown[]>("readonly", (store) => store.index("sha256").getAll(sha256));
+  return records.length > 0 ? migrateCase(records[0]) : null;
+};
+
+export const updateCaseAnnotations = async (id: string, annotations: { notes?: string; tags?: string[] }): Promise<CaseRecord | null> => {
+  const record = await getCase(id);
+  if (!record) return null;
+  const updated: CaseRecord = { ...record, ...annotations, updatedAt: new Date().toISOString() };
+  await withStore("readwrite", (store) => store.put(updated));
+  return updated;
+};
+
+/**
+ * Replaces a case's result, as when a follow-up conversation extends or re-scores it.
+ */
+export const updateCaseResult = async (id: string, result: AnalysisResult): Promise<CaseRecord | null> => {
+  const record = await getCase(id);
+  if (!record) return null;
+  const updated: CaseRecord = { ...record, result, updatedAt: new Date().toISOString() };
+  await withStore("readwrite", (store) => store.put(updated));
+  return updated;
+};
+
+const backfillHashes = async (record: CaseRecord): Promise<CaseRecord> => {
+  const image = record.image ?? record.thumbnail;
+  const updated: CaseRecord = { ...record, perceptualHashes: image ? await hashImage(image) : null };
+  await withStore("readwrite", (store) => store.put(updated));
+  return updated;
+};
+
+/**
+ * Lists the cases whose image looks like the query's: re-encodes, resizes, crops and images
+ * cropped from it, within `threshold` bits (out of 64). Closest first. Cases saved before
+ * hashing, or hashed by an older algorithm, are hashed from their stored image or thumbnail on
+ * the way and updated, so the first search over an old library takes longer.
+ */
+export const findSimilarCases = async (hashes: PerceptualHashes, threshold: number, excludeSha256?: string): Promise<SimilarCase[]> => {
+  const matches: SimilarCase[] = [];
+  for (const stored of await listCases()) {
+    if (stored.sha256 === excludeSha256) continue;
+    const record = hasCurrentHashes(stored) ? stored : await backfillHashes(stored);
+    if (!record.perceptualHashes) continue;
+    const match = compareHashes(hashes, record.perceptualHashes);
+    if (match.distance <= threshold) matches.push({ record, ...match });
+  }
+  return matches.sort((a, b) => a.distance - b.distance);
+};
+
+export const deleteCase = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+};
+
+/**
+ * Score of a tool in a case, preferring the fused score.
+ */
+const toolScore = (record: CaseRecord, tool: string): number | null => {
+  const needle = tool.toLowerCase();
+  const fused = record.result.fusion?.tools.find((t) => t.name.toLowerCase().includes(needle));
+  if (fused) return fused.fusedScore;
+  return record.result.detectedTools.find((t) => t.name.toLowerCase().includes(needle))?.likelihoodScore ?? null;
+};
+
+const topScore = (record: CaseRecord): number | null => {
+  const scores = record.result.fusion
+    ? record.result.fusion.tools.map((t) => t.fusedScore)
+    : record.result.detectedTools.map((t) => t.likelihoodScore);
+  return scores.length > 0 ? Math.max(...scores) : null;
+};
+
+export const filterCases = (records: CaseRecord[], query: CaseQuery): CaseRecord[] => {
+  const text = query.text.trim().toLowerCase();
+  const device = query.device.trim().toLowerCase();
+  const tag = query.tag.trim().toLowerCase();
+
+  return records.filter((record) => {
+    if (text) {
+      const haystack = [record.fileName, record.notes, record.result.overallAssessment].join("\n").toLowerCase();
+      if (!haystack.includes(text) && !record.sha256.startsWith(text)) return false;
+    }
+    if (device) {
+      const devices = [record.result.metadataDevice ?? "", record.result.originalDevice].join("\n").toLowerCase();
+      if (!devices.includes(device)) return false;
+    }
+    if (tag && !record.tags.some((t) => t.toLowerCase() === tag)) return false;
+    // Without a tool, the score range applies to the case's highest-scoring tool
+    const score = query.tool ? toolScore(record, query.tool) : topScore(record);
+    if (query.tool && score === null) return false;
+    if (score !== null && (score < query.minScore || score > query.maxScore)) return false;
+    return true;
+  });
+};
+
+/**
+ * Every tool name that appears in the given cases, for the library's tool filter.
+ */
+export const collectCaseTools = (records: CaseRecord[]): string[] => {
+  const names = new Set<string>();
+  for (const record of records) {
+    record.result.detectedTools.forEach((t) => names.add(t.name));
+    record.result.fusion?.tools.forEach((t) => names.add(t.name));
+  }
+  return Array.from(names).sort();
+};
@@ -0,0 +1,192 @@
+/**
+ * Minimal CBOR (RFC 8949) codec covering what C2PA manifests and COSE signatures use.
+ * Tags are unwrapped to their content; map keys are stringified so integer-keyed COSE
+ * headers read as e.g. value["33"].
+ */
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | { [key: string]: CborValue };
+
+// Guard against hostile nesting and absurd declared lengths
+const MAX_DEPTH = 64;
+
+class CborReader {
+  private offset = 0;
+  private readonly view: DataView;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  read(depth = 0): CborValue {
+    if (depth > MAX_DEPTH) throw new Error("CBOR nesting too deep");
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1F;
+
+    if (major === 7) return this.readSimple(info);
+
+    if (info === 31) return this.readIndefinite(major, depth);
+
+    const argument = this.readArgument(info);
+    switch (major) {
+      case 0: return argument;
+      case 1: return -1 - argument;
+      case 2: return this.take(argument).slice();
+      case 3: return new TextDecoder().decode(this.take(argument));
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; i < argument; i++) items.push(this.read(depth + 1));
+        return items;
+      }
+      case 5: {
+        const map: { [key: string]: CborValue } = {};
+        for (let i = 0; i < argument; i++) {
+          const key = this.read(depth + 1);
+          map[String(key)] = this.read(depth + 1);
+        }
+        return map;
+      }
+      case 6: return this.read(depth + 1); // Tagged value: the tag itself is not needed
+    }
+    throw new Error(`Unsupported CBOR major type ${major}`);
+  }
+
+  private readIndefinite(major: number, depth: number): CborValue {
+    const isBreak = () => this.peek() === 0xFF;
+    switch (major) {
+      case 2:
+      case 3: {
+        const chunks: Uint8Array[] = [];
+        while (!isBreak()) chunks.push(this.read(depth + 1) as Uint8Array);
+        this.offset++;
+        if (major === 3) return chunks.join("");
+        const joined = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+        let pos = 0;
+        chunks.forEach((c) => { joined.set(c, pos); pos += c.length; });
+        return joined;
+      }
+      case 4: {
+        const items: CborValue[] = [];
+        while (!isBreak()) items.push(this.read(depth + 1));
+        this.offset++;
+        return items;
+      }
+      case 5: {
+        const map: { [key: string]: CborValue } = {};
+        while (!isBreak()) {
+          const key = this.read(depth + 1);
+          map[String(key)] = this.read(depth + 1);
+        }
+        this.offset++;
+        return map;
+      }
+    }
+    throw new Error(`Invalid indefinite length for major type ${major}`);
+  }
+
+  private readSimple(info: number): CborValue {
+    switch (info) {
+      case 20: return false;
+      case 21: return true;
+      case 22: return null;
+      case 23: return undefined;
+      case 24: this.byte(); return undefined;
+      case 25: return decodeHalf(this.take(2));
+      case 26: return this.view.getFloat32(this.advance(4), false);
+      case 27: return this.view.getFloat64(this.advance(8), false);
+    }
+    return undefined;
+  }
+
+  private readArgument(info: number): number {
+    if (info < 24) return info;
+    switch (info) {
+      case 24: return this.byte();
+      case 25: return this.view.getUint16(this.advance(2), false);
+      case 26: return this.view.getUint32(this.advance(4), false);
+      case 27: {
+        const pos = this.advance(8);
+        return this.view.getUint32(pos, false) * 0x100000000 + this.view.getUint32(pos + 4, false);
+      }
+    }
+    throw new Error(`Invalid CBOR additional info ${info}`);
+  }
+
+  private advance(length: number): number {
+    const pos = this.offset;
+    if (pos + length > this.bytes.length) throw new Error("Unexpected end of CBOR data");
+    this.offset += length;
+    return pos;
+  }
+
+  private take(length: number): Uint8Array {
+    const pos = this.advance(length);
+    return this.bytes.subarray(pos, pos + length);
+  }
+
+  private byte(): number {
+    return this.bytes[this.advance(1)];
+  }
+
+  private peek(): number {
+    if (this.offset >= this.bytes.length) throw new Error("Unexpected end of CBOR data");
+    return this.bytes[this.offset];
+  }
+}
+
+function decodeHalf(bytes: Uint8Array): number {
+  const half = (bytes[0] << 8) | bytes[1];
+  const exponent = (half >> 10) & 0x1F;
+  const mantissa = half & 0x3FF;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * Math.pow(2, -14) * (mantissa / 1024);
+  if (exponent === 31) return mantissa ? NaN : sign * Infinity;
+  return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+}
+
+/**
+ * Decodes a single CBOR data item.
+ */
+export const decodeCbor = (bytes: Uint8Array): CborValue => new CborReader(bytes).read();
+
+/**
+ * Encodes the subset of CBOR needed to rebuild COSE Sig_structure arrays:
+ * unsigned integers, text strings, byte strings and arrays.
+ */
+export const encodeCbor = (value: number | string | Uint8Array | (number | string | Uint8Array)[]): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  const head = (major: number, length: number) => {
+    if (length < 24) parts.push(Uint8Array.of((major << 5) | length));
+    else if (length < 0x100) parts.push(Uint8Array.of((major << 5) | 24, length));
+    else if (length < 0x10000) parts.push(Uint8Array.of((major << 5) | 25, length >> 8, length & 0xFF));
+    else parts.push(Uint8Array.of((major << 5) | 26, length >>> 24, (length >> 16) & 0xFF, (length >> 8) & 0xFF, length & 0xFF));
+  };
+  const write = (item: number | string | Uint8Array | (number | string | Uint8Array)[]) => {
+    if (typeof item === "number") {
+      head(0, item);
+    } else if (typeof item === "string") {
+      const encoded = new TextEncoder().encode(item);
+      head(3, encoded.length);
+      parts.push(encoded);
+    } else if (item instanceof Uint8Array) {
+      head(2, item.length);
+      parts.push(item);
+    } else {
+      head(4, item.length);
+      item.forEach(write);
+    }
+  };
+  write(value);
+
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  parts.forEach((p) => { result.set(p, pos); pos += p.length; });
+  return result;
+};
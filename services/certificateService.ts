@@ -0,0 +1,298 @@
+import { C2paCertificate } from "../types";
+
+/**
+ * Lightweight X.509 reader and signature verifier built on WebCrypto.
+ * Only the handful of fields needed to identify a signer and check a chain are decoded.
+ */
+
+interface Tlv {
+  tag: number;
+  start: number;        // Offset of the tag byte
+  contentStart: number;
+  end: number;          // Offset just past the content
+}
+
+export interface ParsedCertificate {
+  der: Uint8Array;
+  tbs: Uint8Array;                    // DER of TBSCertificate, the signed portion
+  signatureAlgorithm: string;         // OID
+  signatureAlgorithmParams: Uint8Array | null;
+  signature: Uint8Array;
+  spki: Uint8Array;                   // DER of SubjectPublicKeyInfo
+  keyAlgorithm: string;               // OID
+  keyCurve: string | null;            // Curve OID for EC keys
+  info: C2paCertificate;
+}
+
+const OID_NAMES: Record<string, string> = {
+  "2.5.4.3": "CN",
+  "2.5.4.6": "C",
+  "2.5.4.7": "L",
+  "2.5.4.8": "ST",
+  "2.5.4.10": "O",
+  "2.5.4.11": "OU",
+};
+
+const OID = {
+  ecPublicKey: "1.2.840.10045.2.1",
+  rsaEncryption: "1.2.840.113549.1.1.1",
+  rsaPss: "1.2.840.113549.1.1.10",
+  ed25519: "1.3.101.112",
+  p256: "1.2.840.10045.3.1.7",
+  p384: "1.3.132.0.34",
+  p521: "1.3.132.0.35",
+  sha256: "2.16.840.1.101.3.4.2.1",
+  sha384: "2.16.840.1.101.3.4.2.2",
+  sha512: "2.16.840.1.101.3.4.2.3",
+};
+
+const CURVES: Record<string, { name: string; size: number }> = {
+  [OID.p256]: { name: "P-256", size: 32 },
+  [OID.p384]: { name: "P-384", size: 48 },
+  [OID.p521]: { name: "P-521", size: 66 },
+};
+
+// Certificate signature algorithms (ecdsa-with-SHAx, shaXWithRSAEncryption)
+const CERT_SIGNATURE_HASHES: Record<string, string> = {
+  "1.2.840.10045.4.3.2": "SHA-256",
+  "1.2.840.10045.4.3.3": "SHA-384",
+  "1.2.840.10045.4.3.4": "SHA-512",
+  "1.2.840.113549.1.1.11": "SHA-256",
+  "1.2.840.113549.1.1.12": "SHA-384",
+  "1.2.840.113549.1.1.13": "SHA-512",
+};
+
+const HASH_OIDS: Record<string, string> = {
+  [OID.sha256]: "SHA-256",
+  [OID.sha384]: "SHA-384",
+  [OID.sha512]: "SHA-512",
+};
+
+function readTlv(bytes: Uint8Array, offset: number): Tlv {
+  if (offset + 2 > bytes.length) throw new Error("Truncated DER");
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let contentStart = offset + 2;
+  if (length & 0x80) {
+    const lengthBytes = length & 0x7F;
+    if (lengthBytes === 0 || lengthBytes > 4) throw new Error("Unsupported DER length");
+    length = 0;
+    for (let i = 0; i < lengthBytes; i++) {
+      length = length * 256 + bytes[contentStart + i];
+    }
+    contentStart += lengthBytes;
+  }
+  const end = contentStart + length;
+  if (end > bytes.length) throw new Error("Truncated DER");
+  return { tag, start: offset, contentStart, end };
+}
+
+function children(bytes: Uint8Array, parent: Tlv): Tlv[] {
+  const result: Tlv[] = [];
+  let offset = parent.contentStart;
+  while (offset < parent.end) {
+    const child = readTlv(bytes, offset);
+    result.push(child);
+    offset = child.end;
+  }
+  return result;
+}
+
+function decodeOid(bytes: Uint8Array): string {
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7F);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+const content = (bytes: Uint8Array, tlv: Tlv) => bytes.subarray(tlv.contentStart, tlv.end);
+const whole = (bytes: Uint8Array, tlv: Tlv) => bytes.subarray(tlv.start, tlv.end);
+
+function decodeName(bytes: Uint8Array, name: Tlv): string {
+  const parts: string[] = [];
+  for (const set of children(bytes, name)) {
+    for (const attribute of children(bytes, set)) {
+      const [type, value] = children(bytes, attribute);
+      if (!type || !value) continue;
+      const oid = decodeOid(content(bytes, type));
+      const text = new TextDecoder().decode(content(bytes, value));
+      parts.push(`${OID_NAMES[oid] ?? oid}=${text}`);
+    }
+  }
+  return parts.join(", ");
+}
+
+function decodeTime(bytes: Uint8Array, time: Tlv): string {
+  const text = new TextDecoder().decode(content(bytes, time));
+  // UTCTime (0x17) uses a two digit year; GeneralizedTime (0x18) a four digit one
+  const full = time.tag === 0x17 ? `${parseInt(text.slice(0, 2), 10) >= 50 ? "19" : "20"}${text}` : text;
+  return `${full.slice(0, 4)}-${full.slice(4, 6)}-${full.slice(6, 8)}T${full.slice(8, 10)}:${full.slice(10, 12)}:${full.slice(12, 14)}Z`;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+// WebCrypto wants a standalone ArrayBuffer rather than a view into a larger file buffer
+const toBuffer = (bytes: Uint8Array): ArrayBuffer => bytes.slice().buffer as ArrayBuffer;
+
+export const sha256Hex = async (bytes: Uint8Array): Promise<string> =>
+  toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", toBuffer(bytes))));
+
+/**
+ * Parses a DER-encoded X.509 certificate.
+ */
+export const parseCertificate = async (der: Uint8Array): Promise<ParsedCertificate> => {
+  const certificate = readTlv(der, 0);
+  const [tbsTlv, algorithmTlv, signatureTlv] = children(der, certificate);
+  if (!tbsTlv || !algorithmTlv || !signatureTlv) throw new Error("Malformed certificate");
+
+  const tbsFields = children(der, tbsTlv);
+  // The explicit [0] version field is optional
+  const fields = tbsFields[0]?.tag === 0xA0 ? tbsFields.slice(1) : tbsFields;
+  const [, , issuer, validity, subject, spkiTlv] = fields;
+  if (!issuer || !validity || !subject || !spkiTlv) throw new Error("Malformed certificate");
+
+  const [notBefore, notAfter] = children(der, validity);
+  const [keyAlgorithmTlv] = children(der, spkiTlv);
+  const [keyOid, keyParams] = children(der, keyAlgorithmTlv);
+  const [signatureOid, signatureParams] = children(der, algorithmTlv);
+
+  return {
+    der,
+    tbs: whole(der, tbsTlv),
+    signatureAlgorithm: decodeOid(content(der, signatureOid)),
+    signatureAlgorithmParams: signatureParams ? whole(der, signatureParams) : null,
+    // BIT STRING content starts with an "unused bits" byte
+    signature: content(der, signatureTlv).subarray(1),
+    spki: whole(der, spkiTlv),
+    keyAlgorithm: decodeOid(content(der, keyOid)),
+    keyCurve: keyParams && keyParams.tag === 0x06 ? decodeOid(content(der, keyParams)) : null,
+    info: {
+      subject: decodeName(der, subject),
+      issuer: decodeName(der, issuer),
+      notBefore: notBefore ? decodeTime(der, notBefore) : undefined,
+      notAfter: notAfter ? decodeTime(der, notAfter) : undefined,
+      fingerprint: await sha256Hex(der),
+    },
+  };
+};
+
+/**
+ * Parses every certificate in a PEM bundle, silently skipping blocks that fail to decode.
+ */
+export const parsePemBundle = async (pem: string): Promise<ParsedCertificate[]> => {
+  const blocks = pem.match(/-----BEGIN CERTIFICATE-----[\s\S]*?-----END CERTIFICATE-----/g) ?? [];
+  const certificates: ParsedCertificate[] = [];
+  for (const block of blocks) {
+    try {
+      const base64 = block.replace(/-----(BEGIN|END) CERTIFICATE-----/g, "").replace(/\s+/g, "");
+      const der = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+      certificates.push(await parseCertificate(der));
+    } catch (e) {
+      console.warn("Skipping unreadable trust list certificate:", e);
+    }
+  }
+  return certificates;
+};
+
+/**
+ * Converts a DER ECDSA signature (SEQUENCE { r INTEGER, s INTEGER }) to the raw r||s form WebCrypto expects.
+ */
+function ecdsaDerToRaw(signature: Uint8Array, size: number): Uint8Array {
+  const sequence = readTlv(signature, 0);
+  const raw = new Uint8Array(size * 2);
+  children(signature, sequence).slice(0, 2).forEach((integer, i) => {
+    let value = content(signature, integer);
+    while (value.length > size && value[0] === 0) value = value.subarray(1);
+    raw.set(value, i * size + (size - value.length));
+  });
+  return raw;
+}
+
+type VerifyAlgorithm = { importParams: AlgorithmIdentifier | RsaHashedImportParams | EcKeyImportParams; verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams };
+
+/**
+ * Picks WebCrypto parameters for a public key and signature hash.
+ * Returns null when the combination is not something WebCrypto can verify.
+ */
+function verifyAlgorithm(key: ParsedCertificate, hash: string, scheme: "pkcs1" | "pss" | "ecdsa" | "eddsa"): VerifyAlgorithm | null {
+  if (scheme === "eddsa" && key.keyAlgorithm === OID.ed25519) {
+    return { importParams: { name: "Ed25519" }, verifyParams: { name: "Ed25519" } };
+  }
+  if (scheme === "ecdsa" && key.keyAlgorithm === OID.ecPublicKey && key.keyCurve && CURVES[key.keyCurve]) {
+    const namedCurve = CURVES[key.keyCurve].name;
+    return { importParams: { name: "ECDSA", namedCurve }, verifyParams: { name: "ECDSA", hash } };
+  }
+  if (key.keyAlgorithm === OID.rsaEncryption) {
+    if (scheme === "pkcs1") {
+      return { importParams: { name: "RSASSA-PKCS1-v1_5", hash }, verifyParams: { name: "RSASSA-PKCS1-v1_5" } };
+    }
+    if (scheme === "pss") {
+      const saltLength = hash === "SHA-256" ? 32 : hash === "SHA-384" ? 48 : 64;
+      return { importParams: { name: "RSA-PSS", hash }, verifyParams: { name: "RSA-PSS", saltLength } };
+    }
+  }
+  return null;
+}
+
+/**
+ * Verifies a signature with the public key of a certificate.
+ * Returns null when the algorithm is not supported, so callers can distinguish "unverifiable" from "invalid".
+ */
+export const verifyWithCertificate = async (
+  key: ParsedCertificate,
+  scheme: "pkcs1" | "pss" | "ecdsa" | "eddsa",
+  hash: string,
+  signature: Uint8Array,
+  data: Uint8Array,
+  signatureIsDer = false
+): Promise<boolean | null> => {
+  const algorithm = verifyAlgorithm(key, hash, scheme);
+  if (!algorithm) return null;
+  try {
+    const publicKey = await crypto.subtle.importKey("spki", toBuffer(key.spki), algorithm.importParams, false, ["verify"]);
+    const rawSignature = scheme === "ecdsa" && signatureIsDer && key.keyCurve
+      ? ecdsaDerToRaw(signature, CURVES[key.keyCurve].size)
+      : signature;
+    return await crypto.subtle.verify(algorithm.verifyParams, publicKey, toBuffer(rawSignature), toBuffer(data));
+  } catch (e) {
+    console.warn("Signature verification unavailable:", e);
+    return null;
+  }
+};
+
+/**
+ * Checks that `certificate` was issued and signed by `issuer`.
+ */
+export const verifyIssuedBy = async (certificate: ParsedCertificate, issuer: ParsedCertificate): Promise<boolean | null> => {
+  if (certificate.info.issuer !== issuer.info.subject) return false;
+
+  const algorithm = certificate.signatureAlgorithm;
+  if (algorithm === OID.ed25519) {
+    return verifyWithCertificate(issuer, "eddsa", "", certificate.signature, certificate.tbs);
+  }
+  if (algorithm === OID.rsaPss) {
+    // RSASSA-PSS-params: [0] hashAlgorithm; default SHA-1 is not accepted for C2PA
+    let hash = "SHA-256";
+    const params = certificate.signatureAlgorithmParams;
+    if (params) {
+      const hashField = children(params, readTlv(params, 0)).find((field) => field.tag === 0xA0);
+      if (hashField) {
+        const [hashAlgorithm] = children(params, hashField);
+        const [hashOid] = children(params, hashAlgorithm);
+        hash = HASH_OIDS[decodeOid(content(params, hashOid))] ?? hash;
+      }
+    }
+    return verifyWithCertificate(issuer, "pss", hash, certificate.signature, certificate.tbs);
+  }
+
+  const hash = CERT_SIGNATURE_HASHES[algorithm];
+  if (!hash) return null;
+  const scheme = algorithm.startsWith("1.2.840.10045") ? "ecdsa" : "pkcs1";
+  return verifyWithCertificate(issuer, scheme, hash, certificate.signature, certificate.tbs, true);
+};
@@ -0,0 +1,82 @@
+import { AnalysisResult, ChatMessage, PrivacyPolicy, ProviderConfig, ToolCatalogEntry, UploadBudget } from "../types";
+import { createProvider, getProviderDefinition } from "./providerService";
+import { imageSourceFromBlob } from "./imageSourceService";
+import { DEFAULT_UPLOAD_BUDGET, prepareUpload } from "./uploadService";
+import { DEFAULT_PRIVACY_POLICY, guardUpload } from "./privacyService";
+import { DEFAULT_TOOL_CATALOG, enabledTools, resolveDetectedTools } from "./toolCatalogService";
+import { fuseEvidence } from "./fusionService";
+import { FixtureSession } from "./fixtureService";
+
+export interface AskDetectiveOptions {
+  providerConfig: ProviderConfig;
+  toolCatalog?: ToolCatalogEntry[]; // Defaults to the built-in catalog
+  uploadBudget?: UploadBudget; // Defaults to DEFAULT_UPLOAD_BUDGET
+  privacyPolicy?: PrivacyPolicy; // Defaults to DEFAULT_PRIVACY_POLICY
+  fixtures?: FixtureSession;
+  signal?: AbortSignal;
+}
+
+/**
+ * The policy for a follow-up upload. Under "ask" the analyst already decided when the image was
+ * analysed, so that decision stands: metadata goes out again only if it went out then.
+ */
+const followUpPolicy = (policy: PrivacyPolicy, result: AnalysisResult): PrivacyPolicy => {
+  if (policy !== "ask") return policy;
+  const privacy = result.run?.payload?.privacy;
+  return privacy && !privacy.stripped && privacy.sensitiveFields.length > 0 ? "send" : "strip";
+};
+
+/**
+ * Asks the provider a follow-up question about an analysed image. The conversation is seeded
+ * with the image, prepared as for an analysis, and the earlier result; the question may point at
+ * a place in the image. Returns the result with both turns added to its transcript. With
+ * `rescore`, the provider also scores the tools again, and the new scores replace the old ones
+ * and are fused with the local evidence as before.
+ */
+export const askDetective = async (
+  file: File,
+  result: AnalysisResult,
+  question: ChatMessage,
+  rescore: boolean,
+  options: AskDetectiveOptions
+): Promise<AnalysisResult> => {
+  const {
+    providerConfig,
+    toolCatalog = DEFAULT_TOOL_CATALOG,
+    uploadBudget = DEFAULT_UPLOAD_BUDGET,
+    privacyPolicy = DEFAULT_PRIVACY_POLICY,
+    fixtures,
+    signal,
+  } = options;
+  const tools = enabledTools(toolCatalog);
+  if (tools.length === 0) {
+    throw new Error("No tools are enabled in the tool catalog. Enable at least one in Settings.");
+  }
+
+  const image = await imageSourceFromBlob(file);
+  const prepared = await prepareUpload(image, uploadBudget, getProviderDefinition(providerConfig.providerId).capabilities.acceptedMimeTypes, signal);
+  const upload = await guardUpload(prepared, followUpPolicy(privacyPolicy, result));
+  signal?.throwIfAborted();
+
+  const history = result.chat ?? [];
+  const reply = await createProvider(providerConfig, fixtures).chat(upload.image, tools, result, history, question, rescore, signal);
+  signal?.throwIfAborted();
+
+  const answer: ChatMessage = { role: "detective", text: reply.text, sentAt: new Date().toISOString(), ...(reply.result && { rescored: true }) };
+  const chat = [...history, question, answer];
+  if (!reply.result) return { ...result, chat };
+
+  // The new scores come from one answer, so an earlier ensemble spread no longer describes them
+  const rescored: AnalysisResult = {
+    ...result,
+    ensemble: undefined,
+    overallAssessment: reply.result.overallAssessment || result.overallAssessment,
+    estimatedEditLayerCount: reply.result.estimatedEditLayerCount,
+    originalDevice: reply.result.originalDevice,
+    detectedTools: resolveDetectedTools(reply.result.detectedTools, toolCatalog),
+    responseRepairs: reply.result.responseRepairs,
+    chat,
+  };
+  rescored.fusion = fuseEvidence(rescored, toolCatalog);
+  return rescored;
+};
@@ -0,0 +1,111 @@
+import { ComparisonResult, ImageChange, ImageRegion, PixelComparison, PrivacyPolicy, ProviderConfig, UploadBudget } from "../types";
+import type { CompareRequest } from "../workers/compareWorker";
+import { runWorkerTask } from "./workerService";
+import { extractMetadata } from "./metadataService";
+import { diffMetadata } from "./metadataDiffService";
+import { createAnalysisRun, createProvider, getProviderDefinition } from "./providerService";
+import { imageSourceFromBlob } from "./imageSourceService";
+import { DEFAULT_UPLOAD_BUDGET, prepareUpload } from "./uploadService";
+import { DEFAULT_PRIVACY_POLICY, guardUpload } from "./privacyService";
+import { FixtureSession } from "./fixtureService";
+
+// Share of the smaller box that must overlap for two regions to describe the same change
+const MIN_REGION_OVERLAP = 0.2;
+
+// Pixel-only changes are measured rather than inferred, but resampling noise can still leak through
+const PIXEL_CHANGE_CONFIDENCE = 7;
+
+export interface CompareImagesOptions {
+  providerConfig: ProviderConfig;
+  trustList?: string;
+  signal?: AbortSignal;
+  uploadBudget?: UploadBudget; // Applied to each image; defaults to DEFAULT_UPLOAD_BUDGET
+  fixtures?: FixtureSession;  // Record the provider's answer, or replay a recorded one
+  // Applied to both images; comparisons cannot stop to ask, so "ask" strips sensitive metadata
+  privacyPolicy?: PrivacyPolicy;
+}
+
+/**
+ * Aligns a suspected edit with its reference and computes their difference map in a Web Worker.
+ */
+export const runPixelComparison = (reference: Blob, suspect: Blob, signal?: AbortSignal): Promise<PixelComparison> => {
+  return runWorkerTask<CompareRequest, PixelComparison>(
+    () => new Worker(new URL("../workers/compareWorker.ts", import.meta.url), { type: "module" }),
+    { reference, suspect },
+    "Image comparison",
+    signal
+  );
+};
+
+const overlaps = (a: ImageRegion, b: ImageRegion): boolean => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return false;
+  return width * height >= Math.min(a.width * a.height, b.width * b.height) * MIN_REGION_OVERLAP;
+};
+
+/**
+ * Merges the provider's change list with the local difference map: AI changes are marked with
+ * whether the pixels agree, and changed areas the provider did not mention are appended.
+ */
+const mergeChanges = (aiChanges: ImageChange[], pixels: PixelComparison | null): ImageChange[] => {
+  // Without a convincing alignment the difference map compares unrelated pixels
+  const regions = pixels?.alignment.aligned ? pixels.changedRegions : [];
+  const merged = aiChanges.map((change) =>
+    change.region && pixels?.alignment.aligned
+      ? { ...change, pixelSupport: regions.some((region) => overlaps(region, change.region!)) }
+      : change
+  );
+  regions
+    .filter((region) => !aiChanges.some((change) => change.region && overlaps(region, change.region)))
+    .forEach((region) => merged.push({
+      kind: "modified",
+      description: "Pixels differ from the reference in this area.",
+      region,
+      confidence: PIXEL_CHANGE_CONFIDENCE,
+      source: "pixels",
+    }));
+  return merged;
+};
+
+/**
+ * Compares a reference original with a suspected edit: metadata of both files field by field,
+ * aligned pixels, and the provider's description of the edits. The provider call is allowed to
+ * fail without losing the local results.
+ */
+export const compareImages = async (reference: File, suspect: File, options: CompareImagesOptions): Promise<ComparisonResult> => {
+  const { providerConfig, trustList = "", signal, uploadBudget = DEFAULT_UPLOAD_BUDGET, fixtures, privacyPolicy = DEFAULT_PRIVACY_POLICY } = options;
+  const acceptedMimeTypes = getProviderDefinition(providerConfig.providerId).capabilities.acceptedMimeTypes;
+  const upload = async (file: File) =>
+    (await guardUpload(await prepareUpload(await imageSourceFromBlob(file), uploadBudget, acceptedMimeTypes, signal), privacyPolicy)).image;
+  const startedAt = new Date().toISOString();
+
+  const pixelTask = runPixelComparison(reference, suspect, signal).catch((err) => {
+    if (err?.name === "AbortError") throw err;
+    console.warn("Pixel comparison failed:", err);
+    return null;
+  });
+  const aiTask = Promise.all([upload(reference), upload(suspect)])
+    .then(([referenceImage, suspectImage]) => createProvider(providerConfig, fixtures).compare(referenceImage, suspectImage, signal))
+    .then((analysis) => ({ analysis, error: null }))
+    .catch((err) => ({ analysis: null, error: (err?.message as string) || "The provider could not compare the images." }));
+
+  const [referenceMetadata, suspectMetadata, pixels, ai] = await Promise.all([
+    extractMetadata(reference, trustList),
+    extractMetadata(suspect, trustList),
+    pixelTask,
+    aiTask,
+  ]);
+  signal?.throwIfAborted();
+
+  return {
+    referenceMetadata,
+    suspectMetadata,
+    metadataDiff: diffMetadata(referenceMetadata, suspectMetadata),
+    pixels,
+    summary: ai.analysis?.summary ?? "",
+    changes: mergeChanges(ai.analysis?.changes ?? [], pixels),
+    aiError: ai.error,
+    run: ai.analysis ? { ...createAnalysisRun(providerConfig, startedAt), ...(fixtures && { fixtureMode: fixtures.mode }) } : undefined,
+  };
+};
@@ -0,0 +1,544 @@
+import { CompressionReport, DoubleCompressionResult, ExifReport, QuantizationMatch, QuantizationTable } from "../types";
+import { JpegSegment, readJpegSegments } from "./containerService";
+import { IJG_CHROMINANCE, IJG_LUMINANCE, QUANTIZATION_SIGNATURES, QuantizationSignature } from "./quantizationCatalog";
+
+// Natural (row-major) index of each zigzag position
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// Low-frequency AC coefficients (zigzag positions) used for the histogram test
+const HISTOGRAM_FREQUENCIES = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+// Histogram range |coefficient| 0..HISTOGRAM_BINS-1
+const HISTOGRAM_BINS = 48;
+
+// Frequencies with fewer non-zero samples than this are too noisy to judge
+const MIN_SAMPLES = 400;
+
+// Decoding stops after this many luminance blocks; a few hundred thousand samples are plenty
+const MAX_BLOCKS = 200_000;
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  tableId: number;
+}
+
+interface Frame {
+  type: CompressionReport["frameType"];
+  width: number;
+  height: number;
+  components: FrameComponent[];
+}
+
+interface HuffmanTable {
+  maxCode: Int32Array;  // Largest code of each length, -1 when none
+  valPtr: Int32Array;   // Index into values of the first code of each length
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+// ---------------------------------------------------------------------------
+// Tables and frame header
+// ---------------------------------------------------------------------------
+
+function readQuantizationTables(view: DataView, segments: JpegSegment[]): QuantizationTable[] {
+  const tables = new Map<number, number[]>();
+  for (const segment of segments.filter((s) => s.marker === 0xDB)) {
+    let pos = segment.dataOffset;
+    const end = segment.dataOffset + segment.dataLength;
+    while (pos < end) {
+      const info = view.getUint8(pos++);
+      const sixteenBit = info >> 4 === 1;
+      const id = info & 0x0F;
+      if (pos + (sixteenBit ? 128 : 64) > end) break;
+      const values = new Array<number>(64);
+      for (let k = 0; k < 64; k++) {
+        values[ZIGZAG[k]] = sixteenBit ? view.getUint16(pos + k * 2, false) : view.getUint8(pos + k);
+      }
+      pos += sixteenBit ? 128 : 64;
+      tables.set(id, values);
+    }
+  }
+  return Array.from(tables.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([id, values]) => ({ id, values }));
+}
+
+function readFrame(view: DataView, segments: JpegSegment[]): Frame | null {
+  const sof = segments.find((s) => s.marker >= 0xC0 && s.marker <= 0xCF && s.marker !== 0xC4 && s.marker !== 0xC8 && s.marker !== 0xCC);
+  if (!sof) return null;
+
+  const kind = sof.marker & 0x03;
+  const type: Frame["type"] = sof.marker === 0xC0 ? "baseline"
+    : kind === 1 ? "extended"
+    : kind === 2 ? "progressive"
+    : kind === 3 ? "lossless"
+    : "unknown";
+
+  const pos = sof.dataOffset;
+  const height = view.getUint16(pos + 1, false);
+  const width = view.getUint16(pos + 3, false);
+  const count = view.getUint8(pos + 5);
+  const components: FrameComponent[] = [];
+  for (let i = 0; i < count; i++) {
+    const base = pos + 6 + i * 3;
+    if (base + 3 > sof.dataOffset + sof.dataLength) break;
+    const sampling = view.getUint8(base + 1);
+    components.push({ id: view.getUint8(base), h: sampling >> 4, v: sampling & 0x0F, tableId: view.getUint8(base + 2) });
+  }
+  return { type, width, height, components };
+}
+
+const describeSubsampling = (components: FrameComponent[]): string => {
+  if (components.length === 1) return "grayscale";
+  const [y, cb] = components;
+  if (!y || !cb) return "unknown";
+  const h = y.h / cb.h;
+  const v = y.v / cb.v;
+  if (h === 1 && v === 1) return "4:4:4";
+  if (h === 2 && v === 1) return "4:2:2";
+  if (h === 2 && v === 2) return "4:2:0";
+  if (h === 1 && v === 2) return "4:4:0";
+  if (h === 4 && v === 1) return "4:1:1";
+  return `${y.h}x${y.v},${cb.h}x${cb.v}`;
+};
+
+// ---------------------------------------------------------------------------
+// Quality estimation
+// ---------------------------------------------------------------------------
+
+/**
+ * Scales a standard table the way libjpeg's jpeg_quality_scaling / jpeg_add_quant_table do.
+ */
+const scaleIjgTable = (base: number[], quality: number): number[] => {
+  const scale = quality < 50 ? Math.floor(5000 / quality) : 200 - quality * 2;
+  return base.map((value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+};
+
+/**
+ * Finds the IJG quality factor whose scaled tables are closest to the file's tables.
+ */
+function estimateQuality(tables: QuantizationTable[]): { quality: number | null; exact: boolean } {
+  const luminance = tables.find((t) => t.id === 0) ?? tables[0];
+  if (!luminance) return { quality: null, exact: false };
+  const chrominance = tables.find((t) => t.id === 1);
+
+  let best = { quality: 0, error: Infinity };
+  for (let quality = 1; quality <= 100; quality++) {
+    const luma = scaleIjgTable(IJG_LUMINANCE, quality);
+    let error = luminance.values.reduce((sum, value, i) => sum + Math.abs(value - luma[i]), 0);
+    if (chrominance) {
+      const chroma = scaleIjgTable(IJG_CHROMINANCE, quality);
+      error += chrominance.values.reduce((sum, value, i) => sum + Math.abs(value - chroma[i]), 0);
+    }
+    if (error < best.error) best = { quality, error };
+  }
+  return { quality: best.quality, exact: best.error === 0 };
+}
+
+// ---------------------------------------------------------------------------
+// Baseline Huffman decoding (ITU-T T.81 Annex F)
+// ---------------------------------------------------------------------------
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    valPtr[length] = k;
+    minCode[length] = code;
+    code += counts[length - 1];
+    k += counts[length - 1];
+    maxCode[length] = counts[length - 1] ? code - 1 : -1;
+    code <<= 1;
+  }
+  return { maxCode, valPtr, minCode, values };
+}
+
+function readHuffmanTables(view: DataView, segments: JpegSegment[]): Map<number, HuffmanTable> {
+  // Keyed by class << 4 | id, so DC table 0 is 0x00 and AC table 1 is 0x11
+  const tables = new Map<number, HuffmanTable>();
+  for (const segment of segments.filter((s) => s.marker === 0xC4)) {
+    let pos = segment.dataOffset;
+    const end = segment.dataOffset + segment.dataLength;
+    while (pos + 17 <= end) {
+      const info = view.getUint8(pos);
+      const counts = new Uint8Array(view.buffer, view.byteOffset + pos + 1, 16);
+      const total = counts.reduce((sum, c) => sum + c, 0);
+      if (pos + 17 + total > end) break;
+      const values = new Uint8Array(view.buffer, view.byteOffset + pos + 17, total);
+      tables.set(info, buildHuffmanTable(counts, values));
+      pos += 17 + total;
+    }
+  }
+  return tables;
+}
+
+/**
+ * Reads entropy-coded bits, removing 0xFF00 byte stuffing and stopping at markers.
+ */
+class BitReader {
+  private buffer = 0;
+  private bits = 0;
+  private hitMarker = false;
+
+  constructor(private readonly bytes: Uint8Array, private pos: number) {}
+
+  get exhausted(): boolean {
+    return this.pos >= this.bytes.length;
+  }
+
+  bit(): number {
+    if (this.bits === 0) this.fill();
+    this.bits--;
+    return (this.buffer >> this.bits) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) value = (value << 1) | this.bit();
+    return value;
+  }
+
+  /**
+   * Discards remaining bits and skips past the next RSTn marker.
+   */
+  restart(): void {
+    this.bits = 0;
+    this.hitMarker = false;
+    while (this.pos + 1 < this.bytes.length) {
+      if (this.bytes[this.pos] === 0xFF && this.bytes[this.pos + 1] >= 0xD0 && this.bytes[this.pos + 1] <= 0xD7) {
+        this.pos += 2;
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  private fill(): void {
+    // Past a marker or the end of data, feed zeros; the caller's block budget bounds the damage
+    if (this.hitMarker || this.pos >= this.bytes.length) {
+      this.buffer = 0;
+      this.bits = 8;
+      return;
+    }
+    const byte = this.bytes[this.pos];
+    if (byte === 0xFF) {
+      const next = this.bytes[this.pos + 1];
+      if (next === 0x00) {
+        this.pos += 2;
+      } else {
+        this.hitMarker = true;
+        this.buffer = 0;
+        this.bits = 8;
+        return;
+      }
+    } else {
+      this.pos++;
+    }
+    this.buffer = byte;
+    this.bits = 8;
+  }
+}
+
+function decodeSymbol(reader: BitReader, table: HuffmanTable): number {
+  let code = reader.bit();
+  for (let length = 1; length <= 16; length++) {
+    if (table.maxCode[length] >= 0 && code <= table.maxCode[length]) {
+      return table.values[table.valPtr[length] + code - table.minCode[length]];
+    }
+    code = (code << 1) | reader.bit();
+  }
+  throw new Error("Invalid Huffman code");
+}
+
+const extend = (value: number, length: number): number =>
+  length === 0 ? 0 : value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+
+/**
+ * Decodes the first (baseline, Huffman) scan and accumulates |coefficient| histograms of the
+ * luminance component for the low-frequency AC positions. Only entropy decoding is needed:
+ * the quantized coefficients are exactly what double-quantization leaves its mark on.
+ */
+function collectCoefficientHistograms(view: DataView, segments: JpegSegment[], frame: Frame): { histograms: number[][]; blocks: number } | null {
+  const sos = segments.find((s) => s.marker === 0xDA);
+  if (!sos) return null;
+
+  const huffman = readHuffmanTables(view, segments);
+  const dri = segments.find((s) => s.marker === 0xDD);
+  const restartInterval = dri ? view.getUint16(dri.dataOffset, false) : 0;
+
+  const scanCount = view.getUint8(sos.dataOffset);
+  const scanComponents: { component: FrameComponent; dc: HuffmanTable; ac: HuffmanTable; index: number }[] = [];
+  for (let i = 0; i < scanCount; i++) {
+    const id = view.getUint8(sos.dataOffset + 1 + i * 2);
+    const selectors = view.getUint8(sos.dataOffset + 2 + i * 2);
+    const index = frame.components.findIndex((c) => c.id === id);
+    const dc = huffman.get(selectors >> 4);
+    const ac = huffman.get(0x10 | (selectors & 0x0F));
+    if (index < 0 || !dc || !ac) return null;
+    scanComponents.push({ component: frame.components[index], dc, ac, index });
+  }
+  // The luminance component must be part of this scan
+  if (!scanComponents.some((c) => c.index === 0)) return null;
+
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  const reader = new BitReader(bytes, sos.dataOffset + sos.dataLength);
+
+  const maxH = Math.max(...frame.components.map((c) => c.h));
+  const maxV = Math.max(...frame.components.map((c) => c.v));
+  let mcuCount: number;
+  if (scanComponents.length === 1) {
+    // Non-interleaved scan: one block per MCU across the component's own block grid
+    const c = scanComponents[0].component;
+    mcuCount = Math.ceil(Math.ceil((frame.width * c.h) / maxH) / 8) * Math.ceil(Math.ceil((frame.height * c.v) / maxV) / 8);
+  } else {
+    mcuCount = Math.ceil(frame.width / (8 * maxH)) * Math.ceil(frame.height / (8 * maxV));
+  }
+
+  const histograms = HISTOGRAM_FREQUENCIES.map(() => new Array<number>(HISTOGRAM_BINS).fill(0));
+  const predictors = new Array<number>(scanComponents.length).fill(0);
+  const coefficients = new Int32Array(64);
+  let blocks = 0;
+
+  for (let mcu = 0; mcu < mcuCount && blocks < MAX_BLOCKS && !reader.exhausted; mcu++) {
+    if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+      reader.restart();
+      predictors.fill(0);
+    }
+
+    for (let s = 0; s < scanComponents.length; s++) {
+      const { component, dc, ac, index } = scanComponents[s];
+      const blocksInMcu = scanComponents.length === 1 ? 1 : component.h * component.v;
+
+      for (let b = 0; b < blocksInMcu; b++) {
+        coefficients.fill(0);
+        const dcLength = decodeSymbol(reader, dc);
+        predictors[s] += extend(reader.receive(dcLength), dcLength);
+        coefficients[0] = predictors[s];
+
+        for (let k = 1; k < 64;) {
+          const rs = decodeSymbol(reader, ac);
+          const run = rs >> 4;
+          const size = rs & 0x0F;
+          if (size === 0) {
+            if (run !== 15) break; // End of block
+            k += 16;
+            continue;
+          }
+          k += run;
+          if (k > 63) break;
+          coefficients[k] = extend(reader.receive(size), size);
+          k++;
+        }
+
+        if (index === 0) {
+          blocks++;
+          HISTOGRAM_FREQUENCIES.forEach((frequency, f) => {
+            const magnitude = Math.abs(coefficients[frequency]);
+            if (magnitude < HISTOGRAM_BINS) histograms[f][magnitude]++;
+          });
+        }
+      }
+    }
+  }
+
+  return { histograms, blocks };
+}
+
+// ---------------------------------------------------------------------------
+// Double-compression test
+// ---------------------------------------------------------------------------
+
+/**
+ * Scores one |coefficient| histogram for double-quantization artifacts.
+ *
+ * A single quantization gives a smooth, roughly Laplacian histogram. Quantizing twice with
+ * different steps makes it periodic: with a coarser second step, bins are periodically
+ * over-filled (peaks); with a finer one, some bins can never be reached (gaps).
+ */
+function scoreHistogram(histogram: number[]): { periodicity: number; gaps: number } | null {
+  const samples = histogram.slice(1).reduce((sum, count) => sum + count, 0);
+  if (samples < MIN_SAMPLES) return null;
+
+  // Only consider the populated part of the histogram
+  let last = histogram.length - 1;
+  while (last > 1 && histogram[last] < 3) last--;
+  if (last < 8) return null;
+
+  // Remove the smooth envelope: log counts minus a centred moving average
+  const logCounts = histogram.slice(1, last + 1).map((count) => Math.log(count + 1));
+  const residual = logCounts.map((value, i) => {
+    const window = logCounts.slice(Math.max(0, i - 2), Math.min(logCounts.length, i + 3));
+    return value - window.reduce((sum, v) => sum + v, 0) / window.length;
+  });
+
+  // Magnitude spectrum of the residual; a strong single non-DC peak means periodic bins
+  const n = residual.length;
+  const magnitudes: number[] = [];
+  for (let p = 2; p <= Math.floor(n / 2); p++) {
+    let re = 0;
+    let im = 0;
+    residual.forEach((value, k) => {
+      re += value * Math.cos((2 * Math.PI * p * k) / n);
+      im -= value * Math.sin((2 * Math.PI * p * k) / n);
+    });
+    magnitudes.push(Math.hypot(re, im));
+  }
+  const mean = magnitudes.reduce((sum, m) => sum + m, 0) / Math.max(1, magnitudes.length);
+  const peakRatio = mean > 0 ? Math.max(...magnitudes) / mean : 0;
+
+  // Empty bins flanked by well-populated ones cannot come from a single quantization
+  let gaps = 0;
+  for (let k = 2; k < last; k++) {
+    if (histogram[k] === 0 && histogram[k - 1] >= 5 && histogram[k + 1] >= 5) gaps++;
+  }
+
+  return {
+    // Random fluctuation yields a peak/mean ratio around 2-2.5
+    periodicity: Math.min(1, Math.max(0, (peakRatio - 2.5) / 2.5)),
+    gaps: Math.min(1, gaps / 3),
+  };
+}
+
+function detectDoubleCompression(histograms: number[][], blocks: number): DoubleCompressionResult | null {
+  const scores = histograms
+    .map(scoreHistogram)
+    .filter((s): s is { periodicity: number; gaps: number } => s !== null);
+  if (scores.length === 0) return null;
+
+  // Artifacts only show up where the two quantization steps differ, so judge by the strongest frequencies
+  const topMean = (values: number[]) => {
+    const top = [...values].sort((a, b) => b - a).slice(0, 3);
+    return top.reduce((sum, v) => sum + v, 0) / top.length;
+  };
+  const periodicityScore = topMean(scores.map((s) => s.periodicity));
+  const gapScore = topMean(scores.map((s) => s.gaps));
+
+  return {
+    frequenciesAnalyzed: scores.length,
+    blocksDecoded: blocks,
+    periodicityScore,
+    gapScore,
+    likelihood: Math.max(periodicityScore, gapScore),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Signatures and overall assessment
+// ---------------------------------------------------------------------------
+
+function readMarkers(view: DataView, segments: JpegSegment[]): string[] {
+  const startsWith = (segment: JpegSegment, text: string) =>
+    segment.dataLength >= text.length &&
+    Array.from(text).every((ch, i) => view.getUint8(segment.dataOffset + i) === ch.charCodeAt(0));
+
+  const markers = new Set<string>();
+  for (const segment of segments) {
+    if (segment.marker === 0xE0 && startsWith(segment, "JFIF\0")) markers.add("JFIF");
+    if (segment.marker === 0xE1 && startsWith(segment, "Exif\0")) markers.add("EXIF");
+    if (segment.marker === 0xE1 && startsWith(segment, "http://ns.adobe.com/xap/1.0/")) markers.add("XMP");
+    if (segment.marker === 0xE2 && startsWith(segment, "ICC_PROFILE")) markers.add("ICC");
+    if (segment.marker === 0xEB) markers.add("APP11 JUMBF");
+    if (segment.marker === 0xED && startsWith(segment, "Photoshop 3.0")) markers.add("APP13 Photoshop");
+    if (segment.marker === 0xEE && startsWith(segment, "Adobe")) markers.add("APP14 Adobe");
+  }
+  return Array.from(markers);
+}
+
+function matchesSignature(
+  signature: QuantizationSignature,
+  context: { standard: boolean; quality: number | null; exif: ExifReport | null; markers: string[]; subsampling: string }
+): boolean {
+  const { rule } = signature;
+  if (rule.standardTables !== undefined && rule.standardTables !== context.standard) return false;
+  if (rule.qualityRange && (context.quality === null || context.quality < rule.qualityRange[0] || context.quality > rule.qualityRange[1])) return false;
+  if (rule.requiresExif !== undefined && rule.requiresExif !== !!context.exif) return false;
+  if (rule.requiresMakerNote && !context.exif?.hasMakerNote) return false;
+  if (rule.markers && !rule.markers.every((m) => context.markers.includes(m))) return false;
+  if (rule.forbiddenMarkers && rule.forbiddenMarkers.some((m) => context.markers.includes(m))) return false;
+  if (rule.subsampling && !rule.subsampling.includes(context.subsampling)) return false;
+  return true;
+}
+
+/**
+ * Extracts JPEG quantization tables, estimates the IJG quality, matches the tables against the
+ * bundled signature catalog and runs a DCT-histogram double-compression test.
+ * Runs entirely locally, independent of the AI analysis.
+ */
+export const analyzeCompression = (view: DataView, exif: ExifReport | null): CompressionReport | null => {
+  try {
+    const segments = readJpegSegments(view);
+    const frame = readFrame(view, segments);
+    const tables = readQuantizationTables(view, segments);
+    if (!frame || tables.length === 0) return null;
+
+    const { quality, exact } = estimateQuality(tables);
+    const subsampling = describeSubsampling(frame.components);
+    const markers = readMarkers(view, segments);
+    const context = { standard: exact, quality, exif, markers, subsampling };
+    const matches: QuantizationMatch[] = QUANTIZATION_SIGNATURES
+      .filter((signature) => matchesSignature(signature, context))
+      .map(({ id, label, category, description }) => ({ signatureId: id, label, category, description }));
+
+    let doubleCompression: DoubleCompressionResult | null = null;
+    if (frame.type === "baseline" || frame.type === "extended") {
+      try {
+        const collected = collectCoefficientHistograms(view, segments, frame);
+        doubleCompression = collected ? detectDoubleCompression(collected.histograms, collected.blocks) : null;
+      } catch (e) {
+        console.warn("Could not decode JPEG scan for double-compression test:", e);
+      }
+    }
+
+    // Combine independent indicators as a noisy-OR: each one alone can only push the likelihood so far
+    const indicators: { weight: number; reason: string }[] = [];
+    if (doubleCompression && doubleCompression.likelihood > 0.3) {
+      indicators.push({
+        weight: doubleCompression.likelihood * 0.85,
+        reason: `DCT coefficient histograms show double-quantization artifacts (${Math.round(doubleCompression.likelihood * 100)}%).`,
+      });
+    }
+    if (exact && exif?.make) {
+      indicators.push({ weight: 0.4, reason: `Stock libjpeg tables (Q${quality}) despite camera EXIF from ${exif.make}; cameras use their own tables.` });
+    }
+    if (matches.some((m) => m.category === "editor")) {
+      indicators.push({ weight: 0.6, reason: "Table set and markers match an image editor's JPEG encoder." });
+    }
+    if (matches.some((m) => m.category === "social")) {
+      indicators.push({ weight: 0.5, reason: "Stock tables with stripped EXIF are typical of social media or messaging re-encodes." });
+    }
+    if (!exif && !exact && !matches.length) {
+      indicators.push({ weight: 0.15, reason: "Custom tables without any EXIF: the original camera metadata may have been removed." });
+    }
+    if (exif?.software && !exif.hasMakerNote) {
+      indicators.push({ weight: 0.2, reason: `EXIF Software tag "${exif.software}" without a camera MakerNote.` });
+    }
+
+    return {
+      frameType: frame.type,
+      width: frame.width,
+      height: frame.height,
+      subsampling,
+      tables,
+      estimatedQuality: quality,
+      isStandardIjg: exact,
+      markers,
+      matches,
+      doubleCompression,
+      resaveLikelihood: 1 - indicators.reduce((product, i) => product * (1 - i.weight), 1),
+      indicators: indicators.map((i) => i.reason),
+    };
+  } catch (e) {
+    console.warn("Failed to analyze JPEG compression:", e);
+    return null;
+  }
+};
@@ -0,0 +1,510 @@
+import { EmbeddedText, ImageContainer } from "../types";
+
+/**
+ * Raw metadata payloads located inside an image container, before any of them are interpreted.
+ * Every container parser produces this same shape so EXIF, XMP and C2PA parsing stays format-agnostic.
+ */
+export interface ContainerPayloads {
+  format: ImageContainer;
+  tiff: DataView | null;              // TIFF structure holding EXIF, starting at the byte order mark
+  xmp: string | null;
+  extendedXmp: string | null;         // Reassembled JPEG Extended XMP, when complete
+  jumbf: Uint8Array[];                // Candidate C2PA manifest stores
+  jumbfSource: string;
+  textChunks: EmbeddedText[];
+}
+
+export interface JpegSegment {
+  marker: number;     // Second marker byte, e.g. 0xE1 for APP1
+  dataOffset: number; // Offset of the payload, just after the length field
+  dataLength: number; // Payload length, excluding the length field itself
+}
+
+interface BmffBox {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+const XMP_NAMESPACE = "http://ns.adobe.com/xap/1.0/\0";
+const EXTENDED_XMP_NAMESPACE = "http://ns.adobe.com/xmp/extension/\0";
+// Largest Extended XMP packet reassembled; the declared length is allocated up front
+const MAX_EXTENDED_XMP_BYTES = 8 * 1024 * 1024;
+
+// ISO BMFF 'uuid' box type used by C2PA to embed a manifest store in HEIF/AVIF/MP4
+const C2PA_BMFF_UUID = "d8fec3d61b0e483c92975828877ec481";
+
+// ftyp brands that identify HEIF/AVIF still images
+const HEIF_BRANDS = new Set(["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1", "avif", "avis"]);
+
+const startsWithAscii = (view: DataView, offset: number, text: string): boolean => {
+  if (offset < 0 || offset + text.length > view.byteLength) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (view.getUint8(offset + i) !== text.charCodeAt(i)) return false;
+  }
+  return true;
+};
+
+const bytesOf = (view: DataView, offset: number, length: number): Uint8Array =>
+  new Uint8Array(view.buffer, view.byteOffset + offset, length);
+
+const decodeUtf8 = (view: DataView, offset: number, length: number): string =>
+  new TextDecoder().decode(bytesOf(view, offset, length));
+
+const decodeLatin1 = (bytes: Uint8Array): string => new TextDecoder("latin1").decode(bytes);
+
+const fourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach((p) => { result.set(p, offset); offset += p.length; });
+  return result;
+};
+
+/**
+ * Inflates zlib data (PNG zTXt / compressed iTXt) with the platform DecompressionStream.
+ */
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([bytes.slice()]).stream().pipeThrough(new DecompressionStream("deflate"));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch (e) {
+    console.warn("Failed to inflate compressed text chunk:", e);
+    return null;
+  }
+}
+
+/**
+ * Identifies the container from its magic bytes; the browser-provided MIME type is often
+ * missing or wrong for HEIC and renamed files.
+ */
+export const detectContainer = (view: DataView): ImageContainer => {
+  if (view.byteLength < 12) return "unknown";
+  if (view.getUint16(0, false) === 0xFFD8) return "jpeg";
+  if (view.getUint32(0, false) === 0x89504E47 && view.getUint32(4, false) === 0x0D0A1A0A) return "png";
+  if (startsWithAscii(view, 0, "RIFF") && startsWithAscii(view, 8, "WEBP")) return "webp";
+  if (startsWithAscii(view, 4, "ftyp") && HEIF_BRANDS.has(fourCC(view, 8))) return "heif";
+  const order = view.getUint16(0, false);
+  if ((order === 0x4949 || order === 0x4D4D) && view.getUint16(2, order === 0x4949) === 0x002A) return "tiff";
+  return "unknown";
+};
+
+// ---------------------------------------------------------------------------
+// JPEG
+// ---------------------------------------------------------------------------
+
+/**
+ * Walks the JPEG marker structure and returns every header segment up to and including
+ * the first SOS (start of scan), whose entropy-coded data follows its header.
+ */
+export function readJpegSegments(view: DataView): JpegSegment[] {
+  // Check for JPEG SOI marker (FF D8)
+  if (view.byteLength < 4 || view.getUint16(0, false) !== 0xFFD8) {
+    return [];
+  }
+
+  const segments: JpegSegment[] = [];
+  const length = view.byteLength;
+  let offset = 2;
+
+  while (offset + 4 <= length) {
+    // Check for valid marker start
+    if (view.getUint8(offset) !== 0xFF) break;
+
+    const marker = view.getUint8(offset + 1);
+
+    // Fill bytes (FF FF) may pad between markers
+    if (marker === 0xFF) {
+      offset += 1;
+      continue;
+    }
+
+    const chunkLength = view.getUint16(offset + 2, false);
+    const dataLength = Math.min(chunkLength - 2, length - offset - 4);
+    if (dataLength < 0) break;
+
+    segments.push({ marker, dataOffset: offset + 4, dataLength });
+
+    // SOS (Start of Scan) - entropy-coded image data follows, stop parsing
+    if (marker === 0xDA) break;
+
+    offset += 2 + chunkLength;
+  }
+  return segments;
+}
+
+/**
+ * Reassembles Extended XMP, which Photoshop splits across several APP1 segments when the
+ * packet exceeds 64KB. Each extension segment carries the GUID of the full packet, its
+ * total length and the offset of this chunk. Packets declaring more than the file size or
+ * MAX_EXTENDED_XMP_BYTES are ignored rather than allocated.
+ */
+function assembleExtendedXmp(view: DataView, segments: JpegSegment[], packet: string): string | null {
+  const extended = new Map<string, { data: Uint8Array; received: number }>();
+
+  for (const segment of segments) {
+    if (segment.marker !== 0xE1 || !startsWithAscii(view, segment.dataOffset, EXTENDED_XMP_NAMESPACE)) continue;
+
+    const headerStart = segment.dataOffset + EXTENDED_XMP_NAMESPACE.length;
+    const chunkStart = headerStart + 32 + 8;
+    const chunkLength = segment.dataLength - EXTENDED_XMP_NAMESPACE.length - 32 - 8;
+    if (chunkLength <= 0) continue;
+
+    const guid = decodeUtf8(view, headerStart, 32);
+    const fullLength = view.getUint32(headerStart + 32, false);
+    const chunkOffset = view.getUint32(headerStart + 36, false);
+    // The packet is stored in this file, so a declared length beyond it is corrupt or hostile
+    if (fullLength > view.byteLength || fullLength > MAX_EXTENDED_XMP_BYTES) continue;
+    if (chunkOffset + chunkLength > fullLength) continue;
+
+    let entry = extended.get(guid);
+    if (!entry) {
+      entry = { data: new Uint8Array(fullLength), received: 0 };
+      extended.set(guid, entry);
+    }
+    entry.data.set(bytesOf(view, chunkStart, chunkLength), chunkOffset);
+    entry.received += chunkLength;
+  }
+
+  // The main packet names the GUID of the extension it belongs to
+  const guid = packet.match(/HasExtendedXMP\s*(?:=\s*["']|>)\s*([0-9A-Fa-f]{32})/)?.[1];
+  const extension = guid ? extended.get(guid) : undefined;
+  return extension && extension.received >= extension.data.length
+    ? new TextDecoder().decode(extension.data)
+    : null;
+}
+
+/**
+ * Reassembles JUMBF manifest stores from JPEG APP11 segments. Each segment starts with
+ * "JP", a box instance number and a packet sequence number; continuation packets repeat
+ * the superbox header (LBox/TBox), which has to be dropped before concatenating.
+ */
+function assembleJpegJumbf(view: DataView, segments: JpegSegment[]): Uint8Array[] {
+  const packets = new Map<number, { sequence: number; data: Uint8Array }[]>();
+
+  for (const segment of segments) {
+    if (segment.marker !== 0xEB || segment.dataLength < 16 || !startsWithAscii(view, segment.dataOffset, "JP")) continue;
+
+    const instance = view.getUint16(segment.dataOffset + 2, false);
+    const sequence = view.getUint32(segment.dataOffset + 4, false);
+    let boxStart = segment.dataOffset + 8;
+    if (sequence > 1) {
+      // Skip the repeated LBox/TBox (and XLBox when LBox is 1)
+      boxStart += view.getUint32(boxStart, false) === 1 ? 16 : 8;
+    }
+    const end = segment.dataOffset + segment.dataLength;
+    if (boxStart >= end) continue;
+
+    const list = packets.get(instance) ?? [];
+    list.push({ sequence, data: bytesOf(view, boxStart, end - boxStart) });
+    packets.set(instance, list);
+  }
+
+  return Array.from(packets.values()).map((list) =>
+    concatBytes(list.sort((a, b) => a.sequence - b.sequence).map((p) => p.data))
+  );
+}
+
+function readJpeg(view: DataView, payloads: ContainerPayloads): void {
+  const segments = readJpegSegments(view);
+
+  for (const segment of segments) {
+    if (segment.marker === 0xE1 && !payloads.tiff && startsWithAscii(view, segment.dataOffset, "Exif\0\0")) {
+      // Restrict the TIFF parser to this segment so offsets cannot wander into image data
+      payloads.tiff = new DataView(view.buffer, view.byteOffset + segment.dataOffset + 6, segment.dataLength - 6);
+    } else if (segment.marker === 0xE1 && startsWithAscii(view, segment.dataOffset, XMP_NAMESPACE)) {
+      const start = segment.dataOffset + XMP_NAMESPACE.length;
+      payloads.xmp = decodeUtf8(view, start, segment.dataLength - XMP_NAMESPACE.length);
+    } else if (segment.marker === 0xFE) {
+      payloads.textChunks.push({ keyword: "Comment", text: decodeUtf8(view, segment.dataOffset, segment.dataLength), chunk: "COM" });
+    }
+  }
+
+  if (payloads.xmp) {
+    payloads.extendedXmp = assembleExtendedXmp(view, segments, payloads.xmp);
+  }
+  payloads.jumbf = assembleJpegJumbf(view, segments);
+  payloads.jumbfSource = "JPEG APP11";
+}
+
+// ---------------------------------------------------------------------------
+// PNG
+// ---------------------------------------------------------------------------
+
+/**
+ * Decodes tEXt (Latin-1), zTXt (zlib Latin-1) and iTXt (UTF-8, optionally zlib) chunks.
+ */
+async function readPngText(type: string, data: Uint8Array): Promise<EmbeddedText | null> {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd <= 0) return null;
+  const keyword = decodeLatin1(data.subarray(0, keywordEnd));
+
+  if (type === "tEXt") {
+    return { keyword, text: decodeLatin1(data.subarray(keywordEnd + 1)), chunk: type };
+  }
+
+  if (type === "zTXt") {
+    // Compression method byte follows the keyword separator
+    const inflated = await inflate(data.subarray(keywordEnd + 2));
+    return inflated ? { keyword, text: decodeLatin1(inflated), chunk: type } : null;
+  }
+
+  // iTXt: compression flag, compression method, language tag\0, translated keyword\0, text
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) return null;
+
+  const body = data.subarray(translatedEnd + 1);
+  const text = compressed ? await inflate(body) : body;
+  return text ? { keyword, text: new TextDecoder().decode(text), chunk: type } : null;
+}
+
+async function readPng(view: DataView, payloads: ContainerPayloads): Promise<void> {
+  // 8-byte PNG signature, then chunks of length, type, data and CRC
+  let offset = 8;
+  while (offset + 12 <= view.byteLength) {
+    const length = view.getUint32(offset, false);
+    if (offset + 12 + length > view.byteLength) break;
+
+    const type = fourCC(view, offset + 4);
+    const dataOffset = offset + 8;
+
+    if (type === "eXIf") {
+      payloads.tiff = new DataView(view.buffer, view.byteOffset + dataOffset, length);
+    } else if (type === "caBX") {
+      payloads.jumbf.push(bytesOf(view, dataOffset, length));
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const text = await readPngText(type, bytesOf(view, dataOffset, length));
+      if (text?.keyword === "XML:com.adobe.xmp") {
+        payloads.xmp = text.text;
+      } else if (text) {
+        payloads.textChunks.push(text);
+      }
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+  payloads.jumbfSource = "PNG caBX";
+}
+
+// ---------------------------------------------------------------------------
+// WebP
+// ---------------------------------------------------------------------------
+
+function readWebp(view: DataView, payloads: ContainerPayloads): void {
+  // RIFF header (12 bytes), then little-endian sized chunks padded to an even length
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const type = fourCC(view, offset);
+    const length = view.getUint32(offset + 4, true);
+    const dataOffset = offset + 8;
+    if (dataOffset + length > view.byteLength) break;
+
+    if (type === "EXIF") {
+      // Some encoders keep the JPEG-style "Exif\0\0" prefix
+      const skip = startsWithAscii(view, dataOffset, "Exif\0\0") ? 6 : 0;
+      payloads.tiff = new DataView(view.buffer, view.byteOffset + dataOffset + skip, length - skip);
+    } else if (type === "XMP ") {
+      payloads.xmp = decodeUtf8(view, dataOffset, length);
+    } else if (type === "C2PA") {
+      payloads.jumbf.push(bytesOf(view, dataOffset, length));
+    }
+    offset = dataOffset + length + (length % 2);
+  }
+  payloads.jumbfSource = "WebP C2PA chunk";
+}
+
+// ---------------------------------------------------------------------------
+// HEIF / AVIF (ISO BMFF)
+// ---------------------------------------------------------------------------
+
+function readBoxes(view: DataView, start: number, end: number): BmffBox[] {
+  const boxes: BmffBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset, false);
+    const type = fourCC(view, offset + 4);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = view.getUint32(offset + 8, false) * 0x100000000 + view.getUint32(offset + 12, false);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) break;
+    boxes.push({ type, start: offset, contentStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+const readSized = (view: DataView, offset: number, size: number): number => {
+  switch (size) {
+    case 0: return 0;
+    case 4: return view.getUint32(offset, false);
+    case 8: return view.getUint32(offset, false) * 0x100000000 + view.getUint32(offset + 4, false);
+    default: throw new Error(`Unsupported iloc field size ${size}`);
+  }
+};
+
+const readCString = (view: DataView, offset: number, end: number): { text: string; next: number } => {
+  let pos = offset;
+  while (pos < end && view.getUint8(pos) !== 0) pos++;
+  return { text: decodeUtf8(view, offset, pos - offset), next: pos + 1 };
+};
+
+/**
+ * Resolves Exif and XMP items of a HEIF 'meta' box: 'iinf' names each item's type,
+ * 'iloc' says where its bytes live (in the file or in the meta box's 'idat').
+ */
+function readHeif(view: DataView, payloads: ContainerPayloads): void {
+  const topLevel = readBoxes(view, 0, view.byteLength);
+
+  for (const box of topLevel) {
+    // C2PA uuid box: FullBox header, purpose string, then for "manifest" an 8-byte offset and the JUMBF store
+    if (box.type === "uuid" && box.contentStart + 20 <= box.end) {
+      const uuid = Array.from(bytesOf(view, box.contentStart, 16)).map((b) => b.toString(16).padStart(2, "0")).join("");
+      if (uuid !== C2PA_BMFF_UUID) continue;
+      const purpose = readCString(view, box.contentStart + 20, box.end);
+      if (purpose.text === "manifest" && purpose.next + 8 < box.end) {
+        payloads.jumbf.push(bytesOf(view, purpose.next + 8, box.end - purpose.next - 8));
+      }
+    }
+  }
+  payloads.jumbfSource = "HEIF uuid box";
+
+  const meta = topLevel.find((b) => b.type === "meta");
+  if (!meta) return;
+
+  // 'meta' is a FullBox: skip version and flags
+  const metaChildren = readBoxes(view, meta.contentStart + 4, meta.end);
+  const iinf = metaChildren.find((b) => b.type === "iinf");
+  const iloc = metaChildren.find((b) => b.type === "iloc");
+  const idat = metaChildren.find((b) => b.type === "idat");
+  if (!iinf || !iloc) return;
+
+  const items = new Map<number, { type: string; contentType?: string }>();
+  const iinfVersion = view.getUint8(iinf.contentStart);
+  const entriesStart = iinf.contentStart + 4 + (iinfVersion === 0 ? 2 : 4);
+  for (const infe of readBoxes(view, entriesStart, iinf.end)) {
+    if (infe.type !== "infe") continue;
+    const version = view.getUint8(infe.contentStart);
+    if (version < 2) continue;
+    let pos = infe.contentStart + 4;
+    const itemId = version === 2 ? view.getUint16(pos, false) : view.getUint32(pos, false);
+    pos += (version === 2 ? 2 : 4) + 2; // item ID and protection index
+    const itemType = fourCC(view, pos);
+    pos += 4;
+    const name = readCString(view, pos, infe.end);
+    const contentType = itemType === "mime" ? readCString(view, name.next, infe.end).text : undefined;
+    items.set(itemId, { type: itemType, contentType });
+  }
+
+  const ilocVersion = view.getUint8(iloc.contentStart);
+  let pos = iloc.contentStart + 4;
+  const sizes = view.getUint16(pos, false);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xF;
+  const baseOffsetSize = (sizes >> 4) & 0xF;
+  const indexSize = ilocVersion === 1 || ilocVersion === 2 ? sizes & 0xF : 0;
+  pos += 2;
+  const itemCount = ilocVersion < 2 ? view.getUint16(pos, false) : view.getUint32(pos, false);
+  pos += ilocVersion < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount && pos < iloc.end; i++) {
+    const itemId = ilocVersion < 2 ? view.getUint16(pos, false) : view.getUint32(pos, false);
+    pos += ilocVersion < 2 ? 2 : 4;
+    const constructionMethod = ilocVersion === 1 || ilocVersion === 2 ? view.getUint16(pos, false) & 0xF : 0;
+    if (ilocVersion === 1 || ilocVersion === 2) pos += 2;
+    pos += 2; // data reference index
+    const baseOffset = readSized(view, pos, baseOffsetSize);
+    pos += baseOffsetSize;
+    const extentCount = view.getUint16(pos, false);
+    pos += 2;
+
+    const extents: Uint8Array[] = [];
+    for (let e = 0; e < extentCount; e++) {
+      pos += indexSize;
+      const extentOffset = readSized(view, pos, offsetSize);
+      pos += offsetSize;
+      const extentLength = readSized(view, pos, lengthSize);
+      pos += lengthSize;
+
+      // Construction method 1 addresses bytes inside 'idat'; 0 addresses the file itself
+      const origin = constructionMethod === 1 && idat ? idat.contentStart : 0;
+      const start = origin + baseOffset + extentOffset;
+      if (constructionMethod <= 1 && start + extentLength <= view.byteLength) {
+        extents.push(bytesOf(view, start, extentLength));
+      }
+    }
+
+    const item = items.get(itemId);
+    if (!item || extents.length === 0) continue;
+    const data = concatBytes(extents);
+
+    if (item.type === "Exif" && data.length > 4) {
+      // Exif items start with a 4-byte offset to the TIFF header
+      const tiffOffset = 4 + new DataView(data.buffer, data.byteOffset).getUint32(0, false);
+      if (tiffOffset < data.length) {
+        payloads.tiff = new DataView(data.buffer, data.byteOffset + tiffOffset, data.length - tiffOffset);
+      }
+    } else if (item.type === "mime" && item.contentType === "application/rdf+xml") {
+      payloads.xmp = new TextDecoder().decode(data);
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// TIFF
+// ---------------------------------------------------------------------------
+
+function readTiffFile(view: DataView, payloads: ContainerPayloads): void {
+  payloads.tiff = view;
+
+  // XMP lives in IFD0 tag 700 (XMLPacket) as a BYTE array
+  const littleEndian = view.getUint16(0, false) === 0x4949;
+  const ifd0 = view.getUint32(4, littleEndian);
+  if (ifd0 + 2 > view.byteLength) return;
+  const count = view.getUint16(ifd0, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd0 + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    if (view.getUint16(entry, littleEndian) !== 0x02BC) continue;
+    const length = view.getUint32(entry + 4, littleEndian);
+    const offset = length <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian);
+    if (offset + length <= view.byteLength) {
+      payloads.xmp = decodeUtf8(view, offset, length);
+    }
+    break;
+  }
+}
+
+/**
+ * Locates every metadata payload in an image file, whatever its container.
+ */
+export const readContainer = async (view: DataView): Promise<ContainerPayloads> => {
+  const payloads: ContainerPayloads = {
+    format: detectContainer(view),
+    tiff: null,
+    xmp: null,
+    extendedXmp: null,
+    jumbf: [],
+    jumbfSource: "",
+    textChunks: [],
+  };
+
+  switch (payloads.format) {
+    case "jpeg": readJpeg(view, payloads); break;
+    case "png": await readPng(view, payloads); break;
+    case "webp": readWebp(view, payloads); break;
+    case "heif": readHeif(view, payloads); break;
+    case "tiff": readTiffFile(view, payloads); break;
+  }
+  return payloads;
+};
@@ -0,0 +1,228 @@
+import { ClonePair, CopyMoveResult } from "../types";
+import { IJG_LUMINANCE } from "./quantizationCatalog";
+
+/**
+ * Block-matching copy-move detector (after Fridrich, Soukal & Lukáš, 2003).
+ *
+ * Every overlapping 8x8 block is described by its quantized low-frequency DCT coefficients.
+ * Sorting the descriptors lexicographically puts identical blocks next to each other; a
+ * cloned region shows up as many matching block pairs that all share the same shift vector.
+ * Pure function over greyscale pixels so it can run in a worker or from Node.
+ */
+
+// Images are downscaled so the longest side is at most this many pixels before matching
+export const ANALYSIS_MAX_DIMENSION = 512;
+
+const BLOCK = 8;
+const FEATURE_SIZE = 4; // Top-left 4x4 DCT coefficients
+const FEATURES = FEATURE_SIZE * FEATURE_SIZE;
+
+// With more positions than this, blocks are sampled every 2 pixels
+const MAX_FULL_DENSITY_BLOCKS = 160_000;
+
+// Flat blocks (sky, walls) match everywhere, so only textured blocks take part
+const MIN_BLOCK_STD = 4;
+
+// How many sorted neighbours each block is compared against
+const SORT_WINDOW = 8;
+
+// Minimum supporting blocks for a pair when sampling every pixel; ~a 14x14 pixel region
+const MIN_PAIR_BLOCKS = 40;
+
+const MAX_PAIRS = 12;
+
+// COS[u * 8 + x] = alpha(u) * cos((2x + 1) * u * pi / 16), the orthonormal DCT-II basis
+const COS = (() => {
+  const table = new Float64Array(BLOCK * BLOCK);
+  for (let u = 0; u < BLOCK; u++) {
+    const alpha = u === 0 ? Math.sqrt(1 / BLOCK) : Math.sqrt(2 / BLOCK);
+    for (let x = 0; x < BLOCK; x++) {
+      table[u * BLOCK + x] = alpha * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * BLOCK));
+    }
+  }
+  return table;
+})();
+
+// Quantization steps of the JPEG luminance table at quality 50, matching JPEG's coefficient scale
+const STEPS = Array.from({ length: FEATURES }, (_, i) =>
+  IJG_LUMINANCE[Math.floor(i / FEATURE_SIZE) * BLOCK + (i % FEATURE_SIZE)]
+);
+
+/**
+ * Converts RGBA pixels to luma (BT.601).
+ */
+export const toGrayscale = (rgba: Uint8ClampedArray | Uint8Array, width: number, height: number): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    gray[p] = 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+  }
+  return gray;
+};
+
+/**
+ * Finds regions of a greyscale image that were copied to another place in the same image.
+ */
+export const detectCopyMove = (gray: Float32Array, width: number, height: number): CopyMoveResult => {
+  const empty: CopyMoveResult = { pairs: [], analyzedWidth: width, analyzedHeight: height, blocksCompared: 0 };
+  if (width < BLOCK * 4 || height < BLOCK * 4) return empty;
+
+  const columns = width - BLOCK + 1;
+  const rows = height - BLOCK + 1;
+  const step = columns * rows > MAX_FULL_DENSITY_BLOCKS ? 2 : 1;
+
+  // 1. Describe every textured block
+  const capacity = Math.ceil(columns / step) * Math.ceil(rows / step);
+  const features = new Int16Array(capacity * FEATURES);
+  const positions = new Int32Array(capacity * 2);
+  const rowTransform = new Float64Array(BLOCK * FEATURE_SIZE);
+  let count = 0;
+
+  for (let by = 0; by < rows; by += step) {
+    for (let bx = 0; bx < columns; bx += step) {
+      let sum = 0;
+      let sumSq = 0;
+      for (let y = 0; y < BLOCK; y++) {
+        const rowStart = (by + y) * width + bx;
+        for (let x = 0; x < BLOCK; x++) {
+          const value = gray[rowStart + x];
+          sum += value;
+          sumSq += value * value;
+        }
+      }
+      const mean = sum / (BLOCK * BLOCK);
+      if (sumSq / (BLOCK * BLOCK) - mean * mean < MIN_BLOCK_STD * MIN_BLOCK_STD) continue;
+
+      // Separable DCT, computing only the coefficients we keep
+      for (let y = 0; y < BLOCK; y++) {
+        const rowStart = (by + y) * width + bx;
+        for (let v = 0; v < FEATURE_SIZE; v++) {
+          let acc = 0;
+          for (let x = 0; x < BLOCK; x++) acc += gray[rowStart + x] * COS[v * BLOCK + x];
+          rowTransform[y * FEATURE_SIZE + v] = acc;
+        }
+      }
+      const base = count * FEATURES;
+      for (let u = 0; u < FEATURE_SIZE; u++) {
+        for (let v = 0; v < FEATURE_SIZE; v++) {
+          let acc = 0;
+          for (let y = 0; y < BLOCK; y++) acc += COS[u * BLOCK + y] * rowTransform[y * FEATURE_SIZE + v];
+          const index = u * FEATURE_SIZE + v;
+          features[base + index] = Math.round(acc / STEPS[index]);
+        }
+      }
+      positions[count * 2] = bx;
+      positions[count * 2 + 1] = by;
+      count++;
+    }
+  }
+  if (count < 2) return empty;
+
+  // 2. Sort block descriptors lexicographically
+  const order = Array.from({ length: count }, (_, i) => i);
+  order.sort((a, b) => {
+    const offsetA = a * FEATURES;
+    const offsetB = b * FEATURES;
+    for (let k = 0; k < FEATURES; k++) {
+      const diff = features[offsetA + k] - features[offsetB + k];
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  });
+
+  // 3. Identical neighbours far enough apart vote for their shift vector
+  const minShift = Math.max(16, Math.round(Math.max(width, height) * 0.04));
+  const votes = new Map<string, number[]>(); // Shift bin -> flat [sx, sy, dx, dy, ...]
+  for (let i = 0; i < count; i++) {
+    const a = order[i];
+    for (let j = i + 1; j < Math.min(count, i + 1 + SORT_WINDOW); j++) {
+      const b = order[j];
+      let equal = true;
+      for (let k = 0; k < FEATURES && equal; k++) {
+        equal = features[a * FEATURES + k] === features[b * FEATURES + k];
+      }
+      // Sorted order: once a neighbour differs, all further ones do too
+      if (!equal) break;
+
+      let [sx, sy, tx, ty] = [positions[a * 2], positions[a * 2 + 1], positions[b * 2], positions[b * 2 + 1]];
+      // Orient every shift the same way so a pair and its mirror land in the same bin
+      if (ty < sy || (ty === sy && tx < sx)) [sx, sy, tx, ty] = [tx, ty, sx, sy];
+      const dx = tx - sx;
+      const dy = ty - sy;
+      if (dx * dx + dy * dy < minShift * minShift) continue;
+
+      // Resampling blurs exact offsets, so neighbouring shifts share a bin
+      const key = `${Math.round(dx / 2)},${Math.round(dy / 2)}`;
+      const list = votes.get(key) ?? [];
+      list.push(sx, sy, dx, dy);
+      votes.set(key, list);
+    }
+  }
+
+  // 4. Split each well-supported shift into spatially connected source regions
+  const minBlocks = Math.ceil(MIN_PAIR_BLOCKS / (step * step));
+  const pairs: ClonePair[] = [];
+  for (const list of votes.values()) {
+    const total = list.length / 4;
+    if (total < minBlocks) continue;
+
+    const parent = Array.from({ length: total }, (_, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+    const byPosition = new Map<number, number>();
+    for (let m = 0; m < total; m++) byPosition.set(list[m * 4 + 1] * width + list[m * 4], m);
+    const reach = step * 2;
+    for (let m = 0; m < total; m++) {
+      const sx = list[m * 4];
+      const sy = list[m * 4 + 1];
+      for (let oy = -reach; oy <= reach; oy++) {
+        for (let ox = -reach; ox <= reach; ox++) {
+          const other = byPosition.get((sy + oy) * width + sx + ox);
+          if (other !== undefined) parent[find(other)] = find(m);
+        }
+      }
+    }
+
+    const components = new Map<number, number[]>();
+    for (let m = 0; m < total; m++) {
+      const root = find(m);
+      const members = components.get(root) ?? [];
+      members.push(m);
+      components.set(root, members);
+    }
+
+    for (const members of components.values()) {
+      if (members.length < minBlocks) continue;
+      let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity, sumDx = 0, sumDy = 0;
+      for (const m of members) {
+        minX = Math.min(minX, list[m * 4]);
+        minY = Math.min(minY, list[m * 4 + 1]);
+        maxX = Math.max(maxX, list[m * 4] + BLOCK);
+        maxY = Math.max(maxY, list[m * 4 + 1] + BLOCK);
+        sumDx += list[m * 4 + 2];
+        sumDy += list[m * 4 + 3];
+      }
+      const dx = sumDx / members.length;
+      const dy = sumDy / members.length;
+      const region = (x: number, y: number) => ({
+        x: x / width,
+        y: y / height,
+        width: (maxX - minX) / width,
+        height: (maxY - minY) / height,
+      });
+      pairs.push({
+        source: region(minX, minY),
+        target: region(minX + dx, minY + dy),
+        blockCount: members.length,
+        shift: { dx: dx / width, dy: dy / height },
+      });
+    }
+  }
+
+  pairs.sort((a, b) => b.blockCount - a.blockCount);
+  return { pairs: pairs.slice(0, MAX_PAIRS), analyzedWidth: width, analyzedHeight: height, blocksCompared: count };
+};
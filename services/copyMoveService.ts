@@ -0,0 +1,15 @@
+import { CopyMoveResult } from "../types";
+import type { CopyMoveRequest } from "../workers/copyMoveWorker";
+import { runWorkerTask } from "./workerService";
+
+/**
+ * Looks for cloned (copy-moved) regions in an image using a Web Worker.
+ */
+export const runCopyMoveDetection = (file: Blob, signal?: AbortSignal): Promise<CopyMoveResult> => {
+  return runWorkerTask<CopyMoveRequest, CopyMoveResult>(
+    () => new Worker(new URL("../workers/copyMoveWorker.ts", import.meta.url), { type: "module" }),
+    { file },
+    "Copy-move detection",
+    signal
+  );
+};
@@ -0,0 +1,18 @@
+import { ElaResult } from "../types";
+import type { ElaRequest } from "../workers/elaWorker";
+import { runWorkerTask } from "./workerService";
+
+/**
+ * Runs Error Level Analysis on an image in a dedicated Web Worker.
+ * Aborting the signal terminates the worker immediately, so a new quality setting can
+ * supersede a run that is still in progress.
+ */
+export const runErrorLevelAnalysis = async (file: Blob, quality: number, signal?: AbortSignal): Promise<ElaResult> => {
+  const result = await runWorkerTask<ElaRequest, Omit<ElaResult, "quality">>(
+    () => new Worker(new URL("../workers/elaWorker.ts", import.meta.url), { type: "module" }),
+    { file, quality },
+    "Error level analysis",
+    signal
+  );
+  return { ...result, quality };
+};
@@ -0,0 +1,148 @@
+import { AnalysisResult, DetectedTool, EnsembleConfig, ImageSource, ProviderConfig, ToolCatalogEntry, ToolScoreSpread } from "../types";
+import { PROMPT_VARIANTS } from "./analysisPrompt";
+import { analyzeImageEdits, getProviderDefinition } from "./providerService";
+import { FixtureSession } from "./fixtureService";
+
+const ENSEMBLE_STORAGE_KEY = "photo-detective:ensemble";
+
+export const DEFAULT_ENSEMBLE_CONFIG: EnsembleConfig = { samples: 1, promptVariants: false };
+export const MAX_ENSEMBLE_SAMPLES = 10;
+
+// A tool is unstable when its scores spread by more than this many points (standard deviation)...
+const UNSTABLE_STD_DEV = 1.5;
+// ...or when fewer than this share of samples agree on which side of 5 it falls
+const MIN_AGREEMENT = 0.75;
+
+// Two-sided 95% Student's t by degrees of freedom (1-9); ensembles are far too small for 1.96
+const T_95 = [12.71, 4.3, 3.18, 2.78, 2.57, 2.45, 2.36, 2.31, 2.26];
+
+interface EnsembleSample {
+  result: AnalysisResult;
+  source: string;             // Provider, model and prompt variant that produced the sample
+}
+
+const round = (value: number, digits = 1): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Mean, spread, 95% confidence interval and agreement of one tool's scores across samples.
+ */
+export const scoreSpread = (scores: number[]): ToolScoreSpread => {
+  const n = scores.length;
+  const mean = scores.reduce((sum, score) => sum + score, 0) / n;
+  const stdDev = n > 1 ? Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / (n - 1)) : 0;
+  const margin = n > 1 ? ((T_95[n - 2] ?? 1.96) * stdDev) / Math.sqrt(n) : 0;
+  const likely = scores.filter((score) => score >= 5).length;
+  const agreement = Math.max(likely, n - likely) / n;
+  return {
+    samples: n,
+    mean: round(mean),
+    stdDev: round(stdDev),
+    min: Math.min(...scores),
+    max: Math.max(...scores),
+    lower: round(Math.max(0, mean - margin)),
+    upper: round(Math.min(10, mean + margin)),
+    agreement: round(agreement, 2),
+    unstable: stdDev > UNSTABLE_STD_DEV || agreement < MIN_AGREEMENT,
+  };
+};
+
+const toolKey = (tool: DetectedTool): string => tool.toolId ?? tool.name.toLowerCase();
+
+/**
+ * Merges the samples into one result. Each tool's score becomes the mean of its samples, with
+ * the spread attached; its reasoning and findings come from the sample closest to that mean.
+ * The assessment and device estimate come from the sample closest to the consensus overall.
+ */
+export const aggregateEnsemble = (samples: EnsembleSample[], failedSamples = 0): AnalysisResult => {
+  const byTool = new Map<string, { tool: DetectedTool; sample: number }[]>();
+  samples.forEach(({ result }, sample) => {
+    for (const tool of result.detectedTools) {
+      const entries = byTool.get(toolKey(tool)) ?? [];
+      entries.push({ tool, sample });
+      byTool.set(toolKey(tool), entries);
+    }
+  });
+
+  const distance = new Array(samples.length).fill(0);
+  const detectedTools = [...byTool.values()].map((entries) => {
+    const spread = scoreSpread(entries.map(({ tool }) => tool.likelihoodScore));
+    entries.forEach(({ tool, sample }) => (distance[sample] += Math.abs(tool.likelihoodScore - spread.mean)));
+    const closest = entries.reduce((best, entry) =>
+      Math.abs(entry.tool.likelihoodScore - spread.mean) < Math.abs(best.tool.likelihoodScore - spread.mean) ? entry : best
+    );
+    return { ...closest.tool, likelihoodScore: spread.mean, ensemble: spread };
+  });
+
+  const representative = samples[distance.indexOf(Math.min(...distance))].result;
+  const layerCounts = samples.map(({ result }) => result.estimatedEditLayerCount).sort((a, b) => a - b);
+  const repairs = samples.flatMap(({ result }, index) => (result.responseRepairs ?? []).map((repair) => `Sample ${index + 1}: ${repair}`));
+
+  return {
+    overallAssessment: representative.overallAssessment,
+    estimatedEditLayerCount: layerCounts[Math.floor(layerCounts.length / 2)],
+    originalDevice: representative.originalDevice,
+    ...(repairs.length > 0 && { responseRepairs: repairs }),
+    ensemble: {
+      samples: samples.length,
+      failedSamples,
+      sources: samples.map(({ source }) => source),
+      unstableTools: detectedTools.filter((tool) => tool.ensemble.unstable).map((tool) => tool.name),
+    },
+    detectedTools,
+  };
+};
+
+/**
+ * Asks the provider for several independent answers and aggregates them. Samples rotate through
+ * the configured providers and, when enabled, the prompt variants. Failed samples are left out;
+ * the call fails only when every sample does.
+ */
+export const analyzeImageEnsemble = async (
+  image: ImageSource,
+  config: ProviderConfig,
+  catalog: ToolCatalogEntry[],
+  ensemble: EnsembleConfig,
+  fixtures?: FixtureSession,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  const providers = [config, ...(ensemble.providers ?? [])];
+  const plan = Array.from({ length: Math.min(ensemble.samples, MAX_ENSEMBLE_SAMPLES) }, (_, index) => ({
+    config: providers[index % providers.length],
+    variant: ensemble.promptVariants ? index % PROMPT_VARIANTS.length : 0,
+  }));
+
+  const settled = await Promise.allSettled(
+    plan.map(({ config: sampleConfig, variant }, index) => analyzeImageEdits(image, sampleConfig, catalog, fixtures, { promptVariant: variant, sample: index, signal }))
+  );
+  const samples: EnsembleSample[] = [];
+  settled.forEach((outcome, index) => {
+    if (outcome.status === "rejected") {
+      console.warn(`Ensemble sample ${index + 1} failed:`, outcome.reason);
+      return;
+    }
+    const { config: sampleConfig, variant } = plan[index];
+    samples.push({
+      result: outcome.value,
+      source: `${getProviderDefinition(sampleConfig.providerId).label} · ${sampleConfig.model}${variant ? ` · prompt variant ${variant}` : ""}`,
+    });
+  });
+  if (samples.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+  return aggregateEnsemble(samples, plan.length - samples.length);
+};
+
+export const loadEnsembleConfig = (): EnsembleConfig => {
+  try {
+    const stored = localStorage.getItem(ENSEMBLE_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as EnsembleConfig;
+      if (parsed.samples >= 1 && parsed.samples <= MAX_ENSEMBLE_SAMPLES) return parsed;
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable ensemble settings:", e);
+  }
+  return DEFAULT_ENSEMBLE_CONFIG;
+};
+
+export const saveEnsembleConfig = (config: EnsembleConfig): void => {
+  localStorage.setItem(ENSEMBLE_STORAGE_KEY, JSON.stringify(config));
+};
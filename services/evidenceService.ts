@@ -0,0 +1,135 @@
+import { DetectedTool, MetadataEvidence, MetadataReport, ToolCatalogEntry } from "../types";
+import { DEFAULT_TOOL_CATALOG, findCatalogTool, matchToolSignature } from "./toolCatalogService";
+
+// Fallback patterns for well-known tools that are not in the catalog.
+// Lightroom is checked first because it reports itself as "Adobe Photoshop Lightroom".
+const SOFTWARE_PATTERNS: { tool: string; pattern: RegExp }[] = [
+  { tool: "Lightroom", pattern: /lightroom|camera raw/i },
+  { tool: "Photoshop", pattern: /photoshop/i },
+  { tool: "ChatGPT", pattern: /chatgpt|dall[-·\s]?e|openai/i },
+  { tool: "Stable Diffusion", pattern: /stable diffusion|automatic1111|comfyui|invokeai/i },
+  { tool: "Midjourney", pattern: /midjourney/i },
+];
+
+// Generator reports name the front-end; map them to the model family the AI scores refer to
+const GENERATOR_TOOLS: Record<string, string> = {
+  "Stable Diffusion (A1111)": "Stable Diffusion",
+  "ComfyUI": "Stable Diffusion",
+  "NovelAI": "NovelAI",
+};
+
+type ToolMatch = Pick<MetadataEvidence, "tool" | "toolId">;
+
+/**
+ * Identifies the tool a software string names, preferring the catalog's metadata signatures.
+ */
+const matchTool = (software: string, catalog: ToolCatalogEntry[]): ToolMatch | null => {
+  const entry = matchToolSignature(software, catalog);
+  if (entry) return { tool: entry.name, toolId: entry.id };
+  const tool = SOFTWARE_PATTERNS.find(({ pattern }) => pattern.test(software))?.tool;
+  return tool ? namedTool(tool, catalog) : null;
+};
+
+/**
+ * Maps a tool keyword to its catalog entry when the catalog has one.
+ */
+const namedTool = (tool: string, catalog: ToolCatalogEntry[]): ToolMatch => {
+  const entry = findCatalogTool({ name: tool }, catalog);
+  return entry ? { tool: entry.name, toolId: entry.id } : { tool };
+};
+
+/**
+ * Extracts hard evidence of specific editing tools from the file's own metadata.
+ * Unlike the AI scores, every item here is a literal statement written by the software itself.
+ */
+export const collectMetadataEvidence = (
+  metadata: MetadataReport | null | undefined,
+  catalog: ToolCatalogEntry[] = DEFAULT_TOOL_CATALOG
+): MetadataEvidence[] => {
+  if (!metadata) return [];
+  const evidence: MetadataEvidence[] = [];
+
+  const software = metadata.exif?.software;
+  const softwareTool = software ? matchTool(software, catalog) : null;
+  if (software && softwareTool) {
+    evidence.push({ ...softwareTool, source: "EXIF", detail: `Software tag: "${software}"` });
+  }
+
+  const generator = metadata.generator;
+  if (generator) {
+    const prompt = generator.prompt ? `: "${generator.prompt.length > 120 ? `${generator.prompt.slice(0, 120)}…` : generator.prompt}"` : "";
+    evidence.push({
+      ...namedTool(GENERATOR_TOOLS[generator.generator] ?? generator.generator, catalog),
+      source: generator.sourceKeyword === "UserComment" ? "EXIF" : "PNG",
+      detail: `${generator.generator} parameters in "${generator.sourceKeyword}"${prompt}`,
+    });
+  }
+
+  const softwareChunk = metadata.textChunks.find((chunk) => chunk.keyword === "Software");
+  const softwareChunkTool = softwareChunk ? matchTool(softwareChunk.text, catalog) : null;
+  if (softwareChunk && softwareChunkTool) {
+    evidence.push({ ...softwareChunkTool, source: "PNG", detail: `Software text chunk: "${softwareChunk.text}"` });
+  }
+
+  const manifest = metadata.c2pa?.activeManifest;
+  if (manifest) {
+    const generatorTool = manifest.claimGenerator ? matchTool(manifest.claimGenerator, catalog) : null;
+    if (manifest.claimGenerator && generatorTool) {
+      evidence.push({ ...generatorTool, source: "C2PA", detail: `Claim generator: "${manifest.claimGenerator}"` });
+    }
+    for (const action of manifest.actions) {
+      const agentTool = action.softwareAgent ? matchTool(action.softwareAgent, catalog) : null;
+      if (agentTool && agentTool.tool !== generatorTool?.tool) {
+        evidence.push({ ...agentTool, source: "C2PA", detail: `${action.action} by "${action.softwareAgent}"` });
+      }
+    }
+  }
+
+  const xmp = metadata.xmp;
+  if (!xmp) return evidence;
+
+  const creatorTool = xmp.creatorTool ? matchTool(xmp.creatorTool, catalog) : null;
+  if (xmp.creatorTool && creatorTool) {
+    evidence.push({ ...creatorTool, source: "XMP", detail: `CreatorTool: "${xmp.creatorTool}"` });
+  }
+
+  // Collapse repeated history events ("saved" x 12) into one line per agent and action
+  const grouped = new Map<string, { tool: ToolMatch; agent: string; action: string; count: number; lastWhen?: string }>();
+  for (const event of xmp.history) {
+    const tool = event.softwareAgent ? matchTool(event.softwareAgent, catalog) : null;
+    if (!tool || !event.softwareAgent) continue;
+    const key = `${event.softwareAgent}|${event.action}`;
+    const entry = grouped.get(key) ?? { tool, agent: event.softwareAgent, action: event.action, count: 0 };
+    entry.count += 1;
+    entry.lastWhen = event.when ?? entry.lastWhen;
+    grouped.set(key, entry);
+  }
+  for (const { tool, agent, action, count, lastWhen } of grouped.values()) {
+    const times = count > 1 ? ` (${count}×)` : "";
+    const when = lastWhen ? `, last at ${lastWhen}` : "";
+    evidence.push({ ...tool, source: "XMP", detail: `History: ${action} by "${agent}"${times}${when}` });
+  }
+
+  if (xmp.developSettings.length > 0) {
+    const sample = xmp.developSettings
+      .slice(0, 3)
+      .map((p) => `${p.name.replace(/^crs:/, "")}=${p.value}`)
+      .join(", ");
+    evidence.push({
+      ...namedTool("Lightroom", catalog),
+      source: "XMP",
+      detail: `${xmp.developSettings.length} Camera Raw develop settings recorded (${sample}${xmp.developSettings.length > 3 ? ", …" : ""})`,
+    });
+  }
+
+  return evidence;
+};
+
+/**
+ * Returns the evidence items that support the given AI-reported tool, by catalog id when both
+ * sides have one and by name otherwise.
+ */
+export const evidenceForTool = (tool: Pick<DetectedTool, "name" | "toolId">, evidence: MetadataEvidence[]): MetadataEvidence[] =>
+  evidence.filter((item) =>
+    item.toolId && tool.toolId ? item.toolId === tool.toolId : tool.name.toLowerCase().includes(item.tool.toLowerCase())
+  );
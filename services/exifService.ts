@@ -0,0 +1,458 @@
+import { ExifEntry, ExifGps, ExifIfdName, ExifReport, ExifValue } from "../types";
+
+// Byte size of a single component for each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1,  // BYTE
+  2: 1,  // ASCII
+  3: 2,  // SHORT
+  4: 4,  // LONG
+  5: 8,  // RATIONAL
+  6: 1,  // SBYTE
+  7: 1,  // UNDEFINED
+  8: 2,  // SSHORT
+  9: 4,  // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+const TIFF_TAGS: Record<number, string> = {
+  0x0100: "ImageWidth",
+  0x0101: "ImageHeight",
+  0x0102: "BitsPerSample",
+  0x0103: "Compression",
+  0x0106: "PhotometricInterpretation",
+  0x010E: "ImageDescription",
+  0x010F: "Make",
+  0x0110: "Model",
+  0x0111: "StripOffsets",
+  0x0112: "Orientation",
+  0x0115: "SamplesPerPixel",
+  0x0116: "RowsPerStrip",
+  0x0117: "StripByteCounts",
+  0x011A: "XResolution",
+  0x011B: "YResolution",
+  0x011C: "PlanarConfiguration",
+  0x0128: "ResolutionUnit",
+  0x0131: "Software",
+  0x0132: "DateTime",
+  0x013B: "Artist",
+  0x013E: "WhitePoint",
+  0x013F: "PrimaryChromaticities",
+  0x0201: "JPEGInterchangeFormat",
+  0x0202: "JPEGInterchangeFormatLength",
+  0x0211: "YCbCrCoefficients",
+  0x0213: "YCbCrPositioning",
+  0x0214: "ReferenceBlackWhite",
+  0x02BC: "XMLPacket",
+  0x8298: "Copyright",
+  0x8769: "ExifIFDPointer",
+  0x8825: "GPSInfoIFDPointer",
+  0xC4A5: "PrintIM",
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829A: "ExposureTime",
+  0x829D: "FNumber",
+  0x8822: "ExposureProgram",
+  0x8824: "SpectralSensitivity",
+  0x8827: "ISOSpeedRatings",
+  0x8830: "SensitivityType",
+  0x8832: "RecommendedExposureIndex",
+  0x9000: "ExifVersion",
+  0x9003: "DateTimeOriginal",
+  0x9004: "DateTimeDigitized",
+  0x9010: "OffsetTime",
+  0x9011: "OffsetTimeOriginal",
+  0x9012: "OffsetTimeDigitized",
+  0x9101: "ComponentsConfiguration",
+  0x9102: "CompressedBitsPerPixel",
+  0x9201: "ShutterSpeedValue",
+  0x9202: "ApertureValue",
+  0x9203: "BrightnessValue",
+  0x9204: "ExposureBiasValue",
+  0x9205: "MaxApertureValue",
+  0x9206: "SubjectDistance",
+  0x9207: "MeteringMode",
+  0x9208: "LightSource",
+  0x9209: "Flash",
+  0x920A: "FocalLength",
+  0x9214: "SubjectArea",
+  0x927C: "MakerNote",
+  0x9286: "UserComment",
+  0x9290: "SubSecTime",
+  0x9291: "SubSecTimeOriginal",
+  0x9292: "SubSecTimeDigitized",
+  0xA000: "FlashpixVersion",
+  0xA001: "ColorSpace",
+  0xA002: "PixelXDimension",
+  0xA003: "PixelYDimension",
+  0xA004: "RelatedSoundFile",
+  0xA005: "InteroperabilityIFDPointer",
+  0xA20E: "FocalPlaneXResolution",
+  0xA20F: "FocalPlaneYResolution",
+  0xA210: "FocalPlaneResolutionUnit",
+  0xA215: "ExposureIndex",
+  0xA217: "SensingMethod",
+  0xA300: "FileSource",
+  0xA301: "SceneType",
+  0xA302: "CFAPattern",
+  0xA401: "CustomRendered",
+  0xA402: "ExposureMode",
+  0xA403: "WhiteBalance",
+  0xA404: "DigitalZoomRatio",
+  0xA405: "FocalLengthIn35mmFilm",
+  0xA406: "SceneCaptureType",
+  0xA407: "GainControl",
+  0xA408: "Contrast",
+  0xA409: "Saturation",
+  0xA40A: "Sharpness",
+  0xA40C: "SubjectDistanceRange",
+  0xA420: "ImageUniqueID",
+  0xA430: "CameraOwnerName",
+  0xA431: "BodySerialNumber",
+  0xA432: "LensSpecification",
+  0xA433: "LensMake",
+  0xA434: "LensModel",
+  0xA435: "LensSerialNumber",
+  0xA460: "CompositeImage",
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0000: "GPSVersionID",
+  0x0001: "GPSLatitudeRef",
+  0x0002: "GPSLatitude",
+  0x0003: "GPSLongitudeRef",
+  0x0004: "GPSLongitude",
+  0x0005: "GPSAltitudeRef",
+  0x0006: "GPSAltitude",
+  0x0007: "GPSTimeStamp",
+  0x0008: "GPSSatellites",
+  0x0009: "GPSStatus",
+  0x000A: "GPSMeasureMode",
+  0x000B: "GPSDOP",
+  0x000C: "GPSSpeedRef",
+  0x000D: "GPSSpeed",
+  0x000E: "GPSTrackRef",
+  0x000F: "GPSTrack",
+  0x0010: "GPSImgDirectionRef",
+  0x0011: "GPSImgDirection",
+  0x0012: "GPSMapDatum",
+  0x0017: "GPSDestBearingRef",
+  0x0018: "GPSDestBearing",
+  0x001B: "GPSProcessingMethod",
+  0x001D: "GPSDateStamp",
+  0x001E: "GPSDifferential",
+  0x001F: "GPSHPositioningError",
+};
+
+const INTEROP_TAGS: Record<number, string> = {
+  0x0001: "InteroperabilityIndex",
+  0x0002: "InteroperabilityVersion",
+};
+
+const TAG_TABLES: Record<ExifIfdName, Record<number, string>> = {
+  IFD0: TIFF_TAGS,
+  Exif: EXIF_TAGS,
+  GPS: GPS_TAGS,
+  Interop: INTEROP_TAGS,
+  IFD1: TIFF_TAGS,
+};
+
+// Sub-IFD pointer tags and the directory each one leads to
+const SUB_IFD_POINTERS: Record<number, ExifIfdName> = {
+  0x8769: "Exif",
+  0x8825: "GPS",
+  0xA005: "Interop",
+};
+
+// A sane upper bound on entries per IFD; anything larger is a corrupt or hostile file
+const MAX_IFD_ENTRIES = 1000;
+
+// UNDEFINED blobs longer than this are summarised instead of being copied into the report
+const MAX_INLINE_BYTES = 64;
+
+/**
+ * Reads the value of a single 12-byte IFD entry, decoding every TIFF field type.
+ * Returns null when the value points outside of the buffer.
+ */
+function readEntryValue(view: DataView, entryOffset: number, tiffStart: number, littleEndian: boolean): ExifValue | null {
+  const type = view.getUint16(entryOffset + 2, littleEndian);
+  const count = view.getUint32(entryOffset + 4, littleEndian);
+  const size = TYPE_SIZES[type];
+  if (!size) return null;
+
+  const totalSize = size * count;
+  // Values of 4 bytes or less are stored inline in the value offset field
+  const dataStart = totalSize <= 4
+    ? entryOffset + 8
+    : tiffStart + view.getUint32(entryOffset + 8, littleEndian);
+
+  if (dataStart + totalSize > view.byteLength) return null;
+
+  if (type === 2) {
+    let str = "";
+    for (let i = 0; i < count; i++) {
+      const charCode = view.getUint8(dataStart + i);
+      if (charCode === 0) break; // null terminator
+      str += String.fromCharCode(charCode);
+    }
+    return str.trim();
+  }
+
+  if (type === 7) {
+    return readUndefined(view, dataStart, count);
+  }
+
+  // Long BYTE arrays are embedded blobs (e.g. XMLPacket, ICC) rather than values worth listing
+  if ((type === 1 || type === 6) && count > MAX_INLINE_BYTES) {
+    return `<${count} bytes>`;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const pos = dataStart + i * size;
+    switch (type) {
+      case 1: values.push(view.getUint8(pos)); break;
+      case 3: values.push(view.getUint16(pos, littleEndian)); break;
+      case 4: values.push(view.getUint32(pos, littleEndian)); break;
+      case 5: {
+        const den = view.getUint32(pos + 4, littleEndian);
+        values.push(den === 0 ? 0 : view.getUint32(pos, littleEndian) / den);
+        break;
+      }
+      case 6: values.push(view.getInt8(pos)); break;
+      case 8: values.push(view.getInt16(pos, littleEndian)); break;
+      case 9: values.push(view.getInt32(pos, littleEndian)); break;
+      case 10: {
+        const den = view.getInt32(pos + 4, littleEndian);
+        values.push(den === 0 ? 0 : view.getInt32(pos, littleEndian) / den);
+        break;
+      }
+      case 11: values.push(view.getFloat32(pos, littleEndian)); break;
+      case 12: values.push(view.getFloat64(pos, littleEndian)); break;
+    }
+  }
+  return values.length === 1 ? values[0] : values;
+}
+
+/**
+ * UNDEFINED fields are usually either short version strings ("0232") or opaque binary blobs.
+ * Printable data is returned as text, short binary as bytes, everything else as a size note.
+ */
+function readUndefined(view: DataView, start: number, count: number): ExifValue {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + start, count);
+  const printable = bytes.every((b) => b === 0 || (b >= 0x20 && b < 0x7F));
+  if (printable && count <= MAX_INLINE_BYTES) {
+    return String.fromCharCode(...bytes.filter((b) => b !== 0)).trim();
+  }
+  if (count <= 16) {
+    return Array.from(bytes);
+  }
+  return `<${count} bytes>`;
+}
+
+/**
+ * UserComment starts with an 8-byte character code ("ASCII\0\0\0", "UNICODE\0", ...).
+ */
+function readUserComment(view: DataView, entryOffset: number, tiffStart: number, littleEndian: boolean): string {
+  const count = view.getUint32(entryOffset + 4, littleEndian);
+  if (count <= 8) return "";
+  const dataStart = tiffStart + view.getUint32(entryOffset + 8, littleEndian);
+  if (dataStart + count > view.byteLength) return "";
+
+  const bytes = new Uint8Array(view.buffer, view.byteOffset + dataStart, count);
+  const charset = String.fromCharCode(...bytes.subarray(0, 8)).replace(/\0/g, "");
+  const body = bytes.subarray(8);
+  if (charset === "UNICODE") {
+    // Writers disagree on byte order (piexif always uses big-endian), so sniff it from ASCII-range text
+    const bigEndian = body.length >= 2 ? body[0] === 0 && body[1] !== 0 : !littleEndian;
+    return new TextDecoder(bigEndian ? "utf-16be" : "utf-16le").decode(body).replace(/\0/g, "").trim();
+  }
+  return new TextDecoder().decode(body).replace(/\0/g, "").trim();
+}
+
+/**
+ * Parses a TIFF structure (as found after the "Exif\0\0" header of a JPEG APP1 segment,
+ * or at the start of a raw TIFF file) and walks IFD0, the Exif SubIFD, GPS IFD,
+ * Interop IFD and IFD1 (thumbnail).
+ */
+export const parseTiff = (view: DataView, tiffStart: number): ExifReport | null => {
+  try {
+    const byteOrder = view.getUint16(tiffStart, false);
+    if (byteOrder !== 0x4949 && byteOrder !== 0x4D4D) return null;
+    const littleEndian = byteOrder === 0x4949; // 'II'
+
+    // Check 42 (0x002A)
+    if (view.getUint16(tiffStart + 2, littleEndian) !== 0x002A) return null;
+
+    const firstIFDOffset = view.getUint32(tiffStart + 4, littleEndian);
+    if (firstIFDOffset < 0x00000008) return null;
+
+    const entries: ExifEntry[] = [];
+    const visited = new Set<number>();
+    let hasMakerNote = false;
+
+    const walkIfd = (ifdOffset: number, ifd: ExifIfdName): number => {
+      const dirStart = tiffStart + ifdOffset;
+      // Guard against IFD loops and offsets outside the buffer
+      if (visited.has(dirStart) || dirStart + 2 > view.byteLength) return 0;
+      visited.add(dirStart);
+
+      const count = view.getUint16(dirStart, littleEndian);
+      if (count > MAX_IFD_ENTRIES || dirStart + 2 + count * 12 > view.byteLength) return 0;
+
+      const tagNames = TAG_TABLES[ifd];
+      for (let i = 0; i < count; i++) {
+        const entryOffset = dirStart + 2 + (i * 12);
+        const tag = view.getUint16(entryOffset, littleEndian);
+        const type = view.getUint16(entryOffset + 2, littleEndian);
+
+        const subIfd = SUB_IFD_POINTERS[tag];
+        if (subIfd && (ifd === "IFD0" || (ifd === "Exif" && subIfd === "Interop"))) {
+          walkIfd(view.getUint32(entryOffset + 8, littleEndian), subIfd);
+          continue;
+        }
+
+        if (ifd === "Exif" && tag === 0x927C) {
+          hasMakerNote = true;
+        }
+
+        const value = ifd === "Exif" && tag === 0x9286
+          ? readUserComment(view, entryOffset, tiffStart, littleEndian)
+          : readEntryValue(view, entryOffset, tiffStart, littleEndian);
+        if (value === null) continue;
+
+        entries.push({
+          ifd,
+          tag,
+          name: tagNames[tag] ?? `Unknown (0x${tag.toString(16).toUpperCase().padStart(4, "0")})`,
+          type,
+          value,
+        });
+      }
+
+      const nextOffsetPos = dirStart + 2 + count * 12;
+      return nextOffsetPos + 4 <= view.byteLength ? view.getUint32(nextOffsetPos, littleEndian) : 0;
+    };
+
+    const ifd1Offset = walkIfd(firstIFDOffset, "IFD0");
+    if (ifd1Offset) {
+      walkIfd(ifd1Offset, "IFD1");
+    }
+
+    return buildReport(entries, littleEndian ? "II" : "MM", hasMakerNote);
+  } catch (e) {
+    console.warn("Failed to parse TIFF structure:", e);
+    return null;
+  }
+};
+
+function buildReport(entries: ExifEntry[], byteOrder: "II" | "MM", hasMakerNote: boolean): ExifReport {
+  const find = (ifd: ExifIfdName, name: string): ExifValue | undefined =>
+    entries.find((e) => e.ifd === ifd && e.name === name)?.value;
+  const str = (v: ExifValue | undefined): string | undefined =>
+    typeof v === "string" && v.length > 0 ? v : undefined;
+  const num = (v: ExifValue | undefined): number | undefined =>
+    typeof v === "number" ? v : Array.isArray(v) && v.length > 0 ? v[0] : undefined;
+
+  return {
+    byteOrder,
+    make: str(find("IFD0", "Make")),
+    model: str(find("IFD0", "Model")),
+    software: str(find("IFD0", "Software")),
+    artist: str(find("IFD0", "Artist")),
+    dateTime: str(find("IFD0", "DateTime")),
+    dateTimeOriginal: str(find("Exif", "DateTimeOriginal")),
+    dateTimeDigitized: str(find("Exif", "DateTimeDigitized")),
+    offsetTime: str(find("Exif", "OffsetTime")),
+    offsetTimeOriginal: str(find("Exif", "OffsetTimeOriginal")),
+    offsetTimeDigitized: str(find("Exif", "OffsetTimeDigitized")),
+    subSecTime: str(find("Exif", "SubSecTime")),
+    subSecTimeOriginal: str(find("Exif", "SubSecTimeOriginal")),
+    subSecTimeDigitized: str(find("Exif", "SubSecTimeDigitized")),
+    lensModel: str(find("Exif", "LensModel")),
+    exposureTime: num(find("Exif", "ExposureTime")),
+    fNumber: num(find("Exif", "FNumber")),
+    iso: num(find("Exif", "ISOSpeedRatings")),
+    focalLength: num(find("Exif", "FocalLength")),
+    exposureBias: num(find("Exif", "ExposureBiasValue")),
+    flash: num(find("Exif", "Flash")),
+    orientation: num(find("IFD0", "Orientation")),
+    gps: buildGps(entries),
+    hasMakerNote,
+    hasThumbnail: entries.some((e) => e.ifd === "IFD1" && e.name === "JPEGInterchangeFormat"),
+    entries,
+  };
+}
+
+function buildGps(entries: ExifEntry[]): ExifGps | null {
+  const gpsEntries = entries.filter((e) => e.ifd === "GPS");
+  if (gpsEntries.length === 0) return null;
+
+  const find = (name: string) => gpsEntries.find((e) => e.name === name)?.value;
+  const toDegrees = (v: ExifValue | undefined, ref: ExifValue | undefined, negativeRef: string): number | undefined => {
+    if (!Array.isArray(v) || v.length < 3) return undefined;
+    const degrees = v[0] + v[1] / 60 + v[2] / 3600;
+    return ref === negativeRef ? -degrees : degrees;
+  };
+
+  const gps: ExifGps = {
+    latitude: toDegrees(find("GPSLatitude"), find("GPSLatitudeRef"), "S"),
+    longitude: toDegrees(find("GPSLongitude"), find("GPSLongitudeRef"), "W"),
+  };
+
+  const altitude = find("GPSAltitude");
+  if (typeof altitude === "number") {
+    // AltitudeRef 1 means below sea level
+    gps.altitude = find("GPSAltitudeRef") === 1 ? -altitude : altitude;
+  }
+
+  const dateStamp = find("GPSDateStamp");
+  if (typeof dateStamp === "string") gps.dateStamp = dateStamp;
+
+  const timeStamp = find("GPSTimeStamp");
+  if (Array.isArray(timeStamp) && timeStamp.length === 3) {
+    gps.timeStamp = timeStamp
+      .map((part, i) => (i === 2 ? part.toFixed(0) : Math.floor(part).toString()).padStart(2, "0"))
+      .join(":");
+  }
+
+  return gps;
+}
+
+/**
+ * Builds a single "Make Model" device string from an EXIF report.
+ */
+export const formatExifDevice = (report: ExifReport | null): string | null => {
+  if (!report || (!report.make && !report.model)) return null;
+
+  const cleanMake = (report.make ?? "").trim();
+  const cleanModel = (report.model ?? "").trim();
+
+  // Some cameras duplicate Make in Model (e.g. "Canon" "Canon EOS...")
+  if (cleanModel.startsWith(cleanMake)) {
+    return cleanModel;
+  }
+  return `${cleanMake} ${cleanModel}`.trim();
+};
+
+/**
+ * Formats a decoded value for display, with friendlier output for common exposure tags.
+ */
+export const formatExifValue = (entry: ExifEntry): string => {
+  const { name, value } = entry;
+  if (typeof value === "number") {
+    if (name === "ExposureTime" && value > 0 && value < 1) return `1/${Math.round(1 / value)} s`;
+    if (name === "ExposureTime") return `${value} s`;
+    if (name === "FNumber") return `f/${value.toFixed(1)}`;
+    if (name === "FocalLength") return `${value.toFixed(1)} mm`;
+    if (name === "ExposureBiasValue") return `${value >= 0 ? "+" : ""}${value.toFixed(2)} EV`;
+    return Number.isInteger(value) ? value.toString() : value.toFixed(4).replace(/0+$/, "");
+  }
+  if (Array.isArray(value)) {
+    const shown = value.slice(0, 16).map((v) => (Number.isInteger(v) ? v.toString() : v.toFixed(4).replace(/0+$/, "")));
+    return value.length > 16 ? `${shown.join(", ")}, … (+${value.length - 16} more)` : shown.join(", ");
+  }
+  return value;
+};
@@ -0,0 +1,219 @@
+import { AnalysisProvider, AnalyzeCallOptions, FixtureMode, ImageSource, ProviderConfig, ProviderFixture, ProviderId, ToolCatalogEntry } from "../types";
+import type { ProviderDefinition } from "./providerService";
+import { PROMPT_VERSION } from "./analysisPrompt";
+import { ReplayMissError } from "./analysisErrors";
+import { sha256OfBytes } from "./hashService";
+import { isRecord } from "./typeGuards";
+
+const FIXTURE_MODE_STORAGE_KEY = "photo-detective:fixture-mode";
+const DB_NAME = "photo-detective-fixtures";
+const DB_VERSION = 1;
+const FIXTURE_STORE = "fixtures";
+
+/** Where recorded provider calls are kept: IndexedDB in the browser, memory in tests and the CLI. */
+export interface FixtureStore {
+  get(key: string): Promise<ProviderFixture | null>;
+  put(fixture: ProviderFixture): Promise<void>;
+  list(): Promise<ProviderFixture[]>;
+  clear(): Promise<void>;
+}
+
+/** Record provider answers as they arrive, or replay recorded ones without touching the network. */
+export interface FixtureSession {
+  mode: "record" | "replay";
+  store: FixtureStore;
+}
+
+/**
+ * Fixture key for a provider call: the call kind, the SHA-256 of each image exactly as sent
+ * (after preprocessing), the prompt version and, for analyses, a digest of the tools the prompt
+ * listed, so neither a prompt change nor a catalog edit replays stale answers.
+ * Ensemble samples also carry the provider, model and their position in the run, so each
+ * sample replays its own answer and the spread between them survives a replay.
+ */
+export const fixtureKey = (
+  kind: ProviderFixture["kind"],
+  imageSha256s: string[],
+  toolsDigest?: string,
+  promptVariant = 0,
+  sample?: { providerId: ProviderId; model: string; index: number }
+): string =>
+  `${kind}:${imageSha256s.join("+")}:${PROMPT_VERSION}${toolsDigest ? `:tools-${toolsDigest}` : ""}${promptVariant ? `:variant-${promptVariant}` : ""}` +
+  (sample ? `:${sample.providerId}/${sample.model}:sample-${sample.index}` : "");
+
+/**
+ * Short digest of the catalog entries an analysis prompt lists: their ids, names and cues.
+ */
+const toolsDigest = async (tools: ToolCatalogEntry[]): Promise<string> => {
+  const listed = JSON.stringify(tools.map((tool) => [tool.id, tool.name, tool.cues]));
+  return (await sha256OfBytes(new TextEncoder().encode(listed))).slice(0, 12);
+};
+
+/**
+ * Wraps a provider so every call goes through the fixture store. Recording calls the live
+ * provider and saves its validated answer; replaying never creates the live provider, so no
+ * API key or network is needed, and a request without a recorded answer raises ReplayMissError.
+ * Follow-up conversations pass straight through when recording and are refused when replaying.
+ */
+export const withFixtures = (definition: ProviderDefinition, config: ProviderConfig, session: FixtureSession): AnalysisProvider => {
+  const live = session.mode === "record" ? definition.create(config) : null;
+
+  const call = async <T extends ProviderFixture["response"]>(
+    kind: ProviderFixture["kind"],
+    images: ImageSource[],
+    tools: ToolCatalogEntry[] | undefined,
+    { promptVariant = 0, sample }: AnalyzeCallOptions,
+    run: (provider: AnalysisProvider) => Promise<T>
+  ): Promise<T> => {
+    const hashes = await Promise.all(images.map((image) => sha256OfBytes(image.bytes)));
+    const key = fixtureKey(
+      kind,
+      hashes,
+      tools && (await toolsDigest(tools)),
+      promptVariant,
+      sample === undefined ? undefined : { providerId: config.providerId, model: config.model, index: sample }
+    );
+    if (!live) {
+      const fixture = await session.store.get(key);
+      if (!fixture || fixture.kind !== kind) {
+        throw new ReplayMissError(`No recorded ${kind} answer for ${images.map((image) => image.name).join(" and ")} with prompt version ${PROMPT_VERSION}${tools ? " and the enabled tools" : ""}${sample === undefined ? "" : ` (ensemble sample ${sample + 1}, ${config.model})`}.`);
+      }
+      // Callers may adjust the result, which must not change the stored fixture
+      return structuredClone(fixture.response) as T;
+    }
+    const response = await run(live);
+    await session.store.put({
+      key,
+      kind,
+      request: {
+        providerId: config.providerId,
+        model: config.model,
+        promptVersion: PROMPT_VERSION,
+        images: images.map((image, index) => ({ name: image.name, mimeType: image.mimeType, sha256: hashes[index] })),
+        ...(tools && { toolIds: tools.map((tool) => tool.id) }),
+        ...(promptVariant && { promptVariant }),
+        ...(sample !== undefined && { sample }),
+      },
+      response,
+      recordedAt: new Date().toISOString(),
+    });
+    return response;
+  };
+
+  return {
+    id: definition.id,
+    label: definition.label,
+    capabilities: definition.capabilities,
+    config,
+    analyze: (image, tools, options) =>
+      call("analyze", [image], tools, options ?? {}, (provider) => provider.analyze(image, tools, options)),
+    compare: (reference, suspect, signal) =>
+      call("compare", [reference, suspect], undefined, {}, (provider) => provider.compare(reference, suspect, signal)),
+    // Conversations depend on every earlier turn, so they are not recorded and cannot be replayed
+    chat: async (image, tools, prior, history, question, rescore, signal) => {
+      if (!live) throw new ReplayMissError("Follow-up questions are not recorded, so they cannot be answered while replaying fixtures.");
+      return live.chat(image, tools, prior, history, question, rescore, signal);
+    },
+  };
+};
+
+/**
+ * A fixture store held in memory, for automated tests and the command-line tool.
+ */
+export const createMemoryFixtureStore = (fixtures: ProviderFixture[] = []): FixtureStore => {
+  const entries = new Map(fixtures.map((fixture) => [fixture.key, fixture]));
+  return {
+    get: async (key) => entries.get(key) ?? null,
+    put: async (fixture) => {
+      entries.set(fixture.key, fixture);
+    },
+    list: async () => [...entries.values()],
+    clear: async () => entries.clear(),
+  };
+};
+
+export const fixturesToJson = (fixtures: ProviderFixture[]): string => JSON.stringify({ fixtures }, null, 2);
+
+/**
+ * Whether a parsed value has the shape of a fixture: a key, the request it answered and a
+ * response of its kind, an analysis with tool scores or a comparison with a list of changes.
+ */
+const isProviderFixture = (value: unknown): value is ProviderFixture => {
+  if (!isRecord(value) || typeof value.key !== "string" || !isRecord(value.request) || !isRecord(value.response)) return false;
+  const { request, response } = value;
+  if (typeof request.providerId !== "string" || typeof request.model !== "string" || !Array.isArray(request.images)) return false;
+  return value.kind === "analyze" ? Array.isArray(response.detectedTools) : value.kind === "compare" && Array.isArray(response.changes);
+};
+
+/**
+ * Reads a fixture file as written by fixturesToJson. Throws on anything that is not a list of
+ * keyed fixtures with a response.
+ */
+export const parseFixturesJson = (text: string): ProviderFixture[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The file is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const fixtures = isRecord(raw) ? raw.fixtures : undefined;
+  if (!Array.isArray(fixtures)) throw new Error('Expected an object with a "fixtures" array.');
+  return fixtures.map((fixture: unknown, index): ProviderFixture => {
+    if (!isProviderFixture(fixture)) {
+      throw new Error(`Fixture ${index + 1} needs a key, the request it answered, a kind of "analyze" or "compare", and a response of that kind.`);
+    }
+    return fixture;
+  });
+};
+
+export const loadFixtureMode = (): FixtureMode => {
+  const stored = localStorage.getItem(FIXTURE_MODE_STORAGE_KEY);
+  return stored === "record" || stored === "replay" ? stored : "off";
+};
+
+export const saveFixtureMode = (mode: FixtureMode): void => {
+  localStorage.setItem(FIXTURE_MODE_STORAGE_KEY, mode);
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) request.result.createObjectStore(FIXTURE_STORE, { keyPath: "key" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs one request against the fixture store and resolves when its transaction completes.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(FIXTURE_STORE, mode);
+      const request = run(transaction.objectStore(FIXTURE_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error("Fixture store transaction aborted"));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * The web app's fixture store, kept in IndexedDB so recordings survive reloads.
+ */
+export const browserFixtureStore: FixtureStore = {
+  get: async (key) => (await withStore<ProviderFixture | undefined>("readonly", (store) => store.get(key))) ?? null,
+  put: async (fixture) => {
+    await withStore("readwrite", (store) => store.put(fixture));
+  },
+  list: () => withStore<ProviderFixture[]>("readonly", (store) => store.getAll()),
+  clear: async () => {
+    await withStore("readwrite", (store) => store.clear());
+  },
+};
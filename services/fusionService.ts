@@ -0,0 +1,214 @@
+import {
+  AnalysisResult,
+  EvidenceContradiction,
+  FusedToolScore,
+  FusionAdjustment,
+  FusionReport,
+  FusionVerdict,
+  ToolCatalogEntry,
+} from "../types";
+import { collectMetadataEvidence, evidenceForTool } from "./evidenceService";
+import { DEFAULT_TOOL_CATALOG, PHOTOSHOP_TOOL_ID } from "./toolCatalogService";
+
+// Tools whose use means the image was synthesised rather than photographed
+const GENERATIVE_TOOL = /chatgpt|dall[-·\s]?e|nano banana|stable diffusion|midjourney|novelai|firefly|imagen|flux|generat/i;
+
+// Visual device estimates that describe a generator rather than a camera
+const SYNTHETIC_DEVICE = /\bai\b|generat|synthetic|diffusion|render|cgi/i;
+
+// A tool named by the file's own metadata is close to certain; a signed C2PA claim even more so
+const METADATA_FLOOR = 8.5;
+const SIGNED_C2PA_FLOOR = 9.5;
+
+const clampScore = (score: number) => Math.min(10, Math.max(0, Math.round(score * 10) / 10));
+
+/**
+ * Combines the AI's per-tool scores with hard evidence read from the file (EXIF/XMP/C2PA/PNG
+ * software tags, compression history, copy-move clones), lists where the sources disagree,
+ * and derives an overall verdict with a confidence level.
+ */
+export const fuseEvidence = (result: AnalysisResult, catalog: ToolCatalogEntry[] = DEFAULT_TOOL_CATALOG): FusionReport => {
+  const metadata = result.metadata ?? null;
+  const evidence = collectMetadataEvidence(metadata, catalog);
+  const c2pa = metadata?.c2pa ?? null;
+  const c2paSigned = !!c2pa && c2pa.hashBinding === "match" && (c2pa.signatureStatus === "trusted" || c2pa.signatureStatus === "untrusted");
+
+  const tools: FusedToolScore[] = result.detectedTools.map((tool) => ({
+    toolId: tool.toolId,
+    name: tool.name,
+    aiScore: tool.likelihoodScore,
+    fusedScore: tool.likelihoodScore,
+    adjustments: [],
+  }));
+
+  const adjust = (tool: FusedToolScore, adjustment: Omit<FusionAdjustment, "delta">, target: (score: number) => number) => {
+    const next = clampScore(target(tool.fusedScore));
+    const delta = Math.round((next - tool.fusedScore) * 10) / 10;
+    if (delta === 0) return;
+    tool.fusedScore = next;
+    tool.adjustments.push({ ...adjustment, delta });
+  };
+
+  // 1. Metadata naming a tool lifts its score to a floor
+  for (const item of evidence) {
+    // Matched by catalog id; evidence or scores from outside the catalog fall back to the name
+    let tool = tools.find((t) => (item.toolId && t.toolId ? t.toolId === item.toolId : t.name.toLowerCase().includes(item.tool.toLowerCase())));
+    if (!tool) {
+      tool = { toolId: item.toolId, name: item.tool, aiScore: null, fusedScore: 0, adjustments: [] };
+      tools.push(tool);
+    }
+    const floor = item.source === "C2PA" && c2paSigned ? SIGNED_C2PA_FLOOR : METADATA_FLOOR;
+    adjust(tool, { source: item.source, detail: item.detail }, (score) => Math.max(score, floor));
+  }
+
+  if (c2pa?.aiGenerated && c2paSigned) {
+    for (const tool of tools.filter((t) => GENERATIVE_TOOL.test(t.name))) {
+      adjust(tool, { source: "C2PA", detail: "Signed C2PA manifest declares the image AI-generated" }, (score) => Math.max(score, 7));
+    }
+  }
+
+  // 2. Local pixel and compression signals support compositing/retouching tools
+  const photoshop = tools.find((t) => t.toolId === PHOTOSHOP_TOOL_ID);
+  const clonePairs = result.clonePairCount ?? 0;
+  if (photoshop && clonePairs > 0) {
+    adjust(photoshop, { source: "PIXELS", detail: `${clonePairs} copy-move clone pair${clonePairs === 1 ? "" : "s"} detected` }, (score) => score + Math.min(3, clonePairs * 1.5));
+  }
+
+  const compression = metadata?.compression ?? null;
+  if (photoshop && compression?.matches.some((m) => m.category === "editor" && /photoshop/i.test(m.label))) {
+    adjust(photoshop, { source: "COMPRESSION", detail: "Quantization tables and markers match Photoshop's JPEG encoder" }, (score) => score + 1.5);
+  }
+  if (photoshop && compression?.doubleCompression && compression.doubleCompression.likelihood >= 0.6) {
+    adjust(photoshop, { source: "COMPRESSION", detail: "DCT histograms show the JPEG was re-saved after decoding" }, (score) => score + 1);
+  }
+
+  // 3. Contradictions between sources
+  const contradictions: EvidenceContradiction[] = [];
+  const metadataDevice = result.metadataDevice ?? null;
+  const hasCameraMetadata = !!metadataDevice && !!metadata?.exif;
+
+  if (hasCameraMetadata && SYNTHETIC_DEVICE.test(result.originalDevice)) {
+    contradictions.push({
+      severity: "high",
+      description: `Metadata device "${metadataDevice}" disagrees with the visual estimate "${result.originalDevice}".`,
+      sources: ["EXIF", "AI"],
+    });
+  }
+  if (hasCameraMetadata && metadata?.generator) {
+    contradictions.push({
+      severity: "high",
+      description: `Camera EXIF ("${metadataDevice}") coexists with ${metadata.generator.generator} generation parameters.`,
+      sources: ["EXIF", "PNG"],
+    });
+  }
+  const generativeHigh = tools.filter((t) => GENERATIVE_TOOL.test(t.name) && (t.aiScore ?? 0) >= 7);
+  if (metadata?.exif?.hasMakerNote && generativeHigh.length > 0) {
+    contradictions.push({
+      severity: "medium",
+      description: `AI rates ${generativeHigh.map((t) => t.name).join(", ")} highly, but the file carries a camera MakerNote.`,
+      sources: ["AI", "EXIF"],
+    });
+  }
+  for (const tool of tools) {
+    const support = evidenceForTool(tool, evidence);
+    if (tool.aiScore !== null && tool.aiScore <= 3 && support.length > 0) {
+      contradictions.push({
+        severity: "medium",
+        description: `AI scored ${tool.name} ${tool.aiScore}/10, but ${support[0].source} metadata names it (${support[0].detail}).`,
+        sources: ["AI", support[0].source],
+      });
+    }
+  }
+  if (compression?.isStandardIjg && metadata?.exif?.make) {
+    contradictions.push({
+      severity: "medium",
+      description: `EXIF claims a ${metadata.exif.make} camera, but the JPEG uses stock libjpeg tables (Q${compression.estimatedQuality}) rather than camera firmware tables.`,
+      sources: ["EXIF", "COMPRESSION"],
+    });
+  }
+  if (c2pa && c2pa.hashBinding === "mismatch") {
+    contradictions.push({
+      severity: "high",
+      description: "The C2PA manifest's content hash no longer matches the image: it was modified after signing.",
+      sources: ["C2PA"],
+    });
+  }
+  if (c2pa && c2pa.signatureStatus === "invalid") {
+    contradictions.push({
+      severity: "high",
+      description: "The C2PA manifest signature does not verify.",
+      sources: ["C2PA"],
+    });
+  }
+
+  // 4. Verdict
+  const rationale: string[] = [];
+  const topGenerative = tools.filter((t) => GENERATIVE_TOOL.test(t.name)).sort((a, b) => b.fusedScore - a.fusedScore)[0];
+  const topOverall = [...tools].sort((a, b) => b.fusedScore - a.fusedScore)[0];
+  const resave = compression?.resaveLikelihood ?? 0;
+
+  // A Software tag only shows which program saved the file; manipulation needs pixel, compression or AI support
+  const photoshopBacked = !!photoshop && photoshop.fusedScore >= 7
+    && ((photoshop.aiScore ?? 0) >= 7 || photoshop.adjustments.some((a) => a.source === "PIXELS" || a.source === "COMPRESSION"));
+
+  let verdict: FusionVerdict;
+  let driver: FusedToolScore | undefined; // The tool score the verdict rests on
+  if ((topGenerative && topGenerative.fusedScore >= 7) || (c2pa?.aiGenerated && c2paSigned)) {
+    verdict = "ai-generated";
+    driver = topGenerative;
+    rationale.push(topGenerative ? `${topGenerative.name} scored ${topGenerative.fusedScore}/10 after fusion.` : "Signed C2PA manifest declares AI generation.");
+  } else if (photoshopBacked || clonePairs > 0 || result.estimatedEditLayerCount >= 10) {
+    verdict = "heavily-manipulated";
+    driver = photoshop;
+    if (photoshop && photoshopBacked) rationale.push(`${photoshop.name} scored ${photoshop.fusedScore}/10 after fusion.`);
+    if (clonePairs > 0) rationale.push(`${clonePairs} cloned region pair${clonePairs === 1 ? "" : "s"} found in the pixels.`);
+    if (result.estimatedEditLayerCount >= 10) rationale.push(`An estimated ${result.estimatedEditLayerCount} edit layers.`);
+  } else if ((topOverall && topOverall.fusedScore >= 5) || resave >= 0.6) {
+    verdict = "edited";
+    driver = topOverall && topOverall.fusedScore >= 5 ? topOverall : undefined;
+    if (driver) rationale.push(`${driver.name} scored ${driver.fusedScore}/10 after fusion.`);
+    if (resave >= 0.6) rationale.push(`Compression history suggests the file was re-saved (${Math.round(resave * 100)}%).`);
+  } else if (!topOverall || topOverall.fusedScore < 3) {
+    verdict = "likely-authentic";
+    rationale.push("No tool scored above 3/10 and no file evidence of editing was found.");
+  } else {
+    verdict = "inconclusive";
+    rationale.push(`The strongest signal is ${topOverall.name} at ${topOverall.fusedScore}/10, which is not decisive.`);
+  }
+
+  // 5. Confidence: independent agreement raises it, contradictions lower it
+  // Metadata only raises confidence alongside another source, except a signed C2PA claim
+  let confidenceScore = 0.5;
+  const signedAiClaim = verdict === "ai-generated" && !!c2pa?.aiGenerated && c2paSigned;
+  const metadataBacked = !!driver?.adjustments.some((a) => a.source !== "PIXELS" && a.source !== "COMPRESSION");
+  const locallyBacked = !!driver?.adjustments.some((a) => a.source === "PIXELS" || a.source === "COMPRESSION");
+  const aiBacked = (driver?.aiScore ?? 0) >= 5;
+  if (signedAiClaim || (metadataBacked && (locallyBacked || aiBacked))) {
+    confidenceScore += 0.2;
+    rationale.push("Supported by metadata written by the software itself.");
+  } else if (metadataBacked) {
+    rationale.push("Rests on metadata alone, which shows which software saved the file but not what it changed.");
+  }
+  if (locallyBacked) {
+    confidenceScore += 0.1;
+  }
+  const aiTop = tools.filter((t) => t.aiScore !== null).sort((a, b) => (b.aiScore ?? 0) - (a.aiScore ?? 0))[0];
+  if (aiTop && driver && aiTop === driver) confidenceScore += 0.1;
+  if (verdict === "inconclusive") confidenceScore -= 0.15;
+  for (const contradiction of contradictions) {
+    confidenceScore -= contradiction.severity === "high" ? 0.15 : contradiction.severity === "medium" ? 0.07 : 0.03;
+  }
+  confidenceScore = Math.min(0.95, Math.max(0.05, confidenceScore));
+  if (contradictions.length > 0) {
+    rationale.push(`${contradictions.length} contradiction${contradictions.length === 1 ? "" : "s"} between evidence sources.`);
+  }
+
+  return {
+    tools,
+    contradictions,
+    verdict,
+    confidence: confidenceScore >= 0.7 ? "high" : confidenceScore >= 0.45 ? "medium" : "low",
+    confidenceScore,
+    rationale,
+  };
+};
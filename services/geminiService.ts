@@ -1,106 +1,249 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from "../types";
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AnalysisProvider, AnalysisResult, AnalyzeCallOptions, ChatMessage, ChatReply, ComparisonAnalysis, ImageSource, ProviderCapabilities, ProviderConfig, ToolCatalogEntry } from "../types";
+import {
+  COMPARISON_PROMPT,
+  IMAGE_CHANGE_KINDS,
+  buildAnalysisPrompt,
+  buildChatTurns,
+  buildCorrectionNote,
+  parseAnalysisJson,
+  parseChatReply,
+  parseComparisonJson,
+} from "./analysisPrompt";
+import { bytesToBase64 } from "./imageSourceService";
+import { ApiKeyError, InvalidResponseError, SafetyBlockError, UnsupportedImageError, toAnalysisError } from "./analysisErrors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const GEMINI_DEFAULT_MODEL = "gemini-3-pro-preview";
+
+export const GEMINI_CAPABILITIES: ProviderCapabilities = {
+  structuredOutput: true,
+  requiresApiKey: true,
+  runsLocally: false,
+  // Image types Gemini accepts as inline data
+  acceptedMimeTypes: ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"],
+};
+
+// Finish reasons that mean the answer was withheld on policy grounds
+const BLOCKED_FINISH_REASONS = ["SAFETY", "PROHIBITED_CONTENT", "BLOCKLIST", "SPII", "IMAGE_SAFETY", "RECITATION"];
 
 /**
- * Converts a File object to a Base64 string suitable for Gemini API.
+ * Wraps image bytes as inline data for the Gemini API.
  */
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      // Remove the data URL prefix (e.g., "data:image/jpeg;base64,")
-      const base64Data = base64String.split(',')[1];
-      resolve({
-        inlineData: {
-          data: base64Data,
-          mimeType: file.type,
-        },
-      });
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+const toGenerativePart = (image: ImageSource): { inlineData: { data: string; mimeType: string } } => {
+  if (!GEMINI_CAPABILITIES.acceptedMimeTypes.includes(image.mimeType)) {
+    throw new UnsupportedImageError(`Gemini does not accept ${image.mimeType || "files of unknown type"} (${image.name}).`);
+  }
+  return { inlineData: { data: bytesToBase64(image.bytes), mimeType: image.mimeType } };
 };
 
-export const analyzeImageEdits = async (file: File): Promise<AnalysisResult> => {
-  try {
-    const imagePart = await fileToGenerativePart(file);
-
-    const prompt = `
-      Analyze this image specifically for signs of digital editing, manipulation, or generation. 
-      Act as a digital forensics expert. 
-      
-      I want you to estimate the likelihood (from 0 to 10) that specific tools were used to create or modify this image.
-      
-      You must specifically evaluate the image for the following tools:
-      1. Adobe Lightroom (Color grading, exposure adjustments)
-      2. Adobe Photoshop (Compositing, healing, liquify)
-      3. ChatGPT / DALL-E (AI generation, specific smooth textures, text rendering artifacts)
-      4. Nano Banana (Look for deep-fried artifacts, uncanny valley features, or specific "Nano Banana" style synthetic signatures)
-      5. Mobile Filters (Instagram, VSCO, Snapchat)
-      
-      Also, estimate the "Edit Count" - roughly how many distinct editing operations or layers seem to have been applied (e.g., 0 for raw, 1-3 for light touch-ups, 10+ for heavy manipulation).
-
-      Finally, analyze the visual characteristics (grain, noise pattern, depth of field, color science) to estimate the "Original Device" used to take the picture. Be as specific as possible (e.g., "High-end DSLR", "iPhone 14 Pro", "Mid-range Android", "Film Camera 35mm", or "AI Image Generator").
-
-      Return a JSON response listing these details.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: {
-        parts: [
-          imagePart,
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            overallAssessment: {
-              type: Type.STRING,
-              description: "A summary paragraph describing the overall authenticity and style of the image."
-            },
-            estimatedEditLayerCount: {
-              type: Type.INTEGER,
-              description: "Estimated number of distinct editing operations or layers detected."
-            },
-            originalDevice: {
-              type: Type.STRING,
-              description: "The estimated device or camera type used to capture the image (e.g. iPhone, DSLR, AI Generator)."
-            },
-            detectedTools: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  name: { type: Type.STRING, description: "Name of the tool (e.g., Lightroom, Photoshop, ChatGPT, Nano Banana)" },
-                  likelihoodScore: { type: Type.NUMBER, description: "Score from 0 to 10 indicating likelihood of usage." },
-                  reasoning: { type: Type.STRING, description: "Brief explanation of visual cues found." }
-                },
-                required: ["name", "likelihoodScore", "reasoning"]
-              }
+const REGION_SCHEMA = {
+  type: Type.OBJECT,
+  description: "Bounding box as fractions (0 to 1) of the image's width and height.",
+  properties: {
+    x: { type: Type.NUMBER },
+    y: { type: Type.NUMBER },
+    width: { type: Type.NUMBER },
+    height: { type: Type.NUMBER }
+  },
+  required: ["x", "y", "width", "height"]
+};
+
+const buildResponseSchema = (tools: ToolCatalogEntry[]) => ({
+  type: Type.OBJECT,
+  properties: {
+    overallAssessment: {
+      type: Type.STRING,
+      description: "A summary paragraph describing the overall authenticity and style of the image."
+    },
+    estimatedEditLayerCount: {
+      type: Type.INTEGER,
+      description: "Estimated number of distinct editing operations or layers detected."
+    },
+    originalDevice: {
+      type: Type.STRING,
+      description: "The estimated device or camera type used to capture the image (e.g. iPhone, DSLR, AI Generator)."
+    },
+    detectedTools: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          toolId: { type: Type.STRING, enum: tools.map((tool) => tool.id), description: "Catalog id of the tool, as given in the prompt." },
+          name: { type: Type.STRING, description: `Name of the tool (e.g., ${tools.map((tool) => tool.name).join(", ")})` },
+          likelihoodScore: { type: Type.NUMBER, description: "Score from 0 to 10 indicating likelihood of usage." },
+          reasoning: { type: Type.STRING, description: "Brief explanation of visual cues found." },
+          findings: {
+            type: Type.ARRAY,
+            description: "Places in the image where the cues were seen; empty when they are global or absent.",
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                label: { type: Type.STRING, description: "Short description of what was seen there." },
+                confidence: { type: Type.NUMBER, description: "Score from 0 to 10." },
+                region: REGION_SCHEMA
+              },
+              required: ["label", "confidence", "region"]
             }
-          },
-          required: ["overallAssessment", "estimatedEditLayerCount", "originalDevice", "detectedTools"]
-        }
+          }
+        },
+        required: ["toolId", "name", "likelihoodScore", "reasoning"]
       }
-    });
-
-    if (!response.text) {
-      throw new Error("No response received from Gemini.");
     }
+  },
+  required: ["overallAssessment", "estimatedEditLayerCount", "originalDevice", "detectedTools"]
+});
 
-    const result: AnalysisResult = JSON.parse(response.text);
-    return result;
+// A re-scoring answer: the analysis shape plus the prose answer to the question
+const buildRescoreSchema = (tools: ToolCatalogEntry[]) => {
+  const schema = buildResponseSchema(tools);
+  return {
+    ...schema,
+    properties: { answer: { type: Type.STRING, description: "Answer to the analyst's question." }, ...schema.properties },
+    required: ["answer", ...schema.required],
+  };
+};
 
-  } catch (error) {
-    console.error("Error analyzing image:", error);
-    throw error;
+const COMPARISON_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING, description: "One paragraph summarising how the second image differs from the first." },
+    changes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          kind: { type: Type.STRING, enum: IMAGE_CHANGE_KINDS },
+          description: { type: Type.STRING, description: "What changed." },
+          confidence: { type: Type.NUMBER, description: "Score from 0 to 10." },
+          region: {
+            ...REGION_SCHEMA,
+            nullable: true,
+            description: "Bounding box in the second image as fractions of its size, or null for whole-image changes."
+          }
+        },
+        required: ["kind", "description", "confidence"]
+      }
+    }
+  },
+  required: ["summary", "changes"]
+};
+
+/**
+ * Returns the response text, or explains why there is none: a safety block, a truncated answer
+ * or an empty one.
+ */
+const responseText = (response: GenerateContentResponse): string => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockError(`Gemini blocked the request (${blockReason}). ${response.promptFeedback?.blockReasonMessage ?? ""}`.trim());
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockError(`Gemini withheld its answer (${finishReason}).`);
+  }
+  if (!response.text) {
+    throw new InvalidResponseError("No response received from Gemini.");
+  }
+  if (finishReason === "MAX_TOKENS") {
+    throw new InvalidResponseError("The answer was cut off at the output token limit.");
   }
-};
\ No newline at end of file
+  return response.text;
+};
+
+/**
+ * Google Gemini provider. Uses the API key from settings, or the one injected at build time.
+ */
+export const createGeminiProvider = (config: ProviderConfig): AnalysisProvider => {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  const ai = new GoogleGenAI({ apiKey });
+  const model = config.model || GEMINI_DEFAULT_MODEL;
+
+  const requireApiKey = () => {
+    if (!apiKey) throw new ApiKeyError("No Gemini API key is configured.");
+  };
+
+  return {
+    id: "gemini",
+    label: "Google Gemini",
+    capabilities: GEMINI_CAPABILITIES,
+    config,
+    analyze: async (image: ImageSource, tools: ToolCatalogEntry[], { correction, promptVariant, signal }: AnalyzeCallOptions = {}): Promise<AnalysisResult> => {
+      try {
+        requireApiKey();
+        const imagePart = toGenerativePart(image);
+
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              imagePart,
+              { text: buildAnalysisPrompt(tools, promptVariant) + (correction ? buildCorrectionNote(correction) : "") }
+            ]
+          },
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: buildResponseSchema(tools),
+            abortSignal: signal
+          }
+        });
+
+        return parseAnalysisJson(responseText(response));
+
+      } catch (error) {
+        console.error("Error analyzing image:", error);
+        throw toAnalysisError(error, "Gemini");
+      }
+    },
+    compare: async (reference: ImageSource, suspect: ImageSource, signal?: AbortSignal): Promise<ComparisonAnalysis> => {
+      try {
+        requireApiKey();
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              toGenerativePart(reference),
+              toGenerativePart(suspect),
+              { text: COMPARISON_PROMPT }
+            ]
+          },
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: COMPARISON_SCHEMA,
+            abortSignal: signal
+          }
+        });
+
+        return parseComparisonJson(responseText(response));
+
+      } catch (error) {
+        console.error("Error comparing images:", error);
+        throw toAnalysisError(error, "Gemini");
+      }
+    },
+    chat: async (image: ImageSource, tools: ToolCatalogEntry[], prior: AnalysisResult, history: ChatMessage[], question: ChatMessage, rescore: boolean, signal?: AbortSignal): Promise<ChatReply> => {
+      try {
+        requireApiKey();
+        const imagePart = toGenerativePart(image);
+        const contents = buildChatTurns(tools, prior, history, question, rescore).map((turn, index) => ({
+          role: turn.role === "user" ? "user" : "model",
+          parts: index === 0 ? [imagePart, { text: turn.text }] : [{ text: turn.text }],
+        }));
+
+        const response = await ai.models.generateContent({
+          model,
+          contents,
+          config: {
+            ...(rescore && { responseMimeType: "application/json", responseSchema: buildRescoreSchema(tools) }),
+            abortSignal: signal,
+          },
+        });
+
+        return parseChatReply(responseText(response), rescore);
+
+      } catch (error) {
+        console.error("Error answering follow-up question:", error);
+        throw toAnalysisError(error, "Gemini");
+      }
+    },
+  };
+};
@@ -0,0 +1,136 @@
+import { EmbeddedText, GeneratorReport, GeneratorSetting } from "../types";
+
+type ComfyNode = { class_type?: string; inputs?: Record<string, unknown> };
+
+// Text encoder nodes whose "text" input is a prompt
+const COMFY_PROMPT_NODES = /CLIPTextEncode|PromptText|TextEncode/i;
+
+// Loader nodes whose inputs name the model that produced the image
+const COMFY_MODEL_INPUTS = ["ckpt_name", "unet_name", "model_name", "lora_name"];
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * AUTOMATIC1111 / Forge "parameters" format:
+ *
+ *   <prompt>
+ *   Negative prompt: <negative prompt>
+ *   Steps: 20, Sampler: Euler a, CFG scale: 7, Seed: 123, Size: 512x512, Model: ...
+ */
+function parseA1111(text: string, keyword: string): GeneratorReport | null {
+  const settingsStart = text.search(/(^|\n)Steps: \d+/);
+  if (settingsStart < 0) return null;
+
+  const head = text.slice(0, settingsStart);
+  const settingsLine = text.slice(settingsStart).trim();
+  const negativeIndex = head.indexOf("Negative prompt:");
+
+  const prompt = (negativeIndex >= 0 ? head.slice(0, negativeIndex) : head).trim();
+  const negativePrompt = negativeIndex >= 0 ? head.slice(negativeIndex + "Negative prompt:".length).trim() : undefined;
+
+  // "Key: value" pairs separated by commas; quoted values may contain commas themselves
+  const settings: GeneratorSetting[] = [];
+  const pairPattern = /\s*([\w \-/]+):\s*("(?:\\.|[^"])*"|[^,]*)(?:,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pairPattern.exec(settingsLine)) !== null && match[0].length > 0) {
+    settings.push({ name: match[1].trim(), value: match[2].trim() });
+  }
+
+  return {
+    generator: "Stable Diffusion (A1111)",
+    prompt: prompt || undefined,
+    negativePrompt: negativePrompt || undefined,
+    settings,
+    hasWorkflow: false,
+    sourceKeyword: keyword,
+  };
+}
+
+/**
+ * ComfyUI stores the executed node graph as "prompt" (API format) and the editor graph as "workflow".
+ */
+function parseComfyUi(promptText: string | undefined, workflowText: string | undefined): GeneratorReport | null {
+  const graph = promptText ? parseJson(promptText) : null;
+  const workflow = workflowText ? parseJson(workflowText) : null;
+  if (!graph && !workflow) return null;
+
+  const nodes = graph && typeof graph === "object" ? Object.values(graph as Record<string, ComfyNode>) : [];
+  const prompts: string[] = [];
+  const settings: GeneratorSetting[] = [];
+
+  for (const node of nodes) {
+    if (!node || typeof node !== "object" || !node.inputs) continue;
+    const classType = node.class_type ?? "";
+    if (COMFY_PROMPT_NODES.test(classType) && typeof node.inputs.text === "string") {
+      prompts.push(node.inputs.text);
+    }
+    for (const input of COMFY_MODEL_INPUTS) {
+      const value = node.inputs[input];
+      if (typeof value === "string") settings.push({ name: input, value });
+    }
+    if (/KSampler/.test(classType)) {
+      for (const input of ["seed", "steps", "cfg", "sampler_name", "scheduler", "denoise"]) {
+        const value = node.inputs[input];
+        if (typeof value === "string" || typeof value === "number") settings.push({ name: input, value: String(value) });
+      }
+    }
+  }
+
+  // The first encoder is conventionally positive, the second negative; ComfyUI does not label them
+  return {
+    generator: "ComfyUI",
+    prompt: prompts[0],
+    negativePrompt: prompts[1],
+    settings,
+    hasWorkflow: !!workflow,
+    sourceKeyword: graph ? "prompt" : "workflow",
+  };
+}
+
+/**
+ * NovelAI writes Software="NovelAI", the prompt as "Description" and JSON settings as "Comment".
+ */
+function parseNovelAi(chunks: Map<string, string>): GeneratorReport | null {
+  if (!/novelai/i.test(chunks.get("Software") ?? "")) return null;
+
+  const comment = parseJson(chunks.get("Comment") ?? "");
+  const settings: GeneratorSetting[] = comment && typeof comment === "object"
+    ? Object.entries(comment as Record<string, unknown>)
+        .filter(([key, value]) => key !== "prompt" && key !== "uc" && (typeof value === "string" || typeof value === "number"))
+        .map(([name, value]) => ({ name, value: String(value) }))
+    : [];
+
+  const commentPrompt = comment && typeof comment === "object" ? (comment as Record<string, unknown>).prompt : undefined;
+  const negative = comment && typeof comment === "object" ? (comment as Record<string, unknown>).uc : undefined;
+
+  return {
+    generator: "NovelAI",
+    prompt: chunks.get("Description") ?? (typeof commentPrompt === "string" ? commentPrompt : undefined),
+    negativePrompt: typeof negative === "string" ? negative : undefined,
+    settings,
+    hasWorkflow: false,
+    sourceKeyword: "Description",
+  };
+}
+
+/**
+ * Recognises generation parameters left by AI image tools in free-text metadata fields.
+ */
+export const detectGenerator = (textChunks: EmbeddedText[]): GeneratorReport | null => {
+  const chunks = new Map(textChunks.map((chunk) => [chunk.keyword, chunk.text]));
+
+  const parameters = textChunks.find((chunk) => chunk.keyword === "parameters" || chunk.chunk === "EXIF UserComment");
+  const a1111 = parameters ? parseA1111(parameters.text, parameters.keyword) : null;
+  if (a1111) return a1111;
+
+  const comfy = parseComfyUi(chunks.get("prompt"), chunks.get("workflow"));
+  if (comfy) return comfy;
+
+  return parseNovelAi(chunks);
+};
@@ -0,0 +1,325 @@
+import { ImageRegion } from "../types";
+
+/**
+ * Aligns a suspected edit with its reference original and maps where they differ.
+ *
+ * The suspect is assumed to show all or part of the reference at some uniform scale (a
+ * resize, a crop, or both). Alignment is a coarse-to-fine template search: the suspect is
+ * resampled over a range of scales and slid across the reference, scoring each placement by
+ * zero-mean normalised cross-correlation, which ignores brightness and contrast changes.
+ * Pure functions over greyscale and RGBA pixels so they can run in a worker or from Node.
+ */
+
+export interface GrayImage {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+// Longest side of the greyscale images alignment runs on
+export const ALIGNMENT_MAX_DIMENSION = 256;
+const COARSE_MAX_DIMENSION = 64;
+
+// The suspect may show as little as this fraction of the reference's width or height
+const MIN_COVERAGE = 0.35;
+const COARSE_SCALE_STEP = 0.97;
+const FINE_SCALE_RANGE = 0.03;
+const FINE_SCALE_STEPS = 9;
+
+// Below this correlation the images are treated as unrelated crops
+const MIN_ALIGNMENT_SCORE = 0.6;
+
+// Blurred per-pixel difference (0-255) that counts as a change; resampling and re-encoding stay below it
+const CHANGE_THRESHOLD = 32;
+const BLUR_RADIUS = 2;
+// Difference at which the heatmap saturates
+const HEATMAP_SATURATION = 96;
+
+// Changed pixels are grouped on a grid of CELL x CELL cells before being merged into regions
+const CELL = 16;
+const MIN_CELL_CHANGED = 0.25;
+const MAX_REGIONS = 20;
+
+export interface AlignmentEstimate {
+  referenceRegion: ImageRegion;
+  score: number;
+  aligned: boolean;
+}
+
+export interface DifferenceMap {
+  heatmap: Uint8ClampedArray;   // RGBA, same size as the inputs
+  changedRegions: ImageRegion[];
+  changedFraction: number;
+}
+
+/**
+ * Area-averaging resample; good for the downscaling alignment needs.
+ */
+export const resampleGray = (image: GrayImage, width: number, height: number): GrayImage => {
+  const out = new Float32Array(width * height);
+  const sx = image.width / width;
+  const sy = image.height / height;
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * sy);
+    const y1 = Math.max(y0 + 1, Math.min(image.height, Math.ceil((y + 1) * sy)));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * sx);
+      const x1 = Math.max(x0 + 1, Math.min(image.width, Math.ceil((x + 1) * sx)));
+      let sum = 0;
+      for (let yy = y0; yy < y1; yy++) {
+        for (let xx = x0; xx < x1; xx++) sum += image.data[yy * image.width + xx];
+      }
+      out[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return { data: out, width, height };
+};
+
+const fitWithin = (image: GrayImage, maxDimension: number): GrayImage => {
+  const scale = Math.min(1, maxDimension / Math.max(image.width, image.height));
+  if (scale === 1) return image;
+  return resampleGray(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+};
+
+interface Placement {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+/**
+ * Best normalised cross-correlation of a template over a window of offsets in the reference.
+ * `stride` samples every n-th template pixel in each direction to bound the cost.
+ */
+const matchTemplate = (
+  reference: GrayImage,
+  template: GrayImage,
+  xRange: [number, number],
+  yRange: [number, number],
+  stride: number
+): Placement | null => {
+  const samples: number[] = [];
+  for (let y = 0; y < template.height; y += stride) {
+    for (let x = 0; x < template.width; x += stride) samples.push(y * template.width + x);
+  }
+  const n = samples.length;
+  let mean = 0;
+  for (const i of samples) mean += template.data[i];
+  mean /= n;
+  const centred = new Float32Array(n);
+  const offsets = new Int32Array(n);
+  let templateEnergy = 0;
+  samples.forEach((i, k) => {
+    centred[k] = template.data[i] - mean;
+    templateEnergy += centred[k] * centred[k];
+    offsets[k] = Math.floor(i / template.width) * reference.width + (i % template.width);
+  });
+  // A flat template correlates with nothing
+  if (templateEnergy < n) return null;
+
+  let best: Placement | null = null;
+  const xMax = Math.min(xRange[1], reference.width - template.width);
+  const yMax = Math.min(yRange[1], reference.height - template.height);
+  for (let oy = Math.max(0, yRange[0]); oy <= yMax; oy++) {
+    for (let ox = Math.max(0, xRange[0]); ox <= xMax; ox++) {
+      const base = oy * reference.width + ox;
+      let sum = 0;
+      let sumSq = 0;
+      let dot = 0;
+      for (let k = 0; k < n; k++) {
+        const r = reference.data[base + offsets[k]];
+        sum += r;
+        sumSq += r * r;
+        dot += centred[k] * r;
+      }
+      const variance = sumSq - (sum * sum) / n;
+      if (variance <= 0) continue;
+      const score = dot / Math.sqrt(variance * templateEnergy);
+      if (!best || score > best.score) {
+        best = { x: ox, y: oy, width: template.width, height: template.height, score };
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Finds the part of the reference that the suspect shows. Both images should already be
+ * downscaled to at most ALIGNMENT_MAX_DIMENSION.
+ */
+export const estimateAlignment = (reference: GrayImage, suspect: GrayImage): AlignmentEstimate => {
+  const unaligned: AlignmentEstimate = { referenceRegion: { x: 0, y: 0, width: 1, height: 1 }, score: 0, aligned: false };
+
+  // Coarse pass: every scale and every offset on small images
+  const coarse = fitWithin(reference, COARSE_MAX_DIMENSION);
+  const fit = Math.min(coarse.width / suspect.width, coarse.height / suspect.height);
+  let best: (Placement & { scale: number }) | null = null;
+  for (let scale = fit; scale >= fit * MIN_COVERAGE; scale *= COARSE_SCALE_STEP) {
+    const width = Math.min(coarse.width, Math.round(suspect.width * scale));
+    const height = Math.min(coarse.height, Math.round(suspect.height * scale));
+    if (width < 8 || height < 8) break;
+    const match = matchTemplate(coarse, resampleGray(suspect, width, height), [0, coarse.width], [0, coarse.height], 1);
+    if (match && (!best || match.score > best.score)) best = { ...match, scale };
+  }
+  if (!best) return unaligned;
+
+  // Fine pass: nearby scales and offsets at full alignment resolution
+  const ratio = reference.width / coarse.width;
+  const radius = Math.ceil(ratio) + 2;
+  let fine: Placement | null = null;
+  for (let step = 0; step < FINE_SCALE_STEPS; step++) {
+    const factor = 1 - FINE_SCALE_RANGE + (2 * FINE_SCALE_RANGE * step) / (FINE_SCALE_STEPS - 1);
+    const scale = best.scale * ratio * factor;
+    const width = Math.min(reference.width, Math.round(suspect.width * scale));
+    const height = Math.min(reference.height, Math.round(suspect.height * scale));
+    if (width < 8 || height < 8) continue;
+    const cx = Math.round(best.x * ratio + (best.width * ratio - width) / 2);
+    const cy = Math.round(best.y * ratio + (best.height * ratio - height) / 2);
+    const match = matchTemplate(reference, resampleGray(suspect, width, height), [cx - radius, cx + radius], [cy - radius, cy + radius], 2);
+    if (match && (!fine || match.score > fine.score)) fine = match;
+  }
+  if (!fine || fine.score < MIN_ALIGNMENT_SCORE) return { ...unaligned, score: fine?.score ?? best.score };
+
+  return {
+    referenceRegion: {
+      x: fine.x / reference.width,
+      y: fine.y / reference.height,
+      width: fine.width / reference.width,
+      height: fine.height / reference.height,
+    },
+    score: fine.score,
+    aligned: true,
+  };
+};
+
+/**
+ * Box blur through a summed-area table.
+ */
+const boxBlur = (values: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += values[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + row;
+    }
+  }
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - radius);
+    const y1 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - radius);
+      const x1 = Math.min(width, x + radius + 1);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      out[y * width + x] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+};
+
+/**
+ * Maps 0-1 to a transparent → amber → red ramp.
+ */
+const colourise = (t: number, out: Uint8ClampedArray, offset: number) => {
+  out[offset] = 255;
+  out[offset + 1] = Math.round(200 * (1 - t));
+  out[offset + 2] = 0;
+  out[offset + 3] = t < 0.15 ? 0 : Math.min(255, t * 300);
+};
+
+/**
+ * Per-pixel difference of two aligned RGBA images of the same size, as a heatmap and as
+ * bounding boxes around connected areas of change.
+ */
+export const diffAlignedImages = (
+  reference: Uint8ClampedArray | Uint8Array,
+  suspect: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number
+): DifferenceMap => {
+  const pixelCount = width * height;
+  const raw = new Float32Array(pixelCount);
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    raw[p] = Math.max(
+      Math.abs(reference[i] - suspect[i]),
+      Math.abs(reference[i + 1] - suspect[i + 1]),
+      Math.abs(reference[i + 2] - suspect[i + 2])
+    );
+  }
+  const difference = boxBlur(raw, width, height, BLUR_RADIUS);
+
+  const heatmap = new Uint8ClampedArray(pixelCount * 4);
+  const columns = Math.ceil(width / CELL);
+  const rows = Math.ceil(height / CELL);
+  const cellChanged = new Uint32Array(columns * rows);
+  let changed = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      colourise(Math.min(1, difference[p] / HEATMAP_SATURATION), heatmap, p * 4);
+      if (difference[p] >= CHANGE_THRESHOLD) {
+        changed++;
+        cellChanged[Math.floor(y / CELL) * columns + Math.floor(x / CELL)]++;
+      }
+    }
+  }
+
+  const isChanged = (cx: number, cy: number) => {
+    const cellWidth = Math.min(CELL, width - cx * CELL);
+    const cellHeight = Math.min(CELL, height - cy * CELL);
+    return cellChanged[cy * columns + cx] >= cellWidth * cellHeight * MIN_CELL_CHANGED;
+  };
+
+  // 8-connected flood fill over changed cells
+  const visited = new Uint8Array(columns * rows);
+  const components: { box: ImageRegion; cells: number }[] = [];
+  for (let start = 0; start < columns * rows; start++) {
+    if (visited[start] || !isChanged(start % columns, Math.floor(start / columns))) continue;
+    visited[start] = 1;
+    const stack = [start];
+    let minX = columns, minY = rows, maxX = 0, maxY = 0, cells = 0;
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const cx = cell % columns;
+      const cy = Math.floor(cell / columns);
+      cells++;
+      minX = Math.min(minX, cx); maxX = Math.max(maxX, cx);
+      minY = Math.min(minY, cy); maxY = Math.max(maxY, cy);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = cx + dx;
+          const ny = cy + dy;
+          if (nx < 0 || ny < 0 || nx >= columns || ny >= rows) continue;
+          const next = ny * columns + nx;
+          if (visited[next] || !isChanged(nx, ny)) continue;
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+    const x0 = minX * CELL;
+    const y0 = minY * CELL;
+    components.push({
+      box: {
+        x: x0 / width,
+        y: y0 / height,
+        width: (Math.min(width, (maxX + 1) * CELL) - x0) / width,
+        height: (Math.min(height, (maxY + 1) * CELL) - y0) / height,
+      },
+      cells,
+    });
+  }
+
+  return {
+    heatmap,
+    changedRegions: components
+      .sort((a, b) => b.cells - a.cells)
+      .slice(0, MAX_REGIONS)
+      .map((c) => c.box),
+    changedFraction: changed / pixelCount,
+  };
+};
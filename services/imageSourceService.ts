@@ -0,0 +1,45 @@
+import { ImageSource } from "../types";
+
+/**
+ * Identifies an image format from its leading bytes, for sources without a trustworthy MIME
+ * type such as files read from disk.
+ */
+export const sniffImageMimeType = (bytes: Uint8Array): string | null => {
+  const ascii = (start: number, end: number) => String.fromCharCode(...bytes.subarray(start, end));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 4) === "GIF8") return "image/gif";
+  if (ascii(0, 4) === "II*\0" || ascii(0, 4) === "MM\0*") return "image/tiff";
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "heim", "heis", "hevc", "hevx"].includes(brand)) return "image/heic";
+    if (brand === "mif1" || brand === "msf1") return "image/heif";
+  }
+  return null;
+};
+
+/**
+ * Reads a Blob or File into an ImageSource. The declared type wins; an empty one is sniffed.
+ * A File's modification time is kept for the timestamp analysis.
+ */
+export const imageSourceFromBlob = async (blob: Blob, name = (blob as File).name ?? "image"): Promise<ImageSource> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const { lastModified } = blob as Partial<File>;
+  return { name, mimeType: blob.type || sniffImageMimeType(bytes) || "application/octet-stream", bytes, ...(lastModified !== undefined && { lastModified }) };
+};
+
+/**
+ * Base64 without the browser's FileReader, in chunks so large images do not overflow the
+ * argument limit of String.fromCharCode.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const imageSourceToDataUrl = (image: ImageSource): string => `data:${image.mimeType};base64,${bytesToBase64(image.bytes)}`;
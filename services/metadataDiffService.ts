@@ -0,0 +1,90 @@
+import { MetadataDiffEntry, MetadataReport } from "../types";
+import { formatExifValue } from "./exifService";
+
+const SECTION_ORDER = ["File", "EXIF", "XMP", "C2PA", "Generator", "Text", "Compression"];
+
+type FlatMetadata = Map<string, { section: string; field: string; value: string }>;
+
+/**
+ * Flattens a metadata report into section/field/value rows so two reports can be compared
+ * field by field. Repeated structures (XMP history, C2PA actions) are keyed by position.
+ */
+const flattenMetadata = (report: MetadataReport): FlatMetadata => {
+  const rows: FlatMetadata = new Map();
+  const add = (section: string, field: string, value: unknown) => {
+    if (value === undefined || value === null || value === "") return;
+    rows.set(`${section}\u0000${field}`, { section, field, value: String(value) });
+  };
+
+  add("File", "Container", report.format);
+
+  report.exif?.entries.forEach((entry) => add("EXIF", `${entry.ifd}.${entry.name}`, formatExifValue(entry)));
+
+  if (report.xmp) {
+    report.xmp.properties.forEach((p) => add("XMP", p.name, p.value));
+    report.xmp.history.forEach((event, i) =>
+      add("XMP", `History[${i + 1}]`, [event.action, event.softwareAgent, event.when].filter(Boolean).join(" · "))
+    );
+  }
+
+  if (report.c2pa) {
+    const { c2pa } = report;
+    add("C2PA", "Signature", c2pa.signatureStatus);
+    add("C2PA", "Hash binding", c2pa.hashBinding);
+    add("C2PA", "Signer", c2pa.signer?.subject);
+    add("C2PA", "Claim generator", c2pa.activeManifest?.claimGenerator);
+    add("C2PA", "Manifests", c2pa.manifests.length);
+    add("C2PA", "Declares AI generation", c2pa.aiGenerated ? "yes" : "no");
+    c2pa.activeManifest?.actions.forEach((action, i) =>
+      add("C2PA", `Action[${i + 1}]`, [action.action, action.softwareAgent].filter(Boolean).join(" · "))
+    );
+  }
+
+  if (report.generator) {
+    add("Generator", "Generator", report.generator.generator);
+    add("Generator", "Prompt", report.generator.prompt);
+    add("Generator", "Negative prompt", report.generator.negativePrompt);
+    report.generator.settings.forEach((s) => add("Generator", s.name, s.value));
+  }
+  report.textChunks.forEach((chunk) => add("Text", `${chunk.chunk} ${chunk.keyword}`, chunk.text));
+
+  if (report.compression) {
+    const { compression } = report;
+    add("Compression", "Dimensions", `${compression.width}×${compression.height}`);
+    add("Compression", "Frame", compression.frameType);
+    add("Compression", "Subsampling", compression.subsampling);
+    add("Compression", "Estimated quality", compression.estimatedQuality);
+    add("Compression", "Markers", compression.markers.join(", "));
+    add("Compression", "Table match", compression.matches.map((m) => m.label).join(", "));
+    add("Compression", "Re-save likelihood", `${Math.round(compression.resaveLikelihood * 100)}%`);
+  }
+
+  return rows;
+};
+
+/**
+ * Compares the metadata of a reference original and a suspected edit. Every field present in
+ * either report yields one entry; within a section, the reference's fields come first.
+ */
+export const diffMetadata = (reference: MetadataReport, suspect: MetadataReport): MetadataDiffEntry[] => {
+  const before = flattenMetadata(reference);
+  const after = flattenMetadata(suspect);
+  const entries: MetadataDiffEntry[] = [];
+
+  before.forEach((row, key) => {
+    const other = after.get(key);
+    entries.push({
+      section: row.section,
+      field: row.field,
+      reference: row.value,
+      suspect: other?.value ?? null,
+      status: !other ? "removed" : other.value === row.value ? "unchanged" : "changed",
+    });
+  });
+  after.forEach((row, key) => {
+    if (before.has(key)) return;
+    entries.push({ section: row.section, field: row.field, reference: null, suspect: row.value, status: "added" });
+  });
+
+  return entries.sort((a, b) => SECTION_ORDER.indexOf(a.section) - SECTION_ORDER.indexOf(b.section));
+};
@@ -1,141 +1,70 @@
-/**
- * Parses a JPEG file to extract EXIF Make and Model information.
- * This is a lightweight implementation to avoid heavy external dependencies for basic metadata.
- */
-export const getExifDeviceData = async (file: File): Promise<string | null> => {
-  // Only process JPEG images for EXIF
-  if (file.type !== 'image/jpeg' && file.type !== 'image/jpg') {
-    return null;
-  }
-
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    
-    // Read the first 64KB, which is usually enough for the header
-    reader.onload = (e) => {
-      try {
-        const buffer = e.target?.result as ArrayBuffer;
-        const view = new DataView(buffer);
-        
-        // Check for JPEG SOI marker (FF D8)
-        if (view.getUint16(0, false) !== 0xFFD8) {
-          resolve(null);
-          return;
-        }
-
-        const length = view.byteLength;
-        let offset = 2;
+import { C2paReport, EmbeddedText, MetadataReport } from "../types";
+import { parseTiff } from "./exifService";
+import { parseXmp } from "./xmpService";
+import { readC2paManifestStore } from "./c2paService";
+import { readContainer } from "./containerService";
+import { detectGenerator } from "./generatorService";
+import { analyzeCompression } from "./compressionService";
 
-        while (offset < length) {
-          // Check for valid marker start
-          if (view.getUint8(offset) !== 0xFF) break;
+const emptyReport = (): MetadataReport => ({
+  format: "unknown",
+  exif: null,
+  xmp: null,
+  c2pa: null,
+  textChunks: [],
+  generator: null,
+  compression: null,
+});
 
-          const marker = view.getUint8(offset + 1);
-
-          // APP1 Marker (FF E1) contains Exif data
-          if (marker === 0xE1) {
-            const chunkLength = view.getUint16(offset + 2, false);
-            // Check for "Exif" identifier (0x45786966) plus two null bytes
-            if (view.getUint32(offset + 4, false) === 0x45786966) {
-              const result = parseExifChunk(view, offset + 10);
-              resolve(result);
-              return;
-            }
-            // Move to next marker
-            offset += 2 + chunkLength;
-          } 
-          // SOS (Start of Scan) - image data follows, stop parsing
-          else if (marker === 0xDA) {
-            break;
-          } 
-          // Skip other markers with length
-          else {
-            const chunkLength = view.getUint16(offset + 2, false);
-            offset += 2 + chunkLength;
-          }
-        }
-        resolve(null);
-      } catch (err) {
-        console.warn("Failed to parse EXIF data:", err);
-        resolve(null);
-      }
-    };
-
-    reader.onerror = () => resolve(null);
-    reader.readAsArrayBuffer(file.slice(0, 65536));
-  });
+/**
+ * Reads a Blob or File and returns its metadata; see extractMetadataFromBytes.
+ */
+export const extractMetadata = async (file: Blob, trustList = ""): Promise<MetadataReport> => {
+  const buffer = await file.arrayBuffer().catch(() => null);
+  if (!buffer) return emptyReport();
+  return extractMetadataFromBytes(new Uint8Array(buffer), trustList);
 };
 
-function parseExifChunk(view: DataView, tiffStart: number): string | null {
+/**
+ * Parses an image (JPEG, PNG, WebP, HEIC/AVIF or TIFF) and returns the structured
+ * EXIF, XMP, C2PA and embedded text metadata it carries, plus a JPEG compression history.
+ * This is a lightweight implementation to avoid heavy external dependencies for metadata.
+ * `trustList` is a PEM bundle of signing certificates used to validate C2PA signatures.
+ */
+export const extractMetadataFromBytes = async (bytes: Uint8Array, trustList = ""): Promise<MetadataReport> => {
   try {
-    // Check Byte Order
-    const byteOrder = view.getUint16(tiffStart, false);
-    const littleEndian = byteOrder === 0x4949; // 'II'
-
-    // Check 42 (0x002A)
-    if (view.getUint16(tiffStart + 2, littleEndian) !== 0x002A) return null;
-
-    // Offset to 0th IFD
-    const firstIFDOffset = view.getUint32(tiffStart + 4, littleEndian);
-    if (firstIFDOffset < 0x00000008) return null;
-
-    const dirStart = tiffStart + firstIFDOffset;
-    const entries = view.getUint16(dirStart, littleEndian);
+    // The parsers address the whole buffer, so a view into a larger one is copied out first
+    const fileBytes = bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength ? bytes : bytes.slice();
+    const view = new DataView(fileBytes.buffer);
+    const payloads = await readContainer(view);
 
-    let make = "";
-    let model = "";
+    const exif = payloads.tiff ? parseTiff(payloads.tiff, 0) : null;
+    const xmp = payloads.xmp ? parseXmp(payloads.xmp, payloads.extendedXmp) : null;
 
-    for (let i = 0; i < entries; i++) {
-      const entryOffset = dirStart + 2 + (i * 12);
-      const tag = view.getUint16(entryOffset, littleEndian);
-      
-      // Tag 0x010F: Make
-      if (tag === 0x010F) {
-        make = getStringFromEntry(view, entryOffset, tiffStart, littleEndian);
-      }
-      // Tag 0x0110: Model
-      else if (tag === 0x0110) {
-        model = getStringFromEntry(view, entryOffset, tiffStart, littleEndian);
-      }
+    let c2pa: C2paReport | null = null;
+    for (const store of payloads.jumbf) {
+      c2pa = await readC2paManifestStore(store, fileBytes, payloads.jumbfSource, trustList);
+      if (c2pa) break;
     }
 
-    if (make || model) {
-      // Clean up string: some cameras duplicate Make in Model (e.g. "Canon" "Canon EOS...")
-      const cleanMake = make.trim();
-      const cleanModel = model.trim();
-      
-      if (cleanModel.startsWith(cleanMake)) {
-        return cleanModel;
-      }
-      return `${cleanMake} ${cleanModel}`.trim();
+    // A1111 writes its generation parameters to the EXIF UserComment of JPEG and WebP output
+    const textChunks: EmbeddedText[] = [...payloads.textChunks];
+    const userComment = exif?.entries.find((e) => e.name === "UserComment")?.value;
+    if (typeof userComment === "string" && userComment.length > 0) {
+      textChunks.push({ keyword: "UserComment", text: userComment, chunk: "EXIF UserComment" });
     }
-    return null;
-  } catch (e) {
-    return null;
-  }
-}
-
-function getStringFromEntry(view: DataView, entryOffset: number, tiffStart: number, littleEndian: boolean): string {
-  const type = view.getUint16(entryOffset + 2, littleEndian);
-  const count = view.getUint32(entryOffset + 4, littleEndian);
-  
-  // ASCII string is type 2
-  if (type !== 2) return "";
 
-  // If data fits in 4 bytes, it's stored directly in the value offset field
-  // Otherwise it's an offset to the data
-  const valueOffset = view.getUint32(entryOffset + 8, littleEndian);
-  
-  let offset = (count <= 4) ? (entryOffset + 8) : (tiffStart + valueOffset);
-  
-  let str = "";
-  for (let i = 0; i < count; i++) {
-    // Bounds check
-    if (offset + i >= view.byteLength) break;
-    
-    const charCode = view.getUint8(offset + i);
-    if (charCode === 0) break; // null terminator
-    str += String.fromCharCode(charCode);
+    return {
+      format: payloads.format,
+      exif,
+      xmp,
+      c2pa,
+      textChunks,
+      generator: detectGenerator(textChunks),
+      compression: payloads.format === "jpeg" ? analyzeCompression(view, exif) : null,
+    };
+  } catch (err) {
+    console.warn("Failed to parse metadata:", err);
+    return emptyReport();
   }
-  return str;
-}
+};
@@ -0,0 +1,122 @@
+import { AnalysisProvider, AnalysisResult, AnalyzeCallOptions, ChatMessage, ChatReply, ComparisonAnalysis, ImageSource, ProviderCapabilities, ProviderConfig, ToolCatalogEntry } from "../types";
+import {
+  COMPARISON_FORMAT_INSTRUCTIONS,
+  COMPARISON_PROMPT,
+  buildAnalysisPrompt,
+  buildChatTurns,
+  buildCorrectionNote,
+  buildResponseFormatInstructions,
+  parseAnalysisJson,
+  parseChatReply,
+  parseComparisonJson,
+} from "./analysisPrompt";
+import { imageSourceToDataUrl } from "./imageSourceService";
+import { InvalidResponseError, SafetyBlockError, toAnalysisError } from "./analysisErrors";
+
+export const OPENAI_COMPATIBLE_DEFAULT_BASE_URL = "http://localhost:11434/v1";
+export const OPENAI_COMPATIBLE_DEFAULT_MODEL = "llava";
+
+export const OPENAI_COMPATIBLE_CAPABILITIES: ProviderCapabilities = {
+  structuredOutput: false,
+  requiresApiKey: false,
+  runsLocally: true,
+  // The formats OpenAI documents for image input; most self-hosted servers decode at least these
+  acceptedMimeTypes: ["image/png", "image/jpeg", "image/webp", "image/gif"],
+};
+
+/**
+ * Provider for any server speaking the OpenAI Chat Completions API with image input:
+ * Ollama, vLLM, LM Studio, llama.cpp server or OpenAI itself.
+ * Intended for self-hosted vision models so sensitive images never leave the network.
+ */
+export const createOpenAiCompatibleProvider = (config: ProviderConfig): AnalysisProvider => {
+  const baseUrl = (config.baseUrl || OPENAI_COMPATIBLE_DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const model = config.model || OPENAI_COMPATIBLE_DEFAULT_MODEL;
+
+  /**
+   * Sends a conversation, with the images attached to its first message, and returns the reply
+   * text. `json` asks the server for a JSON object rather than prose; `signal` closes the request.
+   */
+  const send = async (turns: { role: "user" | "assistant"; text: string }[], images: ImageSource[], json: boolean, signal?: AbortSignal): Promise<string> => {
+    const imageUrls = images.map(imageSourceToDataUrl);
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) headers["Authorization"] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        ...(json && { response_format: { type: "json_object" } }),
+        messages: turns.map((turn, index) => ({
+          role: turn.role,
+          content: index === 0
+            ? [{ type: "text", text: turn.text }, ...imageUrls.map((url) => ({ type: "image_url", image_url: { url } }))]
+            : turn.text,
+        })),
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      // The status travels on the error so toAnalysisError can classify it
+      throw Object.assign(new Error(`${baseUrl} returned HTTP ${response.status}${detail ? `: ${detail.slice(0, 300)}` : ""}`), {
+        status: response.status,
+      });
+    }
+
+    const body = await response.json().catch((e) => {
+      throw new InvalidResponseError(`${baseUrl} did not return JSON.`, { cause: e });
+    });
+    const choice = body?.choices?.[0];
+    if (choice?.finish_reason === "content_filter" || choice?.message?.refusal) {
+      throw new SafetyBlockError(`${model} refused the request${choice.message?.refusal ? `: ${choice.message.refusal}` : "."}`);
+    }
+    const text: string | undefined = choice?.message?.content;
+    if (!text) {
+      throw new InvalidResponseError(`No response received from ${model}.`);
+    }
+    return text;
+  };
+
+  /**
+   * Sends one user message with a text prompt and images, and returns the reply text.
+   */
+  const complete = (prompt: string, images: ImageSource[], signal?: AbortSignal): Promise<string> =>
+    send([{ role: "user", text: prompt }], images, true, signal);
+
+  return {
+    id: "openai-compatible",
+    label: "OpenAI-compatible / Ollama",
+    capabilities: OPENAI_COMPATIBLE_CAPABILITIES,
+    config,
+    analyze: async (image: ImageSource, tools: ToolCatalogEntry[], { correction, promptVariant, signal }: AnalyzeCallOptions = {}): Promise<AnalysisResult> => {
+      try {
+        const prompt = buildAnalysisPrompt(tools, promptVariant) + buildResponseFormatInstructions(tools) + (correction ? buildCorrectionNote(correction) : "");
+        return parseAnalysisJson(await complete(prompt, [image], signal));
+      } catch (error) {
+        console.error("Error analyzing image:", error);
+        throw toAnalysisError(error, baseUrl);
+      }
+    },
+    compare: async (reference: ImageSource, suspect: ImageSource, signal?: AbortSignal): Promise<ComparisonAnalysis> => {
+      try {
+        return parseComparisonJson(await complete(COMPARISON_PROMPT + COMPARISON_FORMAT_INSTRUCTIONS, [reference, suspect], signal));
+      } catch (error) {
+        console.error("Error comparing images:", error);
+        throw toAnalysisError(error, baseUrl);
+      }
+    },
+    chat: async (image: ImageSource, tools: ToolCatalogEntry[], prior: AnalysisResult, history: ChatMessage[], question: ChatMessage, rescore: boolean, signal?: AbortSignal): Promise<ChatReply> => {
+      try {
+        return parseChatReply(await send(buildChatTurns(tools, prior, history, question, rescore), [image], rescore, signal), rescore);
+      } catch (error) {
+        console.error("Error answering follow-up question:", error);
+        throw toAnalysisError(error, baseUrl);
+      }
+    },
+  };
+};
@@ -0,0 +1,158 @@
+import { HashDistances, PerceptualHashes, SimilarityKind } from "../types";
+import { GrayImage, resampleGray } from "./imageAlignment";
+
+/**
+ * Perceptual hashes: 64-bit fingerprints of an image's appearance that survive resizing,
+ * re-encoding and mild colour changes, so near-duplicates differ in only a few bits.
+ *
+ * aHash compares 8x8 block means with their mean, dHash compares horizontal neighbours, and
+ * pHash compares the lowest 8x8 DCT frequencies with their median. For crops, pHashes are also
+ * taken of sub-windows of several widths and heights on a grid of positions: a crop of an earlier image lands close to
+ * one of that image's windows. Pure functions over greyscale pixels so they can run in a
+ * worker or from Node.
+ */
+
+// Bump whenever the hashes change, so stored ones are recomputed rather than compared
+export const PERCEPTUAL_HASH_VERSION = 1;
+
+// Longest side of the greyscale image hashes are computed from
+export const HASH_MAX_DIMENSION = 256;
+
+const DCT_SIZE = 32;
+const HASH_SIZE = 8;
+
+// Sub-window widths and heights, as fractions of the image's, for the crop hashes; crops
+// rarely keep the aspect ratio, so every width is combined with every height
+const CROP_SCALES = [1, 0.9, 0.8, 0.7, 0.6];
+// Sub-windows are placed this far apart, as a fraction of the image's width or height
+const CROP_STEP = 0.1;
+
+// Cosine table for the low DCT frequencies: COS[u][x] = cos((2x + 1) u pi / 2N)
+const COS = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Float64Array.from({ length: DCT_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * DCT_SIZE)))
+);
+
+/**
+ * Packs 64 bits, most significant first, into 16 hex digits.
+ */
+const toHex = (bits: boolean[]): string => {
+  let hex = "";
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((Number(bits[i]) << 3) | (Number(bits[i + 1]) << 2) | (Number(bits[i + 2]) << 1) | Number(bits[i + 3])).toString(16);
+  }
+  return hex;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const averageHash = (image: GrayImage): string => {
+  const { data } = resampleGray(image, HASH_SIZE, HASH_SIZE);
+  const mean = data.reduce((sum, value) => sum + value, 0) / data.length;
+  return toHex(Array.from(data, (value) => value > mean));
+};
+
+const differenceHash = (image: GrayImage): string => {
+  const { data } = resampleGray(image, HASH_SIZE + 1, HASH_SIZE);
+  const bits: boolean[] = [];
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x++) bits.push(data[y * (HASH_SIZE + 1) + x] < data[y * (HASH_SIZE + 1) + x + 1]);
+  }
+  return toHex(bits);
+};
+
+const dctHash = (image: GrayImage): string => {
+  const { data } = resampleGray(image, DCT_SIZE, DCT_SIZE);
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < DCT_SIZE; y++) {
+        let row = 0;
+        for (let x = 0; x < DCT_SIZE; x++) row += data[y * DCT_SIZE + x] * COS[u][x];
+        sum += row * COS[v][y];
+      }
+      coefficients.push(sum);
+    }
+  }
+  // The DC term only says how bright the image is, so it is left out of the median
+  const threshold = median(coefficients.slice(1));
+  return toHex(coefficients.map((value) => value > threshold));
+};
+
+const cropWindow = (image: GrayImage, x: number, y: number, width: number, height: number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    data.set(image.data.subarray((y + row) * image.width + x, (y + row) * image.width + x + width), row * width);
+  }
+  return { data, width, height };
+};
+
+/**
+ * Offsets, as fractions of the image's size, of the sub-windows of one size along one axis.
+ */
+const cropOffsets = (scale: number): number[] =>
+  Array.from({ length: Math.round((1 - scale) / CROP_STEP) + 1 }, (_, i) => i * CROP_STEP);
+
+/**
+ * pHashes of sub-windows of every size combination except the whole image, each size slid
+ * across the image in CROP_STEP increments.
+ */
+const cropHashes = (image: GrayImage): string[] =>
+  CROP_SCALES.flatMap((scaleY) =>
+    CROP_SCALES.filter((scaleX) => scaleX < 1 || scaleY < 1).flatMap((scaleX) => {
+      const width = Math.max(1, Math.round(image.width * scaleX));
+      const height = Math.max(1, Math.round(image.height * scaleY));
+      return cropOffsets(scaleY).flatMap((fy) =>
+        cropOffsets(scaleX).map((fx) =>
+          dctHash(cropWindow(image, Math.min(image.width - width, Math.round(fx * image.width)), Math.min(image.height - height, Math.round(fy * image.height)), width, height))
+        )
+      );
+    })
+  );
+
+/**
+ * Computes every hash of a greyscale image, ideally no larger than HASH_MAX_DIMENSION.
+ */
+export const computePerceptualHashes = (image: GrayImage): PerceptualHashes => ({
+  version: PERCEPTUAL_HASH_VERSION,
+  aHash: averageHash(image),
+  dHash: differenceHash(image),
+  pHash: dctHash(image),
+  cropHashes: cropHashes(image),
+});
+
+/**
+ * Number of differing bits between two hex hashes of equal length.
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let nibble = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; nibble; nibble &= nibble - 1) distance++;
+  }
+  return distance;
+};
+
+/**
+ * How close a candidate is to the query. The whole-image distance is the rounded mean of the
+ * three hash distances; the crop distance is the closest pHash between one image and a
+ * sub-window of the other. The match is made on whichever is smaller.
+ */
+export const compareHashes = (query: PerceptualHashes, candidate: PerceptualHashes): { kind: SimilarityKind; distance: number; distances: HashDistances } => {
+  const aHash = hammingDistance(query.aHash, candidate.aHash);
+  const dHash = hammingDistance(query.dHash, candidate.dHash);
+  const pHash = hammingDistance(query.pHash, candidate.pHash);
+  const whole = Math.round((aHash + dHash + pHash) / 3);
+  // The query is a crop of the candidate, or the candidate a crop of the query
+  const cropOf = Math.min(...candidate.cropHashes.map((hash) => hammingDistance(query.pHash, hash)));
+  const contains = Math.min(...query.cropHashes.map((hash) => hammingDistance(hash, candidate.pHash)));
+  const crop = Math.min(cropOf, contains);
+  const distances = { aHash, dHash, pHash, crop };
+
+  if (whole <= crop) return { kind: whole === 0 ? "identical" : "near-duplicate", distance: whole, distances };
+  return { kind: cropOf <= contains ? "crop-of-earlier" : "contains-earlier", distance: crop, distances };
+};
@@ -0,0 +1,35 @@
+import { PerceptualHashes } from "../types";
+import type { PerceptualHashRequest } from "../workers/perceptualHashWorker";
+import { runWorkerTask } from "./workerService";
+import { displayableImage } from "./rawPreviewService";
+
+const SIMILARITY_THRESHOLD_STORAGE_KEY = "photo-detective:similarity-threshold";
+
+// Hamming distance out of 64 within which an earlier image is listed as similar; unrelated
+// images rarely come closer than 20
+export const DEFAULT_SIMILARITY_THRESHOLD = 10;
+export const MAX_SIMILARITY_THRESHOLD = 16;
+
+/**
+ * Computes an image's perceptual hashes in a Web Worker. RAW files are hashed from their
+ * embedded preview.
+ */
+export const computeImageHashes = async (file: Blob, signal?: AbortSignal): Promise<PerceptualHashes> => {
+  const image = await displayableImage(file);
+  return runWorkerTask<PerceptualHashRequest, PerceptualHashes>(
+    () => new Worker(new URL("../workers/perceptualHashWorker.ts", import.meta.url), { type: "module" }),
+    { file: image },
+    "Perceptual hashing",
+    signal
+  );
+};
+
+export const loadSimilarityThreshold = (): number => {
+  const stored = localStorage.getItem(SIMILARITY_THRESHOLD_STORAGE_KEY);
+  const threshold = stored === null ? NaN : Number(stored);
+  return Number.isInteger(threshold) && threshold >= 0 && threshold <= MAX_SIMILARITY_THRESHOLD ? threshold : DEFAULT_SIMILARITY_THRESHOLD;
+};
+
+export const saveSimilarityThreshold = (threshold: number): void => {
+  localStorage.setItem(SIMILARITY_THRESHOLD_STORAGE_KEY, String(threshold));
+};
@@ -0,0 +1,304 @@
+import { PreparedUpload, PrivacyPolicy, SensitiveField, SensitiveFieldCategory } from "../types";
+import { UnsupportedImageError } from "./analysisErrors";
+import { detectContainer, readContainer, readJpegSegments } from "./containerService";
+import { parseTiff } from "./exifService";
+import { parseXmp } from "./xmpService";
+
+const PRIVACY_POLICY_STORAGE_KEY = "photo-detective:privacy-policy";
+
+export const DEFAULT_PRIVACY_POLICY: PrivacyPolicy = "ask";
+
+export const PRIVACY_POLICY_LABELS: Record<PrivacyPolicy, string> = {
+  strip: "Always strip",
+  ask: "Ask when sensitive",
+  send: "Send as-is",
+};
+
+// Longest value shown for a field; the point is to recognise it, not to read it in full
+const MAX_VALUE_LENGTH = 60;
+
+const EXIF_FIELDS: Record<string, SensitiveFieldCategory> = {
+  Artist: "identity",
+  Copyright: "identity",
+  CameraOwnerName: "identity",
+  BodySerialNumber: "device",
+  LensSerialNumber: "device",
+  ImageUniqueID: "device",
+  ImageDescription: "content",
+  UserComment: "content",
+};
+
+// XMP properties by local name, whatever prefix the file gives their namespace
+const XMP_FIELDS: Record<string, SensitiveFieldCategory> = {
+  GPSLatitude: "location",
+  GPSLongitude: "location",
+  GPSAltitude: "location",
+  City: "location",
+  State: "location",
+  Country: "location",
+  CountryCode: "location",
+  Location: "location",
+  Sublocation: "location",
+  creator: "identity",
+  rights: "identity",
+  Owner: "identity",
+  OwnerName: "identity",
+  CameraOwnerName: "identity",
+  AuthorsPosition: "identity",
+  CaptionWriter: "identity",
+  Credit: "identity",
+  CreatorContactInfo: "identity",
+  SerialNumber: "device",
+  BodySerialNumber: "device",
+  LensSerialNumber: "device",
+  InternalSerialNumber: "device",
+  ImageUniqueID: "device",
+  description: "content",
+  UserComment: "content",
+  Instructions: "content",
+};
+
+const CATEGORY_ORDER: SensitiveFieldCategory[] = ["location", "identity", "device", "content"];
+
+// JPEG segments that carry metadata rather than image data; APP0 (JFIF), APP2 (ICC profile)
+// and APP14 (Adobe colour transform) are needed to decode the image correctly and are kept
+const JPEG_METADATA_MARKERS = new Set([0xE1, 0xEB, 0xED, 0xFE]);
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME", "caBX"]);
+const WEBP_METADATA_CHUNKS = new Set(["EXIF", "XMP ", "C2PA"]);
+// VP8X flags announcing the EXIF and XMP chunks
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+export interface StrippedImage {
+  bytes: Uint8Array;
+  removed: string[];          // Labels of the blocks that were cut, in file order
+}
+
+const shorten = (value: string): string => {
+  const flat = value.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_VALUE_LENGTH ? `${flat.slice(0, MAX_VALUE_LENGTH - 1)}…` : flat;
+};
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/**
+ * Lists the metadata in an image that could identify where it was taken, who took or owns it,
+ * or which camera body took it. Only reads the container, so it is cheap enough to run on
+ * every upload.
+ */
+export const scanSensitiveMetadata = async (bytes: Uint8Array): Promise<SensitiveField[]> => {
+  // The container parsers address the whole buffer, so a view into a larger one is copied out first
+  const fileBytes = bytes.byteOffset === 0 && bytes.byteLength === bytes.buffer.byteLength ? bytes : bytes.slice();
+  const view = new DataView(fileBytes.buffer);
+  const payloads = await readContainer(view);
+  const exif = payloads.tiff ? parseTiff(payloads.tiff, 0) : null;
+  const xmp = payloads.xmp ? parseXmp(payloads.xmp, payloads.extendedXmp) : null;
+  const fields: SensitiveField[] = [];
+
+  if (exif) {
+    const gpsTags = exif.entries.filter((entry) => entry.ifd === "GPS" && entry.name !== "GPSVersionID");
+    if (exif.gps?.latitude !== undefined && exif.gps.longitude !== undefined) {
+      fields.push({ category: "location", source: "EXIF", name: "GPS position", value: `${exif.gps.latitude.toFixed(5)}, ${exif.gps.longitude.toFixed(5)}` });
+    } else if (gpsTags.length > 0) {
+      fields.push({ category: "location", source: "EXIF", name: "GPS tags", value: shorten(gpsTags.map((entry) => entry.name).join(", ")) });
+    }
+    for (const entry of exif.entries) {
+      const category = EXIF_FIELDS[entry.name];
+      if (category && typeof entry.value === "string" && entry.value.trim()) {
+        fields.push({ category, source: "EXIF", name: entry.name, value: shorten(entry.value) });
+      }
+    }
+    if (exif.hasMakerNote) {
+      fields.push({ category: "device", source: "EXIF", name: "MakerNote", value: "Manufacturer data; often holds serial numbers and owner names" });
+    }
+    if (exif.hasThumbnail) {
+      fields.push({ category: "content", source: "EXIF", name: "Thumbnail", value: "May show the picture before it was cropped or edited" });
+    }
+  }
+
+  for (const property of xmp?.properties ?? []) {
+    const category = XMP_FIELDS[property.name.slice(property.name.indexOf(":") + 1)];
+    if (category && property.value.trim()) fields.push({ category, source: "XMP", name: property.name, value: shorten(property.value) });
+  }
+
+  // Embedded text other than what EXIF already listed, such as PNG prompts and JPEG comments
+  for (const chunk of payloads.textChunks) {
+    if (!chunk.text.trim()) continue;
+    const category = /^(author|copyright|artist)$/i.test(chunk.keyword) ? "identity" : "content";
+    fields.push({ category, source: "TEXT", name: `${chunk.chunk} "${chunk.keyword}"`, value: shorten(chunk.text) });
+  }
+
+  if (payloads.format === "jpeg" && readJpegSegments(view).some((segment) => segment.marker === 0xED)) {
+    fields.push({ category: "identity", source: "IPTC", name: "IPTC / Photoshop block (APP13)", value: "May hold the author, caption, keywords and location" });
+  }
+  if (payloads.jumbf.length > 0) {
+    fields.push({ category: "identity", source: "C2PA", name: "Content Credentials manifest", value: "Names the signer and may record authors and edits" });
+  }
+
+  return fields.sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category));
+};
+
+const stripJpeg = (bytes: Uint8Array): StrippedImage | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments = readJpegSegments(view);
+  const scan = segments[segments.length - 1];
+  if (!scan || scan.marker !== 0xDA) return null;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  const removed: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    const start = segment.dataOffset - 4;
+    if (segment.marker === 0xE2 && ascii(bytes, segment.dataOffset, 4) === "MPF\0") {
+      // The MP index points at secondary images after EOI, which are dropped below
+      removed.push("APP2 (MPF)");
+    } else if (!JPEG_METADATA_MARKERS.has(segment.marker)) {
+      kept.push(bytes.subarray(start, segment.dataOffset + segment.dataLength));
+    } else if (segment.marker === 0xE1) {
+      const kind = ascii(bytes, segment.dataOffset, 6) === "Exif\0\0" ? "EXIF" : ascii(bytes, segment.dataOffset, 34) === "http://ns.adobe.com/xmp/extension/" ? "Extended XMP" : "XMP";
+      removed.push(`APP1 (${kind})`);
+    } else {
+      removed.push(segment.marker === 0xEB ? "APP11 (C2PA)" : segment.marker === 0xED ? "APP13 (IPTC)" : "COM");
+    }
+  }
+  // The scans are copied unchanged up to EOI. Entropy-coded data never holds FF D9 (an FF there is
+  // stuffed or a restart marker), so the first one is the end of the primary image. Anything after
+  // it (MPF secondary images, vendor trailers) can carry its own EXIF block and is dropped.
+  let end = bytes.length;
+  for (let i = scan.dataOffset; i + 1 < bytes.length; i++) {
+    if (bytes[i] === 0xFF && bytes[i + 1] === 0xD9) {
+      end = i + 2;
+      break;
+    }
+  }
+  if (end < bytes.length) removed.push("Data after EOI");
+  kept.push(bytes.subarray(scan.dataOffset - 4, end));
+  return { bytes: concat(kept), removed };
+};
+
+const stripPng = (bytes: Uint8Array): StrippedImage | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [bytes.subarray(0, 8)];
+  const removed: string[] = [];
+  for (let offset = 8; offset + 12 <= bytes.length; ) {
+    const end = offset + 12 + view.getUint32(offset, false);
+    if (end > bytes.length) return null;
+    const type = ascii(bytes, offset + 4, 4);
+    if (PNG_METADATA_CHUNKS.has(type)) {
+      // Text chunks start with a NUL-terminated keyword of at most 79 bytes
+      const keyword = type.endsWith("Xt") ? ascii(bytes, offset + 8, Math.min(79, end - offset - 12)).split("\0")[0] : "";
+      removed.push(keyword ? `${type} "${keyword}"` : type);
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === "IEND") break;
+  }
+  return { bytes: concat(kept), removed };
+};
+
+const stripWebp = (bytes: Uint8Array): StrippedImage | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [];
+  const removed: string[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size & 1);
+    if (offset + 8 + size > bytes.length) return null;
+    const type = ascii(bytes, offset, 4);
+    if (WEBP_METADATA_CHUNKS.has(type)) {
+      removed.push(type.trim());
+    } else if (type === "VP8X") {
+      const chunk = bytes.slice(offset, Math.min(end, bytes.length));
+      chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG);
+      kept.push(chunk);
+    } else {
+      kept.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+    }
+    offset = end;
+  }
+  const body = concat(kept);
+  const out = new Uint8Array(12 + body.length);
+  out.set(bytes.subarray(0, 12));
+  new DataView(out.buffer).setUint32(4, 4 + body.length, true);
+  out.set(body, 12);
+  return { bytes: out, removed };
+};
+
+/**
+ * Cuts the metadata blocks out of a JPEG (APP1 EXIF and XMP, APP2 MPF, APP11 C2PA, APP13 IPTC,
+ * COM, and anything after EOI), PNG (eXIf, text, tIME and caBX chunks) or WebP (EXIF, XMP and
+ * C2PA chunks) without touching the image data. Returns null for other formats and for files too
+ * damaged to walk.
+ */
+export const stripMetadata = (bytes: Uint8Array): StrippedImage | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (detectContainer(view)) {
+    case "jpeg": return stripJpeg(bytes);
+    case "png": return stripPng(bytes);
+    case "webp": return stripWebp(bytes);
+    default: return null;
+  }
+};
+
+/**
+ * Applies the privacy policy to a prepared upload. The payload is scanned for sensitive fields;
+ * "strip" removes its metadata blocks, "send" leaves it alone, and "ask" calls `confirmStrip`
+ * when something sensitive was found (true strips, false sends as-is, a rejection cancels).
+ * Without `confirmStrip`, "ask" strips. The stripped payload is scanned again, and anything
+ * sensitive left in it fails the upload rather than being sent. Metadata analysis is
+ * unaffected: it reads the original.
+ */
+export const guardUpload = async (
+  upload: PreparedUpload,
+  policy: PrivacyPolicy,
+  confirmStrip?: (fields: SensitiveField[]) => Promise<boolean>
+): Promise<PreparedUpload> => {
+  const sensitiveFields = await scanSensitiveMetadata(upload.image.bytes);
+  const strip = policy === "strip" || (policy === "ask" && sensitiveFields.length > 0 && (confirmStrip ? await confirmStrip(sensitiveFields) : true));
+  const stripped = strip ? stripMetadata(upload.image.bytes) : null;
+  if (strip && !stripped && sensitiveFields.length > 0) {
+    throw new UnsupportedImageError(
+      `Identifying metadata cannot be removed from ${upload.image.mimeType} files; convert the image to JPEG first, or set the privacy policy to send images as-is.`
+    );
+  }
+  const remaining = stripped && sensitiveFields.length > 0 ? await scanSensitiveMetadata(stripped.bytes) : [];
+  if (remaining.length > 0) {
+    throw new UnsupportedImageError(
+      `Could not remove ${remaining.map((field) => field.name).join(", ")} from ${upload.image.name}; convert the image to JPEG first, or set the privacy policy to send images as-is.`
+    );
+  }
+  if (!stripped || stripped.removed.length === 0) {
+    return { ...upload, info: { ...upload.info, privacy: { policy, sensitiveFields, stripped: false, removed: [] } } };
+  }
+
+  return {
+    image: { ...upload.image, bytes: stripped.bytes },
+    info: {
+      ...upload.info,
+      byteLength: stripped.bytes.length,
+      steps: [...upload.info.steps, `Removed metadata before sending: ${stripped.removed.join(", ")}`],
+      privacy: { policy, sensitiveFields, stripped: true, removed: stripped.removed },
+    },
+  };
+};
+
+export const loadPrivacyPolicy = (): PrivacyPolicy => {
+  const stored = localStorage.getItem(PRIVACY_POLICY_STORAGE_KEY);
+  return stored === "strip" || stored === "ask" || stored === "send" ? stored : DEFAULT_PRIVACY_POLICY;
+};
+
+export const savePrivacyPolicy = (policy: PrivacyPolicy): void => {
+  localStorage.setItem(PRIVACY_POLICY_STORAGE_KEY, policy);
+};
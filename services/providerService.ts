@@ -0,0 +1,133 @@
+import { AnalysisProvider, AnalysisResult, AnalysisRun, AnalyzeCallOptions, ImageSource, ProviderCapabilities, ProviderConfig, ProviderId, ToolCatalogEntry, UploadPayloadInfo } from "../types";
+import { PROMPT_VERSION } from "./analysisPrompt";
+import { InvalidResponseError } from "./analysisErrors";
+import { enabledTools, resolveDetectedTools } from "./toolCatalogService";
+import { FixtureSession, withFixtures } from "./fixtureService";
+import { GEMINI_CAPABILITIES, GEMINI_DEFAULT_MODEL, createGeminiProvider } from "./geminiService";
+import {
+  OPENAI_COMPATIBLE_CAPABILITIES,
+  OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+  OPENAI_COMPATIBLE_DEFAULT_MODEL,
+  createOpenAiCompatibleProvider,
+} from "./openAiCompatibleService";
+
+const PROVIDER_CONFIG_STORAGE_KEY = "photo-detective:provider-config";
+
+export interface ProviderDefinition {
+  id: ProviderId;
+  label: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  defaultConfig: ProviderConfig;
+  create: (config: ProviderConfig) => AnalysisProvider;
+}
+
+export const PROVIDERS: ProviderDefinition[] = [
+  {
+    id: "gemini",
+    label: "Google Gemini",
+    description: "Hosted by Google. Images are uploaded to the Gemini API.",
+    capabilities: GEMINI_CAPABILITIES,
+    defaultConfig: { providerId: "gemini", model: GEMINI_DEFAULT_MODEL },
+    create: createGeminiProvider,
+  },
+  {
+    id: "openai-compatible",
+    label: "OpenAI-compatible / Ollama",
+    description: "Any /chat/completions endpoint with vision support, such as a self-hosted Ollama, vLLM or LM Studio server.",
+    capabilities: OPENAI_COMPATIBLE_CAPABILITIES,
+    defaultConfig: {
+      providerId: "openai-compatible",
+      model: OPENAI_COMPATIBLE_DEFAULT_MODEL,
+      baseUrl: OPENAI_COMPATIBLE_DEFAULT_BASE_URL,
+    },
+    create: createOpenAiCompatibleProvider,
+  },
+];
+
+export const getProviderDefinition = (id: ProviderId): ProviderDefinition =>
+  PROVIDERS.find((p) => p.id === id) ?? PROVIDERS[0];
+
+/**
+ * Creates the configured provider; with a fixture session its calls are recorded or replayed.
+ */
+export const createProvider = (config: ProviderConfig, fixtures?: FixtureSession): AnalysisProvider => {
+  const definition = getProviderDefinition(config.providerId);
+  return fixtures ? withFixtures(definition, config, fixtures) : definition.create(config);
+};
+
+// An answer that fails validation is asked for once more before giving up
+const MAX_ANALYSIS_ATTEMPTS = 2;
+
+/**
+ * Runs the AI analysis of an image with the configured provider, asking about the enabled
+ * catalog tools, and keys the returned scores by catalog id. Answers are validated by the
+ * provider; an unusable one is re-asked with the reason attached. A fixture session records
+ * the answer or replays a recorded one. Ensembles pass the prompt variant and sample index;
+ * the signal cancels the provider request.
+ */
+export const analyzeImageEdits = async (
+  image: ImageSource,
+  config: ProviderConfig,
+  catalog: ToolCatalogEntry[],
+  fixtures?: FixtureSession,
+  { promptVariant = 0, sample, signal }: Omit<AnalyzeCallOptions, "correction"> = {}
+): Promise<AnalysisResult> => {
+  const tools = enabledTools(catalog);
+  if (tools.length === 0) {
+    throw new Error("No tools are enabled in the tool catalog. Enable at least one in Settings.");
+  }
+  const provider = createProvider(config, fixtures);
+
+  let correction: string | undefined;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await provider.analyze(image, tools, { correction, promptVariant, sample, signal });
+      const repairs = correction ? [`Re-asked after an unusable answer: ${correction}`, ...(result.responseRepairs ?? [])] : result.responseRepairs;
+      return {
+        ...result,
+        detectedTools: resolveDetectedTools(result.detectedTools, catalog),
+        ...(repairs && { responseRepairs: repairs }),
+      };
+    } catch (error) {
+      if (!(error instanceof InvalidResponseError) || attempt >= MAX_ANALYSIS_ATTEMPTS) throw error;
+      console.warn(`Analysis attempt ${attempt} returned an unusable answer; asking again.`, error);
+      correction = error.message;
+    }
+  }
+};
+
+/**
+ * Records which provider, model and prompt version produced a result, for reports and audits.
+ */
+export const createAnalysisRun = (config: ProviderConfig, startedAt: string, toolIds?: string[], payload?: UploadPayloadInfo): AnalysisRun => ({
+  providerId: config.providerId,
+  providerLabel: getProviderDefinition(config.providerId).label,
+  model: config.model,
+  ...(config.providerId === "openai-compatible" && { baseUrl: config.baseUrl || OPENAI_COMPATIBLE_DEFAULT_BASE_URL }),
+  promptVersion: PROMPT_VERSION,
+  ...(toolIds && { toolIds }),
+  ...(payload && { payload }),
+  startedAt,
+  completedAt: new Date().toISOString(),
+});
+
+/**
+ * Loads the provider settings saved in this browser, falling back to Gemini.
+ */
+export const loadProviderConfig = (): ProviderConfig => {
+  try {
+    const stored = localStorage.getItem(PROVIDER_CONFIG_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as ProviderConfig;
+      if (PROVIDERS.some((p) => p.id === parsed.providerId)) return parsed;
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable provider settings:", e);
+  }
+  return PROVIDERS[0].defaultConfig;
+};
+
+export const saveProviderConfig = (config: ProviderConfig): void => {
+  localStorage.setItem(PROVIDER_CONFIG_STORAGE_KEY, JSON.stringify(config));
+};
@@ -0,0 +1,99 @@
+import { QuantizationCategory } from "../types";
+
+/**
+ * Signature catalog used to attribute JPEG quantization tables to the encoder that wrote them.
+ *
+ * Most encoders do not leave a unique table, so signatures combine the table family
+ * (stock IJG tables scaled by a quality factor vs custom tables) with the surrounding
+ * marker layout. Matches are reported as "consistent with", never as proof.
+ */
+export interface QuantizationSignature {
+  id: string;
+  label: string;
+  category: QuantizationCategory;
+  description: string;
+  rule: {
+    standardTables?: boolean;              // Tables are (or are not) exactly the IJG tables at some quality
+    qualityRange?: [number, number];       // Inclusive IJG quality range
+    requiresExif?: boolean;                // EXIF must be present (true) or absent (false)
+    requiresMakerNote?: boolean;
+    markers?: string[];                    // All listed APP markers must be present
+    forbiddenMarkers?: string[];           // None of these may be present
+    subsampling?: string[];                // Allowed chroma subsampling layouts
+  };
+}
+
+// Standard luminance and chrominance tables from ITU-T T.81 Annex K, in natural (row-major) order
+export const IJG_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+export const IJG_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+export const QUANTIZATION_SIGNATURES: QuantizationSignature[] = [
+  {
+    id: "camera-firmware",
+    label: "Camera firmware",
+    category: "camera",
+    description: "Custom tables alongside camera EXIF with a MakerNote, as written in-camera.",
+    rule: { standardTables: false, requiresExif: true, requiresMakerNote: true, forbiddenMarkers: ["APP13 Photoshop", "APP14 Adobe"] },
+  },
+  {
+    id: "photoshop",
+    label: "Adobe Photoshop (Save As / Save for Web)",
+    category: "editor",
+    description: "Adobe's own table set together with the APP14 \"Adobe\" segment Photoshop always writes.",
+    rule: { standardTables: false, markers: ["APP14 Adobe"] },
+  },
+  {
+    id: "photoshop-irb",
+    label: "Adobe Photoshop (image resource block)",
+    category: "editor",
+    description: "An APP13 \"Photoshop 3.0\" resource block is present.",
+    rule: { markers: ["APP13 Photoshop"] },
+  },
+  {
+    id: "ijg-high",
+    label: "libjpeg / IJG encoder, high quality",
+    category: "library",
+    description: "Stock IJG tables at quality 90 or above: typical of GIMP, ImageMagick, Pillow and most export dialogs.",
+    rule: { standardTables: true, qualityRange: [90, 100] },
+  },
+  {
+    id: "ijg-default",
+    label: "libjpeg / IJG encoder, default quality",
+    category: "library",
+    description: "Stock IJG tables at quality 75, the library default used by many web tools and scripts.",
+    rule: { standardTables: true, qualityRange: [75, 75] },
+  },
+  {
+    id: "social-platform",
+    label: "Social media re-encode (Facebook, Instagram, X)",
+    category: "social",
+    description: "Stock IJG tables at quality 70–92 with all EXIF stripped, as produced by platform upload pipelines.",
+    rule: { standardTables: true, qualityRange: [70, 92], requiresExif: false },
+  },
+  {
+    id: "messaging-app",
+    label: "Messaging app re-encode (WhatsApp, Telegram)",
+    category: "social",
+    description: "Stock IJG tables at quality 50–80, 4:2:0 subsampling and no EXIF.",
+    rule: { standardTables: true, qualityRange: [50, 80], requiresExif: false, subsampling: ["4:2:0"] },
+  },
+];
@@ -0,0 +1,187 @@
+import { ImageSource, PreparedUpload } from "../types";
+
+// Tags that locate embedded JPEGs and further IFDs in TIFF-based RAW files (DNG, CR2, NEF, ARW)
+const TAG_COMPRESSION = 0x0103;
+const TAG_STRIP_OFFSETS = 0x0111;
+const TAG_ORIENTATION = 0x0112;
+const TAG_STRIP_BYTE_COUNTS = 0x0117;
+const TAG_SUB_IFDS = 0x014A;
+const TAG_JPEG_OFFSET = 0x0201;
+const TAG_JPEG_LENGTH = 0x0202;
+
+// Old-style (6) and new-style (7) JPEG compression; DNG also uses 7 for lossless raw data,
+// which the SOF check below rejects
+const JPEG_COMPRESSIONS = new Set([6, 7]);
+
+// Thumbnails below this long edge are too small to analyse and are not offered as previews
+const MIN_PREVIEW_DIMENSION = 512;
+
+// TIFF-based RAW formats whose embedded previews can be read; browsers often give them no image/ type
+export const RAW_FILE_EXTENSIONS = [".dng", ".cr2", ".nef", ".arw"];
+
+// File input `accept` value for images including RAW files
+export const IMAGE_FILE_ACCEPT = ["image/*", ...RAW_FILE_EXTENSIONS].join(",");
+
+export const isImageFile = (file: File): boolean =>
+  file.type.startsWith("image/") || RAW_FILE_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+export interface RawPreview {
+  jpeg: Uint8Array;
+  width: number;
+  height: number;
+  orientation: number;        // IFD0 Orientation of the RAW file; the preview itself carries none
+}
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number;        // Offset of the value field (the value itself when it fits in 4 bytes)
+}
+
+/**
+ * Reads the frame size from a baseline or progressive JPEG's SOF marker. Returns null for
+ * anything a browser cannot decode, such as the lossless JPEG DNG uses for its raw data.
+ */
+const jpegFrameSize = (bytes: Uint8Array, start: number, end: number): { width: number; height: number } | null => {
+  if (bytes[start] !== 0xFF || bytes[start + 1] !== 0xD8) return null;
+  let offset = start + 2;
+  while (offset + 4 <= end) {
+    if (bytes[offset] !== 0xFF) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xFF) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xC0 || marker === 0xC1 || marker === 0xC2) {
+      if (offset + 9 > end) return null;
+      const height = (bytes[offset + 5] << 8) | bytes[offset + 6];
+      const width = (bytes[offset + 7] << 8) | bytes[offset + 8];
+      return width > 0 && height > 0 ? { width, height } : null;
+    }
+    // Lossless, hierarchical or arithmetic-coded frames, or scan data before any frame header
+    if ((marker >= 0xC3 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) || marker === 0xDA) return null;
+    offset += 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+  }
+  return null;
+};
+
+/**
+ * Finds the largest decodable JPEG preview embedded in a TIFF-based RAW file, by walking the
+ * IFD chain and every SubIFD. Returns null for non-TIFF input and for files whose only
+ * previews are small thumbnails.
+ */
+export const extractRawPreview = (bytes: Uint8Array): RawPreview | null => {
+  if (bytes.length < 8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4D4D) return null;
+  const littleEndian = order === 0x4949;
+  if (view.getUint16(2, littleEndian) !== 0x002A) return null;
+
+  const visited = new Set<number>();
+  const previews: RawPreview[] = [];
+  let orientation = 1;
+
+  const readEntries = (ifdOffset: number): { entries: Map<number, IfdEntry>; next: number } | null => {
+    if (visited.has(ifdOffset) || ifdOffset + 2 > bytes.length) return null;
+    visited.add(ifdOffset);
+    const count = view.getUint16(ifdOffset, littleEndian);
+    if (ifdOffset + 2 + count * 12 + 4 > bytes.length) return null;
+    const entries = new Map<number, IfdEntry>();
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      entries.set(view.getUint16(entry, littleEndian), {
+        type: view.getUint16(entry + 2, littleEndian),
+        count: view.getUint32(entry + 4, littleEndian),
+        valueOffset: entry + 8,
+      });
+    }
+    return { entries, next: view.getUint32(ifdOffset + 2 + count * 12, littleEndian) };
+  };
+
+  // SHORT, LONG or IFD values; anything else is not an offset or count
+  const readNumbers = (entry: IfdEntry | undefined): number[] => {
+    if (!entry) return [];
+    const size = entry.type === 3 ? 2 : entry.type === 4 || entry.type === 13 ? 4 : 0;
+    if (size === 0) return [];
+    const start = entry.count * size > 4 ? view.getUint32(entry.valueOffset, littleEndian) : entry.valueOffset;
+    if (start + entry.count * size > bytes.length) return [];
+    return Array.from({ length: entry.count }, (_, i) =>
+      size === 2 ? view.getUint16(start + i * 2, littleEndian) : view.getUint32(start + i * 4, littleEndian)
+    );
+  };
+
+  const consider = (offset: number | undefined, length: number | undefined) => {
+    if (offset === undefined || !length || offset + length > bytes.length) return;
+    const size = jpegFrameSize(bytes, offset, offset + length);
+    if (!size || Math.max(size.width, size.height) < MIN_PREVIEW_DIMENSION) return;
+    previews.push({ jpeg: bytes.subarray(offset, offset + length), ...size, orientation });
+  };
+
+  const walk = (ifdOffset: number, depth: number) => {
+    // Follows the chain of IFDs at this level; SubIFDs are walked one level down
+    for (let offset = ifdOffset; offset !== 0 && depth < 4; ) {
+      const ifd = readEntries(offset);
+      if (!ifd) return;
+      const { entries } = ifd;
+      if (depth === 0 && offset === ifdOffset) orientation = readNumbers(entries.get(TAG_ORIENTATION))[0] ?? 1;
+
+      consider(readNumbers(entries.get(TAG_JPEG_OFFSET))[0], readNumbers(entries.get(TAG_JPEG_LENGTH))[0]);
+      const strips = readNumbers(entries.get(TAG_STRIP_OFFSETS));
+      if (strips.length === 1 && JPEG_COMPRESSIONS.has(readNumbers(entries.get(TAG_COMPRESSION))[0])) {
+        consider(strips[0], readNumbers(entries.get(TAG_STRIP_BYTE_COUNTS))[0]);
+      }
+      for (const subIfd of readNumbers(entries.get(TAG_SUB_IFDS))) walk(subIfd, depth + 1);
+      offset = ifd.next;
+    }
+  };
+
+  try {
+    walk(view.getUint32(4, littleEndian), 0);
+  } catch (err) {
+    console.warn("Could not read RAW previews:", err);
+  }
+  return previews.reduce<RawPreview | null>((best, preview) => (!best || preview.width * preview.height > best.width * best.height ? preview : best), null);
+};
+
+/**
+ * The upload for environments without an image decoder, such as the command-line tool: the
+ * embedded JPEG of a RAW file, otherwise the original bytes. Nothing is resized or rotated.
+ */
+export const prepareUploadFromBytes = (image: ImageSource): PreparedUpload => {
+  const preview = extractRawPreview(image.bytes);
+  const original = { originalByteLength: image.bytes.length, originalWidth: null, originalHeight: null };
+  if (!preview) {
+    return {
+      image,
+      info: { mimeType: image.mimeType, byteLength: image.bytes.length, width: null, height: null, ...original, source: "original", steps: [] },
+    };
+  }
+  const steps = [`Used the ${preview.width}×${preview.height} JPEG preview embedded in the RAW file`];
+  if (preview.orientation !== 1) steps.push(`Sent unrotated; the RAW file's EXIF orientation is ${preview.orientation}`);
+  return {
+    image: { name: image.name, mimeType: "image/jpeg", bytes: preview.jpeg },
+    info: {
+      mimeType: "image/jpeg",
+      byteLength: preview.jpeg.length,
+      width: preview.width,
+      height: preview.height,
+      ...original,
+      source: "raw-preview",
+      steps,
+    },
+  };
+};
+
+/**
+ * What a browser can display for a file: RAW files are shown through their embedded preview,
+ * everything else as it is.
+ */
+export const displayableImage = async (file: Blob): Promise<Blob> => {
+  const preview = extractRawPreview(new Uint8Array(await file.arrayBuffer()));
+  return preview ? new Blob([preview.jpeg], { type: "image/jpeg" }) : file;
+};
@@ -0,0 +1,378 @@
+import { AnalysisResult, CaseRecord, DetectedTool, ForensicReport, FusionVerdict, MetadataReport } from "../types";
+import { md5, sha256OfBlob } from "./hashService";
+import { formatExifValue } from "./exifService";
+import { describeUploadPayload, formatByteSize } from "./uploadService";
+import { formatUtcTime } from "./timestampService";
+
+export const REPORT_VERSION = 1;
+const REPORT_GENERATOR = "Photo Detective";
+
+// How resultSha256 is computed, stated in every report so it can be checked against the JSON export
+const RESULT_SHA256_METHOD = "SHA-256 of the UTF-8 bytes of JSON.stringify(result), without indentation";
+
+const VERDICT_LABELS: Record<FusionVerdict, string> = {
+  "likely-authentic": "Likely Authentic",
+  "edited": "Edited",
+  "heavily-manipulated": "Heavily Manipulated",
+  "ai-generated": "AI Generated",
+  "inconclusive": "Inconclusive",
+};
+
+/**
+ * Collects everything a case file needs about one analysis: file identity and hashes, the
+ * provider run that produced the result, the result itself and the analyst's notes.
+ */
+export const buildForensicReport = async (
+  file: File,
+  result: AnalysisResult,
+  caseRecord?: CaseRecord | null
+): Promise<ForensicReport> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const [fileSha256, resultSha256] = await Promise.all([
+    sha256OfBlob(file),
+    sha256OfBlob(new Blob([JSON.stringify(result)])),
+  ]);
+  // Library cases of very large files keep only a thumbnail, which must not be reported as the evidence
+  const isStandIn = !!caseRecord && caseRecord.sha256 !== fileSha256;
+  // Cases opened from the library are rebuilt from a stored copy; keep the original timestamp
+  const lastModified = caseRecord?.lastModified ?? file.lastModified;
+
+  return {
+    reportVersion: REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    generator: REPORT_GENERATOR,
+    file: {
+      name: caseRecord?.fileName ?? file.name,
+      size: isStandIn ? caseRecord!.fileSize : bytes.length,
+      type: caseRecord?.fileType || file.type,
+      lastModified: lastModified ? new Date(lastModified).toISOString() : null,
+      sha256: isStandIn ? caseRecord!.sha256 : fileSha256,
+      md5: isStandIn ? null : md5(bytes),
+    },
+    run: result.run ?? null,
+    result,
+    resultSha256,
+    resultSha256Method: RESULT_SHA256_METHOD,
+    caseNotes: caseRecord ? { notes: caseRecord.notes, tags: caseRecord.tags } : null,
+  };
+};
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const table = (rows: [string, unknown][]): string =>
+  `<table class="kv">${rows
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("")}</table>`;
+
+const formatAiScore = (tool: DetectedTool): string | number =>
+  tool.ensemble
+    ? `${tool.likelihoodScore} (${tool.ensemble.lower}–${tool.ensemble.upper}${tool.ensemble.unstable ? ", unstable" : ""})`
+    : tool.likelihoodScore;
+
+const grid = (headers: string[], rows: unknown[][]): string =>
+  `<table class="grid"><thead><tr>${headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead><tbody>${rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`)
+    .join("")}</tbody></table>`;
+
+const section = (title: string, body: string): string => `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+
+
+/**
+ * Static SVG bar chart of the detected tools. AI scores are drawn as outlines and fused scores,
+ * when present, as filled bars, so the chart reads correctly in black-and-white print.
+ */
+export const renderToolChartSvg = (result: AnalysisResult): string => {
+  const fused = new Map(result.fusion?.tools.map((t) => [t.name, t.fusedScore]) ?? []);
+  const rows = result.detectedTools.map((tool) => ({
+    name: tool.name,
+    ai: tool.likelihoodScore,
+    fused: fused.get(tool.name) ?? null,
+  }));
+  // Tools that only metadata evidence points at have a fused score but no AI score
+  result.fusion?.tools
+    .filter((t) => t.aiScore === null)
+    .forEach((t) => rows.push({ name: t.name, ai: 0, fused: t.fusedScore }));
+
+  const labelWidth = 170;
+  const barWidth = 380;
+  const rowHeight = 30;
+  const top = 10;
+  const height = top + rows.length * rowHeight + 30;
+  const x = (score: number) => labelWidth + (Math.max(0, Math.min(10, score)) / 10) * barWidth;
+
+  const ticks = [0, 2, 4, 6, 8, 10]
+    .map((tick) => {
+      const tx = x(tick);
+      return `<line x1="${tx}" y1="${top}" x2="${tx}" y2="${height - 24}" stroke="#ddd"/>` +
+        `<text x="${tx}" y="${height - 8}" font-size="11" text-anchor="middle" fill="#555">${tick}</text>`;
+    })
+    .join("");
+
+  const bars = rows
+    .map((row, i) => {
+      const y = top + i * rowHeight;
+      const fusedBar = row.fused === null
+        ? ""
+        : `<rect x="${labelWidth}" y="${y + 15}" width="${x(row.fused) - labelWidth}" height="9" fill="#0e7490"/>` +
+          `<text x="${x(row.fused) + 4}" y="${y + 23}" font-size="10" fill="#0e7490">${row.fused}</text>`;
+      return `<text x="${labelWidth - 8}" y="${y + 16}" font-size="12" text-anchor="end" fill="#111">${escapeHtml(row.name)}</text>` +
+        `<rect x="${labelWidth}" y="${y + 4}" width="${x(row.ai) - labelWidth}" height="9" fill="none" stroke="#334155"/>` +
+        `<text x="${x(row.ai) + 4}" y="${y + 12}" font-size="10" fill="#334155">${row.ai}</text>` +
+        fusedBar;
+    })
+    .join("");
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${labelWidth + barWidth + 40}" height="${height}" viewBox="0 0 ${labelWidth + barWidth + 40} ${height}" font-family="sans-serif" role="img" aria-label="Tool probability scores">${ticks}${bars}</svg>`;
+};
+
+const metadataSections = (metadata: MetadataReport): string => {
+  const parts: string[] = [];
+  const { exif, xmp, c2pa, generator, compression } = metadata;
+
+  if (exif) {
+    parts.push(section(
+      "EXIF",
+      grid(["IFD", "Tag", "Value"], exif.entries.map((entry) => [entry.ifd, entry.name, formatExifValue(entry)]))
+    ));
+  }
+
+  if (xmp) {
+    parts.push(section(
+      "XMP",
+      table([
+        ["Creator tool", xmp.creatorTool],
+        ["Created", xmp.createDate],
+        ["Modified", xmp.modifyDate],
+        ["Metadata date", xmp.metadataDate],
+        ["Document ID", xmp.documentId],
+        ["Original document ID", xmp.originalDocumentId],
+        ["Extended XMP", xmp.hasExtendedXmp ? "yes" : undefined],
+      ]) +
+      (xmp.history.length > 0
+        ? `<h3>Edit history</h3>${grid(["Action", "Software", "When", "Changed"], xmp.history.map((e) => [e.action, e.softwareAgent, e.when, e.changed]))}`
+        : "") +
+      (xmp.properties.length > 0
+        ? `<h3>Properties</h3>${grid(["Property", "Value"], xmp.properties.map((p) => [p.name, p.value]))}`
+        : "")
+    ));
+  }
+
+  if (c2pa) {
+    const manifest = c2pa.activeManifest;
+    parts.push(section(
+      "Content Credentials (C2PA)",
+      table([
+        ["Found in", c2pa.source],
+        ["Signature", c2pa.signatureStatus],
+        ["Hash binding", c2pa.hashBinding],
+        ["Signer", c2pa.signer?.subject],
+        ["Issuer", c2pa.signer?.issuer],
+        ["Claim generator", manifest?.claimGenerator],
+        ["Declares AI generation", c2pa.aiGenerated ? "yes" : "no"],
+        ["Manifests", c2pa.manifests.length],
+      ]) +
+      (manifest && manifest.actions.length > 0
+        ? `<h3>Actions</h3>${grid(["Action", "Software", "When", "Source type"], manifest.actions.map((a) => [a.action, a.softwareAgent, a.when, a.digitalSourceType]))}`
+        : "")
+    ));
+  }
+
+  if (generator) {
+    parts.push(section(
+      "Generation Parameters",
+      table([
+        ["Generator", generator.generator],
+        ["Read from", generator.sourceKeyword],
+        ["Prompt", generator.prompt],
+        ["Negative prompt", generator.negativePrompt],
+        ["Embedded workflow", generator.hasWorkflow ? "yes" : undefined],
+      ]) +
+      (generator.settings.length > 0 ? grid(["Setting", "Value"], generator.settings.map((s) => [s.name, s.value])) : "")
+    ));
+  } else if (metadata.textChunks.length > 0) {
+    parts.push(section("Embedded Text", grid(["Keyword", "Stored in", "Text"], metadata.textChunks.map((t) => [t.keyword, t.chunk, t.text]))));
+  }
+
+  if (compression) {
+    parts.push(section(
+      "Compression History",
+      table([
+        ["Frame", `${compression.frameType}, ${compression.width}×${compression.height}, ${compression.subsampling}`],
+        ["Estimated quality", compression.estimatedQuality !== null ? `${compression.estimatedQuality}${compression.isStandardIjg ? " (standard IJG tables)" : ""}` : "unknown"],
+        ["Markers", compression.markers.join(", ")],
+        ["Table matches", compression.matches.map((m) => `${m.label} (${m.category})`).join(", ")],
+        ["Double compression", compression.doubleCompression ? `${Math.round(compression.doubleCompression.likelihood * 100)}%` : "not tested"],
+        ["Re-save likelihood", `${Math.round(compression.resaveLikelihood * 100)}%`],
+      ]) +
+      (compression.indicators.length > 0 ? `<ul>${compression.indicators.map((i) => `<li>${escapeHtml(i)}</li>`).join("")}</ul>` : "")
+    ));
+  }
+
+  return parts.join("");
+};
+
+const REPORT_STYLE = `
+  body { font: 13px/1.45 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #111; max-width: 900px; margin: 24px auto; padding: 0 16px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; border-bottom: 1px solid #999; padding-bottom: 2px; margin: 22px 0 8px; }
+  h3 { font-size: 13px; margin: 12px 0 4px; }
+  table { border-collapse: collapse; width: 100%; margin: 4px 0; }
+  th, td { text-align: left; vertical-align: top; padding: 3px 6px; border-bottom: 1px solid #e2e2e2; word-break: break-word; }
+  table.kv th { width: 200px; font-weight: 600; color: #333; }
+  table.grid thead th { background: #f1f5f9; }
+  .mono, table.hashes td { font-family: ui-monospace, Menlo, Consolas, monospace; }
+  .verdict { font-size: 17px; font-weight: 700; }
+  .muted { color: #666; }
+  .preview { max-width: 320px; max-height: 320px; border: 1px solid #ccc; float: right; margin: 0 0 12px 16px; }
+  section { page-break-inside: avoid; }
+  footer { margin-top: 28px; font-size: 11px; color: #666; border-top: 1px solid #999; padding-top: 6px; }
+`;
+
+export interface ReportHtmlOptions {
+  previewDataUrl?: string | null; // Downscaled copy of the image to embed
+}
+
+/**
+ * Self-contained HTML rendering of a report: no external stylesheets, scripts or images, so
+ * the file opens identically anywhere and prints to PDF from the browser.
+ */
+export const renderReportHtml = (report: ForensicReport, options: ReportHtmlOptions = {}): string => {
+  const { file, run, result } = report;
+  const fusion = result.fusion;
+  const fusedByName = new Map(fusion?.tools.map((t) => [t.name, t.fusedScore]) ?? []);
+
+  const body = [
+    `<h1>Image Forensic Report</h1>`,
+    `<p class="muted">${escapeHtml(file.name)} · generated ${escapeHtml(report.generatedAt)} by ${escapeHtml(report.generator)}</p>`,
+    options.previewDataUrl ? `<img class="preview" src="${escapeHtml(options.previewDataUrl)}" alt="Downscaled preview of the analysed image">` : "",
+
+    section("Evidence File", table([
+      ["File name", file.name],
+      ["Size", `${formatByteSize(file.size)} (${file.size.toLocaleString("en-US")} bytes)`],
+      ["Type", file.type],
+      ["Last modified", file.lastModified],
+    ]) + `<table class="kv hashes"><tr><th>SHA-256</th><td>${escapeHtml(file.sha256)}</td></tr><tr><th>MD5</th><td>${escapeHtml(file.md5 ?? "not available (original not stored in the case library)")}</td></tr></table>`),
+
+    section("Analysis", run
+      ? table([
+          ["Provider", run.providerLabel],
+          ["Model", run.model],
+          ["Endpoint", run.baseUrl],
+          ["Prompt version", run.promptVersion],
+          ["Image sent", run.payload && describeUploadPayload(run.payload)],
+          ["Preprocessing", run.payload?.steps.join("; ")],
+          ["Sensitive metadata", run.payload?.privacy && (run.payload.privacy.sensitiveFields.length === 0
+            ? "None found in the upload"
+            : `${run.payload.privacy.stripped ? "Stripped before upload" : "Sent to the provider"}: ${run.payload.privacy.sensitiveFields.map((f) => f.name).join(", ")}`)],
+          ["Fixtures", run.fixtureMode && (run.fixtureMode === "replay" ? "Answer replayed from a recorded fixture" : "Answer recorded as a fixture")],
+          ["Started", run.startedAt],
+          ["Completed", run.completedAt],
+        ])
+      : `<p class="muted">This result was saved before analysis runs were recorded; provider, model and prompt version are unknown.</p>`),
+
+    fusion
+      ? section("Verdict",
+          `<p class="verdict">${escapeHtml(VERDICT_LABELS[fusion.verdict])} <span class="muted">— ${escapeHtml(fusion.confidence)} confidence (${Math.round(fusion.confidenceScore * 100)}%)</span></p>` +
+          (fusion.rationale.length > 0 ? `<ul>${fusion.rationale.map((r) => `<li>${escapeHtml(r)}</li>`).join("")}</ul>` : "") +
+          (fusion.contradictions.length > 0
+            ? `<h3>Contradictions</h3>${grid(["Severity", "Sources", "Description"], fusion.contradictions.map((c) => [c.severity, c.sources.join(", "), c.description]))}`
+            : ""))
+      : "",
+
+    section("Overall Assessment", `<p>${escapeHtml(result.overallAssessment)}</p>` + table([
+      ["Visual device estimate", result.originalDevice],
+      ["Metadata device", result.metadataDevice ?? "not found in file"],
+      ["Estimated edit layers", result.estimatedEditLayerCount],
+      ["Copy-move clone pairs", result.copyMove ? result.clonePairCount ?? 0 : undefined],
+    ])),
+
+    section("Tool Probability Scores",
+      renderToolChartSvg(result) +
+      (fusion ? `<p class="muted">Outlined bars: AI score. Filled bars: score after fusing metadata, compression and pixel evidence.</p>` : "") +
+      grid(
+        fusion ? ["Tool", "AI score", "Fused score", "Reasoning"] : ["Tool", "AI score", "Reasoning"],
+        result.detectedTools.map((tool) => fusion
+          ? [tool.name, formatAiScore(tool), fusedByName.get(tool.name) ?? "", tool.reasoning]
+          : [tool.name, formatAiScore(tool), tool.reasoning])
+      ) +
+      (result.ensemble
+        ? `<p class="muted">AI scores are the mean of ${result.ensemble.samples} samples with their 95% interval` +
+          (result.ensemble.failedSamples ? `; ${result.ensemble.failedSamples} further samples failed` : "") +
+          `. Samples: ${escapeHtml(result.ensemble.sources.join("; "))}.</p>`
+        : "") +
+      (result.detectedTools.some((tool) => tool.findings?.length)
+        ? `<h3>Located Findings</h3>` + grid(
+          ["Tool", "Finding", "Confidence", "Region (x, y, width, height as % of image)"],
+          result.detectedTools.flatMap((tool) => (tool.findings ?? []).map((finding) => [
+            tool.name,
+            finding.label,
+            finding.confidence,
+            [finding.region.x, finding.region.y, finding.region.width, finding.region.height].map((v) => `${Math.round(v * 100)}%`).join(", "),
+          ])))
+        : "")),
+
+    result.chat && result.chat.length > 0
+      ? section("Follow-up Questions", grid(["Time", "From", "Message"], result.chat.map((m) => [
+          m.sentAt,
+          m.role === "analyst" ? "Analyst" : `Detective${m.rescored ? " (re-scored)" : ""}`,
+          m.region
+            ? `${m.text} [${[m.region.x, m.region.y, m.region.width, m.region.height].map((v) => `${Math.round(v * 100)}%`).join(", ")}]`
+            : m.text,
+        ])) +
+        (result.chat.some((m) => m.rescored) ? `<p class="muted">The tool scores above are from the last re-scoring in this conversation.</p>` : ""))
+      : "",
+
+    result.timeline && result.timeline.events.length > 0
+      ? section("Timestamp Timeline",
+          (result.timeline.anomalies.length > 0
+            ? grid(["Severity", "Anomaly"], result.timeline.anomalies.map((a) => [a.severity, a.description]))
+            : `<p class="muted">No inconsistencies between the timestamps.</p>`) +
+          grid(["UTC", "Source", "Timestamp", "As written", "Offset"], result.timeline.events.map((e) => [
+            formatUtcTime(e.utc),
+            e.source,
+            e.label,
+            e.raw,
+            e.offset ? `${e.offset}${e.zone === "inferred" ? " (inferred)" : ""}` : "none recorded, UTC assumed",
+          ])))
+      : "",
+
+    result.metadata ? metadataSections(result.metadata) : "",
+
+    report.caseNotes && (report.caseNotes.notes || report.caseNotes.tags.length > 0)
+      ? section("Analyst Notes", table([["Tags", report.caseNotes.tags.join(", ")]]) + `<p style="white-space: pre-wrap">${escapeHtml(report.caseNotes.notes)}</p>`)
+      : "",
+
+    `<footer>Report format v${report.reportVersion}. Result SHA-256 <span class="mono">${escapeHtml(report.resultSha256)}</span> — ` +
+      `${escapeHtml(report.resultSha256Method)}, where result is the "result" field of the accompanying JSON export. AI scores are probabilistic estimates, not proof of manipulation.</footer>`,
+  ].join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Forensic report — ${escapeHtml(file.name)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+export const renderReportJson = (report: ForensicReport): string => JSON.stringify(report, null, 2);
+
+/**
+ * File name for an exported report, e.g. "IMG_0042-report-3fa2b1c0.html".
+ */
+export const reportFileName = (report: ForensicReport, extension: "html" | "json"): string => {
+  const base = report.file.name.replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_") || "image";
+  return `${base}-report-${report.file.sha256.slice(0, 8)}.${extension}`;
+};
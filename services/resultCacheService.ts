@@ -0,0 +1,174 @@
+import { AnalysisResult, EnsembleConfig, ProviderConfig, ToolCatalogEntry, UploadBudget, UploadPrivacyInfo } from "../types";
+import { PROMPT_VERSION } from "./analysisPrompt";
+import { sha256OfBlob } from "./hashService";
+import { enabledTools } from "./toolCatalogService";
+
+const DB_NAME = "photo-detective-cache";
+const DB_VERSION = 1;
+const CACHE_STORE = "results";
+
+// Entries older than this are treated as misses and evicted
+export const RESULT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Least recently used entries are evicted once the serialized results exceed this
+export const RESULT_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+interface CacheEntry {
+  key: string;
+  sha256: string;
+  providerId: string;
+  model: string;
+  promptVersion: string;
+  result: AnalysisResult;
+  size: number;               // Length of the serialized result, for the size cap
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+export interface ResultCacheStats {
+  entries: number;
+  bytes: number;
+  oldest: string | null;      // createdAt of the oldest entry
+}
+
+export interface CachedResult {
+  result: AnalysisResult;
+  cachedAt: string;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(CACHE_STORE, { keyPath: "key" });
+        store.createIndex("lastUsedAt", "lastUsedAt", { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Runs one request against the cache store and resolves when its transaction completes.
+ */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(CACHE_STORE, mode);
+      const request = run(transaction.objectStore(CACHE_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error ?? request.error);
+      transaction.onabort = () => reject(transaction.error ?? new Error("Result cache transaction aborted"));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const isExpired = (entry: CacheEntry, now: number): boolean => now - Date.parse(entry.createdAt) > RESULT_CACHE_TTL_MS;
+
+/**
+ * Cache key for an analysis: the image bytes plus everything that changes what the provider is
+ * asked or what the local checks report — provider, model, endpoint, prompt version, the enabled
+ * tools, the C2PA trust list, the upload budget the image was prepared with, the privacy policy
+ * and whether metadata was stripped from the upload, and any ensemble settings.
+ */
+export const resultCacheKey = async (
+  sha256: string,
+  config: ProviderConfig,
+  catalog: ToolCatalogEntry[],
+  trustList: string,
+  budget: UploadBudget,
+  privacy: UploadPrivacyInfo | undefined,
+  ensemble?: EnsembleConfig,
+): Promise<string> => {
+  const inputs = JSON.stringify([
+    config.providerId,
+    config.model,
+    config.baseUrl ?? "",
+    PROMPT_VERSION,
+    enabledTools(catalog).map((tool) => [tool.id, tool.name, tool.cues]),
+    trustList.trim(),
+    [budget.maxDimension, budget.maxBytes],
+    privacy ? [privacy.policy, privacy.stripped] : null,
+    // Left out for single runs so their keys match those stored before ensembles existed
+    ...(ensemble && ensemble.samples > 1
+      ? [[ensemble.samples, ensemble.promptVariants, (ensemble.providers ?? []).map((p) => [p.providerId, p.model, p.baseUrl ?? ""])]]
+      : []),
+  ]);
+  return `${sha256}:${await sha256OfBlob(new Blob([inputs]))}`;
+};
+
+/**
+ * Returns the stored result for a key, or null when there is none or it has expired.
+ */
+export const getCachedResult = async (key: string): Promise<CachedResult | null> => {
+  const entry = await withStore<CacheEntry | undefined>("readonly", (store) => store.get(key));
+  if (!entry) return null;
+  if (isExpired(entry, Date.now())) {
+    await withStore("readwrite", (store) => store.delete(key));
+    return null;
+  }
+  await withStore("readwrite", (store) => store.put({ ...entry, lastUsedAt: new Date().toISOString() }));
+  return { result: entry.result, cachedAt: entry.createdAt };
+};
+
+/**
+ * Stores a result, then evicts expired entries and the least recently used ones until the
+ * cache is back under its size cap.
+ */
+export const putCachedResult = async (key: string, config: ProviderConfig, result: AnalysisResult): Promise<void> => {
+  const now = new Date().toISOString();
+  const entry: CacheEntry = {
+    key,
+    sha256: key.split(":")[0],
+    providerId: config.providerId,
+    model: config.model,
+    promptVersion: PROMPT_VERSION,
+    result,
+    size: JSON.stringify(result).length,
+    createdAt: now,
+    lastUsedAt: now,
+  };
+  await withStore("readwrite", (store) => store.put(entry));
+  await evictEntries();
+};
+
+const evictEntries = async (): Promise<void> => {
+  const entries = await withStore<CacheEntry[]>("readonly", (store) => store.index("lastUsedAt").getAll());
+  const now = Date.now();
+  let bytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  // Oldest use first, so the loop stops as soon as the remaining entries fit
+  const evict = entries.filter((entry) => {
+    if (isExpired(entry, now)) {
+      bytes -= entry.size;
+      return true;
+    }
+    return false;
+  });
+  for (const entry of entries) {
+    if (bytes <= RESULT_CACHE_MAX_BYTES) break;
+    if (evict.includes(entry)) continue;
+    evict.push(entry);
+    bytes -= entry.size;
+  }
+  for (const entry of evict) {
+    await withStore("readwrite", (store) => store.delete(entry.key));
+  }
+};
+
+export const getResultCacheStats = async (): Promise<ResultCacheStats> => {
+  const entries = await withStore<CacheEntry[]>("readonly", (store) => store.getAll());
+  return {
+    entries: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    oldest: entries.reduce<string | null>((oldest, entry) => (!oldest || entry.createdAt < oldest ? entry.createdAt : oldest), null),
+  };
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  await withStore("readwrite", (store) => store.clear());
+};
@@ -0,0 +1,28 @@
+import { displayableImage } from "./rawPreviewService";
+
+/**
+ * Renders a small JPEG thumbnail of an image, preserving its aspect ratio. RAW files are
+ * rendered from their embedded preview. Returns null when the browser cannot decode the format.
+ */
+export const createThumbnail = async (file: Blob, maxSize = 160): Promise<Blob | null> => {
+  try {
+    const probe = await createImageBitmap(await displayableImage(file), { imageOrientation: "from-image" });
+    const scale = Math.min(1, maxSize / Math.max(probe.width, probe.height));
+    const width = Math.max(1, Math.round(probe.width * scale));
+    const height = Math.max(1, Math.round(probe.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(probe, 0, 0, width, height);
+    probe.close();
+
+    return await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.8));
+  } catch (e) {
+    console.warn("Could not create thumbnail:", e);
+    return null;
+  }
+};
@@ -0,0 +1,248 @@
+import { MetadataReport, TimelineEvent, TimelineEventKind, TimestampAnomaly, TimestampReport } from "../types";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Real UTC offsets run from -12:00 to +14:00; a time without a zone may be off by up to this much
+const MAX_OFFSET = 14 * HOUR;
+// Allows for values written to the minute and for clocks a few seconds apart
+const CLOCK_TOLERANCE = MINUTE;
+// Cameras write ModifyDate with the capture; a later save is reported beyond this gap...
+const MODIFIED_GAP = HOUR;
+// ...and called out as long after capture beyond this one
+const LONG_AFTER_CAPTURE = 30 * DAY;
+// A GPS fix can be a few minutes stale when the shutter fires
+const GPS_TOLERANCE = 5 * MINUTE;
+// Time zones stray from their longitude's solar offset by a few hours at most (China, Spain, ...)
+const SOLAR_OFFSET_TOLERANCE = 3.5 * HOUR;
+
+const EXIF_DATE_TIME = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/;
+const ISO_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const UTC_OFFSET = /^([+-])(\d{2}):?(\d{2})$/;
+
+/** A timestamp as read, before its zone is resolved. */
+interface RawTimestamp {
+  kind: TimelineEventKind;
+  source: TimelineEvent["source"];
+  label: string;
+  raw: string;
+  wall: number;               // The wall-clock fields read as if they were UTC, in ms
+  offset: number | null;      // Minutes east of UTC; null when the value carries no zone
+  camera: boolean;            // Written by the camera's clock, so it shares the capture time's zone
+}
+
+const wallTime = (parts: (string | undefined)[], fraction?: string): number | null => {
+  const [year, month, day, hour, minute, second = 0] = parts.map(Number);
+  // Also rejects the blank "0000:00:00 00:00:00" cameras write when their clock is unset
+  if (year < 1900 || month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59 || second > 60) return null;
+  const milliseconds = fraction && /^\d+$/.test(fraction) ? Math.round(Number(`0.${fraction}`) * 1000) : 0;
+  return Date.UTC(year, month - 1, day, hour, minute, second) + milliseconds;
+};
+
+const parseOffset = (value: string | undefined): number | null => {
+  if (value === "Z") return 0;
+  const match = value ? UTC_OFFSET.exec(value.trim()) : null;
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return minutes * MINUTE > MAX_OFFSET ? null : match[1] === "-" ? -minutes : minutes;
+};
+
+export const formatUtcOffset = (minutes: number): string => {
+  const absolute = Math.abs(minutes);
+  return `${minutes < 0 ? "-" : "+"}${String(Math.floor(absolute / 60)).padStart(2, "0")}:${String(absolute % 60).padStart(2, "0")}`;
+};
+
+/** "2024-05-01 08:30:00 UTC", for display. */
+export const formatUtcTime = (iso: string): string => `${iso.slice(0, 19).replace("T", " ")} UTC`;
+
+const formatGap = (ms: number): string => {
+  const abs = Math.abs(ms);
+  if (abs < 2 * HOUR) return `${Math.round(abs / MINUTE)} minutes`;
+  if (abs < 2 * DAY) return `${Math.round((abs / HOUR) * 10) / 10} hours`;
+  return `${Math.round(abs / DAY).toLocaleString("en-US")} days`;
+};
+
+const readExif = (label: string, kind: TimelineEventKind, value?: string, subSec?: string, offset?: string): RawTimestamp | null => {
+  const match = value ? EXIF_DATE_TIME.exec(value.trim()) : null;
+  if (!match) return null;
+  const wall = wallTime(match.slice(1), subSec?.trim());
+  if (wall === null) return null;
+  const raw = [value!.trim() + (subSec?.trim() ? `.${subSec.trim()}` : ""), offset?.trim()].filter(Boolean).join(" ");
+  return { kind, source: "EXIF", label, raw, wall, offset: parseOffset(offset), camera: true };
+};
+
+const readXmp = (label: string, kind: TimelineEventKind, value?: string): RawTimestamp | null => {
+  const match = value ? ISO_DATE_TIME.exec(value.trim()) : null;
+  if (!match) return null;
+  const wall = wallTime(match.slice(1, 7), match[7]);
+  if (wall === null) return null;
+  // Lightroom and Photoshop write local times without a zone, taken from the camera's clock
+  return { kind, source: "XMP", label, raw: value!.trim(), wall, offset: parseOffset(match[8]), camera: !match[8] };
+};
+
+/**
+ * Collects every timestamp the metadata carries (EXIF capture, digitised and modify dates with
+ * their OffsetTime and SubSecTime tags, the GPS clock, XMP create, modify and metadata dates and
+ * history) plus the file's modification time, normalises them to UTC and reports where they
+ * disagree. Times without a zone take the camera's offset: from an OffsetTime tag, or else from
+ * the difference to the GPS clock; failing both, UTC is assumed and comparisons allow ±14 hours.
+ */
+export const analyzeTimestamps = (metadata: MetadataReport | null | undefined, fileLastModified?: number | null, now = Date.now()): TimestampReport => {
+  const exif = metadata?.exif ?? null;
+  const xmp = metadata?.xmp ?? null;
+
+  const found: (RawTimestamp | null)[] = [
+    readExif("DateTimeOriginal", "capture", exif?.dateTimeOriginal, exif?.subSecTimeOriginal, exif?.offsetTimeOriginal),
+    readExif("DateTimeDigitized", "digitized", exif?.dateTimeDigitized, exif?.subSecTimeDigitized, exif?.offsetTimeDigitized),
+    readExif("ModifyDate", "modified", exif?.dateTime, exif?.subSecTime, exif?.offsetTime),
+    readXmp("xmp:CreateDate", "capture", xmp?.createDate),
+    readXmp("photoshop:DateCreated", "capture", xmp?.photoshop.find((property) => property.name === "photoshop:DateCreated")?.value),
+    readXmp("xmp:ModifyDate", "modified", xmp?.modifyDate),
+    readXmp("xmp:MetadataDate", "metadata", xmp?.metadataDate),
+    ...(xmp?.history ?? []).map((event, index) =>
+      readXmp(`History ${index + 1}: ${event.action}${event.softwareAgent ? ` (${event.softwareAgent})` : ""}`, "history", event.when)
+    ),
+  ];
+  const stamps = found.filter((stamp): stamp is RawTimestamp => stamp !== null);
+
+  const gpsMatch = exif?.gps?.dateStamp && exif.gps.timeStamp ? EXIF_DATE_TIME.exec(`${exif.gps.dateStamp} ${exif.gps.timeStamp}`) : null;
+  const gpsTime = gpsMatch ? wallTime(gpsMatch.slice(1)) : null;
+
+  // The zone of the camera's clock: declared by an OffsetTime tag, or implied by the GPS clock
+  const captureStamp = stamps.find((stamp) => stamp.label === "DateTimeOriginal") ?? null;
+  const declaredOffset = stamps.find((stamp) => stamp.source === "EXIF" && stamp.offset !== null)?.offset ?? null;
+  let gpsOffset: number | null = null;
+  if (captureStamp && gpsTime !== null) {
+    const difference = captureStamp.wall - gpsTime;
+    const nearest = Math.round(difference / (15 * MINUTE)) * 15 * MINUTE;
+    if (Math.abs(difference - nearest) <= GPS_TOLERANCE && Math.abs(nearest) <= MAX_OFFSET) gpsOffset = nearest / MINUTE;
+  }
+  const cameraOffset = declaredOffset ?? gpsOffset;
+
+  const events: TimelineEvent[] = stamps.map((stamp) => {
+    const offset = stamp.offset ?? (stamp.camera ? cameraOffset : null);
+    const zone: TimelineEvent["zone"] = stamp.offset !== null ? "explicit" : offset !== null ? "inferred" : "unknown";
+    return {
+      kind: stamp.kind,
+      source: stamp.source,
+      label: stamp.label,
+      raw: stamp.raw,
+      utc: new Date(stamp.wall - (offset ?? 0) * MINUTE).toISOString(),
+      offset: offset !== null ? formatUtcOffset(offset) : null,
+      zone,
+    };
+  });
+  if (gpsTime !== null) {
+    events.push({
+      kind: "gps",
+      source: "GPS",
+      label: "GPSDateStamp + GPSTimeStamp",
+      raw: `${exif!.gps!.dateStamp} ${exif!.gps!.timeStamp}`,
+      utc: new Date(gpsTime).toISOString(),
+      offset: "+00:00",
+      zone: "explicit",
+    });
+  }
+  if (fileLastModified && Number.isFinite(fileLastModified)) {
+    const utc = new Date(fileLastModified).toISOString();
+    events.push({ kind: "file", source: "FILE", label: "File last modified", raw: utc, utc, offset: "+00:00", zone: "explicit" });
+  }
+  events.sort((a, b) => Date.parse(a.utc) - Date.parse(b.utc));
+
+  const anomalies: TimestampAnomaly[] = [];
+  const time = (event: TimelineEvent) => Date.parse(event.utc);
+  // Without a zone on one side, the two may be up to a whole offset apart without disagreeing
+  const slack = (a: TimelineEvent, b: TimelineEvent) => ((a.zone === "unknown") !== (b.zone === "unknown") ? MAX_OFFSET : 0) + CLOCK_TOLERANCE;
+  const find = (label: string) => events.find((event) => event.label === label);
+  const capture = find("DateTimeOriginal") ?? find("xmp:CreateDate") ?? find("photoshop:DateCreated") ?? find("DateTimeDigitized");
+
+  if (capture) {
+    // Impossible ordering: anything recorded about the image before it was taken
+    for (const event of events) {
+      if (event === capture || event.kind === "capture" || event.kind === "gps") continue;
+      const gap = time(capture) - time(event);
+      if (gap > slack(capture, event)) {
+        anomalies.push({
+          kind: "impossible-order",
+          severity: event.source === "FILE" ? "medium" : "high",
+          description: `${event.label} (${formatUtcTime(event.utc)}) is ${formatGap(gap)} before ${capture.label} (${formatUtcTime(capture.utc)}).`,
+          labels: [event.label, capture.label],
+        });
+      }
+    }
+
+    // The latest save recorded inside the file, long after the capture
+    const saves = events.filter((event) => event.kind === "modified" || event.kind === "metadata" || event.kind === "history");
+    const latest = saves[saves.length - 1];
+    if (latest && time(latest) - time(capture) > MODIFIED_GAP + slack(capture, latest)) {
+      const gap = time(latest) - time(capture);
+      anomalies.push({
+        kind: "modified-after-capture",
+        severity: gap > LONG_AFTER_CAPTURE ? "medium" : "low",
+        description: `${latest.label} is ${formatGap(gap)} after ${capture.label}: the file was saved again after it was taken.`,
+        labels: [capture.label, latest.label],
+      });
+    }
+
+    // Other capture times that should agree with DateTimeOriginal
+    for (const event of events.filter((other) => other.kind === "capture" && other !== capture)) {
+      const gap = time(event) - time(capture);
+      if (Math.abs(gap) > slack(capture, event)) {
+        anomalies.push({
+          kind: "capture-mismatch",
+          severity: "medium",
+          description: `${event.label} differs from ${capture.label} by ${formatGap(gap)}.`,
+          labels: [capture.label, event.label],
+        });
+      }
+    }
+  }
+
+  for (const event of events.filter((event) => time(event) - now > CLOCK_TOLERANCE + (event.zone === "unknown" ? MAX_OFFSET : 0))) {
+    anomalies.push({
+      kind: "future-date",
+      severity: "medium",
+      description: `${event.label} (${formatUtcTime(event.utc)}) lies in the future.`,
+      labels: [event.label],
+    });
+  }
+
+  // The GPS clock is set by satellites, so a camera time it contradicts was set or edited by hand
+  const gps = find("GPSDateStamp + GPSTimeStamp");
+  const original = find("DateTimeOriginal");
+  if (gps && original && captureStamp) {
+    const gpsLabels = [original.label, gps.label];
+    if (original.zone !== "unknown" && Math.abs(time(original) - time(gps)) > GPS_TOLERANCE) {
+      anomalies.push({
+        kind: "gps-mismatch",
+        severity: Math.abs(time(original) - time(gps)) > DAY ? "high" : "medium",
+        description: `The GPS clock (${formatUtcTime(gps.utc)}) and ${original.label} at UTC${original.offset} (${formatUtcTime(original.utc)}) are ${formatGap(time(original) - time(gps))} apart.`,
+        labels: gpsLabels,
+      });
+    } else if (original.zone === "unknown") {
+      anomalies.push({
+        kind: "gps-mismatch",
+        severity: "medium",
+        description: `${original.label} (${captureStamp.raw}) differs from the GPS clock (${formatUtcTime(gps.utc)}) by ${formatGap(captureStamp.wall - time(gps))}, which no time zone explains.`,
+        labels: gpsLabels,
+      });
+    }
+
+    const longitude = exif?.gps?.longitude;
+    const offset = parseOffset(original.offset ?? undefined);
+    if (longitude !== undefined && offset !== null && original.zone !== "unknown") {
+      const solar = (longitude / 15) * HOUR;
+      if (Math.abs(offset * MINUTE - solar) > SOLAR_OFFSET_TOLERANCE) {
+        anomalies.push({
+          kind: "gps-mismatch",
+          severity: "low",
+          description: `Local time is UTC${original.offset}, but the GPS position (longitude ${longitude.toFixed(2)}°) lies near UTC${formatUtcOffset(Math.round(solar / HOUR) * 60)}.`,
+          labels: gpsLabels,
+        });
+      }
+    }
+  }
+
+  return { events, anomalies };
+};
@@ -0,0 +1,176 @@
+import { DetectedTool, ToolCatalogEntry } from "../types";
+import { isRecord } from "./typeGuards";
+
+const TOOL_CATALOG_STORAGE_KEY = "photo-detective:tool-catalog";
+
+// Catalog id of the tool that copy-move clones and Photoshop compression traces are credited to
+export const PHOTOSHOP_TOOL_ID = "photoshop";
+
+/**
+ * The tools scored out of the box. Lightroom comes before Photoshop because it reports itself
+ * as "Adobe Photoshop Lightroom", and signatures are tried in catalog order.
+ */
+export const DEFAULT_TOOL_CATALOG: ToolCatalogEntry[] = [
+  {
+    id: "lightroom",
+    name: "Adobe Lightroom",
+    cues: "Color grading, exposure adjustments",
+    metadataSignatures: ["lightroom", "camera raw"],
+    enabled: true,
+  },
+  {
+    id: PHOTOSHOP_TOOL_ID,
+    name: "Adobe Photoshop",
+    cues: "Compositing, healing, liquify",
+    metadataSignatures: ["photoshop"],
+    enabled: true,
+  },
+  {
+    id: "chatgpt-dalle",
+    name: "ChatGPT / DALL-E",
+    cues: "AI generation, specific smooth textures, text rendering artifacts",
+    metadataSignatures: ["chatgpt", "dall[-·\\s]?e", "openai"],
+    enabled: true,
+  },
+  {
+    id: "nano-banana",
+    name: "Nano Banana",
+    cues: "Look for deep-fried artifacts, uncanny valley features, or specific \"Nano Banana\" style synthetic signatures",
+    metadataSignatures: [],
+    enabled: true,
+  },
+  {
+    id: "mobile-filters",
+    name: "Mobile Filters",
+    cues: "Instagram, VSCO, Snapchat",
+    metadataSignatures: ["instagram", "vsco", "snapchat"],
+    enabled: true,
+  },
+];
+
+const normalizeKey = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+/**
+ * Turns a display name into a catalog id, e.g. "Adobe Firefly" → "adobe-firefly".
+ */
+export const toolIdFromName = (name: string): string =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "tool";
+
+/**
+ * Checks an imported or edited catalog and returns it in canonical form.
+ * Throws with a message naming the first problem found.
+ */
+export const validateToolCatalog = (raw: unknown): ToolCatalogEntry[] => {
+  const list = Array.isArray(raw) ? raw : isRecord(raw) ? raw.tools : undefined;
+  if (!Array.isArray(list)) {
+    throw new Error("A tool catalog must be a JSON array of tools, or an object with a \"tools\" array.");
+  }
+
+  const ids = new Set<string>();
+  return list.map((value: unknown, index: number): ToolCatalogEntry => {
+    const label = `Tool ${index + 1}`;
+    const item = isRecord(value) ? value : {};
+    const name = typeof item.name === "string" ? item.name.trim() : "";
+    if (!name) throw new Error(`${label} has no name.`);
+    const id = typeof item.id === "string" && item.id.trim() ? item.id.trim() : toolIdFromName(name);
+    if (!/^[a-z0-9][a-z0-9-]*$/.test(id)) {
+      throw new Error(`${label} ("${name}") has an invalid id "${id}"; use lowercase letters, digits and dashes.`);
+    }
+    if (ids.has(id)) throw new Error(`Tool id "${id}" is used more than once.`);
+    ids.add(id);
+
+    const signatures = item.metadataSignatures ?? [];
+    if (!Array.isArray(signatures) || !signatures.every((s: unknown): s is string => typeof s === "string")) {
+      throw new Error(`${label} ("${name}"): metadataSignatures must be a list of strings.`);
+    }
+    for (const signature of signatures) {
+      try {
+        new RegExp(signature, "i");
+      } catch {
+        throw new Error(`${label} ("${name}"): "${signature}" is not a valid regular expression.`);
+      }
+    }
+
+    return {
+      id,
+      name,
+      cues: typeof item.cues === "string" ? item.cues.trim() : "",
+      metadataSignatures: signatures.map((s) => s.trim()).filter(Boolean),
+      enabled: item.enabled !== false,
+    };
+  });
+};
+
+export const parseToolCatalogJson = (text: string): ToolCatalogEntry[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The file is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  return validateToolCatalog(raw);
+};
+
+export const toolCatalogToJson = (catalog: ToolCatalogEntry[]): string => JSON.stringify({ tools: catalog }, null, 2);
+
+export const loadToolCatalog = (): ToolCatalogEntry[] => {
+  try {
+    const stored = localStorage.getItem(TOOL_CATALOG_STORAGE_KEY);
+    if (stored) return parseToolCatalogJson(stored);
+  } catch (e) {
+    console.warn("Ignoring unreadable tool catalog:", e);
+  }
+  return DEFAULT_TOOL_CATALOG;
+};
+
+export const saveToolCatalog = (catalog: ToolCatalogEntry[]): void => {
+  localStorage.setItem(TOOL_CATALOG_STORAGE_KEY, toolCatalogToJson(catalog));
+};
+
+export const enabledTools = (catalog: ToolCatalogEntry[]): ToolCatalogEntry[] => catalog.filter((tool) => tool.enabled);
+
+/**
+ * First catalog entry with a metadata signature matching a software string.
+ */
+export const matchToolSignature = (software: string, catalog: ToolCatalogEntry[]): ToolCatalogEntry | null =>
+  catalog.find((tool) => tool.metadataSignatures.some((signature) => signature && new RegExp(signature, "i").test(software))) ?? null;
+
+/**
+ * Finds the catalog entry a model-reported tool refers to: by id when the model echoed one,
+ * otherwise by name, then by metadata signature, tolerating renames such as "Photoshop" for
+ * "Adobe Photoshop".
+ */
+export const findCatalogTool = (tool: Pick<DetectedTool, "toolId" | "name">, catalog: ToolCatalogEntry[]): ToolCatalogEntry | null => {
+  const byId = tool.toolId ? catalog.find((entry) => entry.id === tool.toolId) : undefined;
+  if (byId) return byId;
+  const name = normalizeKey(tool.name ?? "");
+  if (!name) return null;
+  return (
+    catalog.find((entry) => normalizeKey(entry.name) === name || normalizeKey(entry.id) === name) ??
+    matchToolSignature(tool.name, catalog) ??
+    catalog.find((entry) => normalizeKey(entry.name).includes(name) || name.includes(normalizeKey(entry.name))) ??
+    null
+  );
+};
+
+/**
+ * Keys the model's tool list by catalog id and replaces model-chosen names with catalog names,
+ * so the same tool has the same key and label in every run. Tools outside the catalog are kept
+ * without an id; a tool reported twice keeps its first entry.
+ */
+export const resolveDetectedTools = (tools: DetectedTool[], catalog: ToolCatalogEntry[]): DetectedTool[] => {
+  const seen = new Set<string>();
+  const resolved: DetectedTool[] = [];
+  for (const tool of tools) {
+    const entry = findCatalogTool(tool, catalog);
+    if (!entry) {
+      const { toolId, ...rest } = tool;
+      resolved.push(rest);
+      continue;
+    }
+    if (seen.has(entry.id)) continue;
+    seen.add(entry.id);
+    resolved.push({ ...tool, toolId: entry.id, name: entry.name });
+  }
+  return resolved;
+};
@@ -0,0 +1,6 @@
+/**
+ * Narrows parsed JSON and other untrusted values to a plain object whose fields can be read
+ * and checked one by one.
+ */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
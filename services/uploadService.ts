@@ -0,0 +1,164 @@
+import { ImageSource, PreparedUpload, UploadBudget, UploadPayloadInfo } from "../types";
+import type { PreprocessRequest } from "../workers/preprocessWorker";
+import { UnsupportedImageError } from "./analysisErrors";
+import { readContainer } from "./containerService";
+import { parseTiff } from "./exifService";
+import { extractRawPreview } from "./rawPreviewService";
+import { runWorkerTask } from "./workerService";
+
+const UPLOAD_BUDGET_STORAGE_KEY = "photo-detective:upload-budget";
+
+// Large enough for fine detail, well inside every provider's request size limit
+export const DEFAULT_UPLOAD_BUDGET: UploadBudget = { maxDimension: 3072, maxBytes: 4 * 1024 * 1024 };
+
+interface PreprocessResult {
+  blob: Blob | null;          // null when the original fits and may be sent untouched
+  width: number;
+  height: number;
+  sourceWidth: number;
+  sourceHeight: number;
+  quality: number | null;
+}
+
+export const loadUploadBudget = (): UploadBudget => {
+  try {
+    const stored = localStorage.getItem(UPLOAD_BUDGET_STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as UploadBudget;
+      if (parsed.maxDimension > 0 && parsed.maxBytes > 0) return parsed;
+    }
+  } catch (e) {
+    console.warn("Ignoring unreadable upload budget:", e);
+  }
+  return DEFAULT_UPLOAD_BUDGET;
+};
+
+export const saveUploadBudget = (budget: UploadBudget): void => {
+  localStorage.setItem(UPLOAD_BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
+
+export const formatByteSize = (size: number): string =>
+  size < 1024 ? `${size} B` : size < 1024 * 1024 ? `${(size / 1024).toFixed(1)} KB` : `${(size / 1024 / 1024).toFixed(2)} MB`;
+
+/**
+ * One-line summary of a payload, e.g. "3072×2048 image/jpeg · 1.85 MB (original 24.10 MB)".
+ */
+export const describeUploadPayload = (info: UploadPayloadInfo): string => {
+  const size = info.width !== null && info.height !== null ? `${info.width}×${info.height} ` : "";
+  const original = info.source !== "original"
+    ? `original ${formatByteSize(info.originalByteLength)}`
+    : info.privacy?.stripped ? "original without its metadata" : "unchanged original";
+  return `${size}${info.mimeType} · ${formatByteSize(info.byteLength)} (${original})`;
+};
+
+/** The EXIF orientation of a JPEG, TIFF, WebP or HEIC file; 1 when it declares none. */
+const readOrientation = async (bytes: Uint8Array): Promise<number> => {
+  try {
+    const payloads = await readContainer(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+    return (payloads.tiff && parseTiff(payloads.tiff, 0)?.orientation) || 1;
+  } catch {
+    return 1;
+  }
+};
+
+/**
+ * Turns an image into what is sent to the provider. The original goes out untouched when the
+ * provider accepts its format and it fits the budget; otherwise it is decoded in a worker,
+ * rotated upright, downscaled and re-encoded as JPEG. RAW files are replaced by their largest
+ * embedded JPEG preview. Metadata is always read from the original, never from this payload.
+ */
+export const prepareUpload = async (
+  original: ImageSource,
+  budget: UploadBudget,
+  acceptedMimeTypes: string[],
+  signal?: AbortSignal
+): Promise<PreparedUpload> => {
+  const preview = extractRawPreview(original.bytes);
+  const orientation = preview ? preview.orientation : await readOrientation(original.bytes);
+  const accepted = !preview && acceptedMimeTypes.includes(original.mimeType);
+  const withinBytes = original.bytes.length <= budget.maxBytes;
+  const steps: string[] = [];
+  if (preview) steps.push(`Used the ${preview.width}×${preview.height} JPEG preview embedded in the RAW file`);
+
+  let decoded: PreprocessResult;
+  try {
+    decoded = await runWorkerTask<PreprocessRequest, PreprocessResult>(
+      () => new Worker(new URL("../workers/preprocessWorker.ts", import.meta.url), { type: "module" }),
+      {
+        file: preview ? new Blob([preview.jpeg], { type: "image/jpeg" }) : new Blob([original.bytes], { type: original.mimeType }),
+        orientation: preview ? preview.orientation : null,
+        maxDimension: budget.maxDimension,
+        maxBytes: budget.maxBytes,
+        keepIfWithinBudget: accepted && withinBytes && orientation === 1,
+      },
+      "Image preprocessing",
+      signal
+    );
+  } catch (err: any) {
+    if (err?.name === "AbortError") throw err;
+    // HEIC and similar formats the browser cannot decode go out as they are when the provider reads them
+    if (accepted && withinBytes) {
+      return {
+        image: original,
+        info: {
+          mimeType: original.mimeType,
+          byteLength: original.bytes.length,
+          width: null,
+          height: null,
+          originalByteLength: original.bytes.length,
+          originalWidth: null,
+          originalHeight: null,
+          source: "original",
+          steps: [`This browser cannot decode ${original.mimeType}, so it was sent unchanged without checking its pixel size`],
+        },
+      };
+    }
+    throw new UnsupportedImageError(
+      accepted
+        ? `${original.mimeType} images over ${formatByteSize(budget.maxBytes)} cannot be downscaled in this browser; convert the file to JPEG first.`
+        : `This browser cannot decode ${original.mimeType || "this file"}, and the provider does not accept it as is; convert it to JPEG first.`,
+      { cause: err }
+    );
+  }
+
+  const originalSize = preview
+    ? { originalWidth: null, originalHeight: null }
+    : { originalWidth: decoded.sourceWidth, originalHeight: decoded.sourceHeight };
+  if (!decoded.blob) {
+    return {
+      image: original,
+      info: {
+        mimeType: original.mimeType,
+        byteLength: original.bytes.length,
+        width: decoded.width,
+        height: decoded.height,
+        originalByteLength: original.bytes.length,
+        ...originalSize,
+        source: "original",
+        steps,
+      },
+    };
+  }
+
+  if (orientation !== 1) steps.push(`Rotated upright from EXIF orientation ${orientation}`);
+  if (decoded.width !== decoded.sourceWidth) {
+    steps.push(`Downscaled from ${decoded.sourceWidth}×${decoded.sourceHeight} to ${decoded.width}×${decoded.height}`);
+  }
+  if (!preview && !acceptedMimeTypes.includes(original.mimeType)) steps.push(`Converted from ${original.mimeType}, which the provider does not accept`);
+  steps.push(`Encoded as JPEG at quality ${Math.round(decoded.quality! * 100)}`);
+
+  const image: ImageSource = { name: original.name, mimeType: "image/jpeg", bytes: new Uint8Array(await decoded.blob.arrayBuffer()) };
+  return {
+    image,
+    info: {
+      mimeType: image.mimeType,
+      byteLength: image.bytes.length,
+      width: decoded.width,
+      height: decoded.height,
+      originalByteLength: original.bytes.length,
+      ...originalSize,
+      source: preview ? "raw-preview" : "converted",
+      steps,
+    },
+  };
+};
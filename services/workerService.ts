@@ -0,0 +1,47 @@
+/**
+ * Runs a single request/response exchange with a freshly started module worker.
+ * The worker must answer with either `{ type: 'result', ... }` or `{ type: 'error', message }`.
+ * Aborting the signal terminates the worker immediately.
+ */
+export const runWorkerTask = <TRequest, TResult>(
+  createWorker: () => Worker,
+  request: TRequest,
+  label: string,
+  signal?: AbortSignal
+): Promise<TResult> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException(`${label} aborted`, "AbortError"));
+      return;
+    }
+
+    const worker = createWorker();
+    const onAbort = () => {
+      worker.terminate();
+      reject(new DOMException(`${label} aborted`, "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const finish = () => {
+      signal?.removeEventListener("abort", onAbort);
+      worker.terminate();
+    };
+
+    worker.onmessage = (event: MessageEvent<{ type: "result" } & TResult | { type: "error"; message: string }>) => {
+      finish();
+      const response = event.data;
+      if (response.type === "error") {
+        reject(new Error(response.message));
+        return;
+      }
+      const { type, ...result } = response;
+      resolve(result as TResult);
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || `${label} worker crashed`));
+    };
+
+    worker.postMessage(request);
+  });
+};
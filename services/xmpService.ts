@@ -0,0 +1,236 @@
+import { XmpHistoryEvent, XmpProperty, XmpReport } from "../types";
+
+/**
+ * Minimal XML element tree. XMP packets are small and well-formed enough that a
+ * tolerant hand-rolled parser is preferable to relying on DOMParser being available.
+ */
+interface XmlElement {
+  name: string;                    // Qualified name with the canonical namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+type XmpValue = string | XmpValue[] | { [key: string]: XmpValue };
+
+// Canonical prefixes for the namespaces we care about, so that files using unusual prefixes still match
+const NAMESPACE_PREFIXES: Record<string, string> = {
+  "http://www.w3.org/1999/02/22-rdf-syntax-ns#": "rdf",
+  "http://www.w3.org/XML/1998/namespace": "xml",
+  "adobe:ns:meta/": "x",
+  "http://ns.adobe.com/xap/1.0/": "xmp",
+  "http://ns.adobe.com/xap/1.0/mm/": "xmpMM",
+  "http://ns.adobe.com/xap/1.0/sType/ResourceEvent#": "stEvt",
+  "http://ns.adobe.com/xap/1.0/sType/ResourceRef#": "stRef",
+  "http://ns.adobe.com/camera-raw-settings/1.0/": "crs",
+  "http://ns.adobe.com/photoshop/1.0/": "photoshop",
+  "http://ns.adobe.com/xmp/note/": "xmpNote",
+  "http://ns.adobe.com/tiff/1.0/": "tiff",
+  "http://ns.adobe.com/exif/1.0/": "exif",
+  "http://ns.adobe.com/exif/1.0/aux/": "aux",
+  "http://purl.org/dc/elements/1.1/": "dc",
+  "http://ns.adobe.com/lightroom/1.0/": "lr",
+};
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return "\"";
+      case "apos": return "'";
+    }
+    const code = entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return Number.isFinite(code) ? String.fromCodePoint(code) : "";
+  });
+
+/**
+ * Parses an XML document into an element tree with namespace prefixes normalised.
+ * Returns the synthetic root element; malformed trailing content is ignored.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: "#root", attributes: {}, children: [], text: "" };
+  const stack: { element: XmlElement; namespaces: Record<string, string> }[] = [{ element: root, namespaces: {} }];
+  const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<![^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attrPattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  const resolve = (qualified: string, namespaces: Record<string, string>): string => {
+    const colon = qualified.indexOf(":");
+    if (colon < 0) return qualified;
+    const prefix = qualified.slice(0, colon);
+    const uri = namespaces[prefix];
+    const canonical = uri ? NAMESPACE_PREFIXES[uri] : undefined;
+    return `${canonical ?? prefix}:${qualified.slice(colon + 1)}`;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const current = stack[stack.length - 1];
+    current.element.text += decodeEntities(xml.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+
+    const [raw, cdata, closingName, openingName, attrSource, selfClosing] = match;
+    if (cdata !== undefined) {
+      current.element.text += cdata;
+    } else if (closingName) {
+      if (stack.length > 1) stack.pop();
+    } else if (openingName && !raw.startsWith("<!") && !raw.startsWith("<?")) {
+      const rawAttributes: [string, string][] = [];
+      const namespaces = { ...current.namespaces };
+      let attrMatch: RegExpExecArray | null;
+      attrPattern.lastIndex = 0;
+      while ((attrMatch = attrPattern.exec(attrSource ?? "")) !== null) {
+        const [, attrName, doubleQuoted, singleQuoted] = attrMatch;
+        const value = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+        if (attrName.startsWith("xmlns:")) {
+          namespaces[attrName.slice(6)] = value;
+        } else if (attrName !== "xmlns") {
+          rawAttributes.push([attrName, value]);
+        }
+      }
+
+      const element: XmlElement = {
+        name: resolve(openingName, namespaces),
+        attributes: Object.fromEntries(rawAttributes.map(([name, value]) => [resolve(name, namespaces), value])),
+        children: [],
+        text: "",
+      };
+      current.element.children.push(element);
+      if (!selfClosing) {
+        stack.push({ element, namespaces });
+      }
+    }
+  }
+  return root;
+}
+
+const findAll = (element: XmlElement, name: string): XmlElement[] => {
+  const found: XmlElement[] = [];
+  const visit = (el: XmlElement) => {
+    if (el.name === name) found.push(el);
+    el.children.forEach(visit);
+  };
+  visit(element);
+  return found;
+};
+
+const isSyntaxAttribute = (name: string) => name.startsWith("rdf:") || name.startsWith("xml:");
+
+/**
+ * Converts an RDF property element to a plain value following the XMP serialisation rules:
+ * arrays (rdf:Seq/Bag/Alt), structs (rdf:parseType="Resource", nested rdf:Description or
+ * attribute shorthand) and simple text values.
+ */
+function readProperty(element: XmlElement): XmpValue {
+  if (element.attributes["rdf:resource"] !== undefined) {
+    return element.attributes["rdf:resource"];
+  }
+
+  const container = element.children.find((c) => c.name === "rdf:Seq" || c.name === "rdf:Bag" || c.name === "rdf:Alt");
+  if (container) {
+    return container.children.filter((c) => c.name === "rdf:li").map(readProperty);
+  }
+
+  const description = element.children.find((c) => c.name === "rdf:Description");
+  if (description) {
+    return readStruct(description);
+  }
+
+  const hasFields = element.children.length > 0 || Object.keys(element.attributes).some((name) => !isSyntaxAttribute(name));
+  if (element.attributes["rdf:parseType"] === "Resource" || hasFields) {
+    return readStruct(element);
+  }
+
+  return element.text.trim();
+}
+
+function readStruct(element: XmlElement): { [key: string]: XmpValue } {
+  const struct: { [key: string]: XmpValue } = {};
+  for (const [name, value] of Object.entries(element.attributes)) {
+    if (!isSyntaxAttribute(name)) struct[name] = value;
+  }
+  for (const child of element.children) {
+    struct[child.name] = readProperty(child);
+  }
+  return struct;
+}
+
+/**
+ * Flattens an XMP value to a display string.
+ */
+const valueToString = (value: XmpValue): string => {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.map(valueToString).join("; ");
+  return Object.entries(value).map(([k, v]) => `${k}=${valueToString(v)}`).join(", ");
+};
+
+// Numeric develop settings at their neutral value are not adjustments and only add noise
+const isNeutralSetting = (value: string) => /^[+-]?0+(\.0+)?$/.test(value.trim());
+
+/**
+ * Parses an XMP packet (and optionally the reassembled Extended XMP packet) into a structured report.
+ */
+export const parseXmp = (packet: string, extendedPacket?: string | null): XmpReport | null => {
+  try {
+    const properties: Record<string, XmpValue> = {};
+    for (const xml of [packet, extendedPacket]) {
+      if (!xml) continue;
+      // Only top-level descriptions hold properties; nested ones are struct values
+      const descriptions = findAll(parseXml(xml), "rdf:RDF")
+        .flatMap((rdf) => rdf.children.filter((c) => c.name === "rdf:Description"));
+      for (const description of descriptions) {
+        Object.assign(properties, readStruct(description));
+      }
+    }
+    if (Object.keys(properties).length === 0) return null;
+
+    const str = (name: string): string | undefined => {
+      const value = properties[name];
+      if (value === undefined) return undefined;
+      // Language alternatives collapse to their first (x-default) entry
+      const text = Array.isArray(value) ? valueToString(value[0] ?? "") : valueToString(value);
+      return text.length > 0 ? text : undefined;
+    };
+
+    const rawHistory = properties["xmpMM:History"];
+    const history: XmpHistoryEvent[] = (Array.isArray(rawHistory) ? rawHistory : [])
+      .filter((event): event is { [key: string]: XmpValue } => typeof event === "object" && !Array.isArray(event))
+      .map((event) => ({
+        action: valueToString(event["stEvt:action"] ?? ""),
+        softwareAgent: event["stEvt:softwareAgent"] !== undefined ? valueToString(event["stEvt:softwareAgent"]) : undefined,
+        when: event["stEvt:when"] !== undefined ? valueToString(event["stEvt:when"]) : undefined,
+        changed: event["stEvt:changed"] !== undefined ? valueToString(event["stEvt:changed"]) : undefined,
+        parameters: event["stEvt:parameters"] !== undefined ? valueToString(event["stEvt:parameters"]) : undefined,
+      }))
+      .filter((event) => event.action.length > 0);
+
+    const creatorTool = str("xmp:CreatorTool");
+    const softwareAgents = Array.from(new Set(
+      [creatorTool, ...history.map((event) => event.softwareAgent)]
+        .filter((agent): agent is string => !!agent)
+    ));
+
+    const allProperties: XmpProperty[] = Object.entries(properties)
+      .map(([name, value]) => ({ name, value: valueToString(value) }));
+
+    return {
+      creatorTool,
+      createDate: str("xmp:CreateDate"),
+      modifyDate: str("xmp:ModifyDate"),
+      metadataDate: str("xmp:MetadataDate"),
+      documentId: str("xmpMM:DocumentID"),
+      originalDocumentId: str("xmpMM:OriginalDocumentID"),
+      history,
+      softwareAgents,
+      developSettings: allProperties.filter((p) => p.name.startsWith("crs:") && !isNeutralSetting(p.value)),
+      photoshop: allProperties.filter((p) => p.name.startsWith("photoshop:")),
+      hasExtendedXmp: !!extendedPacket,
+      properties: allProperties,
+    };
+  } catch (e) {
+    console.warn("Failed to parse XMP packet:", e);
+    return null;
+  }
+};
@@ -1,7 +1,381 @@
 export interface DetectedTool {
+  toolId?: string;         // Catalog id; absent for tools the model added or results saved before the catalog
   name: string;
   likelihoodScore: number; // 0 to 10
   reasoning: string;
+  findings?: ToolFinding[]; // Where the cues were seen; absent on results saved before localisation
+  ensemble?: ToolScoreSpread; // Present when the score is the mean of several samples
+}
+
+/** How a tool's score varied across the samples of an ensemble run. */
+export interface ToolScoreSpread {
+  samples: number;            // Samples that scored this tool
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  lower: number;              // 95% confidence interval of the mean, clipped to 0-10
+  upper: number;
+  agreement: number;          // Share of samples on the majority side of the 5/10 line, 0-1
+  unstable: boolean;          // Samples disagreed too much to trust the mean alone
+}
+
+/** A cue for a tool that the model located in the image. */
+export interface ToolFinding {
+  label: string;              // What was seen, e.g. "Cloned sky texture"
+  region: ImageRegion;        // Fractions (0-1) of the image's width and height
+  confidence: number;         // 0 to 10
+}
+
+/** A tool the analysis prompt asks the model to score. */
+export interface ToolCatalogEntry {
+  id: string;                 // Stable key, e.g. "photoshop"; scores are compared across runs by it
+  name: string;               // Display name, e.g. "Adobe Photoshop"
+  cues: string;               // Telltale signs the model should look for
+  metadataSignatures: string[]; // Case-insensitive regular expressions matched against software fields
+  enabled: boolean;
+}
+
+/** A decoded TIFF field value. Rationals are reduced to numbers, long binary blobs to a size note. */
+export type ExifValue = string | number | number[];
+
+export type ExifIfdName = 'IFD0' | 'Exif' | 'GPS' | 'Interop' | 'IFD1';
+
+export interface ExifEntry {
+  ifd: ExifIfdName;
+  tag: number;
+  name: string;
+  type: number;       // TIFF field type (1 = BYTE ... 12 = DOUBLE)
+  value: ExifValue;
+}
+
+export interface ExifGps {
+  latitude?: number;  // Decimal degrees, negative for South
+  longitude?: number; // Decimal degrees, negative for West
+  altitude?: number;  // Metres, negative below sea level
+  dateStamp?: string; // "YYYY:MM:DD" (UTC)
+  timeStamp?: string; // "HH:MM:SS" (UTC)
+}
+
+export interface ExifReport {
+  byteOrder: 'II' | 'MM';
+  make?: string;
+  model?: string;
+  software?: string;
+  artist?: string;
+  dateTime?: string;          // ModifyDate in IFD0
+  dateTimeOriginal?: string;
+  dateTimeDigitized?: string;
+  offsetTime?: string;        // UTC offset of dateTime, e.g. "+02:00"
+  offsetTimeOriginal?: string;
+  offsetTimeDigitized?: string;
+  subSecTime?: string;        // Fractional seconds of dateTime, as digits
+  subSecTimeOriginal?: string;
+  subSecTimeDigitized?: string;
+  lensModel?: string;
+  exposureTime?: number;      // Seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number;       // Millimetres
+  exposureBias?: number;      // EV
+  flash?: number;
+  orientation?: number;       // 1-8 as defined by TIFF
+  gps: ExifGps | null;
+  hasMakerNote: boolean;
+  hasThumbnail: boolean;
+  entries: ExifEntry[];
+}
+
+export interface XmpHistoryEvent {
+  action: string;             // e.g. "created", "saved", "converted", "derived"
+  softwareAgent?: string;     // e.g. "Adobe Photoshop 25.0 (Windows)"
+  when?: string;              // ISO 8601 timestamp as written in the packet
+  changed?: string;           // Parts of the document that changed, e.g. "/"
+  parameters?: string;
+}
+
+export interface XmpProperty {
+  name: string;               // Qualified name with canonical prefix, e.g. "crs:Exposure2012"
+  value: string;
+}
+
+export interface XmpReport {
+  creatorTool?: string;
+  createDate?: string;
+  modifyDate?: string;
+  metadataDate?: string;
+  documentId?: string;
+  originalDocumentId?: string;
+  history: XmpHistoryEvent[];       // xmpMM:History in recorded order
+  softwareAgents: string[];         // Unique agents from CreatorTool and the history
+  developSettings: XmpProperty[];   // Non-neutral crs:* (Camera Raw / Lightroom) settings
+  photoshop: XmpProperty[];         // photoshop:* fields
+  hasExtendedXmp: boolean;
+  properties: XmpProperty[];        // Every top-level property, flattened
+}
+
+export interface C2paAction {
+  action: string;             // e.g. "c2pa.created", "c2pa.edited"
+  digitalSourceType?: string; // IPTC digital source type URI
+  softwareAgent?: string;
+  when?: string;
+}
+
+export interface C2paIngredient {
+  title?: string;
+  format?: string;
+  relationship?: string;      // "parentOf", "componentOf" or "inputTo"
+  instanceId?: string;
+}
+
+export interface C2paCertificate {
+  subject: string;
+  issuer: string;
+  notBefore?: string;
+  notAfter?: string;
+  fingerprint: string;        // SHA-256 of the DER certificate, lowercase hex
+}
+
+/**
+ * - match / mismatch: the c2pa.hash.data binding was recomputed over the file bytes
+ * - unsupported: the manifest uses a binding we cannot recompute (e.g. BMFF box hashes)
+ * - missing: the manifest has no hard binding assertion
+ */
+export type C2paHashStatus = 'match' | 'mismatch' | 'unsupported' | 'missing';
+
+/**
+ * - trusted: signature valid and the chain ends at a certificate from the local trust list
+ * - untrusted: signature valid but the chain does not reach the trust list
+ * - invalid: the signature or a chain link failed verification
+ * - unverified: the algorithm or key type could not be checked in this environment
+ */
+export type C2paSignatureStatus = 'trusted' | 'untrusted' | 'invalid' | 'unverified';
+
+export interface C2paManifest {
+  label: string;
+  claimGenerator?: string;
+  title?: string;
+  format?: string;
+  instanceId?: string;
+  actions: C2paAction[];
+  ingredients: C2paIngredient[];
+  assertionLabels: string[];
+}
+
+export interface C2paReport {
+  source: string;                     // Where the manifest store was found, e.g. "JPEG APP11"
+  manifests: C2paManifest[];          // In store order; the last one is active
+  activeManifest: C2paManifest | null;
+  aiGenerated: boolean;               // A c2pa.created action declares a trained-algorithm source
+  hashBinding: C2paHashStatus;
+  signatureStatus: C2paSignatureStatus;
+  signer: C2paCertificate | null;
+  certificateChain: C2paCertificate[];
+}
+
+export type ImageContainer = 'jpeg' | 'png' | 'webp' | 'heif' | 'tiff' | 'unknown';
+
+/** A free-text metadata field such as a PNG tEXt/iTXt/zTXt chunk. */
+export interface EmbeddedText {
+  keyword: string;            // e.g. "parameters", "prompt", "workflow", "Software"
+  text: string;
+  chunk: string;              // Where it was stored, e.g. "tEXt", "iTXt", "zTXt", "EXIF UserComment"
+}
+
+export interface GeneratorSetting {
+  name: string;
+  value: string;
+}
+
+/** Generation parameters that AI image tools write next to their output. */
+export interface GeneratorReport {
+  generator: string;          // e.g. "Stable Diffusion (A1111)", "ComfyUI", "NovelAI"
+  prompt?: string;            // Verbatim positive prompt
+  negativePrompt?: string;
+  settings: GeneratorSetting[];
+  hasWorkflow: boolean;       // A full node graph (ComfyUI workflow JSON) is embedded
+  sourceKeyword: string;      // Text field the parameters were read from
+}
+
+export type QuantizationCategory = 'camera' | 'editor' | 'library' | 'social';
+
+export interface QuantizationTable {
+  id: number;                 // Table slot 0-3 as referenced by the frame components
+  values: number[];           // 64 divisors in natural (row-major) order
+}
+
+export interface QuantizationMatch {
+  signatureId: string;
+  label: string;
+  category: QuantizationCategory;
+  description: string;
+}
+
+export interface DoubleCompressionResult {
+  frequenciesAnalyzed: number;  // Low-frequency AC coefficients with enough samples
+  blocksDecoded: number;
+  periodicityScore: number;     // 0-1, periodic peaks in the coefficient histograms
+  gapScore: number;             // 0-1, empty histogram bins between populated ones
+  likelihood: number;           // 0-1, combined double-quantization likelihood
+}
+
+export interface CompressionReport {
+  frameType: 'baseline' | 'extended' | 'progressive' | 'lossless' | 'unknown';
+  width: number;
+  height: number;
+  subsampling: string;          // e.g. "4:2:0", "4:4:4", "grayscale"
+  tables: QuantizationTable[];
+  estimatedQuality: number | null; // Best-fit IJG quality factor 1-100
+  isStandardIjg: boolean;       // Tables are exactly the IJG tables at estimatedQuality
+  markers: string[];            // Recognised APP markers, e.g. "JFIF", "APP14 Adobe"
+  matches: QuantizationMatch[];
+  doubleCompression: DoubleCompressionResult | null; // null for progressive or undecodable scans
+  resaveLikelihood: number;     // 0-1
+  indicators: string[];         // Human-readable reasons behind resaveLikelihood
+}
+
+export interface MetadataReport {
+  format: ImageContainer;
+  exif: ExifReport | null;
+  xmp: XmpReport | null;
+  c2pa: C2paReport | null;
+  textChunks: EmbeddedText[];
+  generator: GeneratorReport | null;
+  compression: CompressionReport | null; // JPEG only
+}
+
+/** Error Level Analysis of the decoded pixels, computed in a Web Worker. */
+export interface ElaResult {
+  heatmap: ImageBitmap;       // Colourised, amplified difference with alpha, same size as the image
+  width: number;
+  height: number;
+  quality: number;            // JPEG quality (0-100) the image was re-encoded at
+  meanError: number;          // Mean per-pixel difference, 0-255
+  maxError: number;
+  scale: number;              // Amplification applied to the difference before colouring
+}
+
+/** Axis-aligned box in image coordinates normalised to 0-1, so it scales with the preview. */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Two regions whose pixel blocks match after a constant shift: a likely copy-move. */
+export interface ClonePair {
+  source: ImageRegion;
+  target: ImageRegion;
+  blockCount: number;         // Matching blocks supporting this pair
+  shift: { dx: number; dy: number }; // Normalised offset from source to target
+}
+
+export interface CopyMoveResult {
+  pairs: ClonePair[];
+  analyzedWidth: number;      // Size of the downscaled greyscale image the detector ran on
+  analyzedHeight: number;
+  blocksCompared: number;     // Textured blocks that took part in matching
+}
+
+/** A fact read directly from the file that names a specific editing tool. */
+export interface MetadataEvidence {
+  tool: string;               // Tool keyword the evidence supports, e.g. "Photoshop"
+  toolId?: string;            // Catalog entry whose metadata signature matched
+  source: 'EXIF' | 'XMP' | 'C2PA' | 'PNG';
+  detail: string;
+}
+
+/** One piece of evidence that moved a tool's fused score away from the AI score. */
+export interface FusionAdjustment {
+  source: MetadataEvidence['source'] | 'COMPRESSION' | 'PIXELS';
+  delta: number;              // Change applied to the score, in points out of 10
+  detail: string;
+}
+
+export interface FusedToolScore {
+  toolId?: string;            // Catalog id, as on DetectedTool
+  name: string;
+  aiScore: number | null;     // null when only file evidence names the tool
+  fusedScore: number;         // 0-10
+  adjustments: FusionAdjustment[];
+}
+
+export interface EvidenceContradiction {
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  sources: string[];          // Evidence sources that disagree, e.g. ["EXIF", "AI"]
+}
+
+export type FusionVerdict = 'likely-authentic' | 'edited' | 'heavily-manipulated' | 'ai-generated' | 'inconclusive';
+
+/** Reconciliation of the AI findings with everything read from the file itself. */
+export interface FusionReport {
+  tools: FusedToolScore[];
+  contradictions: EvidenceContradiction[];
+  verdict: FusionVerdict;
+  confidence: 'low' | 'medium' | 'high';
+  confidenceScore: number;    // 0-1
+  rationale: string[];        // Main reasons behind the verdict
+}
+
+/** Which provider, model and prompt produced an analysis, so results stay attributable. */
+export interface AnalysisRun {
+  providerId: ProviderId;
+  providerLabel: string;
+  model: string;
+  baseUrl?: string;           // OpenAI-compatible endpoint the image was sent to
+  promptVersion: string;
+  toolIds?: string[];         // Catalog entries the prompt asked about
+  payload?: UploadPayloadInfo; // The image as actually sent, after preprocessing
+  fixtureMode?: 'record' | 'replay'; // Set when the provider's answer was recorded to, or replayed from, fixtures
+  startedAt: string;          // ISO 8601
+  completedAt: string;
+}
+
+/** Limits on the image sent to the provider; larger images are downscaled and re-encoded. */
+export interface UploadBudget {
+  maxDimension: number;       // Longest edge in pixels
+  maxBytes: number;
+}
+
+/** What preprocessing sent in place of the original file, shown to the analyst and kept with the run. */
+export interface UploadPayloadInfo {
+  mimeType: string;
+  byteLength: number;
+  width: number | null;       // null when the image could not be decoded locally
+  height: number | null;
+  originalByteLength: number;
+  originalWidth: number | null;
+  originalHeight: number | null;
+  source: 'original' | 'converted' | 'raw-preview'; // Untouched file, re-encoded image, or a RAW file's embedded JPEG
+  steps: string[];            // Human-readable list of what was done, in order
+  privacy?: UploadPrivacyInfo; // Absent on runs from before the privacy guard
+}
+
+/** What happens to identifying metadata in the image sent to the provider. */
+export type PrivacyPolicy = 'strip' | 'ask' | 'send';
+
+export type SensitiveFieldCategory = 'location' | 'identity' | 'device' | 'content';
+
+/** A metadata field that could identify a person, place or camera, found in an upload. */
+export interface SensitiveField {
+  category: SensitiveFieldCategory;
+  source: 'EXIF' | 'XMP' | 'IPTC' | 'C2PA' | 'TEXT';
+  name: string;               // e.g. "GPS position", "BodySerialNumber", "dc:creator"
+  value: string;              // Shortened for display
+}
+
+export interface UploadPrivacyInfo {
+  policy: PrivacyPolicy;
+  sensitiveFields: SensitiveField[]; // Found in the payload before any stripping
+  stripped: boolean;
+  removed: string[];          // Metadata blocks cut from the payload, e.g. "APP1 (EXIF)", "tEXt"
+}
+
+export interface PreparedUpload {
+  image: ImageSource;
+  info: UploadPayloadInfo;
 }
 
 export interface AnalysisResult {
@@ -9,12 +383,279 @@ export interface AnalysisResult {
   estimatedEditLayerCount: number;
   originalDevice: string;     // Estimated by AI based on visual characteristics
   metadataDevice?: string | null; // Extracted from file metadata (EXIF)
+  metadata?: MetadataReport | null; // Structured EXIF/XMP metadata read from the file
+  copyMove?: CopyMoveResult | null; // Local block-matching clone detection
+  clonePairCount?: number;    // Suspicious copy-move pairs found by the local detector
+  fusion?: FusionReport | null; // AI scores reconciled with metadata, compression and pixel evidence
+  run?: AnalysisRun;          // Absent on results saved before runs were recorded
+  responseRepairs?: string[]; // What validation had to fix in the model's answer, if anything
+  ensemble?: EnsembleSummary; // Present when several samples were aggregated
+  timeline?: TimestampReport; // Absent on results saved before timestamps were analysed
+  chat?: ChatMessage[];       // Follow-up questions about the image and the detective's answers
   detectedTools: DetectedTool[];
 }
 
+export type TimelineEventKind = 'capture' | 'digitized' | 'modified' | 'metadata' | 'history' | 'gps' | 'file';
+
+/** One timestamp found in or about the file, normalised to UTC. */
+export interface TimelineEvent {
+  kind: TimelineEventKind;
+  source: 'EXIF' | 'XMP' | 'GPS' | 'FILE';
+  label: string;              // Tag or property it came from, e.g. "DateTimeOriginal", "xmp:ModifyDate"
+  raw: string;                // As written, with its sub-second and offset tags
+  utc: string;                // ISO 8601 in UTC
+  offset: string | null;      // UTC offset applied, e.g. "+02:00"; null when UTC had to be assumed
+  zone: 'explicit' | 'inferred' | 'unknown'; // Where the offset came from: the file, the GPS clock, or nowhere
+}
+
+export type TimestampAnomalyKind = 'modified-after-capture' | 'gps-mismatch' | 'impossible-order' | 'capture-mismatch' | 'future-date';
+
+export interface TimestampAnomaly {
+  kind: TimestampAnomalyKind;
+  severity: 'low' | 'medium' | 'high';
+  description: string;
+  labels: string[];           // Labels of the timeline events involved
+}
+
+/** Every timestamp the file carries, in order, with the inconsistencies between them. */
+export interface TimestampReport {
+  events: TimelineEvent[];    // Oldest first
+  anomalies: TimestampAnomaly[];
+}
+
+/** Repeated sampling of the provider, aggregated per tool to expose run-to-run variation. */
+export interface EnsembleConfig {
+  samples: number;            // 1 turns the ensemble off
+  promptVariants: boolean;    // Rotate through reworded prompts instead of repeating one
+  providers?: ProviderConfig[]; // Further providers or models sampled in turn with the main one
+}
+
+export interface EnsembleSummary {
+  samples: number;            // Samples that answered
+  failedSamples: number;      // Samples whose call failed and were left out
+  sources: string[];          // Provider, model and prompt variant of each answered sample
+  unstableTools: string[];    // Names of tools whose samples disagreed
+}
+
+/** One file in a batch run. */
+export interface BatchItem {
+  id: string;
+  file: File;
+  path: string;               // Path relative to the uploaded folder, or the file name
+  thumbnailUrl: string | null;
+  state: AnalysisState;       // IDLE while queued
+  result: AnalysisResult | null;
+  error: string | null;
+  attempts: number;
+  note: string | null;        // Transient status such as a pending rate-limit retry
+}
+
+/** A saved analysis in the local case library (IndexedDB). */
+export interface CaseRecord {
+  id: string;
+  schemaVersion: number;      // Record layout version, upgraded on read
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  lastModified: number;
+  sha256: string;
+  image: Blob | null;         // Original file, omitted for very large files
+  thumbnail: Blob | null;
+  result: AnalysisResult;     // Includes the metadata report
+  createdAt: string;          // ISO 8601
+  updatedAt: string;
+  notes: string;
+  tags: string[];
+  // Absent on records saved before hashing, or hashed by an older algorithm; null when the image could not be decoded
+  perceptualHashes?: PerceptualHashes | null;
+}
+
+// Perceptual fingerprints of an image's pixels as 64-bit hex strings; near-duplicates differ in a few bits
+export interface PerceptualHashes {
+  version: number;            // PERCEPTUAL_HASH_VERSION of the algorithm that computed them
+  aHash: string;              // 8x8 block means against their mean
+  dHash: string;              // Horizontal gradients
+  pHash: string;              // Low DCT frequencies against their median
+  cropHashes: string[];       // pHashes of sub-windows, so crops still match their source
+}
+
+export type SimilarityKind = 'identical' | 'near-duplicate' | 'crop-of-earlier' | 'contains-earlier';
+
+// Hamming distances (0-64) between two images' hashes
+export interface HashDistances {
+  aHash: number;
+  dHash: number;
+  pHash: number;
+  crop: number;               // Closest pHash between one image and a sub-window of the other
+}
+
+export interface SimilarCase {
+  record: CaseRecord;
+  kind: SimilarityKind;
+  distance: number;           // The distance the match was made on
+  distances: HashDistances;
+}
+
+export type ImageChangeKind = 'added' | 'removed' | 'modified' | 'color' | 'geometry' | 'text' | 'other';
+
+/** One difference between a reference original and a suspected edit. */
+export interface ImageChange {
+  kind: ImageChangeKind;
+  description: string;
+  region: ImageRegion | null; // In the suspect image; null for global changes such as a colour grade
+  confidence: number;         // 0 to 10
+  source: 'ai' | 'pixels';    // Described by the provider, or found by the local difference map
+  pixelSupport?: boolean;     // AI changes only: the difference map also shows change inside the region
+}
+
+/** What the analysis provider reports when shown both images. */
+export interface ComparisonAnalysis {
+  summary: string;
+  changes: ImageChange[];
+}
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/** A recorded provider call, served in place of the network when replaying for tests and demos. */
+export interface ProviderFixture {
+  key: string;                // Call kind, SHA-256 of each image as sent, prompt version, ensemble sample
+  kind: 'analyze' | 'compare';
+  request: {
+    providerId: ProviderId;
+    model: string;
+    promptVersion: string;
+    images: { name: string; mimeType: string; sha256: string }[];
+    toolIds?: string[];       // Catalog entries the analysis prompt asked about
+    promptVariant?: number;   // Ensemble prompt variant, when not the standard prompt
+    sample?: number;          // Position in the ensemble run, for ensemble samples
+  };
+  response: AnalysisResult | ComparisonAnalysis;
+  recordedAt: string;         // ISO 8601
+}
+
+/** Where the suspect image sits inside the reference after undoing scale and crop. */
+export interface ImageAlignment {
+  referenceRegion: ImageRegion; // Part of the reference the suspect shows, 0-1
+  scale: number;              // Suspect pixels per reference pixel
+  score: number;              // Normalised cross-correlation of the match, -1 to 1
+  aligned: boolean;           // False when no convincing match was found and the images are only stretched to fit
+}
+
+/** Aligned pixel comparison, computed in a Web Worker. All bitmaps share the suspect's frame. */
+export interface PixelComparison {
+  alignment: ImageAlignment;
+  width: number;
+  height: number;
+  reference: ImageBitmap;     // Matching part of the reference, resampled to width x height
+  suspect: ImageBitmap;
+  heatmap: ImageBitmap;       // Colourised difference with alpha
+  changedRegions: ImageRegion[];
+  changedFraction: number;    // Share of pixels above the difference threshold, 0-1
+}
+
+export type MetadataDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface MetadataDiffEntry {
+  section: string;            // e.g. "EXIF", "XMP", "C2PA"
+  field: string;
+  reference: string | null;
+  suspect: string | null;
+  status: MetadataDiffStatus;
+}
+
+export interface ComparisonResult {
+  referenceMetadata: MetadataReport;
+  suspectMetadata: MetadataReport;
+  metadataDiff: MetadataDiffEntry[];
+  pixels: PixelComparison | null; // null when the images could not be decoded
+  summary: string;
+  changes: ImageChange[];     // Provider-described changes followed by pixel-only regions
+  aiError: string | null;     // The provider call failed; local results are still shown
+  run?: AnalysisRun;
+}
+
+/** Machine-readable export of one analysis, written next to the HTML report in case files. */
+export interface ForensicReport {
+  reportVersion: number;
+  generatedAt: string;        // ISO 8601
+  generator: string;          // Application that produced the report
+  file: {
+    name: string;
+    size: number;
+    type: string;
+    lastModified: string | null;
+    sha256: string;
+    md5: string | null;       // null when only the case library's thumbnail is available
+  };
+  run: AnalysisRun | null;
+  result: AnalysisResult;
+  resultSha256: string;       // SHA-256 of JSON.stringify(result), to detect later edits
+  resultSha256Method: string; // How resultSha256 was computed, for whoever checks it
+  caseNotes: { notes: string; tags: string[] } | null;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+/** What a provider can do; shown in settings so analysts know where images are sent. */
+export interface ProviderCapabilities {
+  structuredOutput: boolean;  // Enforces the response schema server-side
+  requiresApiKey: boolean;
+  runsLocally: boolean;       // Can be pointed at a self-hosted endpoint; images need not leave the network
+  acceptedMimeTypes: string[]; // Image formats the provider reads; others are converted to JPEG before upload
+}
+
+export interface ProviderConfig {
+  providerId: ProviderId;
+  model: string;
+  apiKey?: string;            // Falls back to the build-time key for Gemini when empty
+  baseUrl?: string;           // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1 for Ollama
+}
+
+/** A backend that turns an image into an AI assessment. */
+/** Image bytes plus the details providers need; lets the pipeline run without browser File APIs. */
+export interface ImageSource {
+  name: string;
+  mimeType: string;
+  bytes: Uint8Array;
+  lastModified?: number;      // File modification time in ms since the epoch, where the source has one
+}
+
+export interface AnalyzeCallOptions {
+  correction?: string;        // Why the previous answer was rejected, when re-asking
+  promptVariant?: number;     // Index into PROMPT_VARIANTS; 0 is the standard prompt
+  sample?: number;            // Position of the call in an ensemble run, from 0
+  signal?: AbortSignal;       // Cancels the request
+}
+
+// One turn of a follow-up conversation about an analysed image
+export interface ChatMessage {
+  role: 'analyst' | 'detective';
+  text: string;
+  region?: ImageRegion;       // Place on the image the question points at; a clicked point has zero size
+  rescored?: boolean;         // The answer came with new scores, which replaced the result's
+  sentAt: string;             // ISO 8601
+}
+
+export interface ChatReply {
+  text: string;
+  result?: AnalysisResult;    // Present when re-scoring was asked for
+}
+
+export interface AnalysisProvider {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapabilities;
+  config: ProviderConfig;
+  // tools: the enabled catalog entries to score
+  analyze(image: ImageSource, tools: ToolCatalogEntry[], options?: AnalyzeCallOptions): Promise<AnalysisResult>;
+  compare(reference: ImageSource, suspect: ImageSource, signal?: AbortSignal): Promise<ComparisonAnalysis>;
+  // history: earlier turns, oldest first; question: the new analyst turn
+  chat(image: ImageSource, tools: ToolCatalogEntry[], prior: AnalysisResult, history: ChatMessage[], question: ChatMessage, rescore: boolean, signal?: AbortSignal): Promise<ChatReply>;
+}
+
 export enum AnalysisState {
   IDLE = 'IDLE',
   ANALYZING = 'ANALYZING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// Bundles the command-line tool for Node; dependencies stay external and load from node_modules
+export default defineConfig({
+  build: {
+    ssr: 'cli/photo-detective.ts',
+    outDir: 'dist/cli',
+    emptyOutDir: true,
+    target: 'node20',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'photo-detective.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});
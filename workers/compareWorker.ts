@@ -0,0 +1,98 @@
+import { PixelComparison } from '../types';
+import { ALIGNMENT_MAX_DIMENSION, diffAlignedImages, estimateAlignment, GrayImage } from '../services/imageAlignment';
+import { toGrayscale } from '../services/copyMoveDetector';
+
+/**
+ * Compare worker: aligns the suspect with the reference, renders both into the suspect's frame
+ * and computes their difference map.
+ */
+
+export interface CompareRequest {
+  reference: Blob;
+  suspect: Blob;
+}
+
+export type CompareResponse =
+  | ({ type: 'result' } & PixelComparison)
+  | { type: 'error'; message: string };
+
+// Longest side of the aligned images handed back for viewing
+const OUTPUT_MAX_DIMENSION = 1024;
+
+const context = (width: number, height: number) => {
+  const ctx = new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+  ctx.imageSmoothingQuality = 'high';
+  return ctx;
+};
+
+const toGrayImage = (bitmap: ImageBitmap): GrayImage => {
+  const scale = Math.min(1, ALIGNMENT_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = context(width, height);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return { data: toGrayscale(ctx.getImageData(0, 0, width, height).data, width, height), width, height };
+};
+
+const runCompare = async ({ reference, suspect }: CompareRequest): Promise<PixelComparison> => {
+  const [referenceBitmap, suspectBitmap] = await Promise.all([
+    createImageBitmap(reference, { imageOrientation: 'from-image' }),
+    createImageBitmap(suspect, { imageOrientation: 'from-image' }),
+  ]);
+
+  const estimate = estimateAlignment(toGrayImage(referenceBitmap), toGrayImage(suspectBitmap));
+  const region = estimate.referenceRegion;
+
+  const scale = Math.min(1, OUTPUT_MAX_DIMENSION / Math.max(suspectBitmap.width, suspectBitmap.height));
+  const width = Math.max(1, Math.round(suspectBitmap.width * scale));
+  const height = Math.max(1, Math.round(suspectBitmap.height * scale));
+
+  const referenceCtx = context(width, height);
+  referenceCtx.drawImage(
+    referenceBitmap,
+    region.x * referenceBitmap.width,
+    region.y * referenceBitmap.height,
+    region.width * referenceBitmap.width,
+    region.height * referenceBitmap.height,
+    0, 0, width, height
+  );
+  const suspectCtx = context(width, height);
+  suspectCtx.drawImage(suspectBitmap, 0, 0, width, height);
+
+  const difference = diffAlignedImages(
+    referenceCtx.getImageData(0, 0, width, height).data,
+    suspectCtx.getImageData(0, 0, width, height).data,
+    width,
+    height
+  );
+  const heatmapCtx = context(width, height);
+  heatmapCtx.putImageData(new ImageData(difference.heatmap, width, height), 0, 0);
+
+  const alignment = {
+    ...estimate,
+    scale: suspectBitmap.width / (region.width * referenceBitmap.width),
+  };
+  referenceBitmap.close();
+  suspectBitmap.close();
+
+  return {
+    alignment,
+    width,
+    height,
+    reference: referenceCtx.canvas.transferToImageBitmap(),
+    suspect: suspectCtx.canvas.transferToImageBitmap(),
+    heatmap: heatmapCtx.canvas.transferToImageBitmap(),
+    changedRegions: difference.changedRegions,
+    changedFraction: difference.changedFraction,
+  };
+};
+
+self.addEventListener('message', async (event: MessageEvent<CompareRequest>) => {
+  try {
+    const result = await runCompare(event.data);
+    self.postMessage({ type: 'result', ...result } satisfies CompareResponse, { transfer: [result.reference, result.suspect, result.heatmap] });
+  } catch (err: any) {
+    self.postMessage({ type: 'error', message: err?.message || 'Image comparison failed' } satisfies CompareResponse);
+  }
+});
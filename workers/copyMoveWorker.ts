@@ -0,0 +1,40 @@
+import { CopyMoveResult } from '../types';
+import { ANALYSIS_MAX_DIMENSION, detectCopyMove, toGrayscale } from '../services/copyMoveDetector';
+
+/**
+ * Copy-move detection worker: decodes and downscales the image, then runs the block matcher.
+ */
+
+export interface CopyMoveRequest {
+  file: Blob;
+}
+
+export type CopyMoveResponse =
+  | ({ type: 'result' } & CopyMoveResult)
+  | { type: 'error'; message: string };
+
+const runCopyMove = async ({ file }: CopyMoveRequest): Promise<CopyMoveResult> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, ANALYSIS_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  return detectCopyMove(toGrayscale(pixels, width, height), width, height);
+};
+
+self.addEventListener('message', async (event: MessageEvent<CopyMoveRequest>) => {
+  try {
+    const result = await runCopyMove(event.data);
+    self.postMessage({ type: 'result', ...result } satisfies CopyMoveResponse);
+  } catch (err: any) {
+    self.postMessage({ type: 'error', message: err?.message || 'Copy-move detection failed' } satisfies CopyMoveResponse);
+  }
+});
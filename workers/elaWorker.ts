@@ -0,0 +1,118 @@
+/**
+ * Error Level Analysis worker.
+ *
+ * Decodes the image, re-encodes it as JPEG at the requested quality and returns the
+ * amplified per-pixel difference as a colourised heatmap. Regions that were pasted in or
+ * edited after the last save tend to recompress differently from the rest of the image.
+ * Everything runs on OffscreenCanvas so 24MP+ images never block the UI thread.
+ */
+
+export interface ElaRequest {
+  file: Blob;
+  quality: number; // 0-100
+}
+
+export type ElaResponse =
+  | { type: 'result'; heatmap: ImageBitmap; width: number; height: number; meanError: number; maxError: number; scale: number }
+  | { type: 'error'; message: string };
+
+// Differences above this percentile saturate the colour map, so a few hot pixels don't wash out the rest
+const SATURATION_PERCENTILE = 0.995;
+
+const readPixels = (bitmap: ImageBitmap): Uint8ClampedArray => {
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+  ctx.drawImage(bitmap, 0, 0);
+  return ctx.getImageData(0, 0, bitmap.width, bitmap.height).data;
+};
+
+/**
+ * Maps 0-1 to a transparent → blue → cyan → yellow → red ramp.
+ */
+const colourise = (t: number, out: Uint8ClampedArray, offset: number) => {
+  const stops = [
+    [0, 0, 80],
+    [0, 200, 255],
+    [255, 230, 0],
+    [255, 0, 0],
+  ];
+  const position = t * (stops.length - 1);
+  const index = Math.min(stops.length - 2, Math.floor(position));
+  const f = position - index;
+  for (let c = 0; c < 3; c++) {
+    out[offset + c] = stops[index][c] + (stops[index + 1][c] - stops[index][c]) * f;
+  }
+  // Low error stays see-through so the photo remains visible under the overlay
+  out[offset + 3] = Math.min(255, t * 320);
+};
+
+const runEla = async ({ file, quality }: ElaRequest): Promise<ElaResponse> => {
+  const original = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const { width, height } = original;
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+  ctx.drawImage(original, 0, 0);
+  const recompressedBlob = await canvas.convertToBlob({ type: 'image/jpeg', quality: quality / 100 });
+  const recompressed = await createImageBitmap(recompressedBlob);
+
+  const before = readPixels(original);
+  const after = readPixels(recompressed);
+  original.close();
+  recompressed.close();
+
+  // Per-pixel error is the largest channel difference
+  const pixelCount = width * height;
+  const errors = new Uint8Array(pixelCount);
+  const histogram = new Uint32Array(256);
+  let total = 0;
+  let maxError = 0;
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    const error = Math.max(
+      Math.abs(before[i] - after[i]),
+      Math.abs(before[i + 1] - after[i + 1]),
+      Math.abs(before[i + 2] - after[i + 2])
+    );
+    errors[p] = error;
+    histogram[error]++;
+    total += error;
+    if (error > maxError) maxError = error;
+  }
+
+  let saturation = 1;
+  for (let value = 0, seen = 0; value < 256; value++) {
+    seen += histogram[value];
+    if (seen >= pixelCount * SATURATION_PERCENTILE) {
+      saturation = Math.max(1, value);
+      break;
+    }
+  }
+
+  const heatmap = new ImageData(width, height);
+  for (let p = 0; p < pixelCount; p++) {
+    colourise(Math.min(1, errors[p] / saturation), heatmap.data, p * 4);
+  }
+  const output = new OffscreenCanvas(width, height);
+  output.getContext('2d')!.putImageData(heatmap, 0, 0);
+
+  return {
+    type: 'result',
+    heatmap: output.transferToImageBitmap(),
+    width,
+    height,
+    meanError: total / pixelCount,
+    maxError,
+    scale: 255 / saturation,
+  };
+};
+
+self.addEventListener('message', async (event: MessageEvent<ElaRequest>) => {
+  try {
+    const response = await runEla(event.data);
+    self.postMessage(response, { transfer: response.type === 'result' ? [response.heatmap] : [] });
+  } catch (err: any) {
+    self.postMessage({ type: 'error', message: err?.message || 'Error level analysis failed' } satisfies ElaResponse);
+  }
+});
@@ -0,0 +1,41 @@
+import { PerceptualHashes } from '../types';
+import { toGrayscale } from '../services/copyMoveDetector';
+import { HASH_MAX_DIMENSION, computePerceptualHashes } from '../services/perceptualHash';
+
+/**
+ * Perceptual hash worker: decodes and downscales the image, then computes its hashes.
+ */
+
+export interface PerceptualHashRequest {
+  file: Blob;
+}
+
+export type PerceptualHashResponse =
+  | ({ type: 'result' } & PerceptualHashes)
+  | { type: 'error'; message: string };
+
+const runHash = async ({ file }: PerceptualHashRequest): Promise<PerceptualHashes> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, HASH_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const pixels = ctx.getImageData(0, 0, width, height).data;
+  return computePerceptualHashes({ data: toGrayscale(pixels, width, height), width, height });
+};
+
+self.addEventListener('message', async (event: MessageEvent<PerceptualHashRequest>) => {
+  try {
+    const result = await runHash(event.data);
+    self.postMessage({ type: 'result', ...result } satisfies PerceptualHashResponse);
+  } catch (err: any) {
+    self.postMessage({ type: 'error', message: err?.message || 'Perceptual hashing failed' } satisfies PerceptualHashResponse);
+  }
+});
@@ -0,0 +1,92 @@
+/**
+ * Upload preprocessing worker.
+ *
+ * Decodes the image, applies its orientation, scales it down to the pixel budget and encodes
+ * it as JPEG, lowering the quality and then the size until it also fits the byte budget.
+ * When the original may be kept and already fits, it only reports the decoded size.
+ */
+
+export interface PreprocessRequest {
+  file: Blob;
+  // EXIF orientation to apply by hand, for RAW previews that do not carry their own;
+  // null lets the decoder apply whatever orientation the file declares
+  orientation: number | null;
+  maxDimension: number;
+  maxBytes: number;
+  // The file is already in an accepted format, within the byte budget and upright, so it can be
+  // sent untouched if its pixel size also fits
+  keepIfWithinBudget: boolean;
+}
+
+export type PreprocessResponse =
+  | { type: 'result'; blob: Blob | null; width: number; height: number; sourceWidth: number; sourceHeight: number; quality: number | null }
+  | { type: 'error'; message: string };
+
+const QUALITIES = [0.92, 0.85, 0.75, 0.65];
+// Each further attempt shrinks the long edge by this factor
+const SHRINK_FACTOR = 0.8;
+const MAX_SHRINKS = 8;
+
+/**
+ * Draws the bitmap at the given output size with the EXIF orientation applied. Orientations
+ * 5-8 swap width and height, so the output size is that of the upright image.
+ */
+const render = (bitmap: ImageBitmap, orientation: number, width: number, height: number): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('OffscreenCanvas 2D context is not available');
+  // JPEG has no alpha; transparent areas become white rather than black
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.imageSmoothingQuality = 'high';
+  const transposed = orientation >= 5;
+  const w = transposed ? height : width;
+  const h = transposed ? width : height;
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(bitmap, 0, 0, w, h);
+  return canvas;
+};
+
+const preprocess = async ({ file, orientation, maxDimension, maxBytes, keepIfWithinBudget }: PreprocessRequest): Promise<PreprocessResponse> => {
+  const manual = orientation !== null && orientation >= 1 && orientation <= 8 ? orientation : 1;
+  const bitmap = await createImageBitmap(file, { imageOrientation: orientation === null ? 'from-image' : 'none' });
+  const sourceWidth = manual >= 5 ? bitmap.height : bitmap.width;
+  const sourceHeight = manual >= 5 ? bitmap.width : bitmap.height;
+
+  if (keepIfWithinBudget && Math.max(sourceWidth, sourceHeight) <= maxDimension) {
+    bitmap.close();
+    return { type: 'result', blob: null, width: sourceWidth, height: sourceHeight, sourceWidth, sourceHeight, quality: null };
+  }
+
+  let scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+  for (let attempt = 0; attempt <= MAX_SHRINKS; attempt++, scale *= SHRINK_FACTOR) {
+    const width = Math.max(1, Math.round(sourceWidth * scale));
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    const canvas = render(bitmap, manual, width, height);
+    for (const quality of QUALITIES) {
+      const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+      if (blob.size <= maxBytes) {
+        bitmap.close();
+        return { type: 'result', blob, width, height, sourceWidth, sourceHeight, quality };
+      }
+    }
+  }
+  bitmap.close();
+  throw new Error(`Could not fit the image into ${maxBytes} bytes`);
+};
+
+self.addEventListener('message', async (event: MessageEvent<PreprocessRequest>) => {
+  try {
+    self.postMessage(await preprocess(event.data));
+  } catch (err: any) {
+    self.postMessage({ type: 'error', message: err?.message || 'Image preprocessing failed' } satisfies PreprocessResponse);
+  }
+});